@@ -9,8 +9,16 @@ import { AppLayout } from "@/components/layout/AppLayout";
 import RootGate from "./pages/RootGate";
 import Home from "./pages/Home";
 import Journal from "./pages/Journal";
+import Symptoms from "./pages/Symptoms";
+import Medications from "./pages/Medications";
+import Vitals from "./pages/Vitals";
+import Trackers from "./pages/Trackers";
+import TrackerDetails from "./pages/TrackerDetails";
+import Questions from "./pages/Questions";
+import HistoryWizard from "./pages/HistoryWizard";
 import Timeline from "./pages/Timeline";
 import EventDetails from "./pages/EventDetails";
+import Search from "./pages/Search";
 import Documents from "./pages/Documents";
 import Sources from "./pages/Sources";
 import SourceDetails from "./pages/SourceDetails";
@@ -40,6 +48,14 @@ const App = () => (
           <Route path="/journal" element={<AppLayout><Journal /></AppLayout>} />
           <Route path="/timeline" element={<AppLayout><Timeline /></AppLayout>} />
           <Route path="/event/:id" element={<AppLayout><EventDetails /></AppLayout>} />
+          <Route path="/medications" element={<AppLayout><Medications /></AppLayout>} />
+          <Route path="/symptoms" element={<AppLayout><Symptoms /></AppLayout>} />
+          <Route path="/vitals" element={<AppLayout><Vitals /></AppLayout>} />
+          <Route path="/trackers" element={<AppLayout><Trackers /></AppLayout>} />
+          <Route path="/trackers/:id" element={<AppLayout><TrackerDetails /></AppLayout>} />
+          <Route path="/questions" element={<AppLayout><Questions /></AppLayout>} />
+          <Route path="/history/new" element={<AppLayout><HistoryWizard /></AppLayout>} />
+          <Route path="/search" element={<AppLayout><Search /></AppLayout>} />
           <Route path="/documents" element={<AppLayout><Documents /></AppLayout>} />
           <Route path="/sources" element={<AppLayout><Sources /></AppLayout>} />
           <Route path="/sources/:id" element={<AppLayout><SourceDetails /></AppLayout>} />
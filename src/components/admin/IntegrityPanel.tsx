@@ -0,0 +1,128 @@
+import { useMutation } from "@tanstack/react-query";
+import { ShieldCheck, ShieldAlert, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+
+/**
+ * Integrity Panel
+ *
+ * Recomputes the tamper-evident hash chains over the current user's
+ * timeline_events and audit_events (see verify_hash_chains) and reports
+ * the first broken link in each chain.
+ *
+ * GUARDRAIL: No PHI in logs
+ * - Results contain row IDs, positions and counts only
+ */
+
+type ChainResult = {
+  chain_name: string;
+  rows_checked: number;
+  is_valid: boolean;
+  broken_row_id: string | null;
+  broken_seq: number | null;
+  failure_reason: string | null;
+};
+
+const CHAIN_LABELS: Record<string, string> = {
+  timeline_events: "Timeline Events",
+  audit_events: "Audit Events",
+};
+
+const FAILURE_LABELS: Record<string, string> = {
+  missing_row: "A row is missing from the chain",
+  broken_link: "A row does not link to the previous row",
+  content_mismatch: "A row's content was changed after it was written",
+};
+
+export const IntegrityPanel = () => {
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      safeLog.info("Admin: Verifying hash chains", { action: "admin_integrity_verify" });
+
+      const { data, error } = await supabase.rpc("verify_hash_chains");
+
+      if (error) {
+        safeLog.error("Admin: Failed to verify hash chains", {
+          action: "admin_integrity_error",
+          errorType: error.code,
+        });
+        throw error;
+      }
+
+      const results = (data ?? []) as ChainResult[];
+      safeLog.info("Admin: Hash chains verified", {
+        action: "admin_integrity_result",
+        count: results.filter((result) => !result.is_valid).length,
+      });
+
+      return results;
+    },
+  });
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold">Verify Integrity</h2>
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          onClick={() => verifyMutation.mutate()}
+          disabled={verifyMutation.isPending}
+        >
+          {verifyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Verify integrity
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Every event and audit record is hashed together with the record before it.
+        Verification recomputes each chain and stops at the first broken link.
+      </p>
+
+      {verifyMutation.isError && (
+        <p className="text-sm text-destructive">Verification failed. Please try again.</p>
+      )}
+
+      {verifyMutation.data && (
+        <div className="space-y-2">
+          {verifyMutation.data.map((result) => (
+            <div
+              key={result.chain_name}
+              className={`rounded px-3 py-2 text-sm ${
+                result.is_valid ? "bg-green-500/10" : "bg-destructive/10"
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  {result.is_valid ? (
+                    <ShieldCheck className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <ShieldAlert className="h-4 w-4 text-destructive" />
+                  )}
+                  <span className="font-medium">
+                    {CHAIN_LABELS[result.chain_name] || result.chain_name}
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {result.rows_checked} rows checked
+                </span>
+              </div>
+              {!result.is_valid && (
+                <p className="mt-1 text-xs text-destructive">
+                  {FAILURE_LABELS[result.failure_reason ?? ""] || "Chain is broken"} at position{" "}
+                  {result.broken_seq}
+                  {result.broken_row_id && (
+                    <span className="font-mono"> ({result.broken_row_id.slice(0, 8)}...)</span>
+                  )}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
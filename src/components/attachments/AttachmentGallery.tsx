@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { AttachmentThumbnail } from "./AttachmentThumbnail";
+import type { EventAttachment } from "@/hooks/use-event-attachments";
+
+interface AttachmentGalleryProps {
+  attachments: EventAttachment[];
+}
+
+/**
+ * Grid of photo attachments; a photo opens full size in a dialog.
+ */
+export function AttachmentGallery({ attachments }: AttachmentGalleryProps) {
+  const [open, setOpen] = useState<EventAttachment | null>(null);
+
+  return (
+    <>
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {attachments.map((attachment) => (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => setOpen(attachment)}
+            className="rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            aria-label="View photo"
+          >
+            <AttachmentThumbnail attachment={attachment} className="aspect-square w-full" />
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={open !== null} onOpenChange={(isOpen) => !isOpen && setOpen(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogTitle className="sr-only">Photo</DialogTitle>
+          {open && <AttachmentThumbnail attachment={open} fit="contain" className="h-[70vh] w-full" />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
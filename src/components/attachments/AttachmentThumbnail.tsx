@@ -0,0 +1,41 @@
+import { useState } from "react";
+import { ImageOff, Loader2, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import { useAttachmentImage, type EventAttachment } from "@/hooks/use-event-attachments";
+
+interface AttachmentThumbnailProps {
+  attachment: EventAttachment;
+  className?: string;
+  /** object-cover crops to the box; object-contain shows the whole photo */
+  fit?: "cover" | "contain";
+}
+
+/**
+ * A photo attachment, loaded through the download proxy. Formats the
+ * browser can't display (e.g. HEIC in most browsers) show a placeholder,
+ * as do encrypted photos while documents are locked.
+ */
+export function AttachmentThumbnail({ attachment, className, fit = "cover" }: AttachmentThumbnailProps) {
+  const { url, isLoading, error } = useAttachmentImage(attachment.id);
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className={cn("flex items-center justify-center overflow-hidden rounded-md bg-muted", className)}>
+      {url && !failed ? (
+        <img
+          src={url}
+          alt={attachment.title || "Attached photo"}
+          className={cn("h-full w-full", fit === "cover" ? "object-cover" : "object-contain")}
+          onError={() => setFailed(true)}
+        />
+      ) : isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : error instanceof DocumentsLockedError ? (
+        <Lock className="h-4 w-4 text-muted-foreground" aria-label="Photo is encrypted" />
+      ) : (
+        <ImageOff className="h-4 w-4 text-muted-foreground" aria-label="Photo can't be displayed" />
+      )}
+    </div>
+  );
+}
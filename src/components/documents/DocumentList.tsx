@@ -1,18 +1,21 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
+import { downloadDocument } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
 import { format } from "date-fns";
-import { FileText, Download, Loader2 } from "lucide-react";
+import { FileText, Download, Eye, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { useRef } from "react";
+import { useRef, useState } from "react";
+import { DocumentViewer } from "@/components/documents/DocumentViewer";
 
 /**
  * Document List Component
  * 
  * GUARDRAIL: No PHI in logs
  * GUARDRAIL: User isolation via RLS
- * GUARDRAIL: Secure download via Edge Function proxy
+ * GUARDRAIL: Secure download and inline viewing via Edge Function proxy
  */
 
 interface DocumentArtifact {
@@ -25,6 +28,7 @@ interface DocumentArtifact {
   file_size: number | null;
   original_filename: string | null;
   created_at: string;
+  version: number;
 }
 
 const DOC_TYPE_LABELS: Record<string, string> = {
@@ -36,19 +40,11 @@ const DOC_TYPE_LABELS: Record<string, string> = {
   other: "Other",
 };
 
-/**
- * Build the Edge Function URL for document download.
- * Uses the proxy to avoid browser/extension blocking of signed URLs.
- */
-const getDocumentDownloadUrl = (artifactId: string): string => {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-  return `${supabaseUrl}/functions/v1/documents-download?artifact_id=${encodeURIComponent(artifactId)}`;
-};
-
 export function DocumentList() {
   const { toast } = useToast();
   const downloadFormRef = useRef<HTMLFormElement>(null);
   const downloadIframeRef = useRef<HTMLIFrameElement>(null);
+  const [viewingArtifactId, setViewingArtifactId] = useState<string | null>(null);
 
   const { data: documents, isLoading, error } = useQuery({
     queryKey: ["document-artifacts"],
@@ -57,7 +53,8 @@ export function DocumentList() {
 
       const { data, error } = await supabase
         .from("document_artifacts")
-        .select("id, title, doc_type, occurred_at, storage_path, content_type, file_size, original_filename, created_at")
+        .select("id, title, doc_type, occurred_at, storage_path, content_type, file_size, original_filename, created_at, version")
+        .is("attached_to_event_id", null) // journal photos are shown on their entry
         .order("created_at", { ascending: false });
 
       if (error) {
@@ -79,50 +76,7 @@ export function DocumentList() {
 
   const handleDownloadDocument = async (artifactId: string) => {
     try {
-      // Get current session for auth header
-      const { data: session } = await supabase.auth.getSession();
-      if (!session.session) {
-        toast({
-          variant: "destructive",
-          title: "Not authenticated",
-          description: "Please sign in to download documents.",
-        });
-        return;
-      }
-
-      const downloadUrl = getDocumentDownloadUrl(artifactId);
-      
-      // Use fetch to download with auth header, then trigger browser download
-      const response = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${session.session.access_token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status}`);
-      }
-
-      // Get filename from Content-Disposition header if available
-      const contentDisposition = response.headers.get("Content-Disposition");
-      let filename = "document";
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (match) {
-          filename = match[1];
-        }
-      }
-
-      // Create blob and trigger download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      await downloadDocument(artifactId);
 
       safeLog.info("Document downloaded", {
         action: "document_download_success",
@@ -136,7 +90,10 @@ export function DocumentList() {
       toast({
         variant: "destructive",
         title: "Unable to download document",
-        description: "Please try again.",
+        description:
+          error instanceof DocumentsLockedError
+            ? "This document is encrypted. Unlock your documents in Settings first."
+            : "Please try again.",
       });
     }
   };
@@ -191,6 +148,11 @@ export function DocumentList() {
                   <span className="inline-block rounded-full bg-secondary px-2 py-0.5 text-xs">
                     {DOC_TYPE_LABELS[doc.doc_type || "other"] || doc.doc_type}
                   </span>
+                  {doc.version > 1 && (
+                    <span className="inline-block rounded-full bg-accent/10 px-2 py-0.5 text-xs text-accent-foreground">
+                      Version {doc.version}
+                    </span>
+                  )}
                   {doc.occurred_at && (
                     <span>{format(new Date(doc.occurred_at), "MMM d, yyyy")}</span>
                   )}
@@ -200,18 +162,21 @@ export function DocumentList() {
                 </div>
               </div>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => handleDownloadDocument(doc.id)}
-              className="flex-shrink-0"
-            >
-              <Download className="h-4 w-4 mr-1" />
-              Download
-            </Button>
+            <div className="flex flex-shrink-0 gap-1">
+              <Button variant="ghost" size="sm" onClick={() => setViewingArtifactId(doc.id)}>
+                <Eye className="h-4 w-4 mr-1" />
+                View
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDownloadDocument(doc.id)}>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
+            </div>
           </div>
         </div>
       ))}
+
+      <DocumentViewer artifactId={viewingArtifactId} onClose={() => setViewingArtifactId(null)} />
     </div>
   );
 }
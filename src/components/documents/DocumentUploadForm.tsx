@@ -1,17 +1,22 @@
 import { useState, useRef } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { supabase } from "@/integrations/supabase/client";
+import { useQueryClient } from "@tanstack/react-query";
 import { safeLog } from "@/lib/safe-logger";
+import { documentFileError } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
 import {
-  requireUserId,
-  getOrCreateDataSource,
-  getOrCreateDefaultConsentSnapshot,
-} from "@/lib/write-helpers";
+  createDocumentImport,
+  runDocumentImport,
+  type DocumentImportFile,
+  type ImportItemProgress,
+} from "@/lib/document-import";
+import { DOC_TYPES as DOC_TYPE_VALUES } from "@/lib/event-registry";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
 import {
   Select,
   SelectContent,
@@ -27,18 +32,28 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { UnlockDocumentsDialog } from "@/components/encryption/UnlockDocumentsDialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Upload, FileText, X } from "lucide-react";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { AlertCircle, CheckCircle2, Loader2, RotateCw, Upload, FileText, X } from "lucide-react";
 
 /**
  * Document Upload Form Component
- * 
+ *
+ * Uploads one or more files (picked or dropped). Type, date and notes
+ * set once apply to every file; each file can override its title, type
+ * and date. The batch is tracked as a 'data_import' job with a status
+ * per file, and files that fail can be retried on their own.
+ *
  * GUARDRAIL: No PHI in logs
  * - Only log IDs, file types, and sizes
  * - Never log filenames or document content
- * 
+ *
  * GUARDRAIL: Event-first data model
- * - Creates immutable document artifact with provenance
+ * - Creates an immutable document artifact with provenance per file
+ *
+ * Files are encrypted in the browser before upload when the user has
+ * turned on document encryption; the form asks to unlock if needed.
  */
 
 const DOC_TYPES = [
@@ -50,20 +65,22 @@ const DOC_TYPES = [
   { value: "other", label: "Other" },
 ] as const;
 
-const ACCEPTED_FILE_TYPES = [
-  "application/pdf",
-  "image/png",
-  "image/jpeg",
-  "image/heic",
-];
+// Radix Select items cannot have an empty value
+const USE_DEFAULT = "default";
+const MAX_FILES = 50;
 
-const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const fileSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200, "Title must be under 200 characters"),
+  docType: z.union([z.enum(DOC_TYPE_VALUES), z.literal(USE_DEFAULT)]),
+  /** Empty for the default date */
+  documentDate: z.string(),
+});
 
 const uploadSchema = z.object({
-  title: z.string().min(1, "Title is required").max(200, "Title must be under 200 characters"),
-  docType: z.string().min(1, "Document type is required"),
+  docType: z.enum(DOC_TYPE_VALUES, { errorMap: () => ({ message: "Document type is required" }) }),
   documentDate: z.string().min(1, "Document date is required"),
   notes: z.string().max(500, "Notes must be under 500 characters").optional(),
+  files: z.array(fileSchema).min(1, "Please select at least one file"),
 });
 
 type UploadFormData = z.infer<typeof uploadSchema>;
@@ -73,377 +90,445 @@ interface DocumentUploadFormProps {
   onCancel: () => void;
 }
 
+const docTypeLabel = (value: string) => DOC_TYPES.find((t) => t.value === value)?.label || value;
+
 export function DocumentUploadForm({ onSuccess, onCancel }: DocumentUploadFormProps) {
   const { toast } = useToast();
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const queryClient = useQueryClient();
+  const { timeZone, toDateInput, fromInput } = useTimeZone();
+  const [files, setFiles] = useState<File[]>([]);
   const [fileError, setFileError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<Record<number, ImportItemProgress>>({});
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set once the batch's job exists; its files and metadata are then fixed
+  const importRef = useRef<{ jobId: string; files: DocumentImportFile[] } | null>(null);
 
   const form = useForm<UploadFormData>({
     resolver: zodResolver(uploadSchema),
     defaultValues: {
-      title: "",
-      docType: "",
-      documentDate: new Date().toISOString().slice(0, 10),
+      docType: undefined,
+      documentDate: toDateInput(),
       notes: "",
+      files: [],
     },
   });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "files" });
+  const defaultDocType = form.watch("docType");
+  const isStarted = importRef.current !== null;
+
+  const addFiles = (selected: File[]) => {
+    const accepted = selected.filter((file) => !documentFileError(file)).slice(0, MAX_FILES - files.length);
+    const skipped = selected.length - accepted.length;
+    setFileError(
+      skipped > 0
+        ? `${skipped} file${skipped === 1 ? " was" : "s were"} skipped: only PDF or image files (PNG, JPG, HEIC) under 20MB, up to ${MAX_FILES} at a time`
+        : null
+    );
+    if (accepted.length === 0) return;
+
+    setFiles((prev) => [...prev, ...accepted]);
+    append(
+      accepted.map((file) => ({
+        title: file.name.replace(/\.[^/.]+$/, "").slice(0, 200),
+        docType: USE_DEFAULT,
+        documentDate: "",
+      }))
+    );
+    form.clearErrors("files");
+  };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    setFileError(null);
-
-    if (!file) {
-      setSelectedFile(null);
-      return;
-    }
-
-    // Validate file type
-    if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
-      setFileError("Please select a PDF or image file (PNG, JPG, HEIC)");
-      setSelectedFile(null);
-      return;
-    }
-
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      setFileError("File must be under 20MB");
-      setSelectedFile(null);
-      return;
-    }
-
-    setSelectedFile(file);
-    // Auto-fill title from filename if empty
-    if (!form.getValues("title")) {
-      const nameWithoutExt = file.name.replace(/\.[^/.]+$/, "");
-      form.setValue("title", nameWithoutExt);
-    }
+    addFiles(Array.from(event.target.files ?? []));
+    event.target.value = "";
   };
 
-  const clearFile = () => {
-    setSelectedFile(null);
-    setFileError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!isStarted) {
+      addFiles(Array.from(event.dataTransfer.files));
     }
   };
 
-  const onSubmit = async (data: UploadFormData) => {
-    if (!selectedFile) {
-      setFileError("Please select a file to upload");
-      return;
-    }
-
-    setIsSubmitting(true);
-    safeLog.info("Document upload started", { action: "document_upload_start" });
+  const removeFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+    remove(index);
+  };
 
-    let storagePath: string | null = null;
+  const runImport = async (indexes: number[]) => {
+    const batch = importRef.current;
+    if (!batch || indexes.length === 0) return;
 
+    setIsRunning(true);
     try {
-      // Use shared helpers for user ID, data source, and consent
-      const userId = await requireUserId();
-      const dataSourceId = await getOrCreateDataSource(userId, "upload", "User Upload");
-      const consentSnapshotId = await getOrCreateDefaultConsentSnapshot(userId);
-
-      // Upload file to storage
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, "0");
-      const uniqueId = crypto.randomUUID();
-      const safeFilename = selectedFile.name.replace(/[^a-zA-Z0-9.-]/g, "_");
-      storagePath = `${userId}/${year}/${month}/${uniqueId}-${safeFilename}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("documents")
-        .upload(storagePath, selectedFile, {
-          contentType: selectedFile.type,
-          upsert: false,
+      const status = await runDocumentImport(batch.jobId, batch.files, indexes, (index, update) =>
+        setProgress((prev) => ({ ...prev, [index]: update }))
+      );
+
+      if (status === "complete") {
+        toast({
+          title: batch.files.length === 1 ? "Document uploaded" : `${batch.files.length} documents uploaded`,
+          description: "Your documents have been saved.",
         });
+        onSuccess();
+        return;
+      }
 
-      if (uploadError) throw uploadError;
-
-      safeLog.info("File uploaded to storage", {
-        action: "storage_upload_success",
-        resourceType: "document",
-      });
-
-      // Create provenance record (no PHI in metadata)
-      const { data: provenance, error: provError } = await supabase
-        .from("provenance")
-        .insert({
-          data_source_id: dataSourceId,
-          method: "upload",
-          captured_at: new Date().toISOString(),
-          metadata: {
-            doc_type: data.docType,
-            mime: selectedFile.type,
-            size_bytes: selectedFile.size,
-          },
-        })
-        .select("id")
-        .single();
-
-      if (provError) throw provError;
-
-      // Create document artifact
-      const { data: artifact, error: artifactError } = await supabase
-        .from("document_artifacts")
-        .insert({
-          user_id: userId,
-          title: data.title,
-          doc_type: data.docType,
-          occurred_at: new Date(data.documentDate).toISOString(),
-          storage_path: storagePath,
-          content_type: selectedFile.type,
-          file_size: selectedFile.size,
-          original_filename: selectedFile.name,
-          provenance_id: provenance.id,
-        })
-        .select("id")
-        .single();
-
-      if (artifactError) throw artifactError;
-
-      // Create timeline event
-      const docTypeLabel = DOC_TYPES.find((t) => t.value === data.docType)?.label || data.docType;
-      
-      const { data: timelineEvent, error: eventError } = await supabase
-        .from("timeline_events")
-        .insert({
-          user_id: userId,
-          event_type: "document_uploaded",
-          event_time: new Date(data.documentDate).toISOString(),
-          title: data.title,
-          summary: `Uploaded ${docTypeLabel} document`,
-          details: {
-            document_artifact_id: artifact.id,
-            doc_type: data.docType,
-            notes: data.notes || null,
-          },
-          provenance_id: provenance.id,
-          consent_snapshot_id: consentSnapshotId,
-        })
-        .select("id")
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Create audit event (IDs only)
-      await supabase.from("audit_events").insert({
-        user_id: userId,
-        action: "document_uploaded",
-        entity_type: "document_artifact",
-        entity_id: artifact.id,
-      });
-
-      safeLog.info("Document upload completed", {
-        action: "document_upload_success",
-        id: artifact.id,
-        resourceType: "document_artifact",
-      });
-
+      queryClient.invalidateQueries({ queryKey: ["document-artifacts"] });
+      queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
       toast({
-        title: "Document uploaded",
-        description: "Your document has been saved.",
+        variant: "destructive",
+        title: "Some files didn't upload",
+        description: "The others were saved. Retry the failed files below.",
       });
-
-      onSuccess();
     } catch (error) {
-      safeLog.error("Document upload failed", {
-        action: "document_upload_error",
-        errorType: error instanceof Error ? error.name : "unknown",
-      });
-
-      // Attempt cleanup if file was uploaded but DB insert failed
-      if (storagePath) {
-        try {
-          await supabase.storage.from("documents").remove([storagePath]);
-          safeLog.info("Cleaned up orphaned file", { action: "storage_cleanup" });
-        } catch {
-          safeLog.warn("Failed to cleanup orphaned file", { action: "storage_cleanup_failed" });
-        }
+      if (error instanceof DocumentsLockedError) {
+        setIsUnlockOpen(true);
+        return;
       }
 
+      safeLog.error("Document import failed", {
+        action: "document_import_error",
+        jobId: batch.jobId,
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
       toast({
         variant: "destructive",
         title: "Upload failed",
         description: "Please try again or check your connection.",
       });
     } finally {
-      setIsSubmitting(false);
+      setIsRunning(false);
     }
   };
 
+  const onSubmit = async (data: UploadFormData) => {
+    if (!importRef.current) {
+      const entries: DocumentImportFile[] = files.map((file, index) => {
+        const item = data.files[index];
+        const docType = item.docType === USE_DEFAULT ? data.docType : item.docType;
+        return {
+          file,
+          title: item.title,
+          docType,
+          // Start of the document's day in the display zone, not UTC midnight
+          documentTime: fromInput(item.documentDate || data.documentDate),
+          timeZone,
+          notes: data.notes || null,
+          summary: `Uploaded ${docTypeLabel(docType)} document`,
+        };
+      });
+
+      try {
+        const jobId = await createDocumentImport(entries);
+        importRef.current = { jobId, files: entries };
+      } catch {
+        // Logged by createDocumentImport
+        toast({
+          variant: "destructive",
+          title: "Upload failed",
+          description: "Please try again or check your connection.",
+        });
+        return;
+      }
+    }
+
+    await runImport(files.map((_, index) => index).filter((index) => progress[index]?.status !== "uploaded"));
+  };
+
+  const failedIndexes = files.map((_, index) => index).filter((index) => progress[index]?.status === "failed");
+  const filesError = form.formState.errors.files?.message ?? form.formState.errors.files?.root?.message;
+  const uploadedCount = Object.values(progress).filter((item) => item.status === "uploaded").length;
+
   return (
-    <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-        {/* File picker */}
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Document File</label>
-          <div className="space-y-3">
-            {!selectedFile ? (
+    <>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* File picker and drop zone */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Document Files</label>
+            {!isStarted && (
               <div
-                className="border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer hover:border-primary/50 transition-colors"
+                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                  isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                }`}
                 onClick={() => fileInputRef.current?.click()}
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
               >
                 <Upload className="mx-auto h-10 w-10 text-muted-foreground mb-3" />
                 <p className="text-sm font-medium text-foreground">
-                  Click to select a file
+                  Drop files here or click to select
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  PDF, PNG, JPG up to 20MB
+                  PDF, PNG, JPG up to 20MB each
                 </p>
               </div>
-            ) : (
-              <div className="flex items-center gap-3 p-4 bg-secondary/50 rounded-lg">
-                <FileText className="h-8 w-8 text-primary flex-shrink-0" />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{selectedFile.name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                  </p>
-                </div>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={clearFile}
-                  disabled={isSubmitting}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
             )}
             <input
               ref={fileInputRef}
               type="file"
+              multiple
               accept=".pdf,.png,.jpg,.jpeg,.heic"
               onChange={handleFileSelect}
               className="hidden"
-              disabled={isSubmitting}
+              disabled={isStarted}
             />
+            {fileError && (
+              <p className="text-sm text-destructive">{fileError}</p>
+            )}
+            {filesError && (
+              <p className="text-sm text-destructive">{filesError}</p>
+            )}
           </div>
-          {fileError && (
-            <p className="text-sm text-destructive">{fileError}</p>
-          )}
-        </div>
-
-        {/* Title */}
-        <FormField
-          control={form.control}
-          name="title"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Document Title</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="e.g., Blood Work Results - January 2024"
-                  {...field}
-                  disabled={isSubmitting}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Document type */}
-        <FormField
-          control={form.control}
-          name="docType"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Document Type</FormLabel>
-              <Select
-                onValueChange={field.onChange}
-                defaultValue={field.value}
-                disabled={isSubmitting}
-              >
+
+          {/* Defaults for every file */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="docType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Document Type</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                    disabled={isStarted}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select document type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DOC_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="documentDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Document Date</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      disabled={isStarted}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Notes (optional) */}
+          <FormField
+            control={form.control}
+            name="notes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Notes (optional)</FormLabel>
                 <FormControl>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select document type" />
-                  </SelectTrigger>
+                  <Textarea
+                    placeholder="Any additional context about these documents..."
+                    className="resize-y min-h-[80px]"
+                    {...field}
+                    disabled={isStarted}
+                  />
                 </FormControl>
-                <SelectContent>
-                  {DOC_TYPES.map((type) => (
-                    <SelectItem key={type.value} value={type.value}>
-                      {type.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Document date */}
-        <FormField
-          control={form.control}
-          name="documentDate"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Document Date</FormLabel>
-              <FormControl>
-                <Input
-                  type="date"
-                  {...field}
-                  disabled={isSubmitting}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Notes (optional) */}
-        <FormField
-          control={form.control}
-          name="notes"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Notes (optional)</FormLabel>
-              <FormControl>
-                <Textarea
-                  placeholder="Any additional context about this document..."
-                  className="resize-y min-h-[80px]"
-                  {...field}
-                  disabled={isSubmitting}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Per-file title, and type and date overrides */}
+          {fields.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium text-foreground">
+                  {isStarted ? `Uploaded ${uploadedCount} of ${files.length}` : `${files.length} file${files.length === 1 ? "" : "s"}`}
+                </h3>
+                {!isStarted && fields.length > 1 && (
+                  <p className="text-xs text-muted-foreground">Type and date use the values above unless changed</p>
+                )}
+              </div>
+              {fields.map((item, index) => {
+                const file = files[index];
+                const itemProgress = progress[index];
+                const status = itemProgress?.status;
+                return (
+                  <div key={item.id} className="rounded-lg border border-border p-3 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <FileText className="h-6 w-6 text-primary flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{file?.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {file ? `${(file.size / 1024 / 1024).toFixed(2)} MB` : ""}
+                          {status === "pending" && " · Waiting"}
+                          {status === "uploading" && ` · Uploading ${Math.round(itemProgress.progress * 100)}%`}
+                          {status === "uploaded" && " · Uploaded"}
+                          {status === "failed" && " · Failed"}
+                        </p>
+                      </div>
+                      {status === "uploaded" && <CheckCircle2 className="h-5 w-5 text-primary flex-shrink-0" />}
+                      {status === "failed" && (
+                        <>
+                          <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0" />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => runImport([index])}
+                            disabled={isRunning}
+                          >
+                            <RotateCw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        </>
+                      )}
+                      {!isStarted && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeFile(index)}
+                          aria-label="Remove file"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+
+                    {status === "uploading" && <Progress value={itemProgress.progress * 100} className="h-2" />}
+
+                    <div className="grid gap-3 sm:grid-cols-[1fr_10rem_10rem]">
+                      <FormField
+                        control={form.control}
+                        name={`files.${index}.title`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Title</FormLabel>
+                            <FormControl>
+                              <Input {...field} disabled={isStarted} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`files.${index}.docType`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Type</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value} disabled={isStarted}>
+                              <FormControl>
+                                <SelectTrigger className="w-full">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={USE_DEFAULT}>
+                                  {defaultDocType ? `Default (${docTypeLabel(defaultDocType)})` : "Default"}
+                                </SelectItem>
+                                {DOC_TYPES.map((type) => (
+                                  <SelectItem key={type.value} value={type.value}>
+                                    {type.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`files.${index}.documentDate`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Date (if different)</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} disabled={isStarted} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           )}
-        />
-
-        {/* Action buttons */}
-        <div className="flex flex-col gap-3 pt-4">
-          <Button
-            type="submit"
-            className="w-full h-12 text-base"
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Uploading...
-              </>
+
+          {/* Action buttons */}
+          <div className="flex flex-col gap-3 pt-4">
+            {failedIndexes.length > 0 ? (
+              <Button
+                type="button"
+                className="w-full h-12 text-base"
+                onClick={() => runImport(failedIndexes)}
+                disabled={isRunning}
+              >
+                {isRunning ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCw className="mr-2 h-4 w-4" />
+                )}
+                Retry {failedIndexes.length} Failed
+              </Button>
             ) : (
-              "Upload Document"
+              <Button
+                type="submit"
+                className="w-full h-12 text-base"
+                disabled={isRunning}
+              >
+                {isRunning ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Uploading...
+                  </>
+                ) : files.length > 1 ? (
+                  `Upload ${files.length} Documents`
+                ) : (
+                  "Upload Document"
+                )}
+              </Button>
             )}
-          </Button>
-          <Button
-            type="button"
-            variant="outline"
-            className="w-full h-12 text-base"
-            onClick={onCancel}
-            disabled={isSubmitting}
-          >
-            Cancel
-          </Button>
-        </div>
-      </form>
-    </Form>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full h-12 text-base"
+              onClick={onCancel}
+              disabled={isRunning}
+            >
+              {isStarted ? "Close" : "Cancel"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+      <UnlockDocumentsDialog
+        open={isUnlockOpen}
+        onOpenChange={setIsUnlockOpen}
+        onUnlocked={() => form.handleSubmit(onSubmit)()}
+      />
+    </>
   );
 }
@@ -0,0 +1,77 @@
+import { Download, Eye, Files } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useDocumentVersions } from "@/hooks/use-document-versions";
+import { useTimeZone } from "@/hooks/use-time-zone";
+
+interface DocumentVersionHistoryProps {
+  /** The original upload's artifact, first in the version chain */
+  rootArtifactId: string;
+  /** Artifact shown on the current page, marked in the list */
+  currentArtifactId: string | null;
+  onDownload: (artifactId: string) => void;
+  onViewEvent: (eventId: string) => void;
+}
+
+/**
+ * Document Version History
+ *
+ * Every file version of an uploaded document, newest first, each
+ * downloadable on its own. Hidden until a document has a second version.
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ */
+export function DocumentVersionHistory({
+  rootArtifactId,
+  currentArtifactId,
+  onDownload,
+  onViewEvent,
+}: DocumentVersionHistoryProps) {
+  const { formatTime } = useTimeZone();
+  const { data: versions } = useDocumentVersions(rootArtifactId);
+
+  if (!versions || versions.length < 2) return null;
+
+  const latestVersion = versions[versions.length - 1].version;
+
+  return (
+    <div className="mt-6 rounded-lg border border-border bg-card p-4">
+      <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+        <Files className="h-4 w-4 text-muted-foreground" />
+        File Versions ({versions.length})
+      </h3>
+      <div className="space-y-2">
+        {[...versions].reverse().map((version) => (
+          <div
+            key={version.artifactId}
+            className="flex items-center justify-between gap-4 py-2 border-b border-border last:border-0"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium text-foreground truncate">
+                Version {version.version}
+                {version.version === latestVersion && " (latest)"}
+                {version.artifactId === currentArtifactId && " · shown here"}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {formatTime(version.createdAt, "MMM d, yyyy 'at' h:mm a")}
+                {version.originalFilename && ` · ${version.originalFilename}`}
+              </p>
+              {version.note && <p className="text-xs text-muted-foreground whitespace-pre-wrap">{version.note}</p>}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              {version.eventId && version.artifactId !== currentArtifactId && (
+                <Button variant="ghost" size="sm" onClick={() => version.eventId && onViewEvent(version.eventId)}>
+                  <Eye className="h-3 w-3 mr-1" />
+                  View
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => onDownload(version.artifactId)}>
+                <Download className="h-3 w-3 mr-1" />
+                Download
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
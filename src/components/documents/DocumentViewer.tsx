@@ -0,0 +1,345 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Loader2,
+  Lock,
+  RotateCw,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { downloadDocument, fetchDocument } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import { loadPdf, viewerKind } from "@/lib/document-viewer";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { UnlockDocumentsDialog } from "@/components/encryption/UnlockDocumentsDialog";
+
+interface DocumentViewerProps {
+  /** Artifact to show; the viewer is open while this is set */
+  artifactId: string | null;
+  onClose: () => void;
+}
+
+type ViewerStatus = "loading" | "ready" | "locked" | "unsupported" | "error";
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+// pdf.js viewports are in PDF points (1/72 in); CSS pixels are 1/96 in
+const PDF_TO_CSS_UNITS = 96 / 72;
+
+/**
+ * Document Viewer
+ *
+ * Shows a stored PDF or image in the app, with zoom, rotation and, for
+ * PDFs, page navigation. Other files (e.g. HEIC) offer a download instead.
+ * Opening the viewer is audited as a document view by the download proxy.
+ *
+ * GUARDRAIL: No PHI in logs - only artifact IDs and error types
+ */
+export function DocumentViewer({ artifactId, onClose }: DocumentViewerProps) {
+  return (
+    <Dialog open={!!artifactId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[90vh] max-w-5xl flex-col gap-3 p-4">
+        {artifactId && <ViewerBody key={artifactId} artifactId={artifactId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ViewerBody({ artifactId }: { artifactId: string }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ViewerStatus>("loading");
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { data: artifact, isError } = useQuery({
+    queryKey: ["document-viewer", artifactId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("document_artifacts")
+        .select("title, content_type, original_filename, encryption_key_id")
+        .eq("id", artifactId)
+        .single();
+
+      if (error) {
+        safeLog.error("Failed to fetch artifact for viewer", { action: "viewer_artifact_fetch_error", errorType: error.code });
+        throw error;
+      }
+      return data;
+    },
+  });
+
+  const kind = artifact ? viewerKind(artifact.content_type) : null;
+
+  // Load the file once its type is known, and again after unlocking
+  useEffect(() => {
+    if (!artifact) return;
+    if (!kind) {
+      setStatus("unsupported");
+      return;
+    }
+
+    let cancelled = false;
+    let task: PDFDocumentLoadingTask | null = null;
+    let objectUrl: string | null = null;
+    setStatus("loading");
+
+    const load = async () => {
+      try {
+        if (kind === "pdf") {
+          task = await loadPdf(artifactId, !!artifact.encryption_key_id);
+          if (cancelled) {
+            task.destroy();
+            return;
+          }
+          const doc = await task.promise;
+          if (cancelled) return;
+          setPdf(doc);
+          setPage(1);
+        } else {
+          const { blob } = await fetchDocument(artifactId, true);
+          if (cancelled) return;
+          objectUrl = URL.createObjectURL(blob);
+          setImageUrl(objectUrl);
+        }
+        setStatus("ready");
+      } catch (error) {
+        if (cancelled) return;
+        if (error instanceof DocumentsLockedError) {
+          setStatus("locked");
+          return;
+        }
+        safeLog.error("Failed to load document for viewing", {
+          action: "document_view_error",
+          id: artifactId,
+          errorType: error instanceof Error ? error.name : "unknown",
+        });
+        setStatus("error");
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      task?.destroy();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setPdf(null);
+      setImageUrl(null);
+    };
+  }, [artifactId, artifact, kind, loadAttempt]);
+
+  // Render the current PDF page; a newer render cancels the one in progress
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    pdf
+      .getPage(page)
+      .then((pdfPage) => {
+        if (cancelled) return;
+        const viewport = pdfPage.getViewport({
+          scale: zoom * PDF_TO_CSS_UNITS,
+          rotation: (pdfPage.rotate + rotation) % 360,
+        });
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * ratio);
+        canvas.height = Math.floor(viewport.height * ratio);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+        renderTask = pdfPage.render({
+          canvas,
+          viewport,
+          transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+        });
+        return renderTask.promise;
+      })
+      .catch((error: unknown) => {
+        if (error instanceof Error && error.name === "RenderingCancelledException") return;
+        safeLog.warn("Failed to render PDF page", {
+          action: "document_view_render_error",
+          id: artifactId,
+          errorType: error instanceof Error ? error.name : "unknown",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [artifactId, pdf, page, zoom, rotation]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadDocument(artifactId);
+    } catch (error) {
+      safeLog.error("Failed to download document from viewer", {
+        action: "document_download_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Unable to download document",
+        description:
+          error instanceof DocumentsLockedError
+            ? "This document is encrypted. Unlock your documents in Settings first."
+            : "Please try again.",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isReady = status === "ready";
+  const pageCount = pdf?.numPages ?? 0;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 pr-8">
+        <div className="min-w-0">
+          <DialogTitle className="truncate text-base">{artifact?.title || "Document"}</DialogTitle>
+          <DialogDescription className="truncate text-xs">
+            {artifact?.original_filename ?? "Loading…"}
+          </DialogDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+            disabled={!isReady || zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <button
+            type="button"
+            className="w-12 text-center text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setZoom(1)}
+            disabled={!isReady}
+            aria-label="Reset zoom"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+            disabled={!isReady || zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setRotation((r) => (r + 90) % 360)}
+            disabled={!isReady}
+            aria-label="Rotate"
+          >
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          {kind === "pdf" && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={!isReady || page <= 1}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="min-w-20 text-center text-xs text-muted-foreground">
+                {pageCount > 0 ? `Page ${page} of ${pageCount}` : "–"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                disabled={!isReady || page >= pageCount}
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading}>
+            {isDownloading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            Download
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto rounded-md bg-muted/40">
+        {isError || status === "error" ? (
+          <div className="empty-state">
+            <FileText className="empty-state-icon text-destructive" />
+            <h3 className="empty-state-title">Unable to open document</h3>
+            <p className="empty-state-description">Please try again, or download it instead.</p>
+          </div>
+        ) : status === "locked" ? (
+          <div className="empty-state">
+            <Lock className="empty-state-icon" />
+            <h3 className="empty-state-title">This document is encrypted</h3>
+            <p className="empty-state-description">Unlock your documents to view it on this device.</p>
+            <Button onClick={() => setIsUnlockOpen(true)} className="mt-6">
+              Unlock
+            </Button>
+          </div>
+        ) : status === "unsupported" ? (
+          <div className="empty-state">
+            <FileText className="empty-state-icon" />
+            <h3 className="empty-state-title">Preview not available</h3>
+            <p className="empty-state-description">This file type can't be shown here. Download it to open it.</p>
+          </div>
+        ) : status === "loading" ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : kind === "pdf" ? (
+          <div className="flex min-h-full min-w-fit items-start justify-center p-4">
+            <canvas ref={canvasRef} className="bg-white shadow-md" />
+          </div>
+        ) : (
+          imageUrl && (
+            <div className="flex min-h-full min-w-fit items-center justify-center p-4">
+              <img
+                src={imageUrl}
+                alt={artifact?.title || "Document"}
+                className="max-w-none transition-transform"
+                style={{ width: `${zoom * 100}%`, transform: `rotate(${rotation}deg)` }}
+              />
+            </div>
+          )
+        )}
+      </div>
+
+      <UnlockDocumentsDialog
+        open={isUnlockOpen}
+        onOpenChange={setIsUnlockOpen}
+        onUnlocked={() => setLoadAttempt((attempt) => attempt + 1)}
+      />
+    </>
+  );
+}
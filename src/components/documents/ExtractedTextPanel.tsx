@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ExternalLink, Loader2, RotateCcw, ScanText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useDocumentText } from "@/hooks/use-document-text";
+import { useToast } from "@/hooks/use-toast";
+import {
+  isProcessingClaimExpired,
+  requestDocumentProcessing,
+  retryDocumentProcessing,
+} from "@/lib/document-processing";
+import { EXTRACTION_METHOD_LABELS } from "@/lib/event-registry";
+
+interface ExtractedTextPanelProps {
+  documentArtifactId: string;
+}
+
+/**
+ * Extracted Text Panel
+ *
+ * Collapsible text extracted from a document, with the extraction's
+ * status while it is queued, running or failed. Hidden for uploads that
+ * were never queued for extraction.
+ *
+ * GUARDRAIL: No PHI in logs - only displays, never logs content
+ */
+export function ExtractedTextPanel({ documentArtifactId }: ExtractedTextPanelProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useDocumentText(documentArtifactId);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const status = data?.job?.status;
+  const claimedAt = data?.job?.claimed_at ?? null;
+  // A job stays queued if the request after upload failed, and running if
+  // the function was stopped mid-job; ask again once
+  const needsRequest =
+    status === "pending" || (status === "running" && isProcessingClaimExpired(claimedAt));
+
+  useEffect(() => {
+    if (needsRequest) {
+      requestDocumentProcessing(documentArtifactId).catch(() => undefined);
+    }
+  }, [needsRequest, documentArtifactId]);
+
+  if (isLoading || !data?.job) return null;
+
+  const { job, extracted } = data;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await retryDocumentProcessing(job.id, documentArtifactId);
+      queryClient.invalidateQueries({ queryKey: ["document-text", documentArtifactId] });
+    } catch {
+      // Logged by retryDocumentProcessing
+      toast({ variant: "destructive", title: "Failed to retry", description: "Please try again." });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const renderStatus = () => {
+    switch (job.status) {
+      case "pending":
+      case "running":
+        return (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Extracting text…
+          </p>
+        );
+      case "failed":
+        return (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">Text could not be extracted from this document.</p>
+            <Button variant="ghost" size="sm" onClick={handleRetry} disabled={isRetrying}>
+              {isRetrying ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <RotateCcw className="h-3 w-3 mr-1" />}
+              Retry
+            </Button>
+          </div>
+        );
+      case "complete":
+        return <p className="text-sm text-muted-foreground">No text was found in this document.</p>;
+    }
+  };
+
+  if (!extracted) {
+    return (
+      <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+        <h3 className="text-sm font-medium text-muted-foreground">Extracted Text</h3>
+        {renderStatus()}
+      </div>
+    );
+  }
+
+  return (
+    <Collapsible className="bg-muted/50 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between gap-2">
+        <CollapsibleTrigger className="group flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground">
+          <ScanText className="h-4 w-4" />
+          Extracted Text
+          <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/event/${extracted.event_id}`)}>
+          <ExternalLink className="h-3 w-3 mr-1" />
+          View Event
+        </Button>
+      </div>
+      <p className="mt-1 text-xs text-muted-foreground">
+        {EXTRACTION_METHOD_LABELS[extracted.extraction_method]}
+        {extracted.page_count !== null && ` · ${extracted.page_count} ${extracted.page_count === 1 ? "page" : "pages"}`}
+        {" · Automatically extracted; may contain errors"}
+      </p>
+      <CollapsibleContent>
+        <p className="mt-3 max-h-96 overflow-y-auto whitespace-pre-wrap text-sm text-foreground leading-relaxed">
+          {extracted.text}
+        </p>
+        {extracted.truncated && (
+          <p className="mt-2 text-xs text-muted-foreground">Only the beginning of the text is shown.</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,292 @@
+import { useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { FileText, Loader2, Upload, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent, requireUserId } from "@/lib/write-helpers";
+import { requestDocumentProcessing } from "@/lib/document-processing";
+import { documentFileError, uploadDocumentFile } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import { useDocumentVersions } from "@/hooks/use-document-versions";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { UnlockDocumentsDialog } from "@/components/encryption/UnlockDocumentsDialog";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Upload Version Modal
+ *
+ * Uploads a replacement or corrected file for a document as its next
+ * version. The new artifact links to the latest version and the upload is
+ * recorded as a `document_version_added` event; earlier versions stay
+ * stored and downloadable.
+ *
+ * GUARDRAIL: Event-first data model - earlier artifacts are never replaced
+ * GUARDRAIL: No PHI in logs - only IDs, file types and sizes
+ */
+
+interface DocumentEvent {
+  id: string;
+  title: string | null;
+  event_time: string;
+}
+
+interface UploadVersionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  /** The original document_uploaded event */
+  event: DocumentEvent;
+  /** The original upload's artifact */
+  rootArtifactId: string;
+  docType: string;
+}
+
+const versionSchema = z.object({
+  note: z.string().max(500, "Note must be under 500 characters").optional(),
+});
+
+type VersionFormData = z.infer<typeof versionSchema>;
+
+export function UploadVersionModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  event,
+  rootArtifactId,
+  docType,
+}: UploadVersionModalProps) {
+  const { toast } = useToast();
+  const { timeZone } = useTimeZone();
+  const { data: versions } = useDocumentVersions(isOpen ? rootArtifactId : null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const latest = versions?.[versions.length - 1];
+
+  const form = useForm<VersionFormData>({
+    resolver: zodResolver(versionSchema),
+    defaultValues: { note: "" },
+  });
+
+  const clearFile = () => {
+    setSelectedFile(null);
+    setFileError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleClose = () => {
+    clearFile();
+    form.reset();
+    onClose();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const error = file ? documentFileError(file) : null;
+    setFileError(error);
+    setSelectedFile(file && !error ? file : null);
+  };
+
+  const handleSubmit = async (data: VersionFormData) => {
+    if (!selectedFile) {
+      setFileError("Please select a file to upload");
+      return;
+    }
+    if (!latest) return;
+
+    setIsSubmitting(true);
+    let storagePath: string | null = null;
+
+    try {
+      const userId = await requireUserId();
+      const uploaded = await uploadDocumentFile(userId, selectedFile);
+      storagePath = uploaded.storagePath;
+
+      const version = latest.version + 1;
+      const title = event.title || "Document";
+      const { documentArtifactId } = await recordTimelineEvent({
+        source: { type: "upload", name: "User Upload" },
+        provenance: {
+          method: "upload",
+          metadata: {
+            doc_type: docType,
+            mime: selectedFile.type,
+            size_bytes: selectedFile.size,
+            encrypted: uploaded.encryption !== null,
+            version,
+          },
+        },
+        eventType: "document_version_added",
+        eventTime: new Date().toISOString(),
+        eventTimeZone: timeZone,
+        title,
+        summary: `Uploaded version ${version}`,
+        details: {
+          document_event_id: event.id,
+          previous_artifact_id: latest.artifactId,
+          version,
+          note: data.note || null,
+        },
+        auditAction: "document_version_added",
+        document: {
+          title,
+          docType,
+          occurredAt: event.event_time,
+          storagePath,
+          contentType: selectedFile.type,
+          fileSize: selectedFile.size,
+          originalFilename: selectedFile.name,
+          previousArtifactId: latest.artifactId,
+          encryption: uploaded.encryption,
+        },
+      });
+
+      safeLog.info("Document version uploaded", {
+        action: "document_version_success",
+        id: documentArtifactId ?? undefined,
+        resourceType: "document_artifact",
+      });
+
+      // Text extraction runs in the background; encrypted files are never queued
+      if (documentArtifactId && !uploaded.encryption) {
+        requestDocumentProcessing(documentArtifactId).catch(() => undefined);
+      }
+
+      clearFile();
+      form.reset();
+      onSuccess();
+    } catch (error) {
+      if (error instanceof DocumentsLockedError) {
+        setIsUnlockOpen(true);
+        return;
+      }
+
+      safeLog.error("Document version upload failed", {
+        action: "document_version_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+
+      // Remove the file if the transactional write failed
+      if (storagePath) {
+        const { error: removeError } = await supabase.storage.from("documents").remove([storagePath]);
+        if (removeError) {
+          safeLog.warn("Failed to cleanup orphaned file", { action: "storage_cleanup_failed" });
+        }
+      }
+
+      toast({
+        variant: "destructive",
+        title: "Upload failed",
+        description: "Please try again. If another version was just added, reload the page first.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload New Version</DialogTitle>
+          <DialogDescription>
+            Add a replacement or corrected file{latest ? ` as version ${latest.version + 1}` : ""}.
+            Earlier versions are kept and can still be downloaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">New File</label>
+              {!selectedFile ? (
+                <div
+                  className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary/50 transition-colors"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm font-medium text-foreground">Click to select a file</p>
+                  <p className="text-xs text-muted-foreground mt-1">PDF, PNG, JPG up to 20MB</p>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 p-4 bg-secondary/50 rounded-lg">
+                  <FileText className="h-8 w-8 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{selectedFile.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                    </p>
+                  </div>
+                  <Button type="button" variant="ghost" size="icon" onClick={clearFile} disabled={isSubmitting}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.png,.jpg,.jpeg,.heic"
+                onChange={handleFileSelect}
+                className="hidden"
+                disabled={isSubmitting}
+              />
+              {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What changed? (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Corrected report from the lab" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !latest}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Upload Version
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+      <UnlockDocumentsDialog
+        open={isUnlockOpen}
+        onOpenChange={setIsUnlockOpen}
+        onUnlocked={() => form.handleSubmit(handleSubmit)()}
+      />
+    </Dialog>
+  );
+}
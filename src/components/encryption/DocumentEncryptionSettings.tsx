@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Copy, KeyRound, Loader2, Lock, LockOpen, ShieldCheck } from "lucide-react";
+import {
+  changeDocumentPassphrase,
+  enableDocumentEncryption,
+  lockDocumentKeys,
+  MIN_PASSPHRASE_LENGTH,
+  recoverDocumentKeys,
+  rotateDocumentKey,
+  unlockDocumentKeys,
+} from "@/lib/document-encryption";
+import { resumeKeyRotation, runKeyRotation } from "@/lib/key-rotation";
+import { safeLog } from "@/lib/safe-logger";
+import { useDocumentEncryption } from "@/hooks/use-document-encryption";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { UnlockDocumentsDialog } from "@/components/encryption/UnlockDocumentsDialog";
+
+type Mode = "idle" | "enable" | "change" | "recover" | "rotate";
+
+interface PassphraseFormProps {
+  id: string;
+  /** Label of the passphrase being set, or of the current one when not confirming */
+  label: string;
+  submitLabel: string;
+  confirm: boolean;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  children?: React.ReactNode;
+}
+
+function PassphraseForm({ id, label, submitLabel, confirm, onSubmit, onCancel, children }: PassphraseFormProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (confirm && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (confirm && passphrase !== confirmation) {
+      setError("Passphrases don't match");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (error) {
+      setError(error instanceof Error && error.message ? error.message : "Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {children}
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-passphrase`}>{label}</Label>
+        <Input
+          id={`${id}-passphrase`}
+          type="password"
+          autoComplete={confirm ? "new-password" : "current-password"}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isSubmitting}
+          className="sm:w-80"
+        />
+      </div>
+      {confirm && (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-confirm`}>Confirm passphrase</Label>
+          <Input
+            id={`${id}-confirm`}
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            disabled={isSubmitting}
+            className="sm:w-80"
+          />
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isSubmitting || !passphrase}>
+          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Document Encryption Settings
+ *
+ * Turns on client-side encryption for uploaded documents, and unlocks,
+ * recovers, re-protects and rotates the user's keys. Recovery codes are
+ * shown once and never stored in readable form.
+ *
+ * GUARDRAIL: No PHI in logs - passphrases and recovery codes are never logged
+ * GUARDRAIL: User isolation via RLS
+ */
+export function DocumentEncryptionSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatTime } = useTimeZone();
+  const { isLoading, isEnabled, isUnlocked, activeKeyCreatedAt, rotation } = useDocumentEncryption();
+  const [mode, setMode] = useState<Mode>("idle");
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [hasSavedCode, setHasSavedCode] = useState(false);
+  const [enteredCode, setEnteredCode] = useState("");
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const rotatingRef = useRef(false);
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ["encryption-keys"] });
+    queryClient.invalidateQueries({ queryKey: ["key-rotation"] });
+  }, [queryClient]);
+
+  const showRecoveryCode = (code: string) => {
+    setRecoveryCode(code);
+    setHasSavedCode(false);
+    setMode("idle");
+  };
+
+  const runRotation = useCallback(async (run: () => Promise<"complete" | "failed" | null>) => {
+    if (rotatingRef.current) return;
+    rotatingRef.current = true;
+    setIsRotating(true);
+    try {
+      const status = await run();
+      if (status === "failed") {
+        toast({
+          variant: "destructive",
+          title: "Some files weren't re-encrypted",
+          description: "They're still readable with your old key. Resume to try again.",
+        });
+      }
+    } catch (error) {
+      safeLog.error("Key rotation run failed", {
+        action: "key_rotation_run_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+    } finally {
+      rotatingRef.current = false;
+      setIsRotating(false);
+      refresh();
+    }
+  }, [toast, refresh]);
+
+  // A rotation queued on this device (or left by a closed tab) runs once unlocked
+  useEffect(() => {
+    const jobId = rotation?.status === "pending" ? rotation.jobId : null;
+    if (jobId && isUnlocked) {
+      runRotation(() => runKeyRotation(jobId));
+    }
+  }, [rotation?.jobId, rotation?.status, isUnlocked, runRotation]);
+
+  const handleEnable = async (passphrase: string) => {
+    showRecoveryCode(await enableDocumentEncryption(passphrase));
+    refresh();
+  };
+
+  const handleChange = async (passphrase: string) => {
+    await changeDocumentPassphrase(passphrase);
+    setMode("idle");
+    refresh();
+    toast({ title: "Passphrase changed" });
+  };
+
+  const handleRecover = async (passphrase: string) => {
+    if (!(await recoverDocumentKeys(enteredCode, passphrase))) {
+      throw new Error("That recovery code didn't match your keys");
+    }
+    setEnteredCode("");
+    setMode("idle");
+    refresh();
+    toast({
+      title: "Passphrase reset",
+      description: "Rotate your key to get a new recovery code; the one you used still works.",
+    });
+  };
+
+  const handleRotate = async (passphrase: string) => {
+    // Unlocks the old keys too, so their files can be re-encrypted
+    if (!(await unlockDocumentKeys(passphrase))) {
+      throw new Error("That passphrase didn't work");
+    }
+    showRecoveryCode(await rotateDocumentKey(passphrase));
+    refresh();
+  };
+
+  const handleCopyCode = async () => {
+    if (!recoveryCode) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCode);
+      toast({ title: "Recovery code copied" });
+    } catch {
+      toast({ variant: "destructive", title: "Couldn't copy", description: "Please write the code down instead." });
+    }
+  };
+
+  const rotationInProgress = !!rotation && rotation.status !== "complete";
+  const canResume = rotationInProgress && !isRotating && rotation.status !== "pending";
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+        <h2 className="font-medium text-foreground">Document encryption</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Encrypt uploaded files on this device before they are stored, with a key only your passphrase or recovery
+        code can open. Titles and dates stay searchable; text isn't extracted from encrypted files.
+      </p>
+
+      {recoveryCode ? (
+        <div className="rounded-md border border-border bg-secondary/50 p-4 space-y-3">
+          <p className="text-sm font-medium text-foreground">Your recovery code</p>
+          <p className="text-sm text-muted-foreground">
+            This is the only way back into your documents if you forget your passphrase. It is shown once; store it
+            somewhere safe and offline.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="rounded bg-background px-3 py-2 font-mono text-sm tracking-wider break-all">
+              {recoveryCode}
+            </code>
+            <Button type="button" variant="ghost" size="icon" onClick={handleCopyCode} aria-label="Copy recovery code">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="recovery-code-saved"
+              checked={hasSavedCode}
+              onCheckedChange={(checked) => setHasSavedCode(checked === true)}
+            />
+            <Label htmlFor="recovery-code-saved" className="text-sm">
+              I've saved my recovery code
+            </Label>
+          </div>
+          <Button size="sm" disabled={!hasSavedCode} onClick={() => setRecoveryCode(null)}>
+            Done
+          </Button>
+        </div>
+      ) : isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : !isEnabled ? (
+        mode === "enable" ? (
+          <PassphraseForm
+            id="enable-encryption"
+            label={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            submitLabel="Turn On Encryption"
+            confirm
+            onSubmit={handleEnable}
+            onCancel={() => setMode("idle")}
+          />
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Files you already uploaded stay as they are. If you lose both your passphrase and recovery code, your
+              encrypted files cannot be recovered by anyone.
+            </p>
+            <Button size="sm" onClick={() => setMode("enable")}>
+              <Lock className="h-4 w-4 mr-2" />
+              Turn On Encryption
+            </Button>
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-foreground flex items-center gap-2">
+            {isUnlocked ? <LockOpen className="h-4 w-4 text-primary" /> : <Lock className="h-4 w-4 text-muted-foreground" />}
+            {isUnlocked ? "Unlocked on this device" : "Locked"}
+            {activeKeyCreatedAt && (
+              <span className="text-xs text-muted-foreground">
+                · key created {formatTime(activeKeyCreatedAt, "MMM d, yyyy")}
+              </span>
+            )}
+          </p>
+
+          {rotationInProgress && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Re-encrypting files with your new key: {Math.max(rotation.total - rotation.remaining, 0)} of{" "}
+                {rotation.total}
+                {rotation.status === "failed" && " (stopped)"}
+                {!isUnlocked && " · unlock to continue"}
+              </p>
+              <Progress
+                value={rotation.total > 0 ? ((rotation.total - rotation.remaining) / rotation.total) * 100 : 0}
+                className="sm:w-80"
+              />
+              {canResume && isUnlocked && (
+                <Button size="sm" variant="outline" onClick={() => runRotation(() => resumeKeyRotation(rotation.jobId))}>
+                  Resume
+                </Button>
+              )}
+            </div>
+          )}
+
+          {mode === "change" && (
+            <PassphraseForm
+              id="change-passphrase"
+              label={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              submitLabel="Change Passphrase"
+              confirm
+              onSubmit={handleChange}
+              onCancel={() => setMode("idle")}
+            />
+          )}
+
+          {mode === "rotate" && (
+            <PassphraseForm
+              id="rotate-key"
+              label="Current passphrase"
+              submitLabel="Rotate Key"
+              confirm={false}
+              onSubmit={handleRotate}
+              onCancel={() => setMode("idle")}
+            >
+              <p className="text-sm text-muted-foreground">
+                A new key replaces the current one and every encrypted file is re-encrypted with it on this device.
+                You'll get a new recovery code; old codes stop opening new files.
+              </p>
+            </PassphraseForm>
+          )}
+
+          {mode === "recover" && (
+            <PassphraseForm
+              id="recover-keys"
+              label={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              submitLabel="Reset Passphrase"
+              confirm
+              onSubmit={handleRecover}
+              onCancel={() => setMode("idle")}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="recover-keys-code">Recovery code</Label>
+                <Input
+                  id="recover-keys-code"
+                  value={enteredCode}
+                  onChange={(e) => setEnteredCode(e.target.value)}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  className="font-mono sm:w-96"
+                />
+              </div>
+            </PassphraseForm>
+          )}
+
+          {mode === "idle" && (
+            <div className="flex flex-wrap gap-2">
+              {isUnlocked ? (
+                <>
+                  <Button size="sm" variant="outline" onClick={lockDocumentKeys}>
+                    <Lock className="h-4 w-4 mr-2" />
+                    Lock
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setMode("change")}>
+                    Change Passphrase
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setMode("rotate")} disabled={isRotating}>
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Rotate Key
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" onClick={() => setIsUnlockOpen(true)}>
+                    <LockOpen className="h-4 w-4 mr-2" />
+                    Unlock
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setMode("recover")}>
+                    Forgot passphrase?
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <UnlockDocumentsDialog open={isUnlockOpen} onOpenChange={setIsUnlockOpen} />
+    </section>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { unlockDocumentKeys } from "@/lib/document-encryption";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface UnlockDocumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUnlocked?: () => void;
+}
+
+/**
+ * Unlock Documents Dialog
+ *
+ * Asks for the encryption passphrase and unlocks the user's document keys
+ * for this page load.
+ *
+ * GUARDRAIL: No PHI in logs - the passphrase is never logged or stored
+ */
+export function UnlockDocumentsDialog({ open, onOpenChange, onUnlocked }: UnlockDocumentsDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPassphrase("");
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockDocumentKeys(passphrase)) {
+        handleOpenChange(false);
+        onUnlocked?.();
+      } else {
+        setError("That passphrase didn't work.");
+      }
+    } catch {
+      // Logged by unlockDocumentKeys
+      setError("Couldn't unlock your documents. Please try again.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Unlock Documents</DialogTitle>
+          <DialogDescription>
+            Your documents are encrypted. Enter your passphrase to open and upload them on this device until you
+            close or reload the app.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="unlock-passphrase">Passphrase</Label>
+            <Input
+              id="unlock-passphrase"
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Forgot it?{" "}
+            <Link to="/settings" className="underline" onClick={() => handleOpenChange(false)}>
+              Use your recovery code in Settings
+            </Link>
+            .
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isUnlocking}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isUnlocking || !passphrase}>
+              {isUnlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Unlock
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
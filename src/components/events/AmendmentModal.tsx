@@ -3,11 +3,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Loader2 } from "lucide-react";
-import { format } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
-import { requireUserId, getOrCreateDataSource, getOrCreateDefaultConsentSnapshot } from "@/lib/write-helpers";
-import { getString, getDocumentArtifactId, getDocType, getNotes, getText, getOptionalCategory } from "@/lib/event-details";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { JOURNAL_CATEGORIES, DOC_TYPES, isJournalCategory, isDocType } from "@/lib/event-registry";
+import { getDocumentArtifactId, getDocType, getNotes, getText, getOptionalCategory } from "@/lib/event-details";
 import {
   Dialog,
   DialogContent,
@@ -48,6 +48,7 @@ interface TimelineEvent {
   user_id: string;
   event_type: string;
   event_time: string;
+  event_timezone?: string | null;
   title: string | null;
   summary: string;
   details: Record<string, unknown> | null;
@@ -64,14 +65,14 @@ interface AmendmentModalProps {
 const journalSchema = z.object({
   title: z.string().optional(),
   text: z.string().min(1, "Entry text is required"),
-  category: z.string().optional(),
+  category: z.enum(JOURNAL_CATEGORIES).optional(),
   eventTime: z.string(),
   note: z.string().optional(),
 });
 
 const documentSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  docType: z.string().optional(),
+  docType: z.enum(DOC_TYPES).optional(),
   notes: z.string().optional(),
   documentDate: z.string(),
 });
@@ -100,6 +101,10 @@ export function AmendmentModal({ isOpen, onClose, onSuccess, event, eventType }:
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isJournal = eventType === "journal_entry";
   const details = event.details;
+  const currentCategory = getOptionalCategory(details);
+  const currentDocType = getDocType(details);
+  // Dates are shown in the zone the event was recorded in
+  const { toDateTimeInput, toDateInput } = useTimeZone();
 
   // Use safe helpers for extracting default values
   const journalForm = useForm<JournalFormData>({
@@ -107,8 +112,8 @@ export function AmendmentModal({ isOpen, onClose, onSuccess, event, eventType }:
     defaultValues: {
       title: event.title || "",
       text: getText(details) || "",
-      category: getOptionalCategory(details) || "",
-      eventTime: format(new Date(event.event_time), "yyyy-MM-dd'T'HH:mm"),
+      category: isJournalCategory(currentCategory) ? currentCategory : undefined,
+      eventTime: toDateTimeInput(event.event_time, event.event_timezone),
       note: "",
     },
   });
@@ -117,71 +122,43 @@ export function AmendmentModal({ isOpen, onClose, onSuccess, event, eventType }:
     resolver: zodResolver(documentSchema),
     defaultValues: {
       title: event.title || "",
-      docType: getDocType(details) || "",
+      docType: isDocType(currentDocType) ? currentDocType : undefined,
       notes: getNotes(details) || "",
-      documentDate: format(new Date(event.event_time), "yyyy-MM-dd"),
+      documentDate: toDateInput(event.event_time, event.event_timezone),
     },
   });
 
   const handleJournalSubmit = async (data: JournalFormData) => {
     setIsSubmitting(true);
     try {
-      const userId = await requireUserId();
-      const dataSourceId = await getOrCreateDataSource(userId, "manual", "User Journal Amendment");
-      const consentSnapshotId = await getOrCreateDefaultConsentSnapshot(userId);
-
-      // Create provenance record
-      const { data: provenance, error: provError } = await supabase
-        .from("provenance")
-        .insert({
-          data_source_id: dataSourceId,
-          method: "manual_amendment",
-          metadata: { client: "web", amendment_type: "journal" },
-        })
-        .select("id")
-        .single();
-
-      if (provError) throw provError;
-
-      // Create amendment event
+      // Create amendment event (provenance + audit in the same transaction)
       const summary = data.text.slice(0, 140) + (data.text.length > 140 ? "..." : "");
       const amendmentTitle = `Amended: ${data.title || event.title || "Journal entry"}`;
 
-      const { data: newEvent, error: eventError } = await supabase
-        .from("timeline_events")
-        .insert({
-          user_id: userId,
-          event_type: "event_amended",
-          event_time: new Date().toISOString(),
-          title: amendmentTitle,
-          summary,
-          details: {
-            amends_event_id: event.id,
-            amended_event_type: "journal_entry",
-            text: data.text,
-            category: data.category || null,
-            original_event_time: event.event_time,
-            note: data.note || null,
-          },
-          provenance_id: provenance.id,
-          consent_snapshot_id: consentSnapshotId,
-        })
-        .select("id")
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Create audit event
-      await supabase.from("audit_events").insert({
-        user_id: userId,
-        action: "event_amended",
-        entity_type: "timeline_event",
-        entity_id: newEvent.id,
+      const newEvent = await recordTimelineEvent({
+        source: { type: "manual", name: "User Journal Amendment" },
+        provenance: {
+          method: "manual_amendment",
+          metadata: { client: "web", amendment_type: "journal" },
+        },
+        eventType: "event_amended",
+        eventTime: new Date().toISOString(),
+        title: amendmentTitle,
+        summary,
+        details: {
+          amends_event_id: event.id,
+          amended_event_type: "journal_entry",
+          text: data.text,
+          category: data.category || null,
+          original_event_time: event.event_time,
+          note: data.note || null,
+        },
+        auditAction: "event_amended",
       });
 
       safeLog.info("Journal amendment created", {
         action: "amendment_created",
-        id: newEvent.id,
+        id: newEvent.eventId,
         resourceType: "timeline_event",
       });
 
@@ -199,64 +176,36 @@ export function AmendmentModal({ isOpen, onClose, onSuccess, event, eventType }:
   const handleDocumentSubmit = async (data: DocumentFormData) => {
     setIsSubmitting(true);
     try {
-      const userId = await requireUserId();
-      const dataSourceId = await getOrCreateDataSource(userId, "manual", "Document Amendment");
-      const consentSnapshotId = await getOrCreateDefaultConsentSnapshot(userId);
-
-      // Create provenance record
-      const { data: provenance, error: provError } = await supabase
-        .from("provenance")
-        .insert({
-          data_source_id: dataSourceId,
-          method: "manual_amendment",
-          metadata: { client: "web", amendment_type: "document" },
-        })
-        .select("id")
-        .single();
-
-      if (provError) throw provError;
-
       // Create amendment event - use safe helper for document_artifact_id
       const amendmentTitle = `Amended: ${data.title}`;
       const docTypeLabel = DOC_TYPE_OPTIONS.find((o) => o.value === data.docType)?.label || data.docType;
       const documentArtifactId = getDocumentArtifactId(details);
 
-      const { data: newEvent, error: eventError } = await supabase
-        .from("timeline_events")
-        .insert({
-          user_id: userId,
-          event_type: "event_amended",
-          event_time: new Date().toISOString(),
-          title: amendmentTitle,
-          summary: `Updated ${docTypeLabel || "document"} details`,
-          details: {
-            amends_event_id: event.id,
-            amended_event_type: "document_uploaded",
-            document_artifact_id: documentArtifactId,
-            title: data.title,
-            doc_type: data.docType,
-            notes: data.notes || null,
-            document_date: data.documentDate,
-          },
-          provenance_id: provenance.id,
-          consent_snapshot_id: consentSnapshotId,
-        })
-        .select("id")
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Create audit event
-      await supabase.from("audit_events").insert({
-        user_id: userId,
-        action: "event_amended",
-        entity_type: "timeline_event",
-        entity_id: newEvent.id,
+      const newEvent = await recordTimelineEvent({
+        source: { type: "manual", name: "Document Amendment" },
+        provenance: {
+          method: "manual_amendment",
+          metadata: { client: "web", amendment_type: "document" },
+        },
+        eventType: "event_amended",
+        eventTime: new Date().toISOString(),
+        title: amendmentTitle,
+        summary: `Updated ${docTypeLabel || "document"} details`,
+        details: {
+          amends_event_id: event.id,
+          amended_event_type: "document_uploaded",
+          document_artifact_id: documentArtifactId,
+          title: data.title,
+          doc_type: data.docType || null,
+          notes: data.notes || null,
+          document_date: data.documentDate,
+        },
+        auditAction: "event_amended",
       });
 
       safeLog.info("Document amendment created", {
         action: "amendment_created",
-        id: newEvent.id,
+        id: newEvent.eventId,
         resourceType: "timeline_event",
       });
 
@@ -0,0 +1,45 @@
+import { Tag, X } from "lucide-react";
+
+interface EventTagChipsProps {
+  tags: string[] | null | undefined;
+  /** When provided, each chip gets a remove button */
+  onRemove?: (tag: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tag chips for an event
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ */
+export function EventTagChips({ tags, onRemove, disabled }: EventTagChipsProps) {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-full border border-border bg-background px-2 py-0.5 text-xs text-muted-foreground"
+        >
+          <Tag className="h-3 w-3" />
+          {tag}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              disabled={disabled}
+              className="ml-0.5 rounded-full hover:text-destructive disabled:opacity-50"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
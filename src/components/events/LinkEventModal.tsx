@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Loader2, Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { linkEvents } from "@/lib/write-helpers";
+import { EVENT_LINK_TYPES, OUTGOING_LINK_LABELS, isEventLinkType, type EventLinkType } from "@/lib/event-links";
+import { useEventSearch } from "@/hooks/use-event-search";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/**
+ * Link Event Modal
+ *
+ * Links this event to another one with a typed relationship
+ * ("this event is <relationship> the chosen event"). Links are append-only.
+ *
+ * GUARDRAIL: No PHI in logs - only IDs and action types
+ */
+
+interface LinkEventModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  eventId: string;
+}
+
+interface Candidate {
+  id: string;
+  title: string | null;
+  event_time: string;
+}
+
+export function LinkEventModal({ isOpen, onClose, onSuccess, eventId }: LinkEventModalProps) {
+  const { toast } = useToast();
+  const [linkType, setLinkType] = useState<EventLinkType>("result_of");
+  const [query, setQuery] = useState("");
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: searchResults, isFetching, isQueryReady } = useEventSearch(isOpen ? query : "", 10);
+
+  // Recent events to pick from before anything is typed
+  const { data: recentEvents } = useQuery({
+    queryKey: ["link-candidates", eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("timeline_events_current")
+        .select("id, title, event_time")
+        .neq("id", eventId)
+        .neq("event_type", "event_retracted")
+        .eq("is_retracted", false)
+        .order("event_time", { ascending: false })
+        .limit(10);
+
+      if (error) {
+        safeLog.error("Failed to fetch link candidates", { action: "link_candidates_error", errorType: error.code });
+        return [];
+      }
+      return (data ?? []) as Candidate[];
+    },
+    enabled: isOpen,
+  });
+
+  const candidates: Candidate[] = isQueryReady
+    ? (searchResults ?? [])
+        .filter((result) => result.event_id !== eventId && result.event_type !== "event_retracted")
+        .map((result) => ({ id: result.event_id, title: result.title, event_time: result.event_time }))
+    : recentEvents ?? [];
+
+  const handleClose = () => {
+    setQuery("");
+    setTargetId(null);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!targetId) return;
+    setIsSubmitting(true);
+    try {
+      await linkEvents({ sourceEventId: eventId, targetEventId: targetId, linkType });
+      setQuery("");
+      setTargetId(null);
+      onSuccess();
+    } catch (error) {
+      const isDuplicate = (error as { code?: string } | null)?.code === "23505";
+      toast({
+        variant: "destructive",
+        title: isDuplicate ? "Already linked" : "Failed to link events",
+        description: isDuplicate ? "These events already have this link." : "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Link to…</DialogTitle>
+          <DialogDescription>
+            Record how this event relates to another one. Links cannot be removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>This event is</Label>
+            <Select value={linkType} onValueChange={(value) => isEventLinkType(value) && setLinkType(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EVENT_LINK_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {OUTGOING_LINK_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="link-search">Event</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="link-search"
+                placeholder="Search events"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+                maxLength={200}
+              />
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded-md border border-border">
+              {isFetching && candidates.length === 0 ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : candidates.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No events found</p>
+              ) : (
+                candidates.map((candidate) => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() => setTargetId(candidate.id)}
+                    className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm border-b border-border last:border-0 hover:bg-muted/50 ${
+                      targetId === candidate.id ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium text-foreground">{candidate.title || "Untitled"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(candidate.event_time), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    {targetId === candidate.id && <Check className="h-4 w-4 text-primary flex-shrink-0" />}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!targetId || isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Link Events
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { Input } from "@/components/ui/input";
+import type { DatePrecision } from "@/lib/partial-dates";
+
+interface PartialDateInputProps {
+  id?: string;
+  precision: DatePrecision;
+  /** "2009", "2009-06", "2009-06-03" or "2009-06-03T08:00", by precision */
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  "aria-label"?: string;
+}
+
+const INPUT_TYPES: Record<DatePrecision, string> = {
+  year: "number",
+  month: "month",
+  day: "date",
+  exact: "datetime-local",
+};
+
+/**
+ * Date input matching a precision: a year field, a month picker, a date
+ * picker or a date and time picker. Browsers without a month picker show
+ * a text field expecting "yyyy-MM".
+ */
+export function PartialDateInput({ id, precision, value, onChange, disabled, ...props }: PartialDateInputProps) {
+  return (
+    <Input
+      id={id}
+      type={INPUT_TYPES[precision]}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label={props["aria-label"]}
+      {...(precision === "year" ? { min: 1900, max: 2100, step: 1, placeholder: "yyyy" } : {})}
+      {...(precision === "month" ? { placeholder: "yyyy-MM" } : {})}
+    />
+  );
+}
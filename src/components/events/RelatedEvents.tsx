@@ -0,0 +1,112 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Eye, Link2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { INCOMING_LINK_LABELS, OUTGOING_LINK_LABELS } from "@/lib/event-links";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Related Events Component
+ *
+ * Lists events linked to this one in either direction via event_links.
+ * Retracted events are left out, as they are everywhere else.
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ */
+
+interface RelatedEventsProps {
+  eventId: string;
+  onViewEvent: (eventId: string) => void;
+}
+
+interface RelatedEvent {
+  linkId: string;
+  label: string;
+  id: string;
+  title: string | null;
+  event_time: string;
+}
+
+export function RelatedEvents({ eventId, onViewEvent }: RelatedEventsProps) {
+  const { data: related } = useQuery({
+    queryKey: ["event-links", eventId],
+    queryFn: async (): Promise<RelatedEvent[]> => {
+      const { data: links, error } = await supabase
+        .from("event_links")
+        .select("id, source_event_id, target_event_id, link_type, created_at")
+        .or(`source_event_id.eq.${eventId},target_event_id.eq.${eventId}`)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        safeLog.error("Failed to fetch event links", { action: "event_links_fetch_error", errorType: error.code });
+        return [];
+      }
+      if (!links || links.length === 0) return [];
+
+      const otherIds = links.map((link) =>
+        link.source_event_id === eventId ? link.target_event_id : link.source_event_id
+      );
+
+      const { data: events, error: eventsError } = await supabase
+        .from("timeline_events_current")
+        .select("id, title, event_time")
+        .in("id", otherIds)
+        .eq("is_retracted", false);
+
+      if (eventsError) {
+        safeLog.error("Failed to fetch related events", { action: "related_events_fetch_error", errorType: eventsError.code });
+        return [];
+      }
+
+      const eventsById = new Map((events ?? []).map((event) => [event.id, event]));
+
+      return links.flatMap((link) => {
+        const isOutgoing = link.source_event_id === eventId;
+        const other = eventsById.get(isOutgoing ? link.target_event_id : link.source_event_id);
+        if (!other?.id || !other.event_time) return [];
+
+        return [{
+          linkId: link.id,
+          label: isOutgoing ? OUTGOING_LINK_LABELS[link.link_type] : INCOMING_LINK_LABELS[link.link_type],
+          id: other.id,
+          title: other.title,
+          event_time: other.event_time,
+        }];
+      });
+    },
+  });
+
+  if (!related || related.length === 0) return null;
+
+  return (
+    <div className="mt-6 rounded-lg border border-border bg-card p-4">
+      <h3 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-muted-foreground" />
+        Related Events ({related.length})
+      </h3>
+      <div className="space-y-2">
+        {related.map((event) => (
+          <div
+            key={event.linkId}
+            className="flex items-center justify-between gap-4 py-2 border-b border-border last:border-0"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-xs text-muted-foreground">{event.label}</p>
+              <p className="text-sm font-medium text-foreground truncate">
+                {event.title || "Untitled"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(event.event_time), "MMM d, yyyy")}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onViewEvent(event.id)}>
+              <Eye className="h-3 w-3 mr-1" />
+              View
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { RETRACTION_REASONS, RETRACTION_REASON_LABELS } from "@/lib/event-registry";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Retraction Modal
+ *
+ * Retracts a mistaken event by appending an `event_retracted` tombstone.
+ * The retracted event is hidden from the timeline, visit summaries and
+ * shares, but remains stored and viewable from its details page.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE existing events - creates a new event
+ * GUARDRAIL: No PHI in logs
+ */
+
+interface TimelineEvent {
+  id: string;
+  event_type: string;
+}
+
+interface RetractionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  event: TimelineEvent;
+}
+
+const retractionSchema = z.object({
+  reasonCode: z.enum(RETRACTION_REASONS, {
+    errorMap: () => ({ message: "Please choose a reason" }),
+  }),
+  note: z.string().max(500, "Note must be under 500 characters").optional(),
+});
+
+type RetractionFormData = z.infer<typeof retractionSchema>;
+
+export function RetractionModal({ isOpen, onClose, onSuccess, event }: RetractionModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<RetractionFormData>({
+    resolver: zodResolver(retractionSchema),
+    defaultValues: {
+      reasonCode: undefined,
+      note: "",
+    },
+  });
+
+  const handleSubmit = async (data: RetractionFormData) => {
+    setIsSubmitting(true);
+    try {
+      const retraction = await recordTimelineEvent({
+        source: { type: "manual", name: "User Retraction" },
+        provenance: {
+          method: "manual_retraction",
+          metadata: { client: "web", reason_code: data.reasonCode },
+        },
+        eventType: "event_retracted",
+        eventTime: new Date().toISOString(),
+        title: "Retracted event",
+        summary: RETRACTION_REASON_LABELS[data.reasonCode],
+        details: {
+          retracts_event_id: event.id,
+          retracted_event_type: event.event_type,
+          reason_code: data.reasonCode,
+          note: data.note || null,
+        },
+        auditAction: "event_retracted",
+      });
+
+      safeLog.info("Event retracted", {
+        action: "retraction_created",
+        id: retraction.eventId,
+        resourceType: "timeline_event",
+      });
+
+      form.reset();
+      onSuccess();
+    } catch (error) {
+      safeLog.error("Failed to retract event", {
+        action: "retraction_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Retract Event</DialogTitle>
+          <DialogDescription>
+            Retracted events are hidden from your timeline, visit summaries and shares.
+            The original record is kept and can still be viewed here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reasonCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RETRACTION_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {RETRACTION_REASON_LABELS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Why is this being retracted?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Retract
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Loader2, Plus } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { tagEvent } from "@/lib/write-helpers";
+import { MAX_TAG_LENGTH, isValidTag, normalizeTag } from "@/lib/event-tags";
+import { useUserTags } from "@/hooks/use-event-tags";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { EventTagChips } from "./EventTagChips";
+
+/**
+ * Tag Editor
+ *
+ * Adds and removes tags on an event. Each change is appended as a tag
+ * action; nothing is updated in place.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE - every change is a new row
+ * GUARDRAIL: No PHI in logs - tag names are never logged
+ */
+
+interface TagEditorProps {
+  eventId: string;
+  tags: string[];
+  onChange: () => void;
+}
+
+export function TagEditor({ eventId, tags, onChange }: TagEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userTags } = useUserTags();
+  const [newTag, setNewTag] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const suggestions = (userTags ?? []).filter((tag) => !tags.includes(tag));
+
+  const applyTag = async (tag: string, action: "added" | "removed") => {
+    setIsSaving(true);
+    try {
+      await tagEvent({ eventId, tag, action });
+      queryClient.invalidateQueries({ queryKey: ["event-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+      onChange();
+    } catch {
+      toast({
+        variant: "destructive",
+        title: action === "added" ? "Failed to add tag" : "Failed to remove tag",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidTag(newTag)) return;
+    const tag = normalizeTag(newTag);
+    setNewTag("");
+    if (tags.includes(tag)) return;
+    await applyTag(tag, "added");
+  };
+
+  return (
+    <div className="space-y-2">
+      <EventTagChips tags={tags} onRemove={(tag) => applyTag(tag, "removed")} disabled={isSaving} />
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          placeholder="Add a tag"
+          maxLength={MAX_TAG_LENGTH}
+          list={`tag-suggestions-${eventId}`}
+          className="h-8"
+        />
+        <datalist id={`tag-suggestions-${eventId}`}>
+          {suggestions.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+        <Button type="submit" size="sm" variant="outline" disabled={isSaving || !isValidTag(newTag)}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          <span className="sr-only">Add tag</span>
+        </Button>
+      </form>
+    </div>
+  );
+}
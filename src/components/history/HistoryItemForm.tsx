@@ -0,0 +1,435 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus } from "lucide-react";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SEVERITY_LABELS,
+  CONDITION_STATUSES,
+  CONDITION_STATUS_LABELS,
+  MEDICATION_ROUTES,
+  MEDICATION_ROUTE_LABELS,
+  type HistoryKind,
+} from "@/lib/event-registry";
+import {
+  DATE_PRECISION_LABELS,
+  convertPartialDateValue,
+  isDatePrecision,
+  partialDateError,
+  toEventTimeRange,
+} from "@/lib/partial-dates";
+import { describeHistory, historyTitle } from "@/lib/medical-history";
+import { describeMedication } from "@/lib/medications";
+import type { HistoryBatchItem } from "@/lib/write-helpers";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { PartialDateInput } from "@/components/events/PartialDateInput";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/** A wizard step's item kind; medications are recorded as medication events */
+export type HistoryStepKind = HistoryKind | "medication";
+
+const NAME_LABELS: Record<HistoryStepKind, string> = {
+  condition: "Condition",
+  surgery: "Surgery or procedure",
+  allergy: "Allergic to",
+  immunization: "Vaccine",
+  family_history: "Condition",
+  medication: "Medication",
+};
+
+const NAME_PLACEHOLDERS: Record<HistoryStepKind, string> = {
+  condition: "e.g., Asthma",
+  surgery: "e.g., Appendectomy",
+  allergy: "e.g., Penicillin",
+  immunization: "e.g., Tetanus",
+  family_history: "e.g., Heart disease",
+  medication: "e.g., Lisinopril",
+};
+
+// History is rarely known to the minute
+const HISTORY_DATE_PRECISIONS = ["year", "month", "day"] as const;
+
+const historyItemSchema = (kind: HistoryStepKind) => {
+  const maxName = kind === "medication" ? 100 : 200;
+  return z
+    .object({
+      name: z.string().trim().min(1, "Name is required").max(maxName, `Name must be under ${maxName} characters`),
+      hasDate: z.boolean(),
+      datePrecision: z.enum(HISTORY_DATE_PRECISIONS),
+      date: z.string(),
+      status: z.enum(CONDITION_STATUSES).optional(),
+      reaction: z.string().max(200, "Reaction must be under 200 characters").optional(),
+      severity: z.enum(ALLERGY_SEVERITIES).optional(),
+      relation: z.string().max(50, "Relation must be under 50 characters").optional(),
+      strength: z.string().max(50, "Strength must be under 50 characters").optional(),
+      route: z.enum(MEDICATION_ROUTES).optional(),
+      frequency: z.string().max(100, "Frequency must be under 100 characters").optional(),
+      note: z.string().max(500, "Note must be under 500 characters").optional(),
+    })
+    .superRefine((data, ctx) => {
+      if (data.hasDate) {
+        const dateError = partialDateError(data.date, data.datePrecision);
+        if (dateError) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["date"], message: dateError });
+        }
+      }
+      if (kind === "family_history" && !data.relation?.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["relation"], message: "Relative is required" });
+      }
+    });
+};
+
+type HistoryItemFormData = z.infer<ReturnType<typeof historyItemSchema>>;
+
+const defaultValues: HistoryItemFormData = {
+  name: "",
+  hasDate: false,
+  datePrecision: "year",
+  date: "",
+  status: undefined,
+  reaction: "",
+  severity: undefined,
+  relation: "",
+  strength: "",
+  route: undefined,
+  frequency: "",
+  note: "",
+};
+
+interface HistoryItemFormProps {
+  kind: HistoryStepKind;
+  onAdd: (item: HistoryBatchItem) => void;
+}
+
+/**
+ * History Item Form
+ *
+ * Adds one item to the history wizard's batch. Nothing is written until
+ * the wizard's review step. Items without a date are placed on today,
+ * the day they were recorded.
+ */
+export function HistoryItemForm({ kind, onAdd }: HistoryItemFormProps) {
+  const { timeZone, toDateInput, fromInput } = useTimeZone();
+
+  const form = useForm<HistoryItemFormData>({
+    resolver: zodResolver(historyItemSchema(kind)),
+    defaultValues,
+  });
+
+  const hasDate = form.watch("hasDate");
+  const datePrecision = form.watch("datePrecision");
+
+  const handlePrecisionChange = (value: string) => {
+    if (!isDatePrecision(value) || value === "exact") return;
+    form.setValue("datePrecision", value, { shouldDirty: true });
+    const { date } = form.getValues();
+    if (date) {
+      form.setValue("date", convertPartialDateValue(date, value), { shouldDirty: true });
+    }
+  };
+
+  const handleSubmit = (data: HistoryItemFormData) => {
+    const { eventTime, eventTimeEnd } = data.hasDate
+      ? toEventTimeRange(data.date, null, data.datePrecision, timeZone)
+      : { eventTime: fromInput(toDateInput()), eventTimeEnd: null };
+    const date = {
+      eventTime,
+      eventTimeEnd,
+      eventTimeZone: timeZone,
+      eventTimePrecision: data.hasDate ? data.datePrecision : ("day" as const),
+    };
+    const note = data.note?.trim() || null;
+
+    if (kind === "medication") {
+      const fields = {
+        name: data.name,
+        strength: data.strength?.trim() || null,
+        route: data.route ?? null,
+        frequency: data.frequency?.trim() || null,
+      };
+      onAdd({
+        ...date,
+        eventType: "medication_event",
+        title: `Started: ${fields.name}`,
+        summary: describeMedication(fields),
+        details: { action: "started", ...fields, note },
+      });
+    } else {
+      const details = {
+        kind,
+        name: data.name,
+        status: kind === "condition" ? data.status ?? null : null,
+        reaction: kind === "allergy" ? data.reaction?.trim() || null : null,
+        severity: kind === "allergy" ? data.severity ?? null : null,
+        relation: kind === "family_history" ? data.relation?.trim() || null : null,
+        note,
+      };
+      onAdd({
+        ...date,
+        eventType: "medical_history",
+        title: historyTitle(details),
+        summary: describeHistory(details),
+        details,
+      });
+    }
+
+    form.reset(defaultValues);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 rounded-lg border border-border bg-card p-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{NAME_LABELS[kind]}</FormLabel>
+              <FormControl>
+                <Input placeholder={NAME_PLACEHOLDERS[kind]} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {kind === "condition" && (
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status (optional)</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CONDITION_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {CONDITION_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {kind === "allergy" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="reaction"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reaction (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Hives" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="severity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Severity (optional)</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select severity" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ALLERGY_SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity}>
+                          {ALLERGY_SEVERITY_LABELS[severity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {kind === "family_history" && (
+          <FormField
+            control={form.control}
+            name="relation"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Relative</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Mother" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {kind === "medication" && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <FormField
+              control={form.control}
+              name="strength"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Strength (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., 10 mg" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="route"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Route (optional)</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select route" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MEDICATION_ROUTES.map((route) => (
+                        <SelectItem key={route} value={route}>
+                          {MEDICATION_ROUTE_LABELS[route]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="frequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>How often (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Once daily" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {kind !== "family_history" && (
+          <div className="space-y-3">
+            <FormField
+              control={form.control}
+              name="hasDate"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">
+                    {kind === "medication" ? "I know roughly when I started it" : "I know roughly when"}
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {hasDate && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="datePrecision"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Known to the</FormLabel>
+                      <Select onValueChange={handlePrecisionChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger aria-label="Date precision">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {HISTORY_DATE_PRECISIONS.map((precision) => (
+                            <SelectItem key={precision} value={precision}>
+                              {DATE_PRECISION_LABELS[precision]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <PartialDateInput precision={datePrecision} value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note (optional)</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" variant="outline" className="w-full">
+          <Plus className="h-4 w-4 mr-2" />
+          Add to list
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -1,18 +1,28 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
+import { submitTimelineEvent, type SubmitResult } from "@/lib/offline-queue";
+import { DocumentsLockedError } from "@/lib/document-encryption";
 import {
-  requireUserId,
-  getOrCreateDataSource,
-  getOrCreateDefaultConsentSnapshot,
-} from "@/lib/write-helpers";
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENTS,
+  attachmentFileError,
+  recordTimelineEventWithAttachments,
+} from "@/lib/attachments";
+import type { RecordTimelineEventInput } from "@/lib/write-helpers";
+import {
+  JOURNAL_CATEGORIES,
+  SYMPTOM_ONSETS,
+  SYMPTOM_ONSET_LABELS,
+  type SymptomDetails,
+} from "@/lib/event-registry";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
 import {
   Select,
   SelectContent,
@@ -25,11 +35,27 @@ import {
   FormControl,
   FormField,
   FormItem,
+  FormDescription,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { useFormDraft } from "@/hooks/use-form-draft";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { toDateTimeInputValue } from "@/lib/time-zone";
+import {
+  DATE_PRECISIONS,
+  DATE_PRECISION_LABELS,
+  convertPartialDateValue,
+  isDatePrecision,
+  partialDateError,
+  toEventTimeRange,
+} from "@/lib/partial-dates";
+import { PartialDateInput } from "@/components/events/PartialDateInput";
+import { Checkbox } from "@/components/ui/checkbox";
+import { UnlockDocumentsDialog } from "@/components/encryption/UnlockDocumentsDialog";
+import { format } from "date-fns";
+import { ImagePlus, Loader2, X } from "lucide-react";
 
 /**
  * Journal Entry Form Component
@@ -40,6 +66,19 @@ import { Loader2 } from "lucide-react";
  * 
  * GUARDRAIL: Event-first data model
  * - Creates immutable timeline event with provenance
+ * - Symptom entries also store structured fields (severity, location,
+ *   onset, duration, triggers) used by Symptom History
+ *
+ * Offline support
+ * - Unsent input is kept as a draft on this device (IndexedDB)
+ * - Entries submitted without a connection are queued and sent on
+ *   reconnect; the idempotency key prevents duplicates
+ *
+ * Photos (rash, wound, swelling...) are uploaded to the documents bucket
+ * and attached to the entry in the same transaction. They need a
+ * connection and are not kept in the draft. Like documents, they are
+ * encrypted first when the user has turned encryption on; the form asks
+ * to unlock if needed.
  */
 
 const CATEGORIES = [
@@ -50,104 +89,240 @@ const CATEGORIES = [
   { value: "other", label: "Other" },
 ] as const;
 
+const DURATION_UNITS = [
+  { value: "minutes", label: "Minutes", minutes: 1 },
+  { value: "hours", label: "Hours", minutes: 60 },
+  { value: "days", label: "Days", minutes: 60 * 24 },
+] as const;
+
 const journalSchema = z.object({
   title: z.string().max(100, "Title must be under 100 characters").optional(),
   entryText: z.string()
     .min(1, "Entry text is required")
     .max(5000, "Entry must be under 5000 characters"),
-  category: z.string().optional(),
-  eventDateTime: z.string().min(1, "Event date is required"),
+  category: z.enum(JOURNAL_CATEGORIES).optional(),
+  datePrecision: z.enum(DATE_PRECISIONS),
+  eventDateTime: z.string(),
+  isDateRange: z.boolean(),
+  eventDateEnd: z.string().optional(),
+  symptomName: z.string().max(100, "Symptom must be under 100 characters").optional(),
+  severity: z.number().int().min(0).max(10),
+  location: z.string().max(100, "Location must be under 100 characters").optional(),
+  onset: z.enum(SYMPTOM_ONSETS).optional(),
+  durationValue: z.string()
+    .regex(/^\d*(\.\d+)?$/, "Enter a number")
+    .optional(),
+  durationUnit: z.enum(["minutes", "hours", "days"]),
+  triggers: z.string().max(500, "Triggers must be under 500 characters").optional(),
+}).superRefine((data, ctx) => {
+  const startError = partialDateError(data.eventDateTime, data.datePrecision);
+  if (startError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["eventDateTime"], message: startError });
+  }
+  if (data.isDateRange) {
+    const endError = partialDateError(data.eventDateEnd ?? "", data.datePrecision);
+    if (endError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["eventDateEnd"], message: endError });
+    } else if (!startError && (data.eventDateEnd ?? "") < data.eventDateTime) {
+      // Same precision, so the values compare as strings
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["eventDateEnd"], message: "End must not be before the start" });
+    }
+  }
+  if (data.category === "symptom" && !data.symptomName?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["symptomName"],
+      message: "Name the symptom so it can be tracked over time",
+    });
+  }
 });
 
 type JournalFormData = z.infer<typeof journalSchema>;
 
+/**
+ * Build the structured symptom details from the form, or null when the
+ * entry is not a symptom.
+ */
+function buildSymptomDetails(data: JournalFormData): SymptomDetails | null {
+  if (data.category !== "symptom" || !data.symptomName?.trim()) return null;
+
+  const unit = DURATION_UNITS.find((u) => u.value === data.durationUnit) ?? DURATION_UNITS[0];
+  const durationValue = data.durationValue ? Number(data.durationValue) : null;
+
+  return {
+    name: data.symptomName.trim(),
+    severity: data.severity,
+    location: data.location?.trim() || null,
+    onset: data.onset ?? null,
+    duration_minutes: durationValue !== null ? Math.round(durationValue * unit.minutes) : null,
+    triggers: Array.from(
+      new Set(
+        (data.triggers ?? "")
+          .split(",")
+          .map((trigger) => trigger.trim().slice(0, 50))
+          .filter(Boolean)
+      )
+    ).slice(0, 20),
+  };
+}
+
 export function JournalEntryForm() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { timeZone, toDateTimeInput } = useTimeZone();
 
   const form = useForm<JournalFormData>({
     resolver: zodResolver(journalSchema),
     defaultValues: {
       title: "",
       entryText: "",
-      category: "",
-      eventDateTime: new Date().toISOString().slice(0, 16),
+      category: undefined,
+      datePrecision: "exact",
+      eventDateTime: toDateTimeInput(),
+      isDateRange: false,
+      eventDateEnd: "",
+      symptomName: "",
+      severity: 5,
+      location: "",
+      onset: undefined,
+      durationValue: "",
+      durationUnit: "hours",
+      triggers: "",
     },
   });
 
+  const { draftSavedAt, clearDraft, discardDraft } = useFormDraft(form, "journal-entry");
+
+  // The display zone can load after the form; move an untouched "now" into it
+  useEffect(() => {
+    if (!form.getFieldState("eventDateTime").isDirty) {
+      form.resetField("eventDateTime", { defaultValue: toDateTimeInputValue(new Date(), timeZone) });
+    }
+  }, [form, timeZone]);
+
+  const isSymptom = form.watch("category") === "symptom";
+  const datePrecision = form.watch("datePrecision");
+  const isDateRange = form.watch("isDateRange");
+
+  // Keep the entered dates when switching precision ("2009" -> "2009-01-01")
+  const handlePrecisionChange = (value: string) => {
+    if (!isDatePrecision(value)) return;
+    const { eventDateTime, eventDateEnd } = form.getValues();
+    form.setValue("datePrecision", value, { shouldDirty: true });
+    form.setValue("eventDateTime", convertPartialDateValue(eventDateTime, value), { shouldDirty: true });
+    if (eventDateEnd) {
+      form.setValue("eventDateEnd", convertPartialDateValue(eventDateEnd, value), { shouldDirty: true });
+    }
+  };
+
+  const [photos, setPhotos] = useState<{ file: File; previewUrl: string }[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  // Revoke preview URLs when photos are removed or the form unmounts
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  useEffect(() => () => photosRef.current.forEach((p) => URL.revokeObjectURL(p.previewUrl)), []);
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    setPhotoError(null);
+
+    const invalid = files.map(attachmentFileError).find(Boolean);
+    if (invalid) {
+      setPhotoError(invalid);
+      return;
+    }
+    if (photos.length + files.length > MAX_ATTACHMENTS) {
+      setPhotoError(`Attach up to ${MAX_ATTACHMENTS} photos`);
+      return;
+    }
+    setPhotos((prev) => [...prev, ...files.map((file) => ({ file, previewUrl: URL.createObjectURL(file) }))]);
+  };
+
+  const removePhoto = (previewUrl: string) => {
+    URL.revokeObjectURL(previewUrl);
+    setPhotos((prev) => prev.filter((p) => p.previewUrl !== previewUrl));
+  };
+
   const onSubmit = async (data: JournalFormData) => {
     setIsSubmitting(true);
     safeLog.info("Journal entry submission started", { action: "journal_create_start" });
 
     try {
-      // Use shared helpers for user ID, data source, and consent
-      const userId = await requireUserId();
-      const dataSourceId = await getOrCreateDataSource(userId, "manual", "User Journal");
-      const consentSnapshotId = await getOrCreateDefaultConsentSnapshot(userId);
-
-      // Create provenance record
-      const { data: provenance, error: provError } = await supabase
-        .from("provenance")
-        .insert({
-          data_source_id: dataSourceId,
+      const { eventTime, eventTimeEnd } = toEventTimeRange(
+        data.eventDateTime,
+        data.isDateRange ? data.eventDateEnd || null : null,
+        data.datePrecision,
+        timeZone
+      );
+      const summary = data.entryText.slice(0, 140) + (data.entryText.length > 140 ? "..." : "");
+      const symptom = buildSymptomDetails(data);
+
+      const input: RecordTimelineEventInput = {
+        source: { type: "manual", name: "User Journal" },
+        provenance: {
           method: "manual_entry",
-          captured_at: new Date().toISOString(),
           metadata: {
             client: "web",
             category: data.category || "other",
           },
-        })
-        .select("id")
-        .single();
+        },
+        eventType: "journal_entry",
+        eventTime,
+        eventTimeZone: timeZone,
+        eventTimePrecision: data.datePrecision,
+        eventTimeEnd,
+        title: data.title || "Journal entry",
+        summary,
+        details: {
+          text: data.entryText,
+          category: data.category || "other",
+          ...(symptom ? { symptom } : {}),
+        },
+        auditAction: "journal_created",
+      };
 
-      if (provError) throw provError;
+      // Provenance, event, photos and audit record are written in one
+      // transaction; entries without photos are queued while offline
+      let result: SubmitResult;
+      if (photos.length > 0) {
+        const recorded = await recordTimelineEventWithAttachments(input, photos.map((p) => p.file));
+        result = { status: "sent", eventId: recorded.eventId };
+      } else {
+        result = await submitTimelineEvent(input);
+      }
 
-      // Create timeline event
-      const eventTime = new Date(data.eventDateTime).toISOString();
-      const summary = data.entryText.slice(0, 140) + (data.entryText.length > 140 ? "..." : "");
+      await clearDraft();
 
-      const { data: timelineEvent, error: eventError } = await supabase
-        .from("timeline_events")
-        .insert({
-          user_id: userId,
-          event_type: "journal_entry",
-          event_time: eventTime,
-          title: data.title || "Journal entry",
-          summary,
-          details: {
-            text: data.entryText,
-            category: data.category || "other",
-          },
-          provenance_id: provenance.id,
-          consent_snapshot_id: consentSnapshotId,
-        })
-        .select("id")
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Create audit event (IDs only, no PHI)
-      await supabase.from("audit_events").insert({
-        user_id: userId,
-        action: "journal_created",
-        entity_type: "timeline_event",
-        entity_id: timelineEvent.id,
-      });
-
-      safeLog.info("Journal entry created", {
-        action: "journal_create_success",
-        id: timelineEvent.id,
-        resourceType: "timeline_event",
-      });
-
-      toast({
-        title: "Saved to Timeline",
-        description: "Your journal entry has been recorded.",
-      });
+      if (result.status === "queued") {
+        safeLog.info("Journal entry queued", { action: "journal_create_queued" });
+        toast({
+          title: "Saved offline",
+          description: "Your journal entry will be added to your timeline when you're back online.",
+        });
+      } else {
+        safeLog.info("Journal entry created", {
+          action: "journal_create_success",
+          id: result.eventId,
+          resourceType: "timeline_event",
+        });
+        toast({
+          title: "Saved to Timeline",
+          description: "Your journal entry has been recorded.",
+        });
+      }
 
       navigate("/timeline");
     } catch (error) {
+      if (error instanceof DocumentsLockedError) {
+        setIsUnlockOpen(true);
+        return;
+      }
+
       safeLog.error("Journal entry creation failed", {
         action: "journal_create_error",
         errorType: error instanceof Error ? error.name : "unknown",
@@ -156,7 +331,7 @@ export function JournalEntryForm() {
       toast({
         variant: "destructive",
         title: "Error saving entry",
-        description: "Please try again or check your connection.",
+        description: "Please try again. Your draft is kept on this device.",
       });
     } finally {
       setIsSubmitting(false);
@@ -164,123 +339,398 @@ export function JournalEntryForm() {
   };
 
   return (
-    <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-        {/* Title (optional) */}
-        <FormField
-          control={form.control}
-          name="title"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Title (optional)</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Give your entry a title..."
-                  {...field}
-                  disabled={isSubmitting}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Entry text (required) */}
-        <FormField
-          control={form.control}
-          name="entryText"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Entry</FormLabel>
-              <FormControl>
-                <Textarea
-                  placeholder="What would you like to record? Symptoms, medications, mood, questions for your doctor..."
-                  className="min-h-[150px] resize-y"
-                  {...field}
-                  disabled={isSubmitting}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Category (optional) */}
-        <FormField
-          control={form.control}
-          name="category"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Category (optional)</FormLabel>
-              <Select
-                onValueChange={field.onChange}
-                defaultValue={field.value}
-                disabled={isSubmitting}
-              >
+    <>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Title (optional) */}
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Title (optional)</FormLabel>
                 <FormControl>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
+                  <Input
+                    placeholder="Give your entry a title..."
+                    {...field}
+                    disabled={isSubmitting}
+                  />
                 </FormControl>
-                <SelectContent>
-                  {CATEGORIES.map((cat) => (
-                    <SelectItem key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        {/* Event date/time */}
-        <FormField
-          control={form.control}
-          name="eventDateTime"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>When did this happen?</FormLabel>
-              <FormControl>
-                <Input
-                  type="datetime-local"
-                  {...field}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Entry text (required) */}
+          <FormField
+            control={form.control}
+            name="entryText"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Entry</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="What would you like to record? Symptoms, medications, mood, questions for your doctor..."
+                    className="min-h-[150px] resize-y"
+                    {...field}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Category (optional) */}
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category (optional)</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value}
                   disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CATEGORIES.map((cat) => (
+                      <SelectItem key={cat.value} value={cat.value}>
+                        {cat.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Structured symptom fields */}
+          {isSymptom && (
+            <div className="space-y-4 rounded-lg border border-border p-4">
+              <FormField
+                control={form.control}
+                name="symptomName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Symptom</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Headache" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormDescription>Use the same name each time to see its history.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity: {field.value} / 10</FormLabel>
+                    <FormControl>
+                      <Slider
+                        min={0}
+                        max={10}
+                        step={1}
+                        value={[field.value]}
+                        onValueChange={(value) => field.onChange(value[0])}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>None</span>
+                      <span>Worst imaginable</span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Left temple" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="onset"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Onset (optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="How did it start?" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SYMPTOM_ONSETS.map((onset) => (
+                          <SelectItem key={onset} value={onset}>
+                            {SYMPTOM_ONSET_LABELS[onset]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="durationValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" inputMode="decimal" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
+                <FormField
+                  control={form.control}
+                  name="durationUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DURATION_UNITS.map((unit) => (
+                            <SelectItem key={unit.value} value={unit.value}>
+                              {unit.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="triggers"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Triggers (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Stress, bright light" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormDescription>Separate multiple triggers with commas.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
           )}
-        />
-
-        {/* Action buttons */}
-        <div className="flex flex-col gap-3 pt-4">
-          <Button
-            type="submit"
-            className="w-full h-12 text-base"
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              "Save to Timeline"
+
+          {/* Event date/time, as precisely as it is known */}
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name="datePrecision"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>When did this happen?</FormLabel>
+                    <Select onValueChange={handlePrecisionChange} value={field.value} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Date precision">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DATE_PRECISIONS.map((precision) => (
+                          <SelectItem key={precision} value={precision}>
+                            {DATE_PRECISION_LABELS[precision]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="eventDateTime"
+                render={({ field }) => (
+                  <FormItem className="sm:pt-8">
+                    <FormControl>
+                      <PartialDateInput
+                        precision={datePrecision}
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={isSubmitting}
+                        aria-label={isDateRange ? "From" : "Date"}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isDateRange"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">It went on for a while (from – to)</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {isDateRange && (
+              <FormField
+                control={form.control}
+                name="eventDateEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Until</FormLabel>
+                    <FormControl>
+                      <PartialDateInput
+                        precision={datePrecision}
+                        value={field.value ?? ""}
+                        onChange={field.onChange}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              {datePrecision === "exact"
+                ? `Time zone: ${timeZone}`
+                : "Not sure of the exact date? Pick the year or month; it is shown that way on your timeline."}
+            </p>
+          </div>
+
+          {/* Photos (optional) */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Photos (optional)</label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo) => (
+                <div key={photo.previewUrl} className="relative h-20 w-20">
+                  <img
+                    src={photo.previewUrl}
+                    alt="Selected photo"
+                    className="h-full w-full rounded-md object-cover bg-muted"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(photo.previewUrl)}
+                    disabled={isSubmitting}
+                    className="absolute -right-2 -top-2 rounded-full bg-background border border-border p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_ATTACHMENTS && (
+                <button
+                  type="button"
+                  onClick={() => photoInputRef.current?.click()}
+                  disabled={isSubmitting}
+                  className="flex h-20 w-20 flex-col items-center justify-center rounded-md border-2 border-dashed border-border text-muted-foreground hover:border-primary/50 transition-colors"
+                >
+                  <ImagePlus className="h-5 w-5" />
+                  <span className="mt-1 text-xs">Add photo</span>
+                </button>
+              )}
+            </div>
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept={ATTACHMENT_CONTENT_TYPES.join(",")}
+              multiple
+              className="hidden"
+              onChange={handlePhotoSelect}
+            />
+            {photoError && <p className="text-sm font-medium text-destructive">{photoError}</p>}
+            {photos.length > 0 && (
+              <p className="text-xs text-muted-foreground">Photos need a connection to save and aren't kept in drafts.</p>
             )}
-          </Button>
-          <Button
-            type="button"
-            variant="outline"
-            className="w-full h-12 text-base"
-            onClick={() => navigate("/home")}
-            disabled={isSubmitting}
-          >
-            Cancel
-          </Button>
-        </div>
-      </form>
-    </Form>
+          </div>
+
+          {draftSavedAt && (
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>Draft saved on this device at {format(new Date(draftSavedAt), "h:mm a")}</span>
+              <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={discardDraft} disabled={isSubmitting}>
+                Discard draft
+              </Button>
+            </div>
+          )}
+
+          {/* Action buttons */}
+          <div className="flex flex-col gap-3 pt-4">
+            <Button
+              type="submit"
+              className="w-full h-12 text-base"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save to Timeline"
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full h-12 text-base"
+              onClick={() => navigate("/home")}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </Form>
+      <UnlockDocumentsDialog
+        open={isUnlockOpen}
+        onOpenChange={setIsUnlockOpen}
+        onUnlocked={() => form.handleSubmit(onSubmit)()}
+      />
+    </>
   );
 }
@@ -1,7 +1,10 @@
+import { useState } from "react";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
+import { CommandPalette } from "./CommandPalette";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 import { useNavigate } from "react-router-dom";
-import { Home, LogOut, User } from "lucide-react";
+import { Home, LogOut, Search, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -11,6 +14,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { lockDocumentKeys } from "@/lib/document-encryption";
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -19,10 +23,12 @@ interface AppLayoutProps {
 export function AppLayout({ children }: AppLayoutProps) {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
 
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
+      lockDocumentKeys();
       toast({
         title: "Logged out",
         description: "You have been signed out successfully.",
@@ -47,6 +53,20 @@ export function AppLayout({ children }: AppLayoutProps) {
             <SidebarTrigger className="mr-3" />
             <span className="font-semibold text-foreground md:hidden">MyBödy</span>
             <div className="flex-1" />
+
+            {/* Offline / pending sync status */}
+            <SyncStatusIndicator />
+
+            {/* Command palette (also ⌘K / Ctrl+K) */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="mr-1"
+              onClick={() => setIsPaletteOpen(true)}
+              aria-label="Search"
+            >
+              <Search className="h-5 w-5" />
+            </Button>
             
             {/* Mobile home button */}
             <Button
@@ -81,6 +101,7 @@ export function AppLayout({ children }: AppLayoutProps) {
           </main>
         </div>
       </div>
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} />
     </SidebarProvider>
   );
 }
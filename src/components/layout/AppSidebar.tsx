@@ -6,7 +6,13 @@ import {
   Settings, 
   Bug,
   BookOpen,
-  Home
+  Home,
+  Search,
+  Activity,
+  Pill,
+  HeartPulse,
+  ListChecks,
+  HelpCircle
 } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useLocation } from "react-router-dom";
@@ -27,6 +33,12 @@ import {
 const mainNavItems = [
   { title: "Home", url: "/home", icon: Home },
   { title: "Timeline", url: "/timeline", icon: Clock },
+  { title: "Search", url: "/search", icon: Search },
+  { title: "Symptoms", url: "/symptoms", icon: Activity },
+  { title: "Medications", url: "/medications", icon: Pill },
+  { title: "Vitals", url: "/vitals", icon: HeartPulse },
+  { title: "Trackers", url: "/trackers", icon: ListChecks },
+  { title: "Questions", url: "/questions", icon: HelpCircle },
   { title: "Documents", url: "/documents", icon: FileText },
   { title: "Sources", url: "/sources", icon: Link2 },
   { title: "Consent", url: "/consent", icon: Shield },
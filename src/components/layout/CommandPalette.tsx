@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Clock, FileText, Home, BookOpen, Search, Link2, Settings, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { SearchHighlight } from "@/components/search/SearchHighlight";
+import { useEventSearch } from "@/hooks/use-event-search";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PAGES = [
+  { title: "Home", url: "/home", icon: Home },
+  { title: "Timeline", url: "/timeline", icon: Clock },
+  { title: "Journal", url: "/journal", icon: BookOpen },
+  { title: "Documents", url: "/documents", icon: FileText },
+  { title: "Sources", url: "/sources", icon: Link2 },
+  { title: "Search", url: "/search", icon: Search },
+  { title: "Settings", url: "/settings", icon: Settings },
+];
+
+/**
+ * Command palette (⌘K / Ctrl+K)
+ *
+ * Jumps to pages and searches events with the same full-text search as
+ * the Search page. Filtering is done here and on the server, not by cmdk.
+ *
+ * GUARDRAIL: No PHI in logs - search terms are never logged
+ */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const { data: results, isFetching, isQueryReady } = useEventSearch(open ? query : "", 8);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  const go = (url: string) => {
+    onOpenChange(false);
+    navigate(url);
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const pages = PAGES.filter((page) => page.title.toLowerCase().includes(normalizedQuery));
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search events or jump to a page…"
+        value={query}
+        onValueChange={setQuery}
+        maxLength={200}
+      />
+      <CommandList>
+        <CommandEmpty>
+          {isFetching ? (
+            <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            "No results found."
+          )}
+        </CommandEmpty>
+
+        {isQueryReady && results && results.length > 0 && (
+          <CommandGroup heading="Events">
+            {results.map((result) => (
+              <CommandItem
+                key={result.event_id}
+                value={result.event_id}
+                onSelect={() => go(`/event/${result.event_id}`)}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{result.title || "Untitled"}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(new Date(result.event_time), "MMM d, yyyy")}
+                    </span>
+                  </div>
+                  <SearchHighlight
+                    text={result.headline}
+                    className="block truncate text-xs text-muted-foreground"
+                  />
+                </div>
+              </CommandItem>
+            ))}
+            <CommandItem
+              value="search-all"
+              onSelect={() => go(`/search?q=${encodeURIComponent(query.trim())}`)}
+            >
+              <Search className="mr-2 h-4 w-4" />
+              See all results
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {pages.length > 0 && (
+          <CommandGroup heading="Pages">
+            {pages.map((page) => (
+              <CommandItem key={page.url} value={page.url} onSelect={() => go(page.url)}>
+                <page.icon className="mr-2 h-4 w-4" />
+                {page.title}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { CloudOff, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+
+/**
+ * Header indicator for offline state and entries waiting to sync.
+ * Renders nothing while online with an empty outbox.
+ */
+export function SyncStatusIndicator() {
+  const { isOnline, isSyncing, pending, rejected, syncNow, discardRejected } = useOfflineSync();
+
+  if (isOnline && pending === 0 && rejected === 0) return null;
+
+  const label = !isOnline && pending === 0 && rejected === 0
+    ? "Offline"
+    : [pending > 0 && `${pending} pending`, rejected > 0 && `${rejected} failed`].filter(Boolean).join(", ");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={rejected > 0 ? "mr-1 text-destructive" : "mr-1 text-muted-foreground"}
+          aria-label={`Sync status: ${label}`}
+        >
+          {isSyncing ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : isOnline ? (
+            <RefreshCw className="h-4 w-4 mr-1" />
+          ) : (
+            <CloudOff className="h-4 w-4 mr-1" />
+          )}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+          {isOnline
+            ? "Entries saved offline are sent to your timeline automatically."
+            : "You're offline. New entries are saved on this device and sent when you reconnect."}
+        </DropdownMenuLabel>
+        {pending > 0 && (
+          <DropdownMenuItem onClick={syncNow} disabled={!isOnline || isSyncing}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Sync now
+          </DropdownMenuItem>
+        )}
+        {rejected > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+              {rejected === 1 ? "1 entry was" : `${rejected} entries were`} rejected by the server and can't be sent.
+            </DropdownMenuLabel>
+            <DropdownMenuItem onClick={discardRejected} className="text-destructive focus:text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Discard failed
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { describeMedication } from "@/lib/medications";
+import {
+  MEDICATION_ACTION_LABELS,
+  MEDICATION_ROUTES,
+  MEDICATION_ROUTE_LABELS,
+  isMedicationRoute,
+  type MedicationAction,
+  type MedicationFields,
+} from "@/lib/event-registry";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Medication Event Modal
+ *
+ * Logs one medication event: starting a medication, changing its dose,
+ * stopping it, or taking a dose. The current medication list is derived
+ * from these events; nothing is edited in place.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE existing events - creates a new event
+ * GUARDRAIL: No PHI in logs - only IDs and action types
+ */
+
+interface MedicationEventModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  action: MedicationAction;
+  /** Current medication; required for every action except "started" */
+  medication?: MedicationFields | null;
+}
+
+const DIALOG_TITLES: Record<MedicationAction, string> = {
+  started: "Add Medication",
+  dose_changed: "Change Dose",
+  stopped: "Stop Medication",
+  dose_taken: "Log Dose",
+};
+
+const SUBMIT_LABELS: Record<MedicationAction, string> = {
+  started: "Add Medication",
+  dose_changed: "Save Change",
+  stopped: "Stop Medication",
+  dose_taken: "Log Dose",
+};
+
+const medicationSchema = z.object({
+  name: z.string().trim().min(1, "Medication name is required").max(100, "Name must be under 100 characters"),
+  strength: z.string().max(50, "Strength must be under 50 characters").optional(),
+  route: z.enum(MEDICATION_ROUTES).optional(),
+  frequency: z.string().max(100, "Frequency must be under 100 characters").optional(),
+  note: z.string().max(500, "Note must be under 500 characters").optional(),
+  eventDateTime: z.string().min(1, "Date is required"),
+});
+
+type MedicationFormData = z.infer<typeof medicationSchema>;
+
+const defaultValues = (eventDateTime: string, medication?: MedicationFields | null): MedicationFormData => ({
+  name: medication?.name ?? "",
+  strength: medication?.strength ?? "",
+  route: medication?.route ?? undefined,
+  frequency: medication?.frequency ?? "",
+  note: "",
+  eventDateTime,
+});
+
+export function MedicationEventModal({ isOpen, onClose, onSuccess, action, medication }: MedicationEventModalProps) {
+  const { toast } = useToast();
+  const { timeZone, toDateTimeInput, fromInput } = useTimeZone();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<MedicationFormData>({
+    resolver: zodResolver(medicationSchema),
+    defaultValues: defaultValues(toDateTimeInput(), medication),
+  });
+
+  // Start from the medication's current values each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(defaultValues(toDateTimeInput(), medication));
+    }
+  }, [isOpen, medication, form, toDateTimeInput]);
+
+  // Only a new medication can be renamed; dose details change on start or dose change
+  const canEditName = action === "started";
+  const canEditDose = action === "started" || action === "dose_changed";
+
+  const handleSubmit = async (data: MedicationFormData) => {
+    setIsSubmitting(true);
+    try {
+      const fields: MedicationFields = {
+        name: data.name.trim(),
+        strength: data.strength?.trim() || null,
+        route: data.route ?? null,
+        frequency: data.frequency?.trim() || null,
+      };
+
+      const recorded = await recordTimelineEvent({
+        source: { type: "manual", name: "Medication Log" },
+        provenance: {
+          method: "manual_entry",
+          metadata: { client: "web", medication_action: action },
+        },
+        eventType: "medication_event",
+        eventTime: fromInput(data.eventDateTime),
+        eventTimeZone: timeZone,
+        title: `${MEDICATION_ACTION_LABELS[action]}: ${fields.name}`,
+        summary: describeMedication(fields),
+        details: {
+          action,
+          ...fields,
+          note: data.note?.trim() || null,
+        },
+        auditAction: "medication_logged",
+      });
+
+      safeLog.info("Medication event recorded", {
+        action: "medication_event_created",
+        id: recorded.eventId,
+        resourceType: "timeline_event",
+      });
+
+      onSuccess();
+    } catch (error) {
+      safeLog.error("Failed to record medication event", {
+        action: "medication_event_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Failed to save",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{DIALOG_TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            {canEditName
+              ? "Record a medication you have started taking."
+              : medication && describeMedication(medication)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {canEditName && (
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Medication</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Lisinopril" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {canEditDose && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="strength"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Strength</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. 10 mg" {...field} disabled={isSubmitting} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="route"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Route</FormLabel>
+                        <Select
+                          onValueChange={(value) => isMedicationRoute(value) && field.onChange(value)}
+                          value={field.value}
+                          disabled={isSubmitting}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="How is it taken?" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {MEDICATION_ROUTES.map((route) => (
+                              <SelectItem key={route} value={route}>
+                                {MEDICATION_ROUTE_LABELS[route]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frequency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Once daily" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="eventDateTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When?</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={action === "stopped" ? "destructive" : "default"}
+                disabled={isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {SUBMIT_LABELS[action]}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
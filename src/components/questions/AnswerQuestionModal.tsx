@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { answerQuestion } from "@/lib/write-helpers";
+import { questionLabel, type Question } from "@/hooks/use-questions";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/use-time-zone";
+
+/**
+ * Answer Question Modal
+ *
+ * Records a question_answered event that points back at the question,
+ * which marks it answered. The question itself is never modified.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE existing events - creates a new event
+ * GUARDRAIL: No PHI in logs
+ */
+
+interface AnswerQuestionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  question: Question;
+}
+
+const answerSchema = z.object({
+  answer: z.string()
+    .trim()
+    .min(1, "Answer is required")
+    .max(5000, "Answer must be under 5000 characters"),
+  answeredBy: z.string().max(100, "Name must be under 100 characters").optional(),
+  answeredAt: z.string().min(1, "Date is required"),
+});
+
+type AnswerFormData = z.infer<typeof answerSchema>;
+
+export function AnswerQuestionModal({ isOpen, onClose, onSuccess, question }: AnswerQuestionModalProps) {
+  const { toast } = useToast();
+  const { timeZone, toDateTimeInput, fromInput } = useTimeZone();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<AnswerFormData>({
+    resolver: zodResolver(answerSchema),
+    defaultValues: {
+      answer: "",
+      answeredBy: "",
+      answeredAt: toDateTimeInput(),
+    },
+  });
+
+  const handleSubmit = async (data: AnswerFormData) => {
+    setIsSubmitting(true);
+    try {
+      const answerId = await answerQuestion({
+        questionEventId: question.id,
+        questionTitle: questionLabel(question),
+        answer: data.answer,
+        answeredBy: data.answeredBy || null,
+        answeredAt: fromInput(data.answeredAt),
+        answeredTimeZone: timeZone,
+      });
+
+      safeLog.info("Question answered", {
+        action: "question_answered",
+        id: answerId,
+        resourceType: "timeline_event",
+      });
+
+      form.reset();
+      onSuccess();
+    } catch (error) {
+      safeLog.error("Failed to answer question", {
+        action: "question_answer_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Failed to save answer",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Answer</DialogTitle>
+          <DialogDescription className="whitespace-pre-wrap">{question.text}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="answer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Answer</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What did you find out?"
+                      className="min-h-[120px] resize-y"
+                      {...field}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="answeredBy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Answered by (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Dr. Patel" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="answeredAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Answer
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ClipboardList, Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { useVisitSummaries } from "@/hooks/use-questions";
+
+interface AttachToVisitDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  questionCount: number;
+  /** Attach to an existing visit summary */
+  onAttach: (visitSummaryId: string) => Promise<void>;
+  /** Start a new visit summary with the questions instead */
+  onCreateNew: () => void;
+}
+
+/**
+ * Choose the visit summary to attach questions to, or start a new one.
+ * Attaching adds `question_for` links; the visit summary is unchanged.
+ */
+export function AttachToVisitDialog({
+  isOpen,
+  onClose,
+  questionCount,
+  onAttach,
+  onCreateNew,
+}: AttachToVisitDialogProps) {
+  const { data: visits, isLoading } = useVisitSummaries();
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleAttach = async () => {
+    if (!selectedId) return;
+    setIsSubmitting(true);
+    try {
+      await onAttach(selectedId);
+      setSelectedId("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Attach to Visit
+          </DialogTitle>
+          <DialogDescription>
+            Add {questionCount} question{questionCount !== 1 ? "s" : ""} to a visit summary so you
+            remember to ask {questionCount !== 1 ? "them" : "it"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visits && visits.length > 0 ? (
+            <RadioGroup
+              value={selectedId}
+              onValueChange={setSelectedId}
+              className="max-h-64 overflow-y-auto space-y-2"
+            >
+              {visits.map((visit) => (
+                <Label
+                  key={visit.id}
+                  htmlFor={`visit-${visit.id}`}
+                  className="flex items-center gap-3 rounded-lg border border-border p-3 cursor-pointer hover:bg-muted/50"
+                >
+                  <RadioGroupItem id={`visit-${visit.id}`} value={visit.id} />
+                  <span className="flex-1 min-w-0 truncate font-normal">{visit.title || "Untitled"}</span>
+                  <span className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                    {format(new Date(visit.event_time), "MMM d, yyyy")}
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          ) : (
+            <p className="text-sm text-muted-foreground">No visit summaries yet.</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" onClick={onCreateNew} disabled={isSubmitting}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Visit Summary
+          </Button>
+          <Button onClick={handleAttach} disabled={!selectedId || isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Attach
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import { Fragment } from "react";
+
+interface SearchHighlightProps {
+  text: string;
+  className?: string;
+}
+
+// Markers emitted by ts_headline in search_timeline
+const MATCH_PATTERN = /⟦(.*?)⟧/g;
+
+/**
+ * Renders a search headline with matches highlighted.
+ *
+ * The server marks matches with ⟦ ⟧ instead of HTML, so content is always
+ * rendered as text and never injected as markup.
+ */
+export function SearchHighlight({ text, className }: SearchHighlightProps) {
+  const parts = text.split(MATCH_PATTERN);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        // split() with a capture group puts the matches at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
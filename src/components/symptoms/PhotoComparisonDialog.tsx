@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Images } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Toggle } from "@/components/ui/toggle";
+import { AttachmentThumbnail } from "@/components/attachments/AttachmentThumbnail";
+import type { EventAttachment } from "@/hooks/use-event-attachments";
+import type { SymptomEntry } from "@/hooks/use-symptom-history";
+
+const MAX_COMPARED = 3;
+
+export interface PhotoEntry {
+  entry: SymptomEntry;
+  attachments: EventAttachment[];
+}
+
+interface PhotoComparisonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  symptomName: string;
+  /** Entries of one symptom that have photos, oldest first */
+  photoEntries: PhotoEntry[];
+}
+
+/**
+ * Photos from entries of the same symptom side by side, to see how a
+ * rash, wound or swelling changed. Starts with the first and the latest
+ * entry; up to three entries can be compared.
+ */
+export function PhotoComparisonDialog({ isOpen, onClose, symptomName, photoEntries }: PhotoComparisonDialogProps) {
+  const [chosenIds, setChosenIds] = useState<string[] | null>(null);
+
+  const defaultIds = photoEntries.length > 1
+    ? [photoEntries[0].entry.id, photoEntries[photoEntries.length - 1].entry.id]
+    : photoEntries.map((p) => p.entry.id);
+  const selectedIds = (chosenIds ?? defaultIds).filter((id) => photoEntries.some((p) => p.entry.id === id));
+  const compared = photoEntries.filter((p) => selectedIds.includes(p.entry.id));
+
+  const toggleEntry = (entryId: string, pressed: boolean) => {
+    const next = pressed ? [...selectedIds, entryId] : selectedIds.filter((id) => id !== entryId);
+    // Drop the oldest choice when a fourth entry is picked
+    setChosenIds(next.slice(-MAX_COMPARED));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5" />
+            Compare Photos: {symptomName}
+          </DialogTitle>
+          <DialogDescription>Choose up to {MAX_COMPARED} entries to view side by side.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {photoEntries.map(({ entry }) => (
+            <Toggle
+              key={entry.id}
+              size="sm"
+              variant="outline"
+              pressed={selectedIds.includes(entry.id)}
+              onPressedChange={(pressed) => toggleEntry(entry.id, pressed)}
+            >
+              {format(new Date(entry.event_time), "MMM d, yyyy")}
+            </Toggle>
+          ))}
+        </div>
+
+        <div
+          className="grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${Math.max(compared.length, 1)}, minmax(0, 1fr))` }}
+        >
+          {compared.map(({ entry, attachments }) => (
+            <div key={entry.id} className="space-y-2 min-w-0">
+              <div className="text-sm">
+                <p className="font-medium text-foreground">{format(new Date(entry.event_time), "MMM d, yyyy h:mm a")}</p>
+                <p className="text-muted-foreground">
+                  Severity {entry.symptom.severity} / 10
+                  {entry.symptom.location && ` · ${entry.symptom.location}`}
+                </p>
+              </div>
+              {attachments.map((attachment) => (
+                <AttachmentThumbnail
+                  key={attachment.id}
+                  attachment={attachment}
+                  fit="contain"
+                  className="aspect-square w-full"
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { History, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface AsOfPickerProps {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}
+
+/**
+ * "As of" date picker for the bitemporal timeline
+ *
+ * Selecting a date shows the timeline as it was known at the end of that
+ * day. Clearing it returns to the current view.
+ */
+export function AsOfPicker({ value, onChange }: AsOfPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border border-border mb-4">
+      <div className="flex items-center gap-2">
+        <History className={`h-4 w-4 ${value ? "text-primary" : "text-muted-foreground"}`} />
+        <span className="text-sm font-medium">
+          {value ? `As known on ${format(value, "MMM d, yyyy")}` : "As known today"}
+        </span>
+      </div>
+      <div className="flex items-center gap-1">
+        {value && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+            <X className="h-4 w-4 mr-1" />
+            Today
+          </Button>
+        )}
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              As of…
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="single"
+              selected={value ?? undefined}
+              onSelect={(date) => {
+                onChange(date ?? null);
+                setIsOpen(false);
+              }}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+}
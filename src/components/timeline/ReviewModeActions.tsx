@@ -1,26 +1,57 @@
-import { ClipboardList, Eye } from "lucide-react";
+import { ClipboardList, Eye, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface ReviewModeActionsProps {
   selectedCount: number;
   onCreateSummary: () => void;
   onPreviewShare: () => void;
+  /** Tags in use; when non-empty a "Select by tag" control is shown */
+  tags?: string[];
+  onSelectTag?: (tag: string) => void;
+  isSelectingTag?: boolean;
 }
 
 /**
  * Action bar shown in review mode when events are selected
  */
-export function ReviewModeActions({ 
-  selectedCount, 
+export function ReviewModeActions({
+  selectedCount,
   onCreateSummary,
-  onPreviewShare 
+  onPreviewShare,
+  tags,
+  onSelectTag,
+  isSelectingTag,
 }: ReviewModeActionsProps) {
+  const tagSelect = tags && tags.length > 0 && onSelectTag && (
+    <Select value="" onValueChange={onSelectTag} disabled={isSelectingTag}>
+      <SelectTrigger className="w-full sm:w-44 h-9">
+        <Tag className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue placeholder={isSelectingTag ? "Selecting…" : "Select by tag"} />
+      </SelectTrigger>
+      <SelectContent>
+        {tags.map((tag) => (
+          <SelectItem key={tag} value={tag}>
+            {tag}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   if (selectedCount === 0) {
     return (
       <div className="p-4 bg-muted/30 rounded-lg border border-dashed border-border text-center mb-4">
         <p className="text-sm text-muted-foreground">
           Select events to create a visit summary or preview for sharing
         </p>
+        {tagSelect && <div className="mt-3 flex justify-center">{tagSelect}</div>}
       </div>
     );
   }
@@ -31,17 +62,18 @@ export function ReviewModeActions({
         {selectedCount} event{selectedCount !== 1 ? "s" : ""} selected
       </p>
       <div className="flex flex-col sm:flex-row gap-2">
-        <Button 
-          variant="outline" 
-          size="sm" 
+        {tagSelect}
+        <Button
+          variant="outline"
+          size="sm"
           onClick={onPreviewShare}
           className="w-full sm:w-auto"
         >
           <Eye className="h-4 w-4 mr-2" />
           Share Preview
         </Button>
-        <Button 
-          size="sm" 
+        <Button
+          size="sm"
           onClick={onCreateSummary}
           className="w-full sm:w-auto"
         >
@@ -1,5 +1,4 @@
-import { Clock, BookOpen, FileText, GitBranch, ClipboardList } from "lucide-react";
-import { format } from "date-fns";
+import { Clock, BookOpen, FileText, GitBranch, ClipboardList, Pill, HeartPulse, ListChecks, MessageCircleReply, Stethoscope, ScanText, FileStack } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { 
   getOptionalCategory,
@@ -7,17 +6,24 @@ import {
   getAmendsEventId,
   getAmendedEventType,
 } from "@/lib/event-details";
+import { EventTagChips } from "@/components/events/EventTagChips";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatEventDate } from "@/lib/partial-dates";
 
 interface TimelineEvent {
   id: string;
   event_type: string;
   event_time: string;
+  event_time_precision?: string | null;
+  event_time_end?: string | null;
+  event_timezone?: string | null;
   title: string | null;
   summary: string;
   details: Record<string, unknown> | null;
   created_at: string;
   provenance_id: string;
   consent_snapshot_id: string;
+  tags?: string[] | null;
 }
 
 const EVENT_TYPE_CONFIG: Record<string, { 
@@ -45,6 +51,41 @@ const EVENT_TYPE_CONFIG: Record<string, {
     icon: ClipboardList, 
     color: "bg-secondary text-secondary-foreground" 
   },
+  medication_event: { 
+    label: "Medication", 
+    icon: Pill, 
+    color: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300" 
+  },
+  vital_sign: { 
+    label: "Vital Sign", 
+    icon: HeartPulse, 
+    color: "bg-rose-500/10 text-rose-700 dark:text-rose-300" 
+  },
+  tracker_entry: { 
+    label: "Tracker", 
+    icon: ListChecks, 
+    color: "bg-violet-500/10 text-violet-700 dark:text-violet-300" 
+  },
+  question_answered: { 
+    label: "Answer", 
+    icon: MessageCircleReply, 
+    color: "bg-sky-500/10 text-sky-700 dark:text-sky-300" 
+  },
+  medical_history: { 
+    label: "History", 
+    icon: Stethoscope, 
+    color: "bg-amber-500/10 text-amber-700 dark:text-amber-300" 
+  },
+  document_text_extracted: { 
+    label: "Extracted Text", 
+    icon: ScanText, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
+  document_version_added: { 
+    label: "New Version", 
+    icon: FileStack, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
 };
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -82,6 +123,7 @@ export function SelectableEventCard({
   onSelectionChange,
   hasAmendments 
 }: SelectableEventCardProps) {
+  const { timeZone } = useTimeZone();
   const config = EVENT_TYPE_CONFIG[event.event_type] || {
     label: event.event_type,
     icon: Clock,
@@ -177,11 +219,16 @@ export function SelectableEventCard({
               Amends: {amendsEventId.slice(0, 8)}...
             </p>
           )}
+          {event.tags && event.tags.length > 0 && (
+            <div className="mt-2">
+              <EventTagChips tags={event.tags} />
+            </div>
+          )}
         </div>
 
         {/* Date */}
         <time className="text-xs text-muted-foreground whitespace-nowrap shrink-0">
-          {format(new Date(event.event_time), "MMM d, yyyy")}
+          {formatEventDate(event, timeZone)}
         </time>
       </div>
     </div>
@@ -1,5 +1,4 @@
-import { Clock, BookOpen, FileText, ExternalLink, Edit, GitBranch, Cloud } from "lucide-react";
-import { format } from "date-fns";
+import { Clock, BookOpen, FileText, ExternalLink, Edit, GitBranch, Cloud, Ban, Pill, HeartPulse, ListChecks, MessageCircleReply, Stethoscope, ScanText, FileStack } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { 
@@ -12,18 +11,28 @@ import {
   getExternalSource,
   getResourceCategory,
   getProviderName,
+  getRetractsEventId,
 } from "@/lib/event-details";
+import { EventTagChips } from "@/components/events/EventTagChips";
+import { AttachmentThumbnail } from "@/components/attachments/AttachmentThumbnail";
+import type { EventAttachment } from "@/hooks/use-event-attachments";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatEventDate } from "@/lib/partial-dates";
 
 interface TimelineEvent {
   id: string;
   event_type: string;
   event_time: string;
+  event_time_precision?: string | null;
+  event_time_end?: string | null;
+  event_timezone?: string | null;
   title: string | null;
   summary: string;
   details: Record<string, unknown> | null;
   created_at: string;
   provenance_id: string;
   consent_snapshot_id: string;
+  tags?: string[] | null;
 }
 
 const EVENT_TYPE_CONFIG: Record<string, { 
@@ -51,6 +60,46 @@ const EVENT_TYPE_CONFIG: Record<string, {
     icon: Cloud, 
     color: "bg-blue-500/10 text-blue-700 dark:text-blue-300" 
   },
+  event_retracted: { 
+    label: "Retraction", 
+    icon: Ban, 
+    color: "bg-destructive/10 text-destructive" 
+  },
+  medication_event: { 
+    label: "Medication", 
+    icon: Pill, 
+    color: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300" 
+  },
+  vital_sign: { 
+    label: "Vital Sign", 
+    icon: HeartPulse, 
+    color: "bg-rose-500/10 text-rose-700 dark:text-rose-300" 
+  },
+  tracker_entry: { 
+    label: "Tracker", 
+    icon: ListChecks, 
+    color: "bg-violet-500/10 text-violet-700 dark:text-violet-300" 
+  },
+  question_answered: { 
+    label: "Answer", 
+    icon: MessageCircleReply, 
+    color: "bg-sky-500/10 text-sky-700 dark:text-sky-300" 
+  },
+  medical_history: { 
+    label: "History", 
+    icon: Stethoscope, 
+    color: "bg-amber-500/10 text-amber-700 dark:text-amber-300" 
+  },
+  document_text_extracted: { 
+    label: "Extracted Text", 
+    icon: ScanText, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
+  document_version_added: { 
+    label: "New Version", 
+    icon: FileStack, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
 };
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -81,15 +130,20 @@ interface TimelineEventCardProps {
   event: TimelineEvent;
   onViewDocument: (documentArtifactId: string) => void;
   hasAmendments?: boolean;
+  /** Photos attached to a journal entry */
+  attachments?: EventAttachment[];
 }
 
+const MAX_CARD_THUMBNAILS = 4;
+
 /**
  * Individual timeline event card component
  * 
  * GUARDRAIL: No PHI in logs - only displays, never logs content
  */
-export function TimelineEventCard({ event, onViewDocument, hasAmendments }: TimelineEventCardProps) {
+export function TimelineEventCard({ event, onViewDocument, hasAmendments, attachments }: TimelineEventCardProps) {
   const navigate = useNavigate();
+  const { timeZone } = useTimeZone();
   const config = EVENT_TYPE_CONFIG[event.event_type] || {
     label: event.event_type,
     icon: Clock,
@@ -107,6 +161,7 @@ export function TimelineEventCard({ event, onViewDocument, hasAmendments }: Time
   const amendsEventId = getAmendsEventId(details);
   const amendedEventType = getAmendedEventType(details);
   const amendedCategory = isAmendment ? getOptionalCategory(details) : null;
+  const retractsEventId = getRetractsEventId(details);
   
   // External event details
   const externalSource = getExternalSource(details);
@@ -201,11 +256,32 @@ export function TimelineEventCard({ event, onViewDocument, hasAmendments }: Time
                 Amends: {amendsEventId.slice(0, 8)}...
               </p>
             )}
+            {/* Show "Retracts: {id}" for retraction events */}
+            {event.event_type === "event_retracted" && retractsEventId && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Retracts: {retractsEventId.slice(0, 8)}...
+              </p>
+            )}
+            {attachments && attachments.length > 0 && (
+              <div className="mt-2 flex items-center gap-2">
+                {attachments.slice(0, MAX_CARD_THUMBNAILS).map((attachment) => (
+                  <AttachmentThumbnail key={attachment.id} attachment={attachment} className="h-12 w-12" />
+                ))}
+                {attachments.length > MAX_CARD_THUMBNAILS && (
+                  <span className="text-xs text-muted-foreground">+{attachments.length - MAX_CARD_THUMBNAILS}</span>
+                )}
+              </div>
+            )}
+            {event.tags && event.tags.length > 0 && (
+              <div className="mt-2">
+                <EventTagChips tags={event.tags} />
+              </div>
+            )}
           </div>
         </div>
         <div className="flex flex-col items-end gap-2 flex-shrink-0">
           <time className="text-xs text-muted-foreground whitespace-nowrap">
-            {format(new Date(event.event_time), "MMM d, yyyy")}
+            {formatEventDate(event, timeZone)}
           </time>
           {event.event_type === "document_uploaded" && documentArtifactId && (
             <Button
@@ -1,22 +1,79 @@
+import { useEffect, useState } from "react";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { JOURNAL_CATEGORIES, isJournalCategory } from "@/lib/event-registry";
+import type { TimelineQueryFilters } from "@/hooks/use-timeline-events";
+import { useUserTags } from "@/hooks/use-event-tags";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { zonedTimeToUtc } from "@/lib/time-zone";
 
 export type FilterValue = "all" | "journal" | "documents" | "external";
 
+type TimelineFilterState = Omit<TimelineQueryFilters, "asOf">;
+
 interface TimelineFiltersProps {
-  value: FilterValue;
-  onChange: (value: FilterValue) => void;
+  value: TimelineFilterState;
+  onChange: (value: TimelineFilterState) => void;
 }
 
+const CATEGORY_LABELS: Record<string, string> = {
+  symptom: "Symptom",
+  medication: "Medication",
+  mood: "Mood",
+  question: "Question",
+  other: "Other",
+};
+
+const ALL_CATEGORIES = "all";
+// Tags are stored lowercase, so an uppercase sentinel cannot collide with one
+const ALL_TAGS = "ALL";
+
+/** Last millisecond of a day in a zone */
+const endOfZonedDay = (date: string, timeZone: string) =>
+  new Date(zonedTimeToUtc(`${date}T23:59`, timeZone).getTime() + 59_999).toISOString();
+
 /**
  * Timeline filter controls - mobile-first segmented buttons
+ *
+ * Filters are applied server-side; changing one starts a new paginated query.
  */
 export function TimelineFilters({ value, onChange }: TimelineFiltersProps) {
+  const { data: userTags } = useUserTags();
+  const { timeZone, fromInput, toDateInput: toZonedDateInput } = useTimeZone();
+  const toDateInput = (iso: string | null) => (iso ? toZonedDateInput(iso) : "");
+
+  // Debounce provider typing so each keystroke doesn't start a new query
+  const [providerInput, setProviderInput] = useState(value.provider);
+
+  useEffect(() => {
+    setProviderInput(value.provider);
+  }, [value.provider]);
+
+  useEffect(() => {
+    if (providerInput === value.provider) return;
+    const timeout = setTimeout(() => onChange({ ...value, provider: providerInput }), 300);
+    return () => clearTimeout(timeout);
+  }, [providerInput, value, onChange]);
+
+  const handleTypeChange = (type: FilterValue) => {
+    // Category and provider only apply to their own event types
+    onChange({ ...value, type, category: null, provider: "" });
+  };
+
   return (
-    <div className="mb-6">
+    <div className="mb-6 space-y-3">
       <ToggleGroup
         type="single"
-        value={value}
-        onValueChange={(v) => v && onChange(v as FilterValue)}
+        value={value.type}
+        onValueChange={(v) => v && handleTypeChange(v as FilterValue)}
         className="w-full grid grid-cols-4 gap-1 bg-muted p-1 rounded-lg"
       >
         <ToggleGroupItem
@@ -44,6 +101,97 @@ export function TimelineFilters({ value, onChange }: TimelineFiltersProps) {
           External
         </ToggleGroupItem>
       </ToggleGroup>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="timeline-from" className="text-xs text-muted-foreground">From</Label>
+          <Input
+            id="timeline-from"
+            type="date"
+            value={toDateInput(value.from)}
+            max={toDateInput(value.to) || undefined}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                from: e.target.value ? fromInput(e.target.value) : null,
+              })
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timeline-to" className="text-xs text-muted-foreground">To</Label>
+          <Input
+            id="timeline-to"
+            type="date"
+            value={toDateInput(value.to)}
+            min={toDateInput(value.from) || undefined}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                to: e.target.value ? endOfZonedDay(e.target.value, timeZone) : null,
+              })
+            }
+          />
+        </div>
+
+        {userTags && userTags.length > 0 && (
+          <div className="space-y-1 col-span-2 sm:col-span-1">
+            <Label className="text-xs text-muted-foreground">Tag</Label>
+            <Select
+              value={value.tag ?? ALL_TAGS}
+              onValueChange={(v) => onChange({ ...value, tag: v === ALL_TAGS ? null : v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+                {userTags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>
+                    {tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {value.type === "journal" && (
+          <div className="space-y-1 col-span-2 sm:col-span-1">
+            <Label className="text-xs text-muted-foreground">Category</Label>
+            <Select
+              value={value.category ?? ALL_CATEGORIES}
+              onValueChange={(v) =>
+                onChange({ ...value, category: isJournalCategory(v) ? v : null })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {JOURNAL_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {CATEGORY_LABELS[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {value.type === "external" && (
+          <div className="space-y-1 col-span-2 sm:col-span-1">
+            <Label htmlFor="timeline-provider" className="text-xs text-muted-foreground">Provider</Label>
+            <Input
+              id="timeline-provider"
+              placeholder="Any provider"
+              value={providerInput}
+              onChange={(e) => setProviderInput(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
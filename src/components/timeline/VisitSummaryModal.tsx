@@ -1,6 +1,5 @@
 import { useState } from "react";
-import { format } from "date-fns";
-import { ClipboardList, Loader2 } from "lucide-react";
+import { ClipboardList, GitBranch, HelpCircle, Loader2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -14,13 +13,22 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { isOpenQuestion, questionLabel, useQuestions } from "@/hooks/use-questions";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { eventsDateRange } from "@/lib/partial-dates";
+import type { CreateVisitSummaryInput } from "@/lib/write-helpers";
 
 interface TimelineEvent {
   id: string;
   event_type: string;
   event_time: string;
+  event_time_precision?: string | null;
+  event_time_end?: string | null;
+  event_timezone?: string | null;
   title: string | null;
   summary: string;
+  is_amended?: boolean;
 }
 
 const PRESET_LABELS = [
@@ -35,17 +43,19 @@ interface VisitSummaryModalProps {
   isOpen: boolean;
   onClose: () => void;
   selectedEvents: TimelineEvent[];
-  onCreateSummary: (data: {
-    title: string;
-    summary: string;
-    label: string;
-    eventIds: string[];
-    dateRange: { start: string; end: string };
-  }) => Promise<void>;
+  onCreateSummary: (data: CreateVisitSummaryInput) => Promise<void>;
 }
 
 /**
  * Modal for creating a visit summary from selected events
+ *
+ * Selected events carry their current (amended) content; amended events
+ * are flagged so the user knows the summary reflects corrections.
+ *
+ * Unanswered questions are offered for the visit, unticked; ticked and
+ * selected open questions are attached to the new summary. Offered
+ * questions are attached, not covered: they do not widen the date range
+ * or count as summarised events.
  */
 export function VisitSummaryModal({
   isOpen,
@@ -58,13 +68,31 @@ export function VisitSummaryModal({
   const [label, setLabel] = useState("");
   const [customLabel, setCustomLabel] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [includedQuestionIds, setIncludedQuestionIds] = useState<Set<string>>(new Set());
+  const { data: questions } = useQuestions();
+  const { timeZone, formatTime } = useTimeZone();
 
-  // Calculate date range
-  const sortedDates = selectedEvents
-    .map((e) => new Date(e.event_time).getTime())
-    .sort((a, b) => a - b);
-  const startDate = sortedDates.length > 0 ? new Date(sortedDates[0]) : new Date();
-  const endDate = sortedDates.length > 0 ? new Date(sortedDates[sortedDates.length - 1]) : new Date();
+  const selectedIds = new Set(selectedEvents.map((e) => e.id));
+  const openQuestions = (questions ?? []).filter(isOpenQuestion);
+  const offeredQuestions = openQuestions.filter((q) => !selectedIds.has(q.id));
+  const includedQuestions = offeredQuestions.filter((q) => includedQuestionIds.has(q.id));
+
+  const toggleQuestion = (questionId: string, included: boolean) => {
+    setIncludedQuestionIds((prev) => {
+      const next = new Set(prev);
+      if (included) {
+        next.add(questionId);
+      } else {
+        next.delete(questionId);
+      }
+      return next;
+    });
+  };
+
+  // Date range of the selected events; approximate dates count to the end of their period
+  const dateRange = eventsDateRange(selectedEvents, timeZone);
+  const startDate = dateRange?.start ?? new Date();
+  const endDate = dateRange?.end ?? new Date();
 
   const handleSubmit = async () => {
     if (!title.trim() || !summary.trim()) return;
@@ -76,6 +104,10 @@ export function VisitSummaryModal({
         summary: summary.trim(),
         label: label === "custom" ? customLabel.trim() : label,
         eventIds: selectedEvents.map((e) => e.id),
+        questionIds: [
+          ...openQuestions.filter((q) => selectedIds.has(q.id)),
+          ...includedQuestions,
+        ].map((q) => q.id),
         dateRange: {
           start: startDate.toISOString(),
           end: endDate.toISOString(),
@@ -86,6 +118,7 @@ export function VisitSummaryModal({
       setSummary("");
       setLabel("");
       setCustomLabel("");
+      setIncludedQuestionIds(new Set());
       onClose();
     } finally {
       setIsSubmitting(false);
@@ -121,15 +154,53 @@ export function VisitSummaryModal({
           {/* Date range info */}
           <div className="p-3 bg-muted/50 rounded-lg text-sm">
             <span className="font-medium">Date range:</span>{" "}
-            {format(startDate, "MMM d, yyyy")}
-            {startDate.getTime() !== endDate.getTime() && (
-              <> — {format(endDate, "MMM d, yyyy")}</>
-            )}
+            {dateRange?.startLabel ?? formatTime(startDate, "MMM d, yyyy")}
+            {dateRange && dateRange.startLabel !== dateRange.endLabel && <> — {dateRange.endLabel}</>}
             <span className="text-muted-foreground ml-2">
               ({selectedEvents.length} event{selectedEvents.length !== 1 ? "s" : ""})
             </span>
           </div>
 
+          {/* Selected events (current content) */}
+          <ul className="max-h-32 overflow-y-auto space-y-1 text-sm">
+            {selectedEvents.map((event) => (
+              <li key={event.id} className="flex items-center gap-2 min-w-0">
+                <span className="truncate">{event.title || "Untitled"}</span>
+                {event.is_amended && (
+                  <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-warning/10 px-2 py-0.5 text-xs text-warning-foreground">
+                    <GitBranch className="h-3 w-3" />
+                    Amended
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Unanswered questions to bring to the visit */}
+          {offeredQuestions.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <HelpCircle className="h-4 w-4" />
+                Open questions
+              </Label>
+              <ul className="max-h-40 overflow-y-auto space-y-2 text-sm">
+                {offeredQuestions.map((question) => (
+                  <li key={question.id} className="flex items-start gap-2 min-w-0">
+                    <Checkbox
+                      id={`question-${question.id}`}
+                      checked={includedQuestionIds.has(question.id)}
+                      onCheckedChange={(checked) => toggleQuestion(question.id, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor={`question-${question.id}`} className="font-normal leading-snug cursor-pointer">
+                      {questionLabel(question)}
+                    </Label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Title */}
           <div className="space-y-2">
             <Label htmlFor="summary-title">Title *</Label>
@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { createTracker } from "@/lib/write-helpers";
+import {
+  MAX_TRACKER_FIELDS,
+  TRACKER_FIELD_TYPES,
+  TRACKER_FIELD_TYPE_LABELS,
+  fieldKeyFromLabel,
+  isTrackerFieldType,
+  trackerFieldSchema,
+  type TrackerField,
+} from "@/lib/trackers";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Tracker Definition Modal
+ *
+ * Defines a new tracker: a name and a list of typed fields. Field keys are
+ * derived from the labels. Fields cannot be changed after creation, since
+ * past entries are stored against them.
+ *
+ * GUARDRAIL: No PHI in logs - only IDs and action types
+ */
+
+interface TrackerDefinitionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (trackerId: string) => void;
+}
+
+const optionalNumber = z
+  .string()
+  .refine((value) => value.trim() === "" || Number.isFinite(Number(value)), "Enter a number");
+
+const fieldFormSchema = z
+  .object({
+    label: z.string().trim().min(1, "Label is required").max(60, "Label must be under 60 characters"),
+    type: z.enum(TRACKER_FIELD_TYPES),
+    required: z.boolean(),
+    unit: z.string().max(20, "Unit must be under 20 characters"),
+    min: optionalNumber,
+    max: optionalNumber,
+    options: z.string(),
+  })
+  .superRefine((field, ctx) => {
+    if (field.type === "scale") {
+      if (!Number.isInteger(Number(field.min)) || field.min.trim() === "") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["min"], message: "Whole number" });
+      }
+      if (!Number.isInteger(Number(field.max)) || field.max.trim() === "") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["max"], message: "Whole number" });
+      }
+    }
+    if ((field.type === "scale" || field.type === "number") && field.min.trim() !== "" && field.max.trim() !== "") {
+      const min = Number(field.min);
+      const max = Number(field.max);
+      if (field.type === "scale" ? min >= max : min > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["max"],
+          message: field.type === "scale" ? "Must be above min" : "Must not be below min",
+        });
+      }
+    }
+    if (field.type === "choice") {
+      const options = splitOptions(field.options);
+      if (options.length < 2 || new Set(options).size !== options.length || options.some((o) => o.length > 50)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "Enter at least two different options, separated by commas",
+        });
+      }
+    }
+  });
+
+const definitionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be under 100 characters"),
+  description: z.string().max(500, "Description must be under 500 characters").optional(),
+  fields: z.array(fieldFormSchema).min(1, "Add at least one field").max(MAX_TRACKER_FIELDS),
+});
+
+type DefinitionFormData = z.infer<typeof definitionSchema>;
+type FieldFormData = DefinitionFormData["fields"][number];
+
+const NEW_FIELD: FieldFormData = {
+  label: "",
+  type: "number",
+  required: true,
+  unit: "",
+  min: "",
+  max: "",
+  options: "",
+};
+
+function splitOptions(value: string): string[] {
+  return value
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
+
+const toNumberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+function buildTrackerFields(fields: FieldFormData[]): TrackerField[] {
+  const keys: string[] = [];
+  return fields.map((field) => {
+    const key = fieldKeyFromLabel(field.label, keys);
+    keys.push(key);
+    const base = { key, label: field.label.trim(), required: field.required };
+
+    switch (field.type) {
+      case "number":
+        return { ...base, type: field.type, unit: field.unit.trim() || null, min: toNumberOrNull(field.min), max: toNumberOrNull(field.max) };
+      case "scale":
+        return { ...base, type: field.type, min: Number(field.min), max: Number(field.max) };
+      case "choice":
+        return { ...base, type: field.type, options: splitOptions(field.options) };
+      default:
+        return { ...base, type: field.type };
+    }
+  });
+}
+
+export function TrackerDefinitionModal({ isOpen, onClose, onSuccess }: TrackerDefinitionModalProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<DefinitionFormData>({
+    resolver: zodResolver(definitionSchema),
+    defaultValues: { name: "", description: "", fields: [NEW_FIELD] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "fields" });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({ name: "", description: "", fields: [NEW_FIELD] });
+    }
+  }, [isOpen, form]);
+
+  const handleTypeChange = (index: number, type: string) => {
+    if (!isTrackerFieldType(type)) return;
+    form.setValue(`fields.${index}.type`, type);
+    if (type === "scale") {
+      form.setValue(`fields.${index}.min`, "1");
+      form.setValue(`fields.${index}.max`, "5");
+    }
+  };
+
+  const handleSubmit = async (data: DefinitionFormData) => {
+    const trackerFields = buildTrackerFields(data.fields);
+    if (!trackerFields.every((field) => trackerFieldSchema.safeParse(field).success)) {
+      toast({ variant: "destructive", title: "Check the fields", description: "Some field settings are not valid." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const trackerId = await createTracker({
+        name: data.name,
+        description: data.description ?? null,
+        fields: trackerFields,
+      });
+      onSuccess(trackerId);
+    } catch (error) {
+      safeLog.error("Failed to create tracker", {
+        action: "tracker_create_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Failed to save",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Tracker</DialogTitle>
+          <DialogDescription>
+            Choose what to record each time. Fields can't be changed once the tracker is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Sleep" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Fields</h3>
+              {fields.map((item, index) => {
+                const type = form.watch(`fields.${index}.type`);
+                return (
+                  <div key={item.id} className="rounded-lg border border-border p-3 space-y-3">
+                    <div className="grid grid-cols-[1fr_10rem_auto] gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="Label, e.g. Hours slept" {...field} disabled={isSubmitting} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.type`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => handleTypeChange(index, value)}
+                              disabled={isSubmitting}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {TRACKER_FIELD_TYPES.map((t) => (
+                                  <SelectItem key={t} value={t}>
+                                    {TRACKER_FIELD_TYPE_LABELS[t]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => remove(index)}
+                        disabled={isSubmitting || fields.length === 1}
+                        aria-label="Remove field"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {(type === "number" || type === "scale") && (
+                      <div className="grid grid-cols-3 gap-2">
+                        {type === "number" && (
+                          <FormField
+                            control={form.control}
+                            name={`fields.${index}.unit`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs text-muted-foreground">Unit</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="e.g. h" {...field} disabled={isSubmitting} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.min`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">Min</FormLabel>
+                              <FormControl>
+                                <Input type="number" {...field} disabled={isSubmitting} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.max`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">Max</FormLabel>
+                              <FormControl>
+                                <Input type="number" {...field} disabled={isSubmitting} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
+
+                    {type === "choice" && (
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.options`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs text-muted-foreground">Options</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g. Light, Medium, Heavy" {...field} disabled={isSubmitting} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name={`fields.${index}.required`}
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={(checked) => field.onChange(checked === true)}
+                              disabled={isSubmitting}
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm font-normal">Required</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                );
+              })}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append(NEW_FIELD)}
+                disabled={isSubmitting || fields.length >= MAX_TRACKER_FIELDS}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Field
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Tracker
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
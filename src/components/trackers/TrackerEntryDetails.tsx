@@ -0,0 +1,62 @@
+import { Link } from "react-router-dom";
+import { ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTrackers } from "@/hooks/use-trackers";
+import { formatTrackerValue } from "@/lib/trackers";
+import type { TrackerEntryDetails as TrackerEntryDetailsData } from "@/lib/event-registry";
+
+interface TrackerEntryDetailsProps {
+  entry: TrackerEntryDetailsData;
+}
+
+/**
+ * Values of a tracker_entry event, labelled from its tracker definition.
+ * Falls back to the raw field keys if the definition can't be loaded.
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ */
+export function TrackerEntryDetails({ entry }: TrackerEntryDetailsProps) {
+  const { data: trackers } = useTrackers();
+  const tracker = trackers?.find((t) => t.id === entry.tracker_id) ?? null;
+
+  const rows = tracker
+    ? tracker.fields.map((field) => ({
+        key: field.key,
+        label: field.label,
+        value: formatTrackerValue(field, entry.values[field.key]),
+      }))
+    : Object.entries(entry.values).map(([key, value]) => ({
+        key,
+        label: key,
+        value: value === null ? null : String(value),
+      }));
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-muted-foreground">Tracker Entry Details</h3>
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={`/trackers/${entry.tracker_id}`}>
+            <ListChecks className="h-3 w-3 mr-1" />
+            View Tracker
+          </Link>
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        {rows.map((row) => (
+          <div key={row.key} className="contents">
+            <span className="text-muted-foreground">{row.label}:</span>
+            <span className="text-foreground">{row.value ?? "—"}</span>
+          </div>
+        ))}
+
+        {entry.note && (
+          <>
+            <span className="text-muted-foreground">Note:</span>
+            <span className="text-foreground whitespace-pre-wrap">{entry.note}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { summarizeTrackerValues, toTrackerValues, trackerValueSchema, type TrackerField } from "@/lib/trackers";
+import type { Tracker } from "@/hooks/use-trackers";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Tracker Entry Modal
+ *
+ * Entry form generated from a tracker's field definitions. Each entry is
+ * saved as an immutable `tracker_entry` event.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE existing events - creates a new event
+ * GUARDRAIL: No PHI in logs - only IDs and action types
+ */
+
+interface TrackerEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  tracker: Tracker;
+}
+
+/** Scales up to this many steps are shown as buttons */
+const MAX_SCALE_BUTTONS = 11;
+
+function entrySchema(fields: TrackerField[]) {
+  return z.object({
+    values: z.object(Object.fromEntries(fields.map((field) => [field.key, trackerValueSchema(field)]))),
+    eventDateTime: z.string().min(1, "Date is required"),
+    note: z.string().max(500, "Note must be under 500 characters").optional(),
+  });
+}
+
+interface EntryFormData {
+  values: Record<string, string>;
+  eventDateTime: string;
+  note?: string;
+}
+
+const emptyValues = (fields: TrackerField[]) => Object.fromEntries(fields.map((field) => [field.key, ""]));
+
+export function TrackerEntryModal({ isOpen, onClose, onSuccess, tracker }: TrackerEntryModalProps) {
+  const { toast } = useToast();
+  const { timeZone, toDateTimeInput, fromInput } = useTimeZone();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const schema = useMemo(() => entrySchema(tracker.fields), [tracker.fields]);
+
+  const form = useForm<EntryFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      values: emptyValues(tracker.fields),
+      eventDateTime: toDateTimeInput(),
+      note: "",
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({
+        values: emptyValues(tracker.fields),
+        eventDateTime: toDateTimeInput(),
+        note: "",
+      });
+    }
+  }, [isOpen, tracker.fields, form, toDateTimeInput]);
+
+  const handleSubmit = async (data: EntryFormData) => {
+    setIsSubmitting(true);
+    try {
+      const values = toTrackerValues(tracker.fields, data.values);
+
+      const recorded = await recordTimelineEvent({
+        source: { type: "manual", name: "Trackers" },
+        provenance: {
+          method: "manual_entry",
+          metadata: { client: "web", tracker_id: tracker.id },
+        },
+        eventType: "tracker_entry",
+        eventTime: fromInput(data.eventDateTime),
+        eventTimeZone: timeZone,
+        title: tracker.name,
+        summary: summarizeTrackerValues(tracker.fields, values) || "No values recorded",
+        details: {
+          tracker_id: tracker.id,
+          values,
+          note: data.note?.trim() || null,
+        },
+        auditAction: "tracker_entry_recorded",
+      });
+
+      safeLog.info("Tracker entry recorded", {
+        action: "tracker_entry_recorded",
+        id: recorded.eventId,
+        resourceType: "timeline_event",
+      });
+
+      onSuccess();
+    } catch (error) {
+      safeLog.error("Failed to record tracker entry", {
+        action: "tracker_entry_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Failed to save",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderInput = (field: TrackerField, value: string, onChange: (value: string) => void) => {
+    switch (field.type) {
+      case "boolean":
+        return (
+          <ToggleGroup type="single" variant="outline" value={value} onValueChange={onChange} disabled={isSubmitting} className="justify-start">
+            <ToggleGroupItem value="yes">Yes</ToggleGroupItem>
+            <ToggleGroupItem value="no">No</ToggleGroupItem>
+          </ToggleGroup>
+        );
+      case "choice":
+        return (
+          <Select value={value} onValueChange={onChange} disabled={isSubmitting}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "scale":
+        if (field.max - field.min < MAX_SCALE_BUTTONS) {
+          return (
+            <ToggleGroup type="single" variant="outline" size="sm" value={value} onValueChange={onChange} disabled={isSubmitting} className="flex-wrap justify-start">
+              {Array.from({ length: field.max - field.min + 1 }, (_, i) => String(field.min + i)).map((step) => (
+                <ToggleGroupItem key={step} value={step} className="w-9">
+                  {step}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          );
+        }
+        return (
+          <Input type="number" step={1} min={field.min} max={field.max} value={value} onChange={(e) => onChange(e.target.value)} disabled={isSubmitting} />
+        );
+      case "duration":
+        return (
+          <div className="flex items-center gap-2">
+            <Input type="number" step={1} min={0} value={value} onChange={(e) => onChange(e.target.value)} disabled={isSubmitting} />
+            <span className="text-sm text-muted-foreground">minutes</span>
+          </div>
+        );
+      default:
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              inputMode="decimal"
+              step="any"
+              min={field.min ?? undefined}
+              max={field.max ?? undefined}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={isSubmitting}
+            />
+            {field.unit && <span className="text-sm text-muted-foreground">{field.unit}</span>}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tracker.name}</DialogTitle>
+          <DialogDescription>{tracker.description || "Add an entry to this tracker."}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {tracker.fields.map((trackerField) => (
+              <FormField
+                key={trackerField.key}
+                control={form.control}
+                name={`values.${trackerField.key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {trackerField.label}
+                      {!trackerField.required && <span className="font-normal text-muted-foreground"> (optional)</span>}
+                    </FormLabel>
+                    <FormControl>{renderInput(trackerField, field.value ?? "", field.onChange)}</FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="eventDateTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When?</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Entry
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { VitalMeasure, VitalUnit } from "@/lib/event-registry";
+import {
+  VITAL_MEASURE_LABELS,
+  VITAL_UNIT_LABELS,
+  canonicalUnit,
+  convertVitalValue,
+  formatVitalValue,
+  unitStep,
+  vitalSeries,
+} from "@/lib/vitals";
+import type { VitalTarget } from "@/hooks/use-user-preferences";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * Target Range Dialog
+ *
+ * Edits the target range(s) of a vital sign measure in the display unit.
+ * Ranges are saved in the measure's metric unit.
+ */
+
+interface TargetRangeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (targets: Record<string, VitalTarget>) => void;
+  isSaving: boolean;
+  measure: VitalMeasure;
+  unit: VitalUnit;
+  targets: Record<string, VitalTarget>;
+}
+
+type RangeInputs = Record<string, { low: string; high: string }>;
+
+export function TargetRangeDialog({ isOpen, onClose, onSave, isSaving, measure, unit, targets }: TargetRangeDialogProps) {
+  const series = vitalSeries(measure);
+  const [inputs, setInputs] = useState<RangeInputs>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const toInput = (value: number | null | undefined) =>
+      value === null || value === undefined
+        ? ""
+        : formatVitalValue(convertVitalValue(value, canonicalUnit(measure), unit), unit).replace(/,/g, "");
+    setInputs(
+      Object.fromEntries(
+        vitalSeries(measure).map((s) => [s.key, { low: toInput(targets[s.key]?.low), high: toInput(targets[s.key]?.high) }])
+      )
+    );
+    setError(null);
+  }, [isOpen, measure, unit, targets]);
+
+  const handleSave = () => {
+    const toCanonical = (value: string) =>
+      value.trim() === "" ? null : convertVitalValue(Number(value), unit, canonicalUnit(measure));
+
+    const next: Record<string, VitalTarget> = {};
+    for (const s of series) {
+      const range = inputs[s.key] ?? { low: "", high: "" };
+      const low = toCanonical(range.low);
+      const high = toCanonical(range.high);
+      if ((low !== null && !Number.isFinite(low)) || (high !== null && !Number.isFinite(high))) {
+        setError("Enter numbers only.");
+        return;
+      }
+      if (low !== null && high !== null && low > high) {
+        setError("The low end must not be above the high end.");
+        return;
+      }
+      next[s.key] = { low, high };
+    }
+    onSave(next);
+  };
+
+  const setRange = (key: string, end: "low" | "high", value: string) =>
+    setInputs((prev) => ({ ...prev, [key]: { ...(prev[key] ?? { low: "", high: "" }), [end]: value } }));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Target Range</DialogTitle>
+          <DialogDescription>
+            {VITAL_MEASURE_LABELS[measure]} in {VITAL_UNIT_LABELS[unit]}. Leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {series.map((s) => (
+            <div key={s.key} className="space-y-2">
+              {series.length > 1 && <p className="text-sm font-medium text-foreground">{s.label}</p>}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`${s.key}-low`} className="text-xs text-muted-foreground">Low</Label>
+                  <Input
+                    id={`${s.key}-low`}
+                    type="number"
+                    inputMode="decimal"
+                    step={unitStep(unit)}
+                    value={inputs[s.key]?.low ?? ""}
+                    onChange={(e) => setRange(s.key, "low", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${s.key}-high`} className="text-xs text-muted-foreground">High</Label>
+                  <Input
+                    id={`${s.key}-high`}
+                    type="number"
+                    inputMode="decimal"
+                    step={unitStep(unit)}
+                    value={inputs[s.key]?.high ?? ""}
+                    onChange={(e) => setRange(s.key, "high", e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Target
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { VITAL_MEASURES, VITAL_UNITS, isVitalMeasure, type VitalMeasure } from "@/lib/event-registry";
+import {
+  VITAL_MEASURE_LABELS,
+  VITAL_UNIT_LABELS,
+  isVitalUnit,
+  unitFor,
+  unitStep,
+  type UnitSystem,
+} from "@/lib/vitals";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Vital Entry Modal
+ *
+ * Records one vital sign reading as an immutable `vital_sign` event. The
+ * value is stored exactly as entered, in the chosen UCUM unit.
+ *
+ * GUARDRAIL: Never UPDATE or DELETE existing events - creates a new event
+ * GUARDRAIL: No PHI in logs - only IDs and action types
+ */
+
+interface VitalEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  unitSystem: UnitSystem;
+  initialMeasure?: VitalMeasure;
+}
+
+const positiveNumber = z
+  .string()
+  .min(1, "Enter a value")
+  .refine((value) => Number.isFinite(Number(value)) && Number(value) > 0, "Enter a positive number");
+
+const vitalSchema = z
+  .object({
+    measure: z.enum(VITAL_MEASURES),
+    value: positiveNumber,
+    diastolic: z.string().optional(),
+    unit: z.string().min(1),
+    note: z.string().max(500, "Note must be under 500 characters").optional(),
+    eventDateTime: z.string().min(1, "Date is required"),
+  })
+  .superRefine((data, ctx) => {
+    if (data.measure === "blood_pressure" && !positiveNumber.safeParse(data.diastolic ?? "").success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["diastolic"], message: "Enter a positive number" });
+    }
+    if (!isVitalUnit(data.measure, data.unit)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["unit"], message: "Choose a unit" });
+    }
+  });
+
+type VitalFormData = z.infer<typeof vitalSchema>;
+
+export function VitalEntryModal({ isOpen, onClose, onSuccess, unitSystem, initialMeasure }: VitalEntryModalProps) {
+  const { toast } = useToast();
+  const { timeZone, toDateTimeInput, fromInput } = useTimeZone();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<VitalFormData>({
+    resolver: zodResolver(vitalSchema),
+    defaultValues: {
+      measure: initialMeasure ?? "blood_pressure",
+      value: "",
+      diastolic: "",
+      unit: unitFor(initialMeasure ?? "blood_pressure", unitSystem),
+      note: "",
+      eventDateTime: toDateTimeInput(),
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      const measure = initialMeasure ?? "blood_pressure";
+      form.reset({
+        measure,
+        value: "",
+        diastolic: "",
+        unit: unitFor(measure, unitSystem),
+        note: "",
+        eventDateTime: toDateTimeInput(),
+      });
+    }
+  }, [isOpen, initialMeasure, unitSystem, form, toDateTimeInput]);
+
+  const measure = form.watch("measure");
+  const unit = form.watch("unit");
+  const isBloodPressure = measure === "blood_pressure";
+  const step = isVitalUnit(measure, unit) ? unitStep(unit) : "any";
+
+  const handleMeasureChange = (value: string) => {
+    if (!isVitalMeasure(value)) return;
+    form.setValue("measure", value);
+    form.setValue("unit", unitFor(value, unitSystem));
+    form.setValue("diastolic", "");
+  };
+
+  const handleSubmit = async (data: VitalFormData) => {
+    if (!isVitalUnit(data.measure, data.unit)) return;
+    setIsSubmitting(true);
+    try {
+      const value = Number(data.value);
+      const diastolic = data.measure === "blood_pressure" ? Number(data.diastolic) : null;
+      const unitLabel = VITAL_UNIT_LABELS[data.unit];
+
+      const recorded = await recordTimelineEvent({
+        source: { type: "manual", name: "Vitals Log" },
+        provenance: {
+          method: "manual_entry",
+          metadata: { client: "web", measure: data.measure },
+        },
+        eventType: "vital_sign",
+        eventTime: fromInput(data.eventDateTime),
+        eventTimeZone: timeZone,
+        title: VITAL_MEASURE_LABELS[data.measure],
+        summary: diastolic !== null ? `${value}/${diastolic} ${unitLabel}` : `${value} ${unitLabel}`,
+        details: {
+          measure: data.measure,
+          value,
+          unit: data.unit,
+          diastolic,
+          note: data.note?.trim() || null,
+        },
+        auditAction: "vital_recorded",
+      });
+
+      safeLog.info("Vital sign recorded", {
+        action: "vital_recorded",
+        id: recorded.eventId,
+        resourceType: "timeline_event",
+      });
+
+      onSuccess();
+    } catch (error) {
+      safeLog.error("Failed to record vital sign", {
+        action: "vital_record_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+      toast({
+        variant: "destructive",
+        title: "Failed to save",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Vitals</DialogTitle>
+          <DialogDescription>Readings are saved exactly as entered.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="measure"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Measure</FormLabel>
+                  <Select onValueChange={handleMeasureChange} value={field.value} disabled={isSubmitting}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {VITAL_MEASURES.map((m) => (
+                        <SelectItem key={m} value={m}>
+                          {VITAL_MEASURE_LABELS[m]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className={`grid gap-3 ${isBloodPressure ? "grid-cols-3" : "grid-cols-2"}`}>
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{isBloodPressure ? "Systolic" : "Value"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" min={0} step={step} {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {isBloodPressure && (
+                <FormField
+                  control={form.control}
+                  name="diastolic"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Diastolic</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="decimal" min={0} step={step} {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isSubmitting || VITAL_UNITS[measure].length === 1}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VITAL_UNITS[measure].map((u) => (
+                          <SelectItem key={u} value={u}>
+                            {VITAL_UNIT_LABELS[u]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="eventDateTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When?</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. After exercise" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Reading
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
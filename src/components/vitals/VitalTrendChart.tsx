@@ -0,0 +1,112 @@
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { VitalMeasure, VitalUnit } from "@/lib/event-registry";
+import { canonicalUnit, convertVitalValue, formatVitalValue, isVitalUnit, vitalSeries } from "@/lib/vitals";
+import type { VitalReading } from "@/hooks/use-vitals";
+import type { VitalTarget } from "@/hooks/use-user-preferences";
+
+interface VitalTrendChartProps {
+  measure: VitalMeasure;
+  readings: VitalReading[];
+  /** Unit to display values in */
+  unit: VitalUnit;
+  targets: Record<string, VitalTarget>;
+}
+
+const SERIES_COLORS = ["hsl(var(--primary))", "hsl(var(--accent-foreground))"];
+
+/**
+ * Trend chart for one vital sign measure, with target ranges shaded
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ */
+export function VitalTrendChart({ measure, readings, unit, targets }: VitalTrendChartProps) {
+  const series = vitalSeries(measure);
+
+  const chartConfig = Object.fromEntries(
+    series.map((s, index) => [s.field, { label: s.label, color: SERIES_COLORS[index] }])
+  ) satisfies ChartConfig;
+
+  const data = readings.flatMap((r) => {
+    const from = r.reading.unit;
+    if (!isVitalUnit(measure, from)) return [];
+    return [{
+      time: new Date(r.event_time).getTime(),
+      value: convertVitalValue(r.reading.value, from, unit),
+      diastolic: r.reading.diastolic !== null ? convertVitalValue(r.reading.diastolic, from, unit) : null,
+    }];
+  });
+
+  const toDisplay = (value: number | null) =>
+    value === null ? null : convertVitalValue(value, canonicalUnit(measure), unit);
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+      <LineChart data={data} margin={{ left: -12, right: 12, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(value: number) => format(new Date(value), "MMM d")}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          domain={["auto", "auto"]}
+          tickFormatter={(value: number) => formatVitalValue(value, unit)}
+          tickLine={false}
+          axisLine={false}
+        />
+        {series.map((s, index) => {
+          const target = targets[s.key];
+          if (!target || (target.low === null && target.high === null)) return null;
+          return (
+            <ReferenceArea
+              key={s.key}
+              y1={toDisplay(target.low) ?? undefined}
+              y2={toDisplay(target.high) ?? undefined}
+              fill={SERIES_COLORS[index]}
+              fillOpacity={0.08}
+              ifOverflow="extendDomain"
+            />
+          );
+        })}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const time = payload?.[0]?.payload?.time;
+                return typeof time === "number" ? format(new Date(time), "MMM d, yyyy h:mm a") : null;
+              }}
+              formatter={(value, name) => (
+                <span>
+                  {chartConfig[name as keyof typeof chartConfig]?.label ?? name}:{" "}
+                  <span className="font-mono font-medium">{formatVitalValue(Number(value), unit)}</span>
+                </span>
+              )}
+            />
+          }
+        />
+        {series.map((s) => (
+          <Line
+            key={s.field}
+            dataKey={s.field}
+            type="monotone"
+            stroke={`var(--color-${s.field})`}
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { safeLog } from "@/lib/safe-logger";
+import {
+  fetchEncryptionKeys,
+  isDocumentKeyUnlocked,
+  subscribeToDocumentKeys,
+} from "@/lib/document-encryption";
+import { countFilesToReencrypt } from "@/lib/key-rotation";
+
+/**
+ * Document encryption state for the signed-in user
+ *
+ * Whether encryption is on, whether its active key is unlocked on this
+ * page load, and the latest key rotation with the files it still has to
+ * re-encrypt. Polls while a rotation is queued or running.
+ *
+ * GUARDRAIL: No PHI in logs - only job IDs and counts
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const POLL_INTERVAL_MS = 3000;
+
+export interface KeyRotationState {
+  jobId: string;
+  status: Database["public"]["Enums"]["job_status"];
+  total: number;
+  remaining: number;
+}
+
+export function useDocumentEncryption() {
+  const [, setKeysVersion] = useState(0);
+
+  useEffect(() => subscribeToDocumentKeys(() => setKeysVersion((version) => version + 1)), []);
+
+  const keys = useQuery({
+    queryKey: ["encryption-keys"],
+    queryFn: fetchEncryptionKeys,
+  });
+
+  const activeKey = keys.data?.find((key) => key.status === "active") ?? null;
+
+  const rotation = useQuery({
+    queryKey: ["key-rotation", activeKey?.id],
+    enabled: !!activeKey,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? POLL_INTERVAL_MS : false;
+    },
+    queryFn: async (): Promise<KeyRotationState | null> => {
+      const { data: job, error } = await supabase
+        .from("jobs")
+        .select("id, status, payload")
+        .eq("job_type", "key_rotation")
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        safeLog.error("Failed to fetch key rotation", { action: "key_rotation_fetch_error", errorType: error.code });
+        throw error;
+      }
+      if (!job || !activeKey) return null;
+
+      const payload = job.payload as { total?: unknown } | null;
+      return {
+        jobId: job.id,
+        status: job.status,
+        total: typeof payload?.total === "number" ? payload.total : 0,
+        remaining: job.status === "complete" ? 0 : await countFilesToReencrypt(activeKey.id),
+      };
+    },
+  });
+
+  return {
+    isLoading: keys.isLoading,
+    isEnabled: !!activeKey,
+    isUnlocked: !!activeKey && isDocumentKeyUnlocked(activeKey.id),
+    activeKeyCreatedAt: activeKey?.created_at ?? null,
+    rotation: rotation.data ?? null,
+  };
+}
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { safeLog } from "@/lib/safe-logger";
+import { getExtractedText } from "@/lib/event-details";
+import type { DocumentTextExtractedDetails } from "@/lib/event-registry";
+
+/**
+ * Text extracted from an uploaded document
+ *
+ * Reads the document's 'document_processing' job and the current
+ * document_text_extracted event for it. Polls while the job is queued or
+ * running. A complete job without an event found no text.
+ *
+ * GUARDRAIL: No PHI in logs - only IDs and statuses
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const POLL_INTERVAL_MS = 5000;
+
+export type DocumentProcessingStatus = Database["public"]["Enums"]["job_status"];
+
+export interface DocumentText {
+  /** null for uploads that were never queued (not a PDF or image, or older) */
+  job: { id: string; status: DocumentProcessingStatus; claimed_at: string | null } | null;
+  extracted: (DocumentTextExtractedDetails & { event_id: string }) | null;
+}
+
+export function useDocumentText(documentArtifactId: string | null) {
+  return useQuery({
+    queryKey: ["document-text", documentArtifactId],
+    enabled: !!documentArtifactId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.job?.status;
+      return status === "pending" || status === "running" ? POLL_INTERVAL_MS : false;
+    },
+    queryFn: async (): Promise<DocumentText> => {
+      const [jobResult, eventResult] = await Promise.all([
+        supabase
+          .from("jobs")
+          .select("id, status, claimed_at")
+          .eq("job_type", "document_processing")
+          .eq("idempotency_key", `document_processing:${documentArtifactId}`)
+          .maybeSingle(),
+        supabase
+          .from("timeline_events_current")
+          .select("id, details")
+          .eq("event_type", "document_text_extracted")
+          .filter("details->>document_artifact_id", "eq", documentArtifactId)
+          .eq("is_retracted", false)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      const error = jobResult.error ?? eventResult.error;
+      if (error) {
+        safeLog.error("Failed to fetch document text", { action: "document_text_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      const details = eventResult.data ? getExtractedText(eventResult.data.details) : null;
+      return {
+        job: jobResult.data,
+        extracted: eventResult.data && details ? { ...details, event_id: eventResult.data.id } : null,
+      };
+    },
+  });
+}
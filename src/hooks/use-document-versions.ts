@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { getDocumentVersion } from "@/lib/event-details";
+
+/**
+ * Versions of an uploaded document
+ *
+ * Reads every document_artifacts row in the document's version chain
+ * (the original upload and each artifact with it as root), oldest first,
+ * with the note and event of the document_version_added event that added
+ * each later version.
+ *
+ * GUARDRAIL: No PHI in logs - only IDs and counts
+ * GUARDRAIL: User isolation via RLS
+ */
+
+export interface DocumentVersion {
+  artifactId: string;
+  version: number;
+  originalFilename: string | null;
+  contentType: string;
+  fileSize: number | null;
+  createdAt: string;
+  /** The document_version_added event; null for the original upload */
+  eventId: string | null;
+  note: string | null;
+}
+
+export function useDocumentVersions(rootArtifactId: string | null) {
+  return useQuery({
+    queryKey: ["document-versions", rootArtifactId],
+    enabled: !!rootArtifactId,
+    queryFn: async (): Promise<DocumentVersion[]> => {
+      const { data: artifacts, error } = await supabase
+        .from("document_artifacts")
+        .select("id, version, original_filename, content_type, file_size, created_at")
+        .or(`id.eq.${rootArtifactId},root_artifact_id.eq.${rootArtifactId}`)
+        .order("version", { ascending: true });
+
+      if (error) {
+        safeLog.error("Failed to fetch document versions", {
+          action: "document_versions_fetch_error",
+          errorType: error.code,
+        });
+        throw error;
+      }
+
+      const laterIds = (artifacts ?? []).filter((artifact) => artifact.version > 1).map((artifact) => artifact.id);
+      const versionEvents = new Map<string, { eventId: string; note: string | null }>();
+
+      if (laterIds.length > 0) {
+        const { data: events, error: eventsError } = await supabase
+          .from("timeline_events")
+          .select("id, details")
+          .eq("event_type", "document_version_added")
+          .filter("details->>document_artifact_id", "in", `(${laterIds.join(",")})`);
+
+        if (eventsError) {
+          safeLog.error("Failed to fetch document version events", {
+            action: "document_versions_fetch_error",
+            errorType: eventsError.code,
+          });
+          throw eventsError;
+        }
+
+        for (const event of events ?? []) {
+          const details = getDocumentVersion(event.details);
+          if (details) {
+            versionEvents.set(details.document_artifact_id, { eventId: event.id, note: details.note });
+          }
+        }
+      }
+
+      return (artifacts ?? []).map((artifact) => ({
+        artifactId: artifact.id,
+        version: artifact.version,
+        originalFilename: artifact.original_filename,
+        contentType: artifact.content_type,
+        fileSize: artifact.file_size,
+        createdAt: artifact.created_at,
+        eventId: versionEvents.get(artifact.id)?.eventId ?? null,
+        note: versionEvents.get(artifact.id)?.note ?? null,
+      }));
+    },
+  });
+}
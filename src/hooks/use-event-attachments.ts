@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { fetchDocumentBlob } from "@/lib/attachments";
+
+/**
+ * Photos attached to journal entries
+ *
+ * GUARDRAIL: No PHI in logs - only counts and IDs
+ * GUARDRAIL: User isolation via RLS (document_artifacts) and the
+ * documents-download proxy
+ */
+
+export interface EventAttachment {
+  id: string;
+  event_id: string;
+  title: string | null;
+  content_type: string;
+}
+
+/**
+ * Attachments of the given events, keyed by event ID, oldest first
+ */
+export function useEventAttachments(eventIds: string[]) {
+  const ids = [...new Set(eventIds)].sort();
+
+  return useQuery({
+    queryKey: ["event-attachments", ids],
+    enabled: ids.length > 0,
+    queryFn: async (): Promise<Map<string, EventAttachment[]>> => {
+      const { data, error } = await supabase
+        .from("document_artifacts")
+        .select("id, attached_to_event_id, title, content_type")
+        .in("attached_to_event_id", ids)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        safeLog.error("Failed to fetch attachments", { action: "attachments_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      const byEvent = new Map<string, EventAttachment[]>();
+      for (const row of data ?? []) {
+        if (!row.attached_to_event_id) continue;
+        const attachment = {
+          id: row.id,
+          event_id: row.attached_to_event_id,
+          title: row.title,
+          content_type: row.content_type,
+        };
+        byEvent.set(row.attached_to_event_id, [...(byEvent.get(row.attached_to_event_id) ?? []), attachment]);
+      }
+      return byEvent;
+    },
+  });
+}
+
+/**
+ * Object URL for an attached photo, revoked when no longer rendered
+ */
+export function useAttachmentImage(artifactId: string) {
+  const { data: blob, isLoading, error } = useQuery({
+    queryKey: ["attachment-image", artifactId],
+    queryFn: () => fetchDocumentBlob(artifactId),
+    // Stored files never change
+    staleTime: Infinity,
+  });
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [blob]);
+
+  return { url, isLoading, error };
+}
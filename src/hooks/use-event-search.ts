@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+
+/**
+ * Full-text search over the user's timeline (search_timeline RPC)
+ *
+ * The query is debounced so typing doesn't issue a request per keystroke.
+ *
+ * GUARDRAIL: No PHI in logs - search terms are never logged, only counts
+ */
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+export interface EventSearchResult {
+  event_id: string;
+  event_type: string;
+  event_time: string;
+  title: string | null;
+  /** Fragments with matches wrapped in ⟦ ⟧ markers (see SearchHighlight) */
+  headline: string;
+  matched_document: boolean;
+  rank: number;
+}
+
+export function useEventSearch(query: string, limit = 25) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const isQueryReady = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const result = useQuery({
+    queryKey: ["event-search", debouncedQuery, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_timeline", {
+        p_query: debouncedQuery,
+        p_limit: limit,
+      });
+
+      if (error) {
+        safeLog.error("Search failed", { action: "search_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Search completed", { action: "search_success", count: data?.length ?? 0 });
+      return (data ?? []) as EventSearchResult[];
+    },
+    enabled: isQueryReady,
+    staleTime: 30_000,
+  });
+
+  return {
+    ...result,
+    isQueryReady,
+    isDebouncing: query.trim() !== debouncedQuery,
+  };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+
+/**
+ * All tags currently in use by the user, sorted alphabetically.
+ * Used for tag filters and suggestions.
+ *
+ * GUARDRAIL: No PHI in logs - tag names are never logged
+ */
+export function useUserTags() {
+  return useQuery({
+    queryKey: ["event-tags"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("event_tags_current").select("tag");
+
+      if (error) {
+        safeLog.error("Failed to fetch tags", { action: "event_tags_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      const tags = new Set((data ?? []).flatMap((row) => (row.tag ? [row.tag] : [])));
+      return Array.from(tags).sort();
+    },
+  });
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+import { deleteDraft, loadDraft, saveDraft } from "@/lib/drafts";
+import { safeLog } from "@/lib/safe-logger";
+
+const SAVE_DELAY_MS = 500;
+
+function matchesDefaults(values: FieldValues, defaults: FieldValues): boolean {
+  return Object.keys(values).every((key) => JSON.stringify(values[key]) === JSON.stringify(defaults[key]));
+}
+
+/**
+ * Keep a form's unsent input in IndexedDB as the user types, and restore
+ * it when the form is opened again on this device.
+ *
+ * Input equal to the form's default values is not kept as a draft.
+ *
+ * GUARDRAIL: No PHI in logs - only form IDs and error types
+ */
+export function useFormDraft<T extends FieldValues>(form: UseFormReturn<T>, formId: string) {
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const isRestoredRef = useRef(false);
+  // Serialize IndexedDB writes so a late save can't recreate a cleared draft
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueue = useCallback(
+    (operation: () => Promise<void>) => {
+      queueRef.current = queueRef.current.then(operation).catch((error) => {
+        safeLog.warn("Draft storage failed", {
+          action: "draft_storage_error",
+          resourceType: formId,
+          errorType: error instanceof Error ? error.name : "unknown",
+        });
+      });
+      return queueRef.current;
+    },
+    [formId]
+  );
+
+  // Restore once on mount
+  useEffect(() => {
+    let cancelled = false;
+    enqueue(async () => {
+      const draft = await loadDraft<T>(formId);
+      if (cancelled) return;
+      if (draft) {
+        form.reset({ ...form.formState.defaultValues, ...draft.values } as T, { keepDefaultValues: true });
+        setSavedAt(draft.savedAt);
+      }
+    }).finally(() => {
+      if (!cancelled) isRestoredRef.current = true;
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form, formId, enqueue]);
+
+  // Save on change, debounced
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const subscription = form.watch(() => {
+      if (!isRestoredRef.current) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const values = form.getValues();
+        const isDefault = matchesDefaults(values, form.formState.defaultValues ?? {});
+        enqueue(async () => {
+          if (isDefault) {
+            await deleteDraft(formId);
+            setSavedAt(null);
+          } else {
+            setSavedAt(await saveDraft(formId, values));
+          }
+        });
+      }, SAVE_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      subscription.unsubscribe();
+    };
+  }, [form, formId, enqueue]);
+
+  /** Remove the stored draft, e.g. after the form was submitted */
+  const clearDraft = useCallback(() => {
+    isRestoredRef.current = false;
+    return enqueue(async () => {
+      await deleteDraft(formId);
+      setSavedAt(null);
+    });
+  }, [enqueue, formId]);
+
+  /** Remove the stored draft and put the form back to its defaults */
+  const discardDraft = useCallback(async () => {
+    await clearDraft();
+    form.reset();
+    isRestoredRef.current = true;
+  }, [clearDraft, form]);
+
+  return { draftSavedAt: savedAt, clearDraft, discardDraft };
+}
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Medication list derived from medication events and imported records
+ * (medication_list view), active medications first.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS (view is security_invoker)
+ */
+
+export type MedicationListItem = Database["public"]["Views"]["medication_list"]["Row"];
+
+export function useMedicationList() {
+  return useQuery({
+    queryKey: ["medication-list"],
+    queryFn: async (): Promise<MedicationListItem[]> => {
+      const { data, error } = await supabase
+        .from("medication_list")
+        .select("*")
+        .order("is_active", { ascending: false })
+        .order("name", { ascending: true });
+
+      if (error) {
+        safeLog.error("Failed to fetch medication list", { action: "medication_list_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Medication list fetched", { action: "medication_list_success", count: data?.length ?? 0 });
+
+      return data ?? [];
+    },
+  });
+}
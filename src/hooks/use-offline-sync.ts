@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  discardRejectedSubmissions,
+  getOutboxStatus,
+  replayOutbox,
+  subscribeToOutbox,
+  type OutboxStatus,
+} from "@/lib/offline-queue";
+import { safeLog } from "@/lib/safe-logger";
+
+/**
+ * Connection state and the offline outbox for the signed-in user.
+ *
+ * Queued submissions are replayed when the browser comes back online and
+ * when the app loads; timeline queries are refreshed after anything is sent.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and error types
+ */
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [status, setStatus] = useState<OutboxStatus>({ pending: 0, rejected: 0 });
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await getOutboxStatus());
+    } catch (error) {
+      safeLog.warn("Failed to read outbox", {
+        action: "outbox_status_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const sent = await replayOutbox();
+      if (sent > 0) {
+        queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+        queryClient.invalidateQueries({ queryKey: ["symptom-history"] });
+      }
+    } catch (error) {
+      safeLog.warn("Outbox replay failed", {
+        action: "outbox_replay_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  const discardRejected = useCallback(async () => {
+    try {
+      await discardRejectedSubmissions();
+    } catch (error) {
+      safeLog.warn("Failed to discard rejected submissions", {
+        action: "outbox_discard_error",
+        errorType: error instanceof Error ? error.name : "unknown",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const unsubscribe = subscribeToOutbox(refreshStatus);
+
+    refreshStatus();
+    if (navigator.onLine) syncNow();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      unsubscribe();
+    };
+  }, [refreshStatus, syncNow]);
+
+  return { isOnline, isSyncing, ...status, syncNow, discardRejected };
+}
@@ -0,0 +1,178 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { getQuestionAnswer, getText } from "@/lib/event-details";
+
+/**
+ * Questions for the doctor
+ *
+ * Questions are journal entries in the question category (after
+ * amendments). A question is answered once a question_answered event
+ * points at it, and attached to a visit by a `question_for` link.
+ * Everything is read from the current view, so retracted questions are
+ * left out and retracting an answer reopens its question.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const QUESTIONS_LIMIT = 500;
+const ANSWERS_LIMIT = 1000;
+const VISIT_SUMMARIES_LIMIT = 50;
+
+export interface QuestionAnswer {
+  id: string;
+  event_time: string;
+  answer: string;
+  answered_by: string | null;
+}
+
+export interface VisitSummaryRef {
+  id: string;
+  event_time: string;
+  title: string | null;
+}
+
+export interface Question {
+  id: string;
+  event_time: string;
+  title: string | null;
+  text: string;
+  summary: string;
+  is_amended: boolean;
+  /** Oldest first; empty while the question is open */
+  answers: QuestionAnswer[];
+  visits: VisitSummaryRef[];
+}
+
+/** Short label for a question, e.g. in an answer's title */
+export function questionLabel(question: Pick<Question, "title" | "text">): string {
+  if (question.title && question.title !== "Journal entry") return question.title;
+  return question.text.length > 80 ? `${question.text.slice(0, 80)}...` : question.text;
+}
+
+export function isOpenQuestion(question: Question): boolean {
+  return question.answers.length === 0;
+}
+
+/**
+ * All questions, newest first, with their answers and attached visits
+ */
+export function useQuestions() {
+  return useQuery({
+    queryKey: ["questions"],
+    queryFn: async (): Promise<Question[]> => {
+      const [questionsResult, answersResult, linksResult] = await Promise.all([
+        supabase
+          .from("timeline_events_current")
+          .select("id, event_time, title, summary, details, is_amended")
+          .eq("event_type", "journal_entry")
+          .eq("is_retracted", false)
+          .filter("details->>category", "eq", "question")
+          .order("event_time", { ascending: false })
+          .limit(QUESTIONS_LIMIT),
+        supabase
+          .from("timeline_events_current")
+          .select("id, event_time, details")
+          .eq("event_type", "question_answered")
+          .eq("is_retracted", false)
+          .order("event_time", { ascending: true })
+          .limit(ANSWERS_LIMIT),
+        supabase
+          .from("event_links")
+          .select("source_event_id, target_event_id")
+          .eq("link_type", "question_for"),
+      ]);
+
+      const error = questionsResult.error ?? answersResult.error ?? linksResult.error;
+      if (error) {
+        safeLog.error("Failed to fetch questions", { action: "questions_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      const answersByQuestion = new Map<string, QuestionAnswer[]>();
+      for (const row of answersResult.data ?? []) {
+        const answer = getQuestionAnswer(row.details);
+        if (!answer || !row.id || !row.event_time) continue;
+        const list = answersByQuestion.get(answer.question_event_id) ?? [];
+        list.push({ id: row.id, event_time: row.event_time, answer: answer.answer, answered_by: answer.answered_by });
+        answersByQuestion.set(answer.question_event_id, list);
+      }
+
+      // Attached visits; retracted visit summaries are dropped
+      const visitIds = Array.from(new Set((linksResult.data ?? []).map((link) => link.target_event_id)));
+      const visitsById = new Map<string, VisitSummaryRef>();
+      if (visitIds.length > 0) {
+        const { data: visits, error: visitsError } = await supabase
+          .from("timeline_events_current")
+          .select("id, event_time, title")
+          .in("id", visitIds)
+          .eq("is_retracted", false);
+
+        if (visitsError) {
+          safeLog.error("Failed to fetch question visits", { action: "questions_fetch_error", errorType: visitsError.code });
+          throw visitsError;
+        }
+        for (const visit of visits ?? []) {
+          if (visit.id && visit.event_time) {
+            visitsById.set(visit.id, { id: visit.id, event_time: visit.event_time, title: visit.title });
+          }
+        }
+      }
+
+      const visitsByQuestion = new Map<string, VisitSummaryRef[]>();
+      for (const link of linksResult.data ?? []) {
+        const visit = visitsById.get(link.target_event_id);
+        if (!visit) continue;
+        visitsByQuestion.set(link.source_event_id, [...(visitsByQuestion.get(link.source_event_id) ?? []), visit]);
+      }
+
+      const questions = (questionsResult.data ?? []).flatMap((row): Question[] => {
+        if (!row.id || !row.event_time) return [];
+        return [
+          {
+            id: row.id,
+            event_time: row.event_time,
+            title: row.title,
+            text: getText(row.details) ?? "",
+            summary: row.summary ?? "",
+            is_amended: row.is_amended ?? false,
+            answers: answersByQuestion.get(row.id) ?? [],
+            visits: visitsByQuestion.get(row.id) ?? [],
+          },
+        ];
+      });
+
+      safeLog.info("Questions fetched", { action: "questions_fetch_success", count: questions.length });
+
+      return questions;
+    },
+  });
+}
+
+/**
+ * Recent visit summaries, newest first, for attaching questions
+ */
+export function useVisitSummaries() {
+  return useQuery({
+    queryKey: ["visit-summaries"],
+    queryFn: async (): Promise<VisitSummaryRef[]> => {
+      const { data, error } = await supabase
+        .from("timeline_events_current")
+        .select("id, event_time, title")
+        .eq("event_type", "visit_summary")
+        .eq("is_retracted", false)
+        .order("event_time", { ascending: false })
+        .limit(VISIT_SUMMARIES_LIMIT);
+
+      if (error) {
+        safeLog.error("Failed to fetch visit summaries", { action: "visit_summaries_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      return (data ?? []).flatMap((row) =>
+        row.id && row.event_time ? [{ id: row.id, event_time: row.event_time, title: row.title }] : []
+      );
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { getSymptom } from "@/lib/event-details";
+import { symptomKey } from "@/lib/symptoms";
+import type { SymptomDetails } from "@/lib/event-registry";
+
+/**
+ * Structured symptom entries, oldest first, grouped by symptom name
+ *
+ * Reads the current view, so amended entries show their latest category
+ * and retracted entries are left out.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const SYMPTOM_HISTORY_LIMIT = 1000;
+
+export interface SymptomEntry {
+  id: string;
+  event_time: string;
+  title: string | null;
+  symptom: SymptomDetails;
+}
+
+export interface SymptomSeries {
+  key: string;
+  /** Name as last recorded */
+  name: string;
+  entries: SymptomEntry[];
+}
+
+export function useSymptomHistory() {
+  return useQuery({
+    queryKey: ["symptom-history"],
+    queryFn: async (): Promise<SymptomSeries[]> => {
+      const { data, error } = await supabase
+        .from("timeline_events_current")
+        .select("id, event_time, title, details")
+        .eq("event_type", "journal_entry")
+        .eq("is_retracted", false)
+        .filter("details->>category", "eq", "symptom")
+        .not("details->symptom", "is", null)
+        .order("event_time", { ascending: true })
+        .limit(SYMPTOM_HISTORY_LIMIT);
+
+      if (error) {
+        safeLog.error("Failed to fetch symptom history", { action: "symptom_history_error", errorType: error.code });
+        throw error;
+      }
+
+      const series = new Map<string, SymptomSeries>();
+      for (const row of data ?? []) {
+        const symptom = getSymptom(row.details);
+        if (!symptom || !row.id || !row.event_time) continue;
+
+        const key = symptomKey(symptom.name);
+        const entry: SymptomEntry = { id: row.id, event_time: row.event_time, title: row.title, symptom };
+        const existing = series.get(key);
+        if (existing) {
+          existing.entries.push(entry);
+          existing.name = symptom.name;
+        } else {
+          series.set(key, { key, name: symptom.name, entries: [entry] });
+        }
+      }
+
+      safeLog.info("Symptom history fetched", { action: "symptom_history_success", count: series.size });
+
+      return Array.from(series.values()).sort((a, b) => a.name.localeCompare(b.name));
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from "react";
+import { DEFAULT_USER_PREFERENCES, useUserPreferences } from "@/hooks/use-user-preferences";
+import {
+  deviceTimeZone,
+  formatInTimeZone,
+  toDateInputValue,
+  toDateTimeInputValue,
+  zonedTimeToUtc,
+} from "@/lib/time-zone";
+
+/**
+ * The user's display zone (preference, else the device zone) with
+ * formatting and form-input helpers bound to it.
+ */
+export function useTimeZone() {
+  const { data: preferences = DEFAULT_USER_PREFERENCES } = useUserPreferences();
+  const timeZone = preferences.timeZone ?? deviceTimeZone();
+
+  /** Format an instant in the display zone with a date-fns pattern */
+  const formatTime = useCallback(
+    (value: Date | string, pattern: string) => formatInTimeZone(value, pattern, timeZone),
+    [timeZone]
+  );
+
+  return useMemo(
+    () => ({
+      timeZone,
+      formatTime,
+      /** datetime-local value for an instant (default: now), in `zone` if given */
+      toDateTimeInput: (value: Date | string = new Date(), zone?: string | null) =>
+        toDateTimeInputValue(value, zone ?? timeZone),
+      /** date input value for an instant's day (default: today), in `zone` if given */
+      toDateInput: (value: Date | string = new Date(), zone?: string | null) =>
+        toDateInputValue(value, zone ?? timeZone),
+      /** ISO instant for a date or datetime-local input value */
+      fromInput: (wallClock: string) => zonedTimeToUtc(wallClock, timeZone).toISOString(),
+    }),
+    [timeZone, formatTime]
+  );
+}
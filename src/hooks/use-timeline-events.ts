@@ -0,0 +1,178 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import type { JournalCategory } from "@/lib/event-registry";
+import type { FilterValue } from "@/components/timeline/TimelineFilters";
+
+/**
+ * Timeline events, paginated and filtered server-side
+ *
+ * Uses keyset pagination on (event_time, id) so pages stay stable while new
+ * events are recorded, and never loads the whole timeline into memory.
+ * timeline_events_page() applies the cursor and filters before resolving
+ * amendments and tags, so a page costs the same wherever it is.
+ * The React Query cache is keyed by the full filter set.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS (timeline_events_page is SECURITY INVOKER)
+ */
+
+export const TIMELINE_PAGE_SIZE = 50;
+
+const TIMELINE_COLUMNS =
+  "id, event_type, event_time, event_time_precision, event_time_end, event_timezone, title, summary, details, created_at, provenance_id, consent_snapshot_id, is_amended, tags";
+
+const EVENT_TYPE_BY_FILTER: Record<Exclude<FilterValue, "all">, string> = {
+  journal: "journal_entry",
+  documents: "document_uploaded",
+  external: "external_event",
+};
+
+export interface TimelineEvent {
+  id: string;
+  event_type: string;
+  event_time: string;
+  /** year, month, day or exact; event_time is the start of that period */
+  event_time_precision: string;
+  event_time_end: string | null;
+  event_timezone: string | null;
+  title: string | null;
+  summary: string;
+  details: Record<string, unknown> | null;
+  created_at: string;
+  provenance_id: string;
+  consent_snapshot_id: string;
+  is_amended: boolean;
+  tags: string[];
+}
+
+export interface TimelineQueryFilters {
+  type: FilterValue;
+  /** Journal category (current value, after amendments) */
+  category: JournalCategory | null;
+  /** Case-insensitive match on an external event's provider name */
+  provider: string;
+  /** Only events currently carrying this tag */
+  tag: string | null;
+  /**
+   * Inclusive bounds as ISO timestamps. An event matches when its period
+   * (a range, or the year, month or day of a partial date) overlaps them.
+   */
+  from: string | null;
+  to: string | null;
+  /** Bitemporal cutoff; null means the current view */
+  asOf: string | null;
+}
+
+export const DEFAULT_TIMELINE_FILTERS: TimelineQueryFilters = {
+  type: "all",
+  category: null,
+  provider: "",
+  tag: null,
+  from: null,
+  to: null,
+  asOf: null,
+};
+
+interface TimelineCursor {
+  eventTime: string;
+  id: string;
+}
+
+export function timelineEventsQueryKey(filters: TimelineQueryFilters) {
+  return ["timeline-events", filters] as const;
+}
+
+async function fetchTimelinePage(
+  filters: TimelineQueryFilters,
+  cursor: TimelineCursor | null
+): Promise<TimelineEvent[]> {
+  // Cursor, page size and filters go to the database function, which stops
+  // once the page is full (timeline_events_page(p_as_of => NULL) is the
+  // current view, so one query serves both modes)
+  const provider = filters.provider.trim();
+  const { data, error } = await supabase
+    .rpc("timeline_events_page", {
+      p_limit: TIMELINE_PAGE_SIZE,
+      p_as_of: filters.asOf ?? undefined,
+      p_before_time: cursor?.eventTime,
+      p_before_id: cursor?.id,
+      p_event_type: filters.type !== "all" ? EVENT_TYPE_BY_FILTER[filters.type] : undefined,
+      p_category: filters.category ?? undefined,
+      p_provider: provider || undefined,
+      p_tag: filters.tag ?? undefined,
+      p_from: filters.from ?? undefined,
+      p_to: filters.to ?? undefined,
+    })
+    .select(TIMELINE_COLUMNS)
+    .order("event_time", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) {
+    safeLog.error("Failed to fetch timeline events", {
+      action: "timeline_fetch_error",
+      errorType: error.code,
+    });
+    throw error;
+  }
+
+  safeLog.info("Timeline events fetched", {
+    action: "timeline_fetch_success",
+    count: data?.length ?? 0,
+  });
+
+  return (data ?? []) as TimelineEvent[];
+}
+
+/** Upper bound on events added to a review selection in one go */
+export const TAG_SELECTION_LIMIT = 500;
+
+/**
+ * All current, selectable events carrying a tag, for review mode
+ * "select by tag". Retraction tombstones are left out as they are in
+ * the review list.
+ */
+export async function fetchEventsByTag(tag: string): Promise<TimelineEvent[]> {
+  const { data, error } = await supabase
+    .from("timeline_events_current")
+    .select(TIMELINE_COLUMNS)
+    .contains("tags", [tag])
+    .eq("is_retracted", false)
+    .neq("event_type", "event_retracted")
+    .order("event_time", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(TAG_SELECTION_LIMIT);
+
+  if (error) {
+    safeLog.error("Failed to fetch tagged events", {
+      action: "timeline_tag_select_error",
+      errorType: error.code,
+    });
+    throw error;
+  }
+
+  safeLog.info("Tagged events fetched", {
+    action: "timeline_tag_select_success",
+    count: data?.length ?? 0,
+  });
+
+  return (data ?? []) as TimelineEvent[];
+}
+
+export function useTimelineEvents(filters: TimelineQueryFilters) {
+  return useInfiniteQuery({
+    queryKey: timelineEventsQueryKey(filters),
+    queryFn: ({ pageParam }) => {
+      safeLog.info("Fetching timeline events", {
+        action: filters.asOf ? "timeline_as_of_fetch" : "timeline_fetch",
+      });
+      return fetchTimelinePage(filters, pageParam);
+    },
+    initialPageParam: null as TimelineCursor | null,
+    getNextPageParam: (lastPage): TimelineCursor | undefined => {
+      if (lastPage.length < TIMELINE_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { eventTime: last.event_time, id: last.id };
+    },
+  });
+}
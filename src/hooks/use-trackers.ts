@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { getTrackerEntry } from "@/lib/event-details";
+import { parseTrackerFields, type TrackerField } from "@/lib/trackers";
+import type { TrackerEntryDetails } from "@/lib/event-registry";
+
+/**
+ * Tracker definitions and their entries
+ *
+ * Entries are read from the current view, so retracted entries are left
+ * out.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const TRACKER_ENTRIES_LIMIT = 2000;
+
+export interface Tracker {
+  id: string;
+  name: string;
+  description: string | null;
+  fields: TrackerField[];
+  created_at: string;
+  archived_at: string | null;
+}
+
+export interface TrackerEntry {
+  id: string;
+  event_time: string;
+  values: TrackerEntryDetails["values"];
+  note: string | null;
+}
+
+export function useTrackers() {
+  return useQuery({
+    queryKey: ["trackers"],
+    queryFn: async (): Promise<Tracker[]> => {
+      const { data, error } = await supabase
+        .from("trackers")
+        .select("id, name, description, fields, created_at, archived_at")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        safeLog.error("Failed to fetch trackers", { action: "trackers_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Trackers fetched", { action: "trackers_fetch_success", count: data?.length ?? 0 });
+
+      return (data ?? []).flatMap((row) => {
+        const fields = parseTrackerFields(row.fields);
+        return fields ? [{ ...row, fields }] : [];
+      });
+    },
+  });
+}
+
+/**
+ * Entries of one tracker, oldest first
+ */
+export function useTrackerEntries(trackerId: string | undefined) {
+  return useQuery({
+    queryKey: ["tracker-entries", trackerId],
+    enabled: !!trackerId,
+    queryFn: async (): Promise<TrackerEntry[]> => {
+      const { data, error } = await supabase
+        .from("timeline_events_current")
+        .select("id, event_time, details")
+        .eq("event_type", "tracker_entry")
+        .eq("is_retracted", false)
+        .filter("details->>tracker_id", "eq", trackerId)
+        .order("event_time", { ascending: true })
+        .limit(TRACKER_ENTRIES_LIMIT);
+
+      if (error) {
+        safeLog.error("Failed to fetch tracker entries", { action: "tracker_entries_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Tracker entries fetched", { action: "tracker_entries_success", count: data?.length ?? 0 });
+
+      return (data ?? []).flatMap((row) => {
+        const entry = getTrackerEntry(row.details);
+        return entry && row.id && row.event_time
+          ? [{ id: row.id, event_time: row.event_time, values: entry.values, note: entry.note }]
+          : [];
+      });
+    },
+  });
+}
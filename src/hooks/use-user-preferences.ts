@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { requireUserId } from "@/lib/write-helpers";
+import type { Json } from "@/integrations/supabase/types";
+import type { UnitSystem } from "@/lib/vitals";
+import { isValidTimeZone } from "@/lib/time-zone";
+
+/**
+ * Per-user display preferences (user_preferences row)
+ *
+ * A user without a row gets the defaults; the row is created on first save.
+ *
+ * GUARDRAIL: No PHI in logs - only action types
+ * GUARDRAIL: User isolation via RLS
+ */
+
+export type VitalTarget = {
+  low: number | null;
+  high: number | null;
+};
+
+export interface UserPreferences {
+  unitSystem: UnitSystem;
+  /** Keyed by vital series, values in the metric unit of the measure */
+  vitalTargets: Record<string, VitalTarget>;
+  /** IANA zone times are displayed and entered in; null follows the device */
+  timeZone: string | null;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  unitSystem: "metric",
+  vitalTargets: {},
+  timeZone: null,
+};
+
+const toNumberOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+
+function parseVitalTargets(value: Json): Record<string, VitalTarget> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const targets: Record<string, VitalTarget> = {};
+  for (const [series, target] of Object.entries(value)) {
+    if (target && typeof target === "object" && !Array.isArray(target)) {
+      targets[series] = { low: toNumberOrNull(target.low), high: toNumberOrNull(target.high) };
+    }
+  }
+  return targets;
+}
+
+export function useUserPreferences() {
+  return useQuery({
+    queryKey: ["user-preferences"],
+    queryFn: async (): Promise<UserPreferences> => {
+      const { data, error } = await supabase
+        .from("user_preferences")
+        .select("unit_system, vital_targets, time_zone")
+        .maybeSingle();
+
+      if (error) {
+        safeLog.error("Failed to fetch preferences", { action: "preferences_fetch_error", errorType: error.code });
+        throw error;
+      }
+      if (!data) return DEFAULT_USER_PREFERENCES;
+
+      return {
+        unitSystem: data.unit_system === "imperial" ? "imperial" : "metric",
+        vitalTargets: parseVitalTargets(data.vital_targets),
+        timeZone: data.time_zone && isValidTimeZone(data.time_zone) ? data.time_zone : null,
+      };
+    },
+  });
+}
+
+export function useUpdateUserPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preferences: UserPreferences) => {
+      const userId = await requireUserId();
+
+      const { error } = await supabase.from("user_preferences").upsert({
+        user_id: userId,
+        unit_system: preferences.unitSystem,
+        vital_targets: preferences.vitalTargets,
+        time_zone: preferences.timeZone,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        safeLog.error("Failed to save preferences", { action: "preferences_save_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Preferences saved", { action: "preferences_save_success" });
+      return preferences;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["user-preferences"], preferences);
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { getVitalSign } from "@/lib/event-details";
+import type { VitalSignDetails } from "@/lib/event-registry";
+
+/**
+ * Vital sign readings, oldest first
+ *
+ * Reads the current view so retracted readings are left out.
+ *
+ * GUARDRAIL: No PHI in logs - only counts and action types
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const VITALS_LIMIT = 2000;
+
+export interface VitalReading {
+  id: string;
+  event_time: string;
+  reading: VitalSignDetails;
+}
+
+export function useVitalReadings() {
+  return useQuery({
+    queryKey: ["vital-readings"],
+    queryFn: async (): Promise<VitalReading[]> => {
+      const { data, error } = await supabase
+        .from("timeline_events_current")
+        .select("id, event_time, details")
+        .eq("event_type", "vital_sign")
+        .eq("is_retracted", false)
+        .order("event_time", { ascending: true })
+        .limit(VITALS_LIMIT);
+
+      if (error) {
+        safeLog.error("Failed to fetch vitals", { action: "vitals_fetch_error", errorType: error.code });
+        throw error;
+      }
+
+      safeLog.info("Vitals fetched", { action: "vitals_fetch_success", count: data?.length ?? 0 });
+
+      return (data ?? []).flatMap((row) => {
+        const reading = getVitalSign(row.details);
+        return reading && row.id && row.event_time ? [{ id: row.id, event_time: row.event_time, reading }] : [];
+      });
+    },
+  });
+}
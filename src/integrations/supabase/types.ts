@@ -17,26 +17,35 @@ export type Database = {
       audit_events: {
         Row: {
           action: string
+          chain_seq: number
           created_at: string
           entity_id: string
           entity_type: string
           id: string
+          prev_hash: string | null
+          row_hash: string
           user_id: string
         }
         Insert: {
           action: string
+          chain_seq?: number
           created_at?: string
           entity_id: string
           entity_type: string
           id?: string
+          prev_hash?: string | null
+          row_hash?: string
           user_id: string
         }
         Update: {
           action?: string
+          chain_seq?: number
           created_at?: string
           entity_id?: string
           entity_type?: string
           id?: string
+          prev_hash?: string | null
+          row_hash?: string
           user_id?: string
         }
         Relationships: []
@@ -138,45 +147,87 @@ export type Database = {
       }
       document_artifacts: {
         Row: {
+          attached_to_event_id: string | null
           content_type: string
           created_at: string
           doc_type: string | null
+          encryption_iv: string | null
+          encryption_key_id: string | null
           file_size: number | null
           id: string
           occurred_at: string | null
           original_filename: string | null
+          previous_artifact_id: string | null
           provenance_id: string
+          root_artifact_id: string | null
+          search_vector: unknown
           storage_path: string
           title: string | null
           user_id: string
+          version: number
         }
         Insert: {
+          attached_to_event_id?: string | null
           content_type: string
           created_at?: string
           doc_type?: string | null
+          encryption_iv?: string | null
+          encryption_key_id?: string | null
           file_size?: number | null
           id?: string
           occurred_at?: string | null
           original_filename?: string | null
+          previous_artifact_id?: string | null
           provenance_id: string
+          root_artifact_id?: string | null
+          search_vector?: never
           storage_path: string
           title?: string | null
           user_id: string
+          version?: number
         }
         Update: {
+          attached_to_event_id?: string | null
           content_type?: string
           created_at?: string
           doc_type?: string | null
+          encryption_iv?: string | null
+          encryption_key_id?: string | null
           file_size?: number | null
           id?: string
           occurred_at?: string | null
           original_filename?: string | null
+          previous_artifact_id?: string | null
           provenance_id?: string
+          root_artifact_id?: string | null
+          search_vector?: never
           storage_path?: string
           title?: string | null
           user_id?: string
+          version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "document_artifacts_attached_to_event_id_fkey"
+            columns: ["attached_to_event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_artifacts_encryption_key_id_fkey"
+            columns: ["encryption_key_id"]
+            isOneToOne: false
+            referencedRelation: "user_encryption_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_artifacts_previous_artifact_id_fkey"
+            columns: ["previous_artifact_id"]
+            isOneToOne: false
+            referencedRelation: "document_artifacts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "document_artifacts_provenance_id_fkey"
             columns: ["provenance_id"]
@@ -184,10 +235,116 @@ export type Database = {
             referencedRelation: "provenance"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "document_artifacts_root_artifact_id_fkey"
+            columns: ["root_artifact_id"]
+            isOneToOne: false
+            referencedRelation: "document_artifacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_links: {
+        Row: {
+          created_at: string
+          id: string
+          link_type: Database["public"]["Enums"]["event_link_type"]
+          source_event_id: string
+          target_event_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link_type: Database["public"]["Enums"]["event_link_type"]
+          source_event_id: string
+          target_event_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link_type?: Database["public"]["Enums"]["event_link_type"]
+          source_event_id?: string
+          target_event_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_links_source_event_id_fkey"
+            columns: ["source_event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_links_source_event_id_fkey"
+            columns: ["source_event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events_current"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_links_target_event_id_fkey"
+            columns: ["target_event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_links_target_event_id_fkey"
+            columns: ["target_event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events_current"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_tag_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["event_tag_action"]
+          created_at: string
+          event_id: string
+          id: string
+          tag: string
+          user_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["event_tag_action"]
+          created_at?: string
+          event_id: string
+          id?: string
+          tag: string
+          user_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["event_tag_action"]
+          created_at?: string
+          event_id?: string
+          id?: string
+          tag?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_tag_actions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_tag_actions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events_current"
+            referencedColumns: ["id"]
+          },
         ]
       }
       jobs: {
         Row: {
+          claimed_at: string | null
           created_at: string
           id: string
           idempotency_key: string
@@ -197,6 +354,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          claimed_at?: string | null
           created_at?: string
           id?: string
           idempotency_key: string
@@ -206,6 +364,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          claimed_at?: string | null
           created_at?: string
           id?: string
           idempotency_key?: string
@@ -268,37 +427,67 @@ export type Database = {
       }
       timeline_events: {
         Row: {
+          chain_seq: number
           consent_snapshot_id: string
           created_at: string
           details: Json | null
           event_time: string
+          event_time_end: string | null
+          event_time_precision: string
+          event_timezone: string | null
+          event_utc_offset_minutes: number | null
           event_type: string
+          hash_version: number
           id: string
+          idempotency_key: string | null
+          prev_hash: string | null
           provenance_id: string
+          row_hash: string
+          search_vector: unknown
           summary: string
           title: string | null
           user_id: string
         }
         Insert: {
+          chain_seq?: number
           consent_snapshot_id: string
           created_at?: string
           details?: Json | null
           event_time: string
+          event_time_end: string | null
+          event_time_precision: string
+          event_timezone: string | null
+          event_utc_offset_minutes: number | null
           event_type: string
+          hash_version?: number
           id?: string
+          idempotency_key?: string | null
+          prev_hash?: string | null
           provenance_id: string
+          row_hash?: string
+          search_vector?: never
           summary: string
           title?: string | null
           user_id: string
         }
         Update: {
+          chain_seq?: number
           consent_snapshot_id?: string
           created_at?: string
           details?: Json | null
           event_time?: string
+          event_time_end?: string | null
+          event_time_precision?: string
+          event_timezone?: string | null
+          event_utc_offset_minutes?: number | null
           event_type?: string
+          hash_version?: number
           id?: string
+          idempotency_key?: string | null
+          prev_hash?: string | null
           provenance_id?: string
+          row_hash?: string
+          search_vector?: never
           summary?: string
           title?: string | null
           user_id?: string
@@ -320,12 +509,376 @@ export type Database = {
           },
         ]
       }
+      trackers: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          description: string | null
+          fields: Json
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          fields: Json
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_encryption_keys: {
+        Row: {
+          created_at: string
+          id: string
+          kdf_iterations: number
+          kdf_salt: string
+          recovery_iv: string
+          recovery_salt: string
+          recovery_wrapped_key: string
+          retired_at: string | null
+          status: string
+          user_id: string
+          wrap_iv: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kdf_iterations: number
+          kdf_salt: string
+          recovery_iv: string
+          recovery_salt: string
+          recovery_wrapped_key: string
+          retired_at?: string | null
+          status?: string
+          user_id: string
+          wrap_iv: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          recovery_iv?: string
+          recovery_salt?: string
+          recovery_wrapped_key?: string
+          retired_at?: string | null
+          status?: string
+          user_id?: string
+          wrap_iv?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          time_zone: string | null
+          unit_system: string
+          updated_at: string
+          user_id: string
+          vital_targets: Json
+        }
+        Insert: {
+          time_zone?: string | null
+          unit_system?: string
+          updated_at?: string
+          user_id: string
+          vital_targets?: Json
+        }
+        Update: {
+          time_zone?: string | null
+          unit_system?: string
+          updated_at?: string
+          user_id?: string
+          vital_targets?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      event_tags_current: {
+        Row: {
+          event_id: string | null
+          tag: string | null
+          tagged_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_tag_actions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_tag_actions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "timeline_events_current"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medication_list: {
+        Row: {
+          event_count: number | null
+          frequency: string | null
+          is_active: boolean | null
+          last_action: string | null
+          last_changed_at: string | null
+          last_taken_at: string | null
+          latest_event_id: string | null
+          latest_event_type: string | null
+          medication_key: string | null
+          name: string | null
+          provenance_id: string | null
+          provenance_method:
+            | Database["public"]["Enums"]["provenance_method"]
+            | null
+          route: string | null
+          source_name: string | null
+          source_type: Database["public"]["Enums"]["data_source_type"] | null
+          started_at: string | null
+          strength: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      timeline_events_current: {
+        Row: {
+          amendment_count: number | null
+          consent_snapshot_id: string | null
+          created_at: string | null
+          details: Json | null
+          event_time: string | null
+          event_time_end: string | null
+          event_time_precision: string | null
+          event_timezone: string | null
+          event_utc_offset_minutes: number | null
+          event_type: string | null
+          id: string | null
+          is_amended: boolean | null
+          is_retracted: boolean | null
+          latest_amendment_id: string | null
+          original_details: Json | null
+          original_summary: string | null
+          original_title: string | null
+          provenance_id: string | null
+          retraction_id: string | null
+          retraction_reason: string | null
+          summary: string | null
+          tags: string[] | null
+          title: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timeline_events_consent_snapshot_id_fkey"
+            columns: ["consent_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "consent_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeline_events_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "provenance"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      archive_tracker: {
+        Args: { p_tracker_id: string }
+        Returns: undefined
+      }
+      complete_document_processing: {
+        Args: {
+          p_extraction_method: string
+          p_job_id: string
+          p_page_count?: number
+          p_text: string
+        }
+        Returns: string
+      }
+      create_tracker: {
+        Args: { p_description?: string; p_fields: Json; p_name: string }
+        Returns: string
+      }
+      link_events: {
+        Args: {
+          p_link_type: Database["public"]["Enums"]["event_link_type"]
+          p_source_event_id: string
+          p_target_event_id: string
+        }
+        Returns: string
+      }
+      record_timeline_event: {
+        Args: {
+          p_attachments?: Json
+          p_audit_action: string
+          p_details?: Json
+          p_document?: Json
+          p_event_time: string
+          p_event_time_end?: string
+          p_event_time_precision?: string
+          p_event_timezone?: string
+          p_event_type: string
+          p_idempotency_key?: string
+          p_provenance_metadata?: Json
+          p_provenance_method: Database["public"]["Enums"]["provenance_method"]
+          p_source_name: string
+          p_source_type: Database["public"]["Enums"]["data_source_type"]
+          p_summary: string
+          p_title?: string
+        }
+        Returns: {
+          document_artifact_id: string
+          event_id: string
+          provenance_id: string
+        }[]
+      }
+      record_timeline_event_batch: {
+        Args: { p_batch_id: string; p_events: Json }
+        Returns: {
+          event_id: string
+        }[]
+      }
+      reencrypt_document_artifact: {
+        Args: {
+          p_artifact_id: string
+          p_encryption_iv: string
+          p_encryption_key_id: string
+          p_from_key_id: string
+          p_storage_path: string
+        }
+        Returns: boolean
+      }
+      retract_import_batch: {
+        Args: { p_batch_id: string }
+        Returns: number
+      }
+      rotate_encryption_key: {
+        Args: { p_new_key: Json }
+        Returns: string
+      }
+      search_timeline: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          event_id: string
+          event_time: string
+          event_type: string
+          headline: string
+          matched_document: boolean
+          rank: number
+          title: string
+        }[]
+      }
+      tag_event: {
+        Args: {
+          p_action: Database["public"]["Enums"]["event_tag_action"]
+          p_event_id: string
+          p_tag: string
+        }
+        Returns: string
+      }
+      timeline_events_as_of: {
+        Args: { p_as_of?: string }
+        Returns: {
+          amendment_count: number
+          consent_snapshot_id: string
+          created_at: string
+          details: Json
+          event_time: string
+          event_time_end: string
+          event_time_precision: string
+          event_timezone: string
+          event_utc_offset_minutes: number
+          event_type: string
+          id: string
+          is_amended: boolean
+          is_retracted: boolean
+          latest_amendment_id: string
+          original_details: Json
+          original_summary: string
+          original_title: string
+          provenance_id: string
+          retraction_id: string
+          retraction_reason: string
+          summary: string
+          tags: string[]
+          title: string
+          user_id: string
+        }[]
+      }
+      timeline_events_page: {
+        Args: {
+          p_as_of?: string
+          p_before_id?: string
+          p_before_time?: string
+          p_category?: string
+          p_event_type?: string
+          p_from?: string
+          p_limit: number
+          p_provider?: string
+          p_tag?: string
+          p_to?: string
+        }
+        Returns: {
+          amendment_count: number
+          consent_snapshot_id: string
+          created_at: string
+          details: Json
+          event_time: string
+          event_time_end: string
+          event_time_precision: string
+          event_timezone: string
+          event_utc_offset_minutes: number
+          event_type: string
+          id: string
+          is_amended: boolean
+          is_retracted: boolean
+          latest_amendment_id: string
+          original_details: Json
+          original_summary: string
+          original_title: string
+          provenance_id: string
+          retraction_id: string
+          retraction_reason: string
+          summary: string
+          tags: string[]
+          title: string
+          user_id: string
+        }[]
+      }
+      verify_hash_chains: {
+        Args: never
+        Returns: {
+          broken_row_id: string | null
+          broken_seq: number | null
+          chain_name: string
+          failure_reason: string | null
+          is_valid: boolean
+          rows_checked: number
+        }[]
+      }
     }
     Enums: {
       data_source_status: "active" | "inactive" | "pending"
@@ -335,12 +888,23 @@ export type Database = {
         | "portal"
         | "external_api"
         | "device"
+      event_link_type:
+        | "caused_by"
+        | "follow_up_of"
+        | "result_of"
+        | "attachment_of"
+        | "answer_to"
+        | "question_for"
+      event_tag_action: "added" | "removed"
       job_status: "pending" | "running" | "complete" | "failed"
       provenance_method:
         | "manual_entry"
         | "upload"
         | "portal_import"
         | "manual_amendment"
+        | "manual_retraction"
+        | "bulk_import"
+        | "document_ocr"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -476,12 +1040,24 @@ export const Constants = {
         "external_api",
         "device",
       ],
+      event_link_type: [
+        "caused_by",
+        "follow_up_of",
+        "result_of",
+        "attachment_of",
+        "answer_to",
+        "question_for",
+      ],
+      event_tag_action: ["added", "removed"],
       job_status: ["pending", "running", "complete", "failed"],
       provenance_method: [
         "manual_entry",
         "upload",
         "portal_import",
         "manual_amendment",
+        "manual_retraction",
+        "bulk_import",
+        "document_ocr",
       ],
     },
   },
@@ -0,0 +1,152 @@
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { fetchDocument, uploadDocumentFile } from "@/lib/documents";
+import { EventDetailsValidationError } from "@/lib/event-registry";
+import {
+  recordTimelineEvent,
+  requireUserId,
+  type AttachmentInput,
+  type RecordedTimelineEvent,
+  type RecordTimelineEventInput,
+} from "@/lib/write-helpers";
+
+/**
+ * Journal photo attachments
+ *
+ * Photos go to the documents bucket under the user's folder, like
+ * uploaded documents, and are read back through the documents-download
+ * Edge Function (signed URLs are blocked by some browsers and extensions).
+ * They are encrypted like documents when the user has turned encryption
+ * on, so key rotation covers them too.
+ *
+ * GUARDRAIL: No PHI in logs - only counts, sizes and IDs, never filenames
+ */
+
+export const ATTACHMENT_CONTENT_TYPES = ["image/png", "image/jpeg", "image/heic", "image/webp"];
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+/** Why a file can't be attached, or null if it can */
+export function attachmentFileError(file: File): string | null {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) return "Photos must be PNG, JPG, HEIC or WebP";
+  if (file.size > MAX_ATTACHMENT_SIZE) return "Photos must be under 20MB";
+  return null;
+}
+
+/**
+ * Upload photos to storage, encrypted first if the user turned encryption
+ * on. If any upload fails, the ones already uploaded are removed again.
+ * @throws DocumentsLockedError if encryption is on but locked
+ */
+export async function uploadAttachments(userId: string, files: File[]): Promise<AttachmentInput[]> {
+  const uploaded: AttachmentInput[] = [];
+
+  try {
+    for (const file of files) {
+      const { storagePath, encryption } = await uploadDocumentFile(userId, file);
+
+      uploaded.push({
+        title: file.name.replace(/\.[^/.]+$/, "").slice(0, 200) || "Photo",
+        storagePath,
+        contentType: file.type,
+        fileSize: file.size,
+        originalFilename: file.name,
+        encryption,
+      });
+    }
+  } catch (error) {
+    await removeAttachmentFiles(uploaded);
+    throw error;
+  }
+
+  safeLog.info("Attachments uploaded", { action: "attachments_upload_success", count: uploaded.length });
+  return uploaded;
+}
+
+/**
+ * Whether the event definitely was not written: it failed validation
+ * here, or the server answered with an error code. A network error or a
+ * lost response leaves it unknown, as the transaction may have committed.
+ */
+function isDefiniteRejection(error: unknown): boolean {
+  if (error instanceof EventDetailsValidationError) return true;
+  if (!error || typeof error !== "object") return false;
+  const { code } = error as { code?: unknown };
+  return typeof code === "string" && code !== "";
+}
+
+/** The event written with the given idempotency key, or null if none was */
+async function findRecordedEvent(idempotencyKey: string): Promise<RecordedTimelineEvent | null> {
+  const { data, error } = await supabase
+    .from("timeline_events")
+    .select("id, provenance_id")
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && { eventId: data.id, provenanceId: data.provenance_id, documentArtifactId: null };
+}
+
+/**
+ * Upload photos, then record the event with them attached. The uploads
+ * are removed again if the event definitely wasn't written; when that is
+ * unknown (e.g. the connection dropped), the event is looked up by its
+ * idempotency key first, and the files are kept if the lookup fails.
+ * @throws DocumentsLockedError if encryption is on but locked
+ */
+export async function recordTimelineEventWithAttachments(
+  input: RecordTimelineEventInput,
+  files: File[]
+): Promise<RecordedTimelineEvent> {
+  const idempotencyKey = input.idempotencyKey ?? crypto.randomUUID();
+  const attachments = await uploadAttachments(await requireUserId(), files);
+  try {
+    return await recordTimelineEvent({ ...input, attachments, idempotencyKey });
+  } catch (error) {
+    if (isDefiniteRejection(error)) {
+      await removeAttachmentFiles(attachments);
+      throw error;
+    }
+
+    let recorded: RecordedTimelineEvent | null;
+    try {
+      recorded = await findRecordedEvent(idempotencyKey);
+    } catch {
+      safeLog.warn("Kept files of an event that may have been written", {
+        action: "attachments_outcome_unknown",
+        count: attachments.length,
+      });
+      throw error;
+    }
+
+    if (recorded) {
+      safeLog.info("Event with attachments was written despite the error", {
+        action: "attachments_event_found",
+        id: recorded.eventId,
+      });
+      return recorded;
+    }
+    await removeAttachmentFiles(attachments);
+    throw error;
+  }
+}
+
+/** Remove uploaded files whose event was never written */
+export async function removeAttachmentFiles(attachments: AttachmentInput[]): Promise<void> {
+  if (attachments.length === 0) return;
+  const { error } = await supabase.storage.from("documents").remove(attachments.map((a) => a.storagePath));
+  if (error) {
+    safeLog.warn("Failed to cleanup orphaned files", { action: "storage_cleanup_failed", count: attachments.length });
+  } else {
+    safeLog.info("Cleaned up orphaned files", { action: "storage_cleanup", count: attachments.length });
+  }
+}
+
+/**
+ * Fetch a stored document or photo through the download proxy, for
+ * display (audited as a view).
+ */
+export async function fetchDocumentBlob(artifactId: string): Promise<Blob> {
+  const { blob } = await fetchDocument(artifactId, true);
+  return blob;
+}
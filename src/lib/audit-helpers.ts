@@ -18,7 +18,32 @@ export type AuditAction =
   | "source_sync_requested"
   | "external_source_connected"
   | "external_sync_requested"
-  | "external_events_imported";
+  | "external_events_imported"
+  | "journal_created"
+  | "document_uploaded"
+  | "event_amended"
+  | "event_retracted"
+  | "event_linked"
+  | "event_tagged"
+  | "event_untagged"
+  | "medication_logged"
+  | "vital_recorded"
+  | "tracker_created"
+  | "tracker_archived"
+  | "tracker_entry_recorded"
+  | "question_answered"
+  | "attachment_added"
+  | "history_recorded"
+  | "history_imported"
+  | "history_import_undone"
+  | "document_text_extracted"
+  | "document_version_added"
+  | "document_viewed"
+  | "document_downloaded"
+  | "encryption_enabled"
+  | "encryption_key_rotated"
+  | "encryption_key_recovered"
+  | "encryption_passphrase_changed";
 
 /**
  * Create an audit event for a user action.
@@ -0,0 +1,367 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { createAuditEvent } from "@/lib/audit-helpers";
+import { safeLog } from "@/lib/safe-logger";
+import { requireUserId } from "@/lib/write-helpers";
+
+/**
+ * Client-side document encryption (envelope encryption with WebCrypto)
+ *
+ * Each user_encryption_keys row holds a random AES-GCM data key, wrapped
+ * twice: by a key derived from the user's passphrase and by a key derived
+ * from a one-time recovery code. Files are encrypted with the active data
+ * key before upload and decrypted after download. Unwrapped keys live in
+ * memory for this page load only; the server never sees a passphrase,
+ * recovery code or unwrapped key.
+ *
+ * GUARDRAIL: No PHI in logs - only key IDs and error types, never secrets
+ * GUARDRAIL: User isolation via RLS
+ */
+
+export type EncryptionKeyRecord = Tables<"user_encryption_keys">;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// OWASP guidance for PBKDF2-HMAC-SHA256. Recovery wraps store no count of
+// their own, so raising this needs a fallback for older recovery codes.
+const KDF_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const RECOVERY_CODE_BYTES = 20;
+// Crockford base32: no I, L, O or U, so codes are easy to read back
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** An encrypted document was requested while its key is locked */
+export class DocumentsLockedError extends Error {
+  constructor() {
+    super("Encrypted documents are locked");
+    this.name = "DocumentsLockedError";
+  }
+}
+
+// ============= Unlocked keys (memory only) =============
+
+const unlockedKeys = new Map<string, CryptoKey>();
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to keys being unlocked or locked.
+ * @returns unsubscribe function
+ */
+export function subscribeToDocumentKeys(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyKeysChanged() {
+  listeners.forEach((listener) => listener());
+}
+
+export function isDocumentKeyUnlocked(keyId: string): boolean {
+  return unlockedKeys.has(keyId);
+}
+
+/** Forget every unlocked key, e.g. on sign-out */
+export function lockDocumentKeys(): void {
+  unlockedKeys.clear();
+  notifyKeysChanged();
+}
+
+// ============= Primitives =============
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveWrappingKey(secret: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+interface WrappedKey {
+  wrapped: string;
+  iv: string;
+  salt: string;
+}
+
+async function wrapDataKey(dataKey: CryptoKey, secret: string): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const wrappingKey = await deriveWrappingKey(secret, salt, KDF_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey("raw", dataKey, wrappingKey, { name: "AES-GCM", iv });
+  return { wrapped: toBase64(wrapped), iv: toBase64(iv), salt: toBase64(salt) };
+}
+
+/** The data key, or null if the secret is wrong */
+async function unwrapDataKey(
+  { wrapped, iv, salt }: WrappedKey,
+  secret: string,
+  iterations: number
+): Promise<CryptoKey | null> {
+  try {
+    const wrappingKey = await deriveWrappingKey(secret, fromBase64(salt), iterations);
+    // Extractable only so it can be wrapped again (passphrase change, recovery)
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      fromBase64(wrapped),
+      wrappingKey,
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    return null;
+  }
+}
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(randomBytes(RECOVERY_CODE_BYTES), (byte) => RECOVERY_ALPHABET[byte % 32]);
+  return (chars.join("").match(/.{4}/g) ?? []).join("-");
+}
+
+/** Accept recovery codes typed with spaces, lower case or look-alike letters */
+function normalizeRecoveryCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/O/g, "0").replace(/[IL]/g, "1");
+  return compact.match(/.{1,4}/g)?.join("-") ?? "";
+}
+
+/** Wrap a new data key for storage; the key is kept unlocked */
+async function createWrappedKey(passphrase: string) {
+  const dataKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  const recoveryCode = generateRecoveryCode();
+  const [byPassphrase, byRecoveryCode] = await Promise.all([
+    wrapDataKey(dataKey, passphrase),
+    wrapDataKey(dataKey, recoveryCode),
+  ]);
+
+  return {
+    dataKey,
+    recoveryCode,
+    columns: {
+      wrapped_key: byPassphrase.wrapped,
+      wrap_iv: byPassphrase.iv,
+      kdf_salt: byPassphrase.salt,
+      kdf_iterations: KDF_ITERATIONS,
+      recovery_wrapped_key: byRecoveryCode.wrapped,
+      recovery_iv: byRecoveryCode.iv,
+      recovery_salt: byRecoveryCode.salt,
+    },
+  };
+}
+
+// ============= Keys =============
+
+export async function fetchEncryptionKeys(): Promise<EncryptionKeyRecord[]> {
+  const { data, error } = await supabase
+    .from("user_encryption_keys")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    safeLog.error("Failed to fetch encryption keys", { action: "encryption_keys_fetch_error", errorType: error.code });
+    throw error;
+  }
+  return data ?? [];
+}
+
+/**
+ * Turn on encryption with a new key.
+ * @returns the recovery code, to be shown to the user once
+ */
+export async function enableDocumentEncryption(passphrase: string): Promise<string> {
+  const userId = await requireUserId();
+  const { dataKey, recoveryCode, columns } = await createWrappedKey(passphrase);
+
+  const { data, error } = await supabase
+    .from("user_encryption_keys")
+    .insert({ user_id: userId, ...columns })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    safeLog.error("Failed to enable encryption", { action: "encryption_enable_error", errorType: error?.code });
+    throw error ?? new Error("No key returned");
+  }
+
+  unlockedKeys.set(data.id, dataKey);
+  notifyKeysChanged();
+  await createAuditEvent("encryption_enabled", "encryption_key", data.id);
+  safeLog.info("Encryption enabled", { action: "encryption_enabled", id: data.id });
+  return recoveryCode;
+}
+
+/**
+ * Unlock every key the passphrase opens.
+ * @returns whether the active key was unlocked
+ */
+export async function unlockDocumentKeys(passphrase: string): Promise<boolean> {
+  const keys = await fetchEncryptionKeys();
+  const unwrapped = await Promise.all(
+    keys.map((key) =>
+      unwrapDataKey({ wrapped: key.wrapped_key, iv: key.wrap_iv, salt: key.kdf_salt }, passphrase, key.kdf_iterations)
+    )
+  );
+
+  keys.forEach((key, index) => {
+    const dataKey = unwrapped[index];
+    if (dataKey) unlockedKeys.set(key.id, dataKey);
+  });
+  notifyKeysChanged();
+
+  const active = keys.find((key) => key.status === "active");
+  const unlocked = !!active && unlockedKeys.has(active.id);
+  safeLog.info("Document keys unlock attempted", { action: "encryption_unlock", count: unwrapped.filter(Boolean).length });
+  return unlocked;
+}
+
+async function storePassphraseWrap(keyId: string, dataKey: CryptoKey, passphrase: string): Promise<void> {
+  const { wrapped, iv, salt } = await wrapDataKey(dataKey, passphrase);
+  const { error } = await supabase
+    .from("user_encryption_keys")
+    .update({ wrapped_key: wrapped, wrap_iv: iv, kdf_salt: salt, kdf_iterations: KDF_ITERATIONS })
+    .eq("id", keyId);
+
+  if (error) {
+    safeLog.error("Failed to store rewrapped key", { action: "encryption_rewrap_error", id: keyId, errorType: error.code });
+    throw error;
+  }
+}
+
+/**
+ * Set a new passphrase using a recovery code. Rewraps the key the code
+ * belongs to, and any other key that is already unlocked.
+ * @returns false if the code matches no key
+ */
+export async function recoverDocumentKeys(recoveryCode: string, newPassphrase: string): Promise<boolean> {
+  const code = normalizeRecoveryCode(recoveryCode);
+  const keys = await fetchEncryptionKeys();
+
+  let recoveredId: string | null = null;
+  for (const key of keys) {
+    const dataKey = await unwrapDataKey(
+      { wrapped: key.recovery_wrapped_key, iv: key.recovery_iv, salt: key.recovery_salt },
+      code,
+      KDF_ITERATIONS
+    );
+    if (dataKey) {
+      unlockedKeys.set(key.id, dataKey);
+      recoveredId = key.id;
+      break;
+    }
+  }
+
+  if (!recoveredId) {
+    safeLog.warn("Recovery code matched no key", { action: "encryption_recovery_failed" });
+    return false;
+  }
+
+  await changeDocumentPassphrase(newPassphrase);
+  await createAuditEvent("encryption_key_recovered", "encryption_key", recoveredId);
+  return true;
+}
+
+/** Rewrap every unlocked key with a new passphrase */
+export async function changeDocumentPassphrase(newPassphrase: string): Promise<void> {
+  for (const [keyId, dataKey] of unlockedKeys) {
+    await storePassphraseWrap(keyId, dataKey, newPassphrase);
+  }
+  notifyKeysChanged();
+
+  const [firstKeyId] = unlockedKeys.keys();
+  if (firstKeyId) {
+    await createAuditEvent("encryption_passphrase_changed", "encryption_key", firstKeyId);
+  }
+  safeLog.info("Passphrase changed", { action: "encryption_passphrase_changed", count: unlockedKeys.size });
+}
+
+/**
+ * Replace the active key. The database retires the old key and queues a
+ * 'key_rotation' job; files are re-encrypted by runKeyRotation().
+ * @returns the new key's recovery code, to be shown to the user once
+ */
+export async function rotateDocumentKey(passphrase: string): Promise<string> {
+  const { dataKey, recoveryCode, columns } = await createWrappedKey(passphrase);
+
+  const { data: keyId, error } = await supabase.rpc("rotate_encryption_key", { p_new_key: columns });
+
+  if (error || !keyId) {
+    safeLog.error("Failed to rotate key", { action: "encryption_rotate_error", errorType: error?.code });
+    throw error ?? new Error("No key returned");
+  }
+
+  unlockedKeys.set(keyId, dataKey);
+  notifyKeysChanged();
+  safeLog.info("Encryption key rotated", { action: "encryption_key_rotated", id: keyId });
+  return recoveryCode;
+}
+
+// ============= Files =============
+
+export interface EncryptedFile {
+  blob: Blob;
+  keyId: string;
+  iv: string;
+}
+
+/**
+ * Encrypt a file with the active key, if encryption is on.
+ * @returns null when the user has not turned encryption on
+ * @throws DocumentsLockedError if encryption is on but locked
+ */
+export async function encryptDocumentFile(file: Blob): Promise<EncryptedFile | null> {
+  const { data: active, error } = await supabase
+    .from("user_encryption_keys")
+    .select("id")
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (error) {
+    safeLog.error("Failed to fetch active key", { action: "encryption_key_fetch_error", errorType: error.code });
+    throw error;
+  }
+  if (!active) return null;
+
+  const dataKey = unlockedKeys.get(active.id);
+  if (!dataKey) throw new DocumentsLockedError();
+
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, dataKey, await file.arrayBuffer());
+  return {
+    blob: new Blob([ciphertext], { type: "application/octet-stream" }),
+    keyId: active.id,
+    iv: toBase64(iv),
+  };
+}
+
+/**
+ * Decrypt a downloaded file.
+ * @throws DocumentsLockedError if its key is locked
+ */
+export async function decryptDocumentBlob(blob: Blob, keyId: string, iv: string, contentType: string): Promise<Blob> {
+  const dataKey = unlockedKeys.get(keyId);
+  if (!dataKey) throw new DocumentsLockedError();
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    dataKey,
+    await blob.arrayBuffer()
+  );
+  return new Blob([plaintext], { type: contentType });
+}
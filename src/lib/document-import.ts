@@ -0,0 +1,355 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent, requireUserId } from "@/lib/write-helpers";
+import { requestDocumentProcessing } from "@/lib/document-processing";
+import { documentStoragePath, uploadDocumentFile } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import type { DocType } from "@/lib/event-registry";
+
+/**
+ * Multi-file document upload as a tracked job
+ *
+ * A batch of files is one 'data_import' job whose payload holds a status
+ * per file. Files are uploaded one at a time, each recorded as its own
+ * document_uploaded event. A file's storage path is written to the job
+ * before the file is uploaded, so a file that fails, or an import cut
+ * short by closing the app, can always be found and removed:
+ * settleStoredFile() deletes it unless an artifact already points at it.
+ *
+ * GUARDRAIL: No PHI in logs or job payloads - no titles or filenames, only
+ * IDs, file types, sizes, error types and storage paths (which are random)
+ * GUARDRAIL: Event-first data model - every file is its own upload event
+ */
+
+type JobStatus = Database["public"]["Enums"]["job_status"];
+
+export type ImportItemStatus = "pending" | "uploading" | "uploaded" | "failed";
+
+// Types rather than interfaces so the payload is assignable to Json
+export type DocumentImportItem = {
+  index: number;
+  content_type: string;
+  size_bytes: number;
+  status: ImportItemStatus;
+  /** Set before the file is uploaded; cleared once the file is removed */
+  storage_path: string | null;
+  document_artifact_id: string | null;
+  /** Error type of the last failure, never a message */
+  error: string | null;
+};
+
+type DocumentImportPayload = {
+  kind: "document_upload";
+  items: DocumentImportItem[];
+  updated_at: string;
+};
+
+/** A file of the batch with its resolved metadata */
+export interface DocumentImportFile {
+  file: File;
+  title: string;
+  docType: DocType;
+  /** Event time of the document (ISO) */
+  documentTime: string;
+  timeZone: string;
+  notes: string | null;
+  summary: string;
+}
+
+export interface ImportItemProgress {
+  status: ImportItemStatus;
+  /** Uploaded fraction (0-1) while uploading */
+  progress: number;
+}
+
+// An import not written to for this long is treated as abandoned
+const STALE_IMPORT_MS = 15 * 60 * 1000;
+
+function getImportPayload(payload: unknown): DocumentImportPayload | null {
+  if (!payload || typeof payload !== "object") return null;
+  const { kind, items, updated_at } = payload as Record<string, unknown>;
+  if (kind !== "document_upload" || !Array.isArray(items) || typeof updated_at !== "string") return null;
+  return { kind, items: items as DocumentImportItem[], updated_at };
+}
+
+function finalStatus(items: DocumentImportItem[]): JobStatus {
+  if (items.every((item) => item.status === "uploaded")) return "complete";
+  if (items.some((item) => item.status === "failed")) return "failed";
+  return "pending";
+}
+
+async function saveImport(jobId: string, items: DocumentImportItem[], status: JobStatus): Promise<void> {
+  const payload: DocumentImportPayload = { kind: "document_upload", items, updated_at: new Date().toISOString() };
+  const { error } = await supabase.from("jobs").update({ status, payload }).eq("id", jobId);
+
+  if (error) {
+    safeLog.error("Failed to save document import", { action: "document_import_save_error", jobId, errorType: error.code });
+    throw error;
+  }
+}
+
+/**
+ * Remove a file an import stored, unless it was recorded after all (the
+ * response to a successful write can be lost).
+ * @returns the artifact that holds the file, or whether it was removed
+ */
+async function settleStoredFile(storagePath: string): Promise<{ artifactId: string | null; removed: boolean }> {
+  const { data: artifact, error } = await supabase
+    .from("document_artifacts")
+    .select("id")
+    .eq("storage_path", storagePath)
+    .maybeSingle();
+
+  // Without knowing whether it was recorded, keep the file for a later attempt
+  if (error) return { artifactId: null, removed: false };
+  if (artifact) return { artifactId: artifact.id, removed: false };
+
+  const { error: removeError } = await supabase.storage.from("documents").remove([storagePath]);
+  if (removeError) {
+    safeLog.warn("Failed to cleanup orphaned file", { action: "storage_cleanup_failed" });
+    return { artifactId: null, removed: false };
+  }
+  return { artifactId: null, removed: true };
+}
+
+/** Settle a failed or abandoned item's file and update the item to match */
+async function settleItem(item: DocumentImportItem): Promise<void> {
+  if (!item.storage_path) return;
+
+  const { artifactId, removed } = await settleStoredFile(item.storage_path);
+  if (artifactId) {
+    item.status = "uploaded";
+    item.document_artifact_id = artifactId;
+    item.error = null;
+  } else if (removed) {
+    item.storage_path = null;
+  }
+}
+
+/**
+ * Create the job for a batch of files.
+ * @returns the job ID
+ */
+export async function createDocumentImport(files: DocumentImportFile[]): Promise<string> {
+  const userId = await requireUserId();
+  const jobId = crypto.randomUUID();
+  const items: DocumentImportItem[] = files.map(({ file }, index) => ({
+    index,
+    content_type: file.type,
+    size_bytes: file.size,
+    status: "pending",
+    storage_path: null,
+    document_artifact_id: null,
+    error: null,
+  }));
+  const payload: DocumentImportPayload = { kind: "document_upload", items, updated_at: new Date().toISOString() };
+
+  const { error } = await supabase.from("jobs").insert({
+    id: jobId,
+    user_id: userId,
+    job_type: "data_import",
+    status: "pending",
+    idempotency_key: `document_import:${jobId}`,
+    payload,
+  });
+
+  if (error) {
+    safeLog.error("Failed to create document import", { action: "document_import_create_error", errorType: error.code });
+    throw error;
+  }
+
+  safeLog.info("Document import created", { action: "document_import_created", jobId, count: files.length });
+  return jobId;
+}
+
+async function importItem(
+  userId: string,
+  jobId: string,
+  items: DocumentImportItem[],
+  item: DocumentImportItem,
+  entry: DocumentImportFile,
+  onProgress: (index: number, progress: ImportItemProgress) => void
+): Promise<void> {
+  const report = (progress = 0) => onProgress(item.index, { status: item.status, progress });
+
+  // A file left by an earlier attempt has to go first
+  await settleItem(item);
+  if (item.status === "uploaded" || item.storage_path) {
+    if (item.status !== "uploaded") item.error = "cleanup_failed";
+    report(1);
+    return;
+  }
+
+  // Record the path before uploading, so the file can't be orphaned
+  item.storage_path = documentStoragePath(userId);
+  item.status = "uploading";
+  item.error = null;
+  await saveImport(jobId, items, "running");
+  report();
+
+  try {
+    const uploaded = await uploadDocumentFile(userId, entry.file, {
+      storagePath: item.storage_path,
+      onProgress: report,
+    });
+
+    const { documentArtifactId } = await recordTimelineEvent({
+      source: { type: "upload", name: "User Upload" },
+      provenance: {
+        method: "upload",
+        metadata: {
+          doc_type: entry.docType,
+          mime: entry.file.type,
+          size_bytes: entry.file.size,
+          encrypted: uploaded.encryption !== null,
+          import_job_id: jobId,
+          batch_index: item.index,
+        },
+      },
+      eventType: "document_uploaded",
+      eventTime: entry.documentTime,
+      eventTimeZone: entry.timeZone,
+      title: entry.title,
+      summary: entry.summary,
+      details: {
+        doc_type: entry.docType,
+        notes: entry.notes,
+      },
+      auditAction: "document_uploaded",
+      document: {
+        title: entry.title,
+        docType: entry.docType,
+        occurredAt: entry.documentTime,
+        storagePath: uploaded.storagePath,
+        contentType: entry.file.type,
+        fileSize: entry.file.size,
+        originalFilename: entry.file.name,
+        encryption: uploaded.encryption,
+      },
+    });
+
+    item.status = "uploaded";
+    item.document_artifact_id = documentArtifactId;
+
+    // Text extraction runs in the background; encrypted files are never queued
+    if (documentArtifactId && !uploaded.encryption) {
+      requestDocumentProcessing(documentArtifactId).catch(() => undefined);
+    }
+  } catch (error) {
+    if (error instanceof DocumentsLockedError) {
+      // Nothing was uploaded: encryption comes first
+      item.status = "pending";
+      item.storage_path = null;
+      report();
+      throw error;
+    }
+
+    safeLog.warn("Document import file failed", {
+      action: "document_import_file_error",
+      jobId,
+      errorType: error instanceof Error ? error.name : "unknown",
+    });
+    item.status = "failed";
+    item.error = error instanceof Error ? error.name : "unknown";
+    await settleItem(item);
+  }
+
+  await saveImport(jobId, items, "running");
+  report(1);
+}
+
+/**
+ * Upload the given files of an import, one at a time, then set the job's
+ * status: 'complete' once every file is uploaded, otherwise 'failed'.
+ * Calling it again with failed indexes retries them.
+ * @throws DocumentsLockedError if encryption is on but locked; the files
+ * not yet uploaded stay pending
+ */
+export async function runDocumentImport(
+  jobId: string,
+  files: DocumentImportFile[],
+  indexes: number[],
+  onProgress: (index: number, progress: ImportItemProgress) => void
+): Promise<JobStatus> {
+  const userId = await requireUserId();
+  const { data: job, error } = await supabase.from("jobs").select("payload").eq("id", jobId).single();
+
+  if (error) {
+    safeLog.error("Failed to fetch document import", { action: "document_import_fetch_error", jobId, errorType: error.code });
+    throw error;
+  }
+
+  const payload = getImportPayload(job.payload);
+  if (!payload) {
+    throw new Error("Not a document import");
+  }
+
+  const { items } = payload;
+  try {
+    for (const index of indexes) {
+      const item = items[index];
+      const entry = files[index];
+      if (!item || !entry || item.status === "uploaded") continue;
+      await importItem(userId, jobId, items, item, entry, onProgress);
+    }
+  } finally {
+    await saveImport(jobId, items, finalStatus(items));
+  }
+
+  const status = finalStatus(items);
+  safeLog.info("Document import run finished", {
+    action: `document_import_${status}`,
+    jobId,
+    count: items.filter((item) => item.status === "uploaded").length,
+  });
+  return status;
+}
+
+/**
+ * Finish imports that were cut short or could not clean up after
+ * themselves: remove every stored file no artifact points at, and mark
+ * unfinished files failed. Imports written to recently are left alone, as
+ * they may still be running in another tab.
+ * @returns the number of imports settled
+ */
+export async function settleDocumentImports(): Promise<number> {
+  const { data: jobs, error } = await supabase
+    .from("jobs")
+    .select("id, status, payload")
+    .eq("job_type", "data_import")
+    .in("status", ["pending", "running", "failed"]);
+
+  if (error) {
+    safeLog.error("Failed to fetch document imports", { action: "document_import_fetch_error", errorType: error.code });
+    throw error;
+  }
+
+  let settled = 0;
+  for (const job of jobs ?? []) {
+    const payload = getImportPayload(job.payload);
+    if (!payload) continue;
+    if (Date.now() - new Date(payload.updated_at).getTime() < STALE_IMPORT_MS) continue;
+
+    const leftovers = payload.items.filter(
+      (item) => item.status !== "uploaded" && (item.storage_path || item.status !== "failed")
+    );
+    if (leftovers.length === 0 && job.status === finalStatus(payload.items)) continue;
+
+    for (const item of leftovers) {
+      if (item.status !== "failed") {
+        item.status = "failed";
+        item.error = "interrupted";
+      }
+      await settleItem(item);
+    }
+
+    await saveImport(job.id, payload.items, finalStatus(payload.items));
+    settled++;
+  }
+
+  if (settled > 0) {
+    safeLog.info("Settled interrupted document imports", { action: "document_import_settled", count: settled });
+  }
+  return settled;
+}
@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+
+/**
+ * Document text extraction
+ *
+ * Every PDF or image upload queues a 'document_processing' job in the
+ * database. The document-processing edge function runs the caller's
+ * pending jobs and records the text as a document_text_extracted event.
+ * These helpers only ask the function to run; they never see the text.
+ *
+ * GUARDRAIL: No PHI in logs - only artifact and job IDs
+ */
+
+// Matches CLAIM_LEASE_MS in the document-processing function
+const PROCESSING_CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Whether a running job's claim has expired: the function was stopped
+ * mid-job, and the next request claims it again
+ */
+export function isProcessingClaimExpired(claimedAt: string | null): boolean {
+  return !claimedAt || Date.now() - new Date(claimedAt).getTime() > PROCESSING_CLAIM_LEASE_MS;
+}
+
+/**
+ * Run pending text extraction, for one document or all pending jobs.
+ * Extraction finishes in the background; watch the job with
+ * useDocumentText().
+ */
+export async function requestDocumentProcessing(documentArtifactId?: string): Promise<void> {
+  const { error } = await supabase.functions.invoke("document-processing", {
+    body: documentArtifactId ? { document_artifact_id: documentArtifactId } : {},
+  });
+
+  if (error) {
+    safeLog.error("Document processing request failed", {
+      action: "document_processing_request_error",
+      id: documentArtifactId,
+      errorType: error.name,
+    });
+    throw error;
+  }
+
+  safeLog.info("Document processing requested", {
+    action: "document_processing_requested",
+    id: documentArtifactId,
+    resourceType: "document_artifact",
+  });
+}
+
+/**
+ * Queue a failed extraction again and run it
+ */
+export async function retryDocumentProcessing(jobId: string, documentArtifactId: string): Promise<void> {
+  const { error } = await supabase
+    .from("jobs")
+    .update({ status: "pending" })
+    .eq("id", jobId)
+    .eq("status", "failed");
+
+  if (error) {
+    safeLog.error("Failed to requeue document processing", {
+      action: "document_processing_retry_error",
+      id: jobId,
+      errorType: error.code,
+    });
+    throw error;
+  }
+
+  await requestDocumentProcessing(documentArtifactId);
+}
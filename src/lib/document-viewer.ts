@@ -0,0 +1,55 @@
+import type { PDFDocumentLoadingTask } from "pdfjs-dist";
+import { documentRequest, fetchDocument } from "@/lib/documents";
+
+/**
+ * In-app document viewing
+ *
+ * PDFs are rendered with pdf.js, loaded on first use. Unencrypted PDFs are
+ * read through Range requests so large files load page by page; encrypted
+ * ones have to be fetched whole and decrypted first. Images are shown from
+ * a decrypted blob. Every load goes through the download proxy as an
+ * inline request, which audits it as a view.
+ *
+ * GUARDRAIL: No PHI in logs - these helpers never log
+ */
+
+export type ViewerKind = "pdf" | "image";
+
+// HEIC is stored but most browsers can't display it
+const VIEWABLE_IMAGE_TYPES = ["image/png", "image/jpeg"];
+
+const RANGE_CHUNK_SIZE = 256 * 1024;
+
+/** How a stored file can be shown in the viewer, or null if only downloadable */
+export function viewerKind(contentType: string | null): ViewerKind | null {
+  if (contentType === "application/pdf") return "pdf";
+  if (contentType && VIEWABLE_IMAGE_TYPES.includes(contentType)) return "image";
+  return null;
+}
+
+/**
+ * Start loading a PDF for display. Destroy the task when done with it.
+ * @throws DocumentsLockedError if it is encrypted and its key is locked
+ */
+export async function loadPdf(artifactId: string, encrypted: boolean): Promise<PDFDocumentLoadingTask> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  if (encrypted) {
+    const { blob } = await fetchDocument(artifactId, true);
+    return pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const { url, headers } = await documentRequest(artifactId, true);
+  return pdfjs.getDocument({
+    url,
+    httpHeaders: headers,
+    rangeChunkSize: RANGE_CHUNK_SIZE,
+    // Fetch only the ranges the shown page needs
+    disableAutoFetch: true,
+    disableStream: true,
+  });
+}
@@ -0,0 +1,178 @@
+import { supabase } from "@/integrations/supabase/client";
+import { decryptDocumentBlob, encryptDocumentFile } from "@/lib/document-encryption";
+
+/**
+ * Document files
+ *
+ * Uploaded documents and their later versions go to the documents bucket
+ * under the user's folder, and are read back through the
+ * documents-download Edge Function (signed URLs are blocked by some
+ * browsers and extensions), which audits every view and download. When
+ * the user has turned on encryption, files are encrypted here before
+ * upload and decrypted after download.
+ *
+ * GUARDRAIL: No PHI in logs - these helpers never log
+ */
+
+export const DOCUMENT_CONTENT_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/heic"];
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+/** Why a file can't be uploaded as a document, or null if it can */
+export function documentFileError(file: File): string | null {
+  if (!DOCUMENT_CONTENT_TYPES.includes(file.type)) return "Please select a PDF or image file (PNG, JPG, HEIC)";
+  if (file.size > MAX_DOCUMENT_SIZE) return "File must be under 20MB";
+  return null;
+}
+
+/**
+ * Storage path for a new document file: user folder, then year and month.
+ * The name is random, never the filename, so paths can be kept in job
+ * payloads and logs.
+ */
+export function documentStoragePath(userId: string): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  return `${userId}/${now.getFullYear()}/${month}/${crypto.randomUUID()}`;
+}
+
+export interface UploadedDocumentFile {
+  storagePath: string;
+  /** Set when the file was encrypted before upload */
+  encryption: { keyId: string; iv: string } | null;
+}
+
+export interface UploadDocumentOptions {
+  /** Where to store the file; a new path under the user's folder by default */
+  storagePath?: string;
+  /** Called with the uploaded fraction (0-1) as the file is sent */
+  onProgress?: (fraction: number) => void;
+}
+
+/** Upload to storage with XHR, which (unlike fetch) reports upload progress */
+async function uploadWithProgress(
+  storagePath: string,
+  body: Blob,
+  contentType: string,
+  onProgress: (fraction: number) => void
+): Promise<void> {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session.session) {
+    throw new Error("Not authenticated");
+  }
+  const accessToken = session.session.access_token;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/documents/${storagePath}`);
+    xhr.setRequestHeader("Authorization", `Bearer ${accessToken}`);
+    xhr.setRequestHeader("apikey", import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Content-Type", contentType);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () =>
+      xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error(`Upload failed: ${xhr.status}`));
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a document file, encrypted first if the user turned encryption on.
+ * @throws DocumentsLockedError if encryption is on but locked
+ */
+export async function uploadDocumentFile(
+  userId: string,
+  file: File,
+  { storagePath = documentStoragePath(userId), onProgress }: UploadDocumentOptions = {}
+): Promise<UploadedDocumentFile> {
+  const encrypted = await encryptDocumentFile(file);
+  const body = encrypted?.blob ?? file;
+  const contentType = encrypted ? "application/octet-stream" : file.type;
+
+  if (onProgress) {
+    await uploadWithProgress(storagePath, body, contentType, onProgress);
+  } else {
+    const { error } = await supabase.storage
+      .from("documents")
+      .upload(storagePath, body, { contentType, upsert: false });
+    if (error) throw error;
+  }
+
+  return { storagePath, encryption: encrypted && { keyId: encrypted.keyId, iv: encrypted.iv } };
+}
+
+export interface DownloadedDocument {
+  blob: Blob;
+  filename: string;
+}
+
+export interface DocumentRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * URL and auth headers for a stored file on the download proxy. `inline`
+ * requests are audited as views rather than downloads.
+ */
+export async function documentRequest(artifactId: string, inline = false): Promise<DocumentRequest> {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session.session) {
+    throw new Error("Not authenticated");
+  }
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const disposition = inline ? "&disposition=inline" : "";
+  return {
+    url: `${supabaseUrl}/functions/v1/documents-download?artifact_id=${encodeURIComponent(artifactId)}${disposition}`,
+    headers: { Authorization: `Bearer ${session.session.access_token}` },
+  };
+}
+
+/**
+ * Fetch a stored document or photo through the download proxy,
+ * decrypted if the user encrypted it.
+ * @throws DocumentsLockedError if it is encrypted and its key is locked
+ */
+export async function fetchDocument(artifactId: string, inline = false): Promise<DownloadedDocument> {
+  const { url, headers } = await documentRequest(artifactId, inline);
+  const response = await fetch(url, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status}`);
+  }
+
+  // Filename from Content-Disposition, if available
+  const match = response.headers.get("Content-Disposition")?.match(/filename="?([^"]+)"?/);
+  const filename = match ? match[1] : "document";
+
+  const blob = await response.blob();
+  const keyId = response.headers.get("X-Encryption-Key-Id");
+  const iv = response.headers.get("X-Encryption-IV");
+  if (!keyId || !iv) {
+    return { blob, filename };
+  }
+
+  const contentType = response.headers.get("X-Document-Content-Type") || "application/octet-stream";
+  return { blob: await decryptDocumentBlob(blob, keyId, iv, contentType), filename };
+}
+
+/** Hand a file to the browser as a download */
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+/** Download a stored document to the user's device */
+export async function downloadDocument(artifactId: string): Promise<void> {
+  const { blob, filename } = await fetchDocument(artifactId);
+  saveBlob(blob, filename);
+}
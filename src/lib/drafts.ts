@@ -0,0 +1,42 @@
+import { requireUserId } from "@/lib/write-helpers";
+import { deleteRecord, getRecord, putRecord } from "@/lib/offline-store";
+
+/**
+ * Form drafts
+ *
+ * Unsent form input kept in IndexedDB on this device, per user and form,
+ * so a dropped connection or closed tab does not lose an entry.
+ *
+ * GUARDRAIL: No PHI in logs - drafts are never logged
+ */
+
+interface DraftRecord<T> {
+  /** `${userId}:${formId}` */
+  id: string;
+  values: T;
+  savedAt: string;
+}
+
+export interface Draft<T> {
+  values: T;
+  savedAt: string;
+}
+
+async function draftKey(formId: string): Promise<string> {
+  return `${await requireUserId()}:${formId}`;
+}
+
+export async function loadDraft<T>(formId: string): Promise<Draft<T> | null> {
+  const record = await getRecord<DraftRecord<T>>("drafts", await draftKey(formId));
+  return record ? { values: record.values, savedAt: record.savedAt } : null;
+}
+
+export async function saveDraft<T>(formId: string, values: T): Promise<string> {
+  const savedAt = new Date().toISOString();
+  await putRecord<DraftRecord<T>>("drafts", { id: await draftKey(formId), values, savedAt });
+  return savedAt;
+}
+
+export async function deleteDraft(formId: string): Promise<void> {
+  await deleteRecord("drafts", await draftKey(formId));
+}
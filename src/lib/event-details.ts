@@ -7,6 +7,27 @@
  * GUARDRAIL: No PHI in logs - these functions never log values
  */
 
+import {
+  documentTextExtractedDetailsSchema,
+  documentVersionAddedDetailsSchema,
+  medicalHistoryDetailsSchema,
+  medicationEventDetailsSchema,
+  medicationFieldsSchema,
+  questionAnsweredDetailsSchema,
+  symptomDetailsSchema,
+  trackerEntryDetailsSchema,
+  vitalSignDetailsSchema,
+  type DocumentTextExtractedDetails,
+  type DocumentVersionAddedDetails,
+  type MedicalHistoryDetails,
+  type MedicationEventDetails,
+  type MedicationFields,
+  type QuestionAnsweredDetails,
+  type SymptomDetails,
+  type TrackerEntryDetails,
+  type VitalSignDetails,
+} from "@/lib/event-registry";
+
 /**
  * Safely get a string value from details object
  */
@@ -57,6 +78,20 @@ export function getAmendedEventType(details: unknown): string | null {
   return getString(details, "amended_event_type");
 }
 
+/**
+ * Get retracted event ID from details (for retraction events)
+ */
+export function getRetractsEventId(details: unknown): string | null {
+  return getString(details, "retracts_event_id");
+}
+
+/**
+ * Get retraction reason code from details
+ */
+export function getReasonCode(details: unknown): string | null {
+  return getString(details, "reason_code");
+}
+
 /**
  * Get text content from details (for journal entries)
  */
@@ -154,3 +189,81 @@ export function getIsDemo(details: unknown): boolean {
   return false;
   return null;
 }
+
+/**
+ * Get structured symptom fields from journal entry details
+ */
+export function getSymptom(details: unknown): SymptomDetails | null {
+  if (details !== null && typeof details === "object" && "symptom" in details) {
+    const result = symptomDetailsSchema.safeParse((details as Record<string, unknown>).symptom);
+    return result.success ? result.data : null;
+  }
+  return null;
+}
+
+/**
+ * Get the structured fields of a medication_event
+ */
+export function getMedicationEvent(details: unknown): MedicationEventDetails | null {
+  const result = medicationEventDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the structured medication of an imported (external) medication record
+ */
+export function getImportedMedication(details: unknown): MedicationFields | null {
+  if (details !== null && typeof details === "object" && "medication" in details) {
+    const result = medicationFieldsSchema.safeParse((details as Record<string, unknown>).medication);
+    return result.success ? result.data : null;
+  }
+  return null;
+}
+
+/**
+ * Get the reading of a vital_sign event
+ */
+export function getVitalSign(details: unknown): VitalSignDetails | null {
+  const result = vitalSignDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the tracker ID and values of a tracker_entry event
+ */
+export function getTrackerEntry(details: unknown): TrackerEntryDetails | null {
+  const result = trackerEntryDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the question ID and answer of a question_answered event
+ */
+export function getQuestionAnswer(details: unknown): QuestionAnsweredDetails | null {
+  const result = questionAnsweredDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the structured fields of a medical_history event
+ */
+export function getMedicalHistory(details: unknown): MedicalHistoryDetails | null {
+  const result = medicalHistoryDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the extracted text of a document_text_extracted event
+ */
+export function getExtractedText(details: unknown): DocumentTextExtractedDetails | null {
+  const result = documentTextExtractedDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Get the details of a document_version_added event
+ */
+export function getDocumentVersion(details: unknown): DocumentVersionAddedDetails | null {
+  const result = documentVersionAddedDetailsSchema.safeParse(details);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,47 @@
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Event Links
+ *
+ * Typed relationships between events, stored in the append-only
+ * `event_links` table. A link reads "source <type> target", e.g. a lab
+ * document is `result_of` a symptom journal entry.
+ *
+ * Labels are given for both directions so the Related events section can
+ * describe a link from either end.
+ */
+
+export type EventLinkType = Database["public"]["Enums"]["event_link_type"];
+
+export const EVENT_LINK_TYPES: readonly EventLinkType[] = [
+  "caused_by",
+  "follow_up_of",
+  "result_of",
+  "attachment_of",
+  "answer_to",
+  "question_for",
+];
+
+/** How the source event describes the target ("This event is …") */
+export const OUTGOING_LINK_LABELS: Record<EventLinkType, string> = {
+  caused_by: "Caused by",
+  follow_up_of: "Follow-up of",
+  result_of: "Result of",
+  attachment_of: "Attachment of",
+  answer_to: "Answer to",
+  question_for: "Question for",
+};
+
+/** How the target event describes the source */
+export const INCOMING_LINK_LABELS: Record<EventLinkType, string> = {
+  caused_by: "Led to",
+  follow_up_of: "Followed up by",
+  result_of: "Has result",
+  attachment_of: "Has attachment",
+  answer_to: "Answered by",
+  question_for: "Has question",
+};
+
+export function isEventLinkType(value: string): value is EventLinkType {
+  return (EVENT_LINK_TYPES as readonly string[]).includes(value);
+}
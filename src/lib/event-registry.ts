@@ -0,0 +1,520 @@
+import { z } from "zod";
+
+/**
+ * Timeline Event Registry
+ *
+ * Single source of truth for the event types stored in `timeline_events`
+ * and the shape of their `details` JSON. Every write is validated against
+ * this registry before it reaches the database, and the
+ * `validate_timeline_event_details` trigger enforces the same rules
+ * server-side.
+ *
+ * Reading legacy rows still goes through the safe getters in
+ * `event-details.ts`, which tolerate missing or malformed fields.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Event types are append-only: add new types, never repurpose old ones
+ *
+ * GUARDRAIL: No PHI in logs
+ * - Validation errors report field paths only, never values
+ */
+
+export const JOURNAL_CATEGORIES = ["symptom", "medication", "mood", "question", "other"] as const;
+
+export const DOC_TYPES = ["lab", "imaging", "visit_summary", "medication", "insurance", "other"] as const;
+
+export const RESOURCE_CATEGORIES = ["encounter", "lab_results", "medication", "document_reference"] as const;
+
+export const RETRACTION_REASONS = [
+  "entered_in_error",
+  "duplicate",
+  "wrong_person",
+  "import_error",
+  "other",
+] as const;
+
+export const SYMPTOM_ONSETS = ["sudden", "gradual"] as const;
+
+export const MEDICATION_ACTIONS = ["started", "dose_changed", "stopped", "dose_taken"] as const;
+
+export const MEDICATION_ROUTES = [
+  "oral",
+  "sublingual",
+  "topical",
+  "transdermal",
+  "inhaled",
+  "nasal",
+  "injection",
+  "eye",
+  "ear",
+  "rectal",
+  "other",
+] as const;
+
+export const VITAL_MEASURES = [
+  "blood_pressure",
+  "heart_rate",
+  "weight",
+  "body_temperature",
+  "oxygen_saturation",
+  "blood_glucose",
+] as const;
+
+export const HISTORY_KINDS = ["condition", "surgery", "allergy", "immunization", "family_history"] as const;
+
+export const CONDITION_STATUSES = ["active", "resolved"] as const;
+
+export const ALLERGY_SEVERITIES = ["mild", "moderate", "severe"] as const;
+
+/** How a document's text was extracted: its PDF text layer, or OCR of an image */
+export const EXTRACTION_METHODS = ["pdf_text", "ocr"] as const;
+
+/** Extracted text longer than this is truncated */
+export const MAX_EXTRACTED_TEXT_LENGTH = 100000;
+
+/** UCUM units accepted for each vital sign measure */
+export const VITAL_UNITS = {
+  blood_pressure: ["mm[Hg]"],
+  heart_rate: ["/min"],
+  weight: ["kg", "[lb_av]"],
+  body_temperature: ["Cel", "[degF]"],
+  oxygen_saturation: ["%"],
+  blood_glucose: ["mmol/L", "mg/dL"],
+} as const satisfies Record<(typeof VITAL_MEASURES)[number], readonly string[]>;
+
+export type JournalCategory = (typeof JOURNAL_CATEGORIES)[number];
+export type HistoryKind = (typeof HISTORY_KINDS)[number];
+export type ConditionStatus = (typeof CONDITION_STATUSES)[number];
+export type AllergySeverity = (typeof ALLERGY_SEVERITIES)[number];
+export type ExtractionMethod = (typeof EXTRACTION_METHODS)[number];
+export type DocType = (typeof DOC_TYPES)[number];
+export type RetractionReason = (typeof RETRACTION_REASONS)[number];
+export type SymptomOnset = (typeof SYMPTOM_ONSETS)[number];
+export type MedicationAction = (typeof MEDICATION_ACTIONS)[number];
+export type MedicationRoute = (typeof MEDICATION_ROUTES)[number];
+export type VitalMeasure = (typeof VITAL_MEASURES)[number];
+export type VitalUnit = (typeof VITAL_UNITS)[VitalMeasure][number];
+
+export const SYMPTOM_ONSET_LABELS: Record<SymptomOnset, string> = {
+  sudden: "Sudden",
+  gradual: "Gradual",
+};
+
+export const MEDICATION_ACTION_LABELS: Record<MedicationAction, string> = {
+  started: "Started",
+  dose_changed: "Dose changed",
+  stopped: "Stopped",
+  dose_taken: "Dose taken",
+};
+
+export const MEDICATION_ROUTE_LABELS: Record<MedicationRoute, string> = {
+  oral: "By mouth",
+  sublingual: "Under the tongue",
+  topical: "On the skin",
+  transdermal: "Patch",
+  inhaled: "Inhaled",
+  nasal: "Nasal",
+  injection: "Injection",
+  eye: "Eye drops",
+  ear: "Ear drops",
+  rectal: "Rectal",
+  other: "Other",
+};
+
+export const HISTORY_KIND_LABELS: Record<HistoryKind, string> = {
+  condition: "Condition",
+  surgery: "Surgery",
+  allergy: "Allergy",
+  immunization: "Immunization",
+  family_history: "Family history",
+};
+
+export const CONDITION_STATUS_LABELS: Record<ConditionStatus, string> = {
+  active: "Ongoing",
+  resolved: "Resolved",
+};
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: "Mild",
+  moderate: "Moderate",
+  severe: "Severe",
+};
+
+export const EXTRACTION_METHOD_LABELS: Record<ExtractionMethod, string> = {
+  pdf_text: "PDF text",
+  ocr: "Text recognition (OCR)",
+};
+
+export const RETRACTION_REASON_LABELS: Record<RetractionReason, string> = {
+  entered_in_error: "Entered in error",
+  duplicate: "Duplicate",
+  wrong_person: "Belongs to someone else",
+  import_error: "Incorrect import",
+  other: "Other",
+};
+
+export function isJournalCategory(value: string | null | undefined): value is JournalCategory {
+  return (JOURNAL_CATEGORIES as readonly string[]).includes(value ?? "");
+}
+
+export function isDocType(value: string | null | undefined): value is DocType {
+  return (DOC_TYPES as readonly string[]).includes(value ?? "");
+}
+
+export function isRetractionReason(value: string | null | undefined): value is RetractionReason {
+  return (RETRACTION_REASONS as readonly string[]).includes(value ?? "");
+}
+
+export function isMedicationAction(value: string | null | undefined): value is MedicationAction {
+  return (MEDICATION_ACTIONS as readonly string[]).includes(value ?? "");
+}
+
+export function isMedicationRoute(value: string | null | undefined): value is MedicationRoute {
+  return (MEDICATION_ROUTES as readonly string[]).includes(value ?? "");
+}
+
+export function isHistoryKind(value: string | null | undefined): value is HistoryKind {
+  return (HISTORY_KINDS as readonly string[]).includes(value ?? "");
+}
+
+export function isVitalMeasure(value: string | null | undefined): value is VitalMeasure {
+  return (VITAL_MEASURES as readonly string[]).includes(value ?? "");
+}
+
+export function isSymptomOnset(value: string | null | undefined): value is SymptomOnset {
+  return (SYMPTOM_ONSETS as readonly string[]).includes(value ?? "");
+}
+
+const uuid = z.string().uuid();
+const timestamp = z.string().datetime({ offset: true });
+
+/**
+ * Structured fields for a symptom journal entry. Severity is 0 (none) to
+ * 10 (worst imaginable); the name groups entries for symptom history.
+ */
+export const symptomDetailsSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    severity: z.number().int().min(0).max(10),
+    location: z.string().max(100).nullable(),
+    onset: z.enum(SYMPTOM_ONSETS).nullable(),
+    duration_minutes: z.number().int().min(0).nullable(),
+    triggers: z.array(z.string().min(1).max(50)).max(20),
+  })
+  .strict();
+
+export const journalEntryDetailsSchema = z
+  .object({
+    text: z.string().min(1).max(5000),
+    category: z.enum(JOURNAL_CATEGORIES),
+    symptom: symptomDetailsSchema.optional(),
+  })
+  .strict()
+  .refine((details) => !details.symptom || details.category === "symptom", {
+    path: ["symptom"],
+  });
+
+export const documentUploadedDetailsSchema = z
+  .object({
+    document_artifact_id: uuid,
+    doc_type: z.enum(DOC_TYPES),
+    notes: z.string().max(500).nullable(),
+  })
+  .strict();
+
+const journalAmendmentDetailsSchema = z
+  .object({
+    amends_event_id: uuid,
+    amended_event_type: z.literal("journal_entry"),
+    text: z.string().min(1).max(5000),
+    category: z.enum(JOURNAL_CATEGORIES).nullable(),
+    original_event_time: timestamp,
+    note: z.string().nullable(),
+  })
+  .strict();
+
+const documentAmendmentDetailsSchema = z
+  .object({
+    amends_event_id: uuid,
+    amended_event_type: z.literal("document_uploaded"),
+    document_artifact_id: uuid.nullable(),
+    title: z.string().min(1).max(200),
+    doc_type: z.enum(DOC_TYPES).nullable(),
+    notes: z.string().max(500).nullable(),
+    document_date: z.string().date(),
+  })
+  .strict();
+
+export const eventAmendedDetailsSchema = z.discriminatedUnion("amended_event_type", [
+  journalAmendmentDetailsSchema,
+  documentAmendmentDetailsSchema,
+]);
+
+export const visitSummaryDetailsSchema = z
+  .object({
+    referenced_event_ids: z.array(uuid).min(1),
+    date_range_start: timestamp,
+    date_range_end: timestamp,
+    label: z.string().max(50).nullable(),
+  })
+  .strict();
+
+/**
+ * What a medication is and how it is taken. Shared by medication events
+ * and imported medication records.
+ */
+export const medicationFieldsSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    strength: z.string().max(50).nullable(),
+    route: z.enum(MEDICATION_ROUTES).nullable(),
+    frequency: z.string().max(100).nullable(),
+  })
+  .strict();
+
+export const externalEventDetailsSchema = z
+  .object({
+    source: z.string().min(1),
+    resource_category: z.enum(RESOURCE_CATEGORIES),
+    provider_name: z.string().min(1),
+    is_demo: z.boolean().optional(),
+    /** Structured medication, when the source provides one */
+    medication: medicationFieldsSchema.optional(),
+  })
+  .strict();
+
+/**
+ * A medication log entry. The current medication list is derived from
+ * these (and imported medication records) by the medication_list view.
+ */
+export const medicationEventDetailsSchema = medicationFieldsSchema
+  .extend({
+    action: z.enum(MEDICATION_ACTIONS),
+    note: z.string().max(500).nullable(),
+  })
+  .strict();
+
+/**
+ * Tombstone for a mistaken event. The retracted event is never modified;
+ * the current view hides it from the timeline, summaries and shares.
+ */
+export const eventRetractedDetailsSchema = z
+  .object({
+    retracts_event_id: uuid,
+    retracted_event_type: z.string().min(1),
+    reason_code: z.enum(RETRACTION_REASONS),
+    note: z.string().max(500).nullable(),
+  })
+  .strict();
+
+/**
+ * A vital sign reading. `value` and `unit` are stored exactly as entered
+ * (UCUM unit codes); display conversion never rewrites the stored value.
+ * Blood pressure stores systolic in `value` and requires `diastolic`.
+ */
+export const vitalSignDetailsSchema = z
+  .object({
+    measure: z.enum(VITAL_MEASURES),
+    value: z.number().finite().positive(),
+    unit: z.string().min(1),
+    diastolic: z.number().finite().positive().nullable(),
+    note: z.string().max(500).nullable(),
+  })
+  .strict()
+  .refine((details) => (VITAL_UNITS[details.measure] as readonly string[]).includes(details.unit), {
+    path: ["unit"],
+  })
+  .refine((details) => (details.measure === "blood_pressure") === (details.diastolic !== null), {
+    path: ["diastolic"],
+  });
+
+/**
+ * An entry in a user-defined tracker. `values` is keyed by the tracker's
+ * field keys; the trigger checks them against the tracker definition
+ * (see src/lib/trackers.ts), which this registry cannot see.
+ */
+export const trackerEntryDetailsSchema = z
+  .object({
+    tracker_id: uuid,
+    values: z.record(z.union([z.number().finite(), z.boolean(), z.string().max(50), z.null()])),
+    note: z.string().max(500).nullable(),
+  })
+  .strict();
+
+/**
+ * The answer to a question journal entry. The trigger checks that the
+ * question is one of the user's own, currently in the question category.
+ */
+export const questionAnsweredDetailsSchema = z
+  .object({
+    question_event_id: uuid,
+    answer: z.string().min(1).max(5000),
+    answered_by: z.string().max(100).nullable(),
+  })
+  .strict();
+
+/**
+ * A past medical history item (condition, surgery, allergy, immunization
+ * or family history), usually entered in the history wizard. Kind-specific
+ * fields are null on other kinds; family history names the relative.
+ */
+export const medicalHistoryDetailsSchema = z
+  .object({
+    kind: z.enum(HISTORY_KINDS),
+    name: z.string().min(1).max(200),
+    status: z.enum(CONDITION_STATUSES).nullable(),
+    reaction: z.string().max(200).nullable(),
+    severity: z.enum(ALLERGY_SEVERITIES).nullable(),
+    relation: z.string().min(1).max(50).nullable(),
+    note: z.string().max(500).nullable(),
+  })
+  .strict()
+  .refine((details) => details.kind === "condition" || details.status === null, { path: ["status"] })
+  .refine((details) => details.kind === "allergy" || (details.reaction === null && details.severity === null), {
+    path: ["reaction"],
+  })
+  .refine((details) => (details.kind === "family_history") === (details.relation !== null), { path: ["relation"] });
+
+/**
+ * Text extracted from an uploaded document by the document-processing
+ * job. The trigger checks that `source_event_id` is the caller's own
+ * document_uploaded or document_version_added event for
+ * `document_artifact_id`.
+ */
+export const documentTextExtractedDetailsSchema = z
+  .object({
+    document_artifact_id: uuid,
+    source_event_id: uuid,
+    extraction_method: z.enum(EXTRACTION_METHODS),
+    page_count: z.number().int().positive().nullable(),
+    text: z.string().min(1).max(MAX_EXTRACTED_TEXT_LENGTH),
+    truncated: z.boolean(),
+  })
+  .strict();
+
+/**
+ * A new version of an uploaded document. `document_event_id` is the
+ * original document_uploaded event; `previous_artifact_id` is the version
+ * this one replaces. The trigger checks both against the artifact chain.
+ */
+export const documentVersionAddedDetailsSchema = z
+  .object({
+    document_artifact_id: uuid,
+    document_event_id: uuid,
+    previous_artifact_id: uuid,
+    version: z.number().int().min(2),
+    note: z.string().max(500).nullable(),
+  })
+  .strict();
+
+/**
+ * Registry of event types and their details schemas.
+ */
+export const EVENT_DETAILS_SCHEMAS = {
+  journal_entry: journalEntryDetailsSchema,
+  document_uploaded: documentUploadedDetailsSchema,
+  event_amended: eventAmendedDetailsSchema,
+  visit_summary: visitSummaryDetailsSchema,
+  external_event: externalEventDetailsSchema,
+  event_retracted: eventRetractedDetailsSchema,
+  medication_event: medicationEventDetailsSchema,
+  vital_sign: vitalSignDetailsSchema,
+  tracker_entry: trackerEntryDetailsSchema,
+  question_answered: questionAnsweredDetailsSchema,
+  medical_history: medicalHistoryDetailsSchema,
+  document_text_extracted: documentTextExtractedDetailsSchema,
+  document_version_added: documentVersionAddedDetailsSchema,
+} as const;
+
+export type EventType = keyof typeof EVENT_DETAILS_SCHEMAS;
+
+export const EVENT_TYPES = Object.keys(EVENT_DETAILS_SCHEMAS) as EventType[];
+
+export type JournalEntryDetails = z.infer<typeof journalEntryDetailsSchema>;
+export type SymptomDetails = z.infer<typeof symptomDetailsSchema>;
+export type DocumentUploadedDetails = z.infer<typeof documentUploadedDetailsSchema>;
+export type EventAmendedDetails = z.infer<typeof eventAmendedDetailsSchema>;
+export type VisitSummaryDetails = z.infer<typeof visitSummaryDetailsSchema>;
+export type ExternalEventDetails = z.infer<typeof externalEventDetailsSchema>;
+export type EventRetractedDetails = z.infer<typeof eventRetractedDetailsSchema>;
+export type MedicationFields = z.infer<typeof medicationFieldsSchema>;
+export type MedicationEventDetails = z.infer<typeof medicationEventDetailsSchema>;
+export type VitalSignDetails = z.infer<typeof vitalSignDetailsSchema>;
+export type TrackerEntryDetails = z.infer<typeof trackerEntryDetailsSchema>;
+export type QuestionAnsweredDetails = z.infer<typeof questionAnsweredDetailsSchema>;
+export type MedicalHistoryDetails = z.infer<typeof medicalHistoryDetailsSchema>;
+export type DocumentTextExtractedDetails = z.infer<typeof documentTextExtractedDetailsSchema>;
+export type DocumentVersionAddedDetails = z.infer<typeof documentVersionAddedDetailsSchema>;
+
+/**
+ * Details shape keyed by event type.
+ */
+export type EventDetailsByType = {
+  [K in EventType]: z.infer<(typeof EVENT_DETAILS_SCHEMAS)[K]>;
+};
+
+/**
+ * Discriminated union of every valid (event_type, details) pair.
+ */
+export type TypedEventDetails = {
+  [K in EventType]: { event_type: K; details: EventDetailsByType[K] };
+}[EventType];
+
+/**
+ * Thrown when details do not match the registry.
+ * The message lists field paths only (no values, no PHI).
+ */
+export class EventDetailsValidationError extends Error {
+  readonly eventType: string;
+  readonly fields: string[];
+
+  constructor(eventType: string, fields: string[]) {
+    super(`Invalid details for ${eventType}: ${fields.join(", ") || "unknown event type"}`);
+    this.name = "EventDetailsValidationError";
+    this.eventType = eventType;
+    this.fields = fields;
+  }
+}
+
+export function isEventType(value: string): value is EventType {
+  return value in EVENT_DETAILS_SCHEMAS;
+}
+
+/**
+ * Validate details for an event type.
+ *
+ * @param omitKeys - keys assigned server-side (e.g. `document_artifact_id`)
+ *   that are not yet known when the client validates
+ * @throws EventDetailsValidationError
+ */
+export function validateEventDetails<K extends EventType>(
+  eventType: K,
+  details: unknown,
+  omitKeys: string[] = []
+): void {
+  let schema: z.ZodTypeAny = EVENT_DETAILS_SCHEMAS[eventType];
+  if (omitKeys.length > 0 && schema instanceof z.ZodObject) {
+    schema = schema.omit(Object.fromEntries(omitKeys.map((key) => [key, true])));
+  }
+
+  const result = schema.safeParse(details);
+  if (!result.success) {
+    throw new EventDetailsValidationError(
+      eventType,
+      result.error.issues.map((issue) => issue.path.join(".") || issue.code)
+    );
+  }
+}
+
+/**
+ * Parse details read from the database into their typed shape.
+ * Returns null for unknown event types or rows that predate the registry.
+ */
+export function parseEventDetails(eventType: string, details: unknown): TypedEventDetails | null {
+  if (!isEventType(eventType)) return null;
+
+  const result = EVENT_DETAILS_SCHEMAS[eventType].safeParse(details);
+  if (!result.success) return null;
+
+  return { event_type: eventType, details: result.data } as TypedEventDetails;
+}
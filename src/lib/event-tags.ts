@@ -0,0 +1,25 @@
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Event Tags
+ *
+ * Tags are user labels on events ("knee", "insurance claim 2026"). Each add
+ * or remove is appended to `event_tag_actions`; the current tag set is
+ * derived server-side (event_tags_current, timeline_events_as_of.tags).
+ *
+ * Normalisation matches the tag_event function so the client can dedupe
+ * before writing.
+ */
+
+export type EventTagAction = Database["public"]["Enums"]["event_tag_action"];
+
+export const MAX_TAG_LENGTH = 50;
+
+export function normalizeTag(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export function isValidTag(value: string): boolean {
+  const tag = normalizeTag(value);
+  return tag.length > 0 && tag.length <= MAX_TAG_LENGTH;
+}
@@ -0,0 +1,208 @@
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { requireUserId } from "@/lib/write-helpers";
+import { documentStoragePath, fetchDocument } from "@/lib/documents";
+import { encryptDocumentFile, isDocumentKeyUnlocked } from "@/lib/document-encryption";
+
+/**
+ * Encryption key rotation
+ *
+ * rotate_encryption_key() swaps the active key and queues a 'key_rotation'
+ * job. Only the browser holds unwrapped keys, so the files are re-encrypted
+ * here: each one is downloaded, decrypted, encrypted with the new key and
+ * uploaded to a new path, and only then is its artifact pointed at the new
+ * object and the old object removed. An interrupted run leaves every file
+ * readable and can be resumed.
+ *
+ * GUARDRAIL: No PHI in logs - only artifact and job IDs and counts
+ * GUARDRAIL: Event-first data model - artifacts change only storage and key columns
+ */
+
+const BATCH_SIZE = 10;
+
+export interface KeyRotationPayload {
+  from_key_id: string;
+  to_key_id: string;
+  total: number;
+}
+
+function getRotationPayload(payload: unknown): KeyRotationPayload | null {
+  if (!payload || typeof payload !== "object") return null;
+  const { from_key_id, to_key_id, total } = payload as Record<string, unknown>;
+  if (typeof from_key_id !== "string" || typeof to_key_id !== "string" || typeof total !== "number") return null;
+  return { from_key_id, to_key_id, total };
+}
+
+/** Encrypted files not yet on the given key */
+export async function countFilesToReencrypt(toKeyId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("document_artifacts")
+    .select("id", { count: "exact", head: true })
+    .not("encryption_key_id", "is", null)
+    .neq("encryption_key_id", toKeyId);
+
+  if (error) {
+    safeLog.error("Failed to count files to re-encrypt", { action: "key_rotation_count_error", errorType: error.code });
+    throw error;
+  }
+  return count ?? 0;
+}
+
+async function setJobStatus(jobId: string, status: "complete" | "failed"): Promise<void> {
+  const { error } = await supabase.from("jobs").update({ status }).eq("id", jobId);
+  if (error) {
+    safeLog.error("Failed to update key rotation job", { action: "key_rotation_job_error", jobId, errorType: error.code });
+    throw error;
+  }
+}
+
+interface RotatingArtifact {
+  id: string;
+  storage_path: string;
+}
+
+/** Re-encrypt one file; false if it was moved by another run meanwhile */
+async function reencryptArtifact(
+  userId: string,
+  artifact: RotatingArtifact,
+  fromKeyId: string,
+  toKeyId: string
+): Promise<boolean> {
+  const { blob } = await fetchDocument(artifact.id);
+  const encrypted = await encryptDocumentFile(blob);
+  if (!encrypted || encrypted.keyId !== toKeyId) {
+    throw new Error("Active key changed during rotation");
+  }
+
+  const storagePath = documentStoragePath(userId);
+  const { error: uploadError } = await supabase.storage
+    .from("documents")
+    .upload(storagePath, encrypted.blob, { contentType: "application/octet-stream", upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { data: updated, error: updateError } = await supabase.rpc("reencrypt_document_artifact", {
+    p_artifact_id: artifact.id,
+    p_from_key_id: fromKeyId,
+    p_storage_path: storagePath,
+    p_encryption_key_id: encrypted.keyId,
+    p_encryption_iv: encrypted.iv,
+  });
+
+  if (updateError || !updated) {
+    await supabase.storage.from("documents").remove([storagePath]);
+    if (updateError) throw updateError;
+    return false;
+  }
+
+  const { error: removeError } = await supabase.storage.from("documents").remove([artifact.storage_path]);
+  if (removeError) {
+    safeLog.warn("Failed to remove re-encrypted file's old copy", {
+      action: "storage_cleanup_failed",
+      id: artifact.id,
+    });
+  }
+  return true;
+}
+
+/**
+ * Run a pending key rotation job until every file is on the new key.
+ * Files whose old key is locked, or that fail, are left as they were and
+ * the job ends 'failed' so it can be resumed.
+ * @returns the job's final status, or null if the job was not pending
+ */
+export async function runKeyRotation(jobId: string): Promise<"complete" | "failed" | null> {
+  const { data: job, error: claimError } = await supabase
+    .from("jobs")
+    .update({ status: "running" })
+    .eq("id", jobId)
+    .eq("job_type", "key_rotation")
+    .eq("status", "pending")
+    .select("payload")
+    .maybeSingle();
+
+  if (claimError) {
+    safeLog.error("Failed to claim key rotation job", { action: "key_rotation_claim_error", jobId, errorType: claimError.code });
+    throw claimError;
+  }
+  if (!job) return null;
+
+  const payload = getRotationPayload(job.payload);
+  if (!payload) {
+    await setJobStatus(jobId, "failed");
+    return "failed";
+  }
+
+  const userId = await requireUserId();
+  const skipped: string[] = [];
+  let moved = 0;
+
+  try {
+    for (;;) {
+      let query = supabase
+        .from("document_artifacts")
+        .select("id, storage_path, encryption_key_id")
+        .not("encryption_key_id", "is", null)
+        .neq("encryption_key_id", payload.to_key_id)
+        .order("created_at", { ascending: true })
+        .limit(BATCH_SIZE);
+      if (skipped.length > 0) {
+        query = query.not("id", "in", `(${skipped.join(",")})`);
+      }
+
+      const { data: batch, error } = await query;
+      if (error) throw error;
+      if (!batch || batch.length === 0) break;
+
+      for (const artifact of batch) {
+        const fromKeyId = artifact.encryption_key_id;
+        if (!fromKeyId || !isDocumentKeyUnlocked(fromKeyId)) {
+          skipped.push(artifact.id);
+          continue;
+        }
+        try {
+          if (await reencryptArtifact(userId, artifact, fromKeyId, payload.to_key_id)) moved++;
+        } catch (error) {
+          safeLog.warn("Failed to re-encrypt file", {
+            action: "key_rotation_file_error",
+            id: artifact.id,
+            errorType: error instanceof Error ? error.name : "unknown",
+          });
+          skipped.push(artifact.id);
+        }
+      }
+    }
+  } catch (error) {
+    safeLog.error("Key rotation stopped", {
+      action: "key_rotation_error",
+      jobId,
+      errorType: error instanceof Error ? error.name : "unknown",
+    });
+    await setJobStatus(jobId, "failed");
+    return "failed";
+  }
+
+  const status = skipped.length === 0 ? "complete" : "failed";
+  await setJobStatus(jobId, status);
+  safeLog.info("Key rotation finished", { action: `key_rotation_${status}`, jobId, count: moved });
+  return status;
+}
+
+/**
+ * Queue an unfinished rotation again and run it. Also picks up a run that
+ * was interrupted by closing the app.
+ */
+export async function resumeKeyRotation(jobId: string): Promise<"complete" | "failed" | null> {
+  const { error } = await supabase
+    .from("jobs")
+    .update({ status: "pending" })
+    .eq("id", jobId)
+    .eq("job_type", "key_rotation")
+    .neq("status", "complete");
+
+  if (error) {
+    safeLog.error("Failed to requeue key rotation", { action: "key_rotation_retry_error", jobId, errorType: error.code });
+    throw error;
+  }
+
+  return runKeyRotation(jobId);
+}
@@ -0,0 +1,36 @@
+import {
+  ALLERGY_SEVERITY_LABELS,
+  CONDITION_STATUS_LABELS,
+  HISTORY_KIND_LABELS,
+  type MedicalHistoryDetails,
+} from "@/lib/event-registry";
+
+/**
+ * Medical history helpers
+ *
+ * GUARDRAIL: No PHI in logs - these functions never log values
+ */
+
+/**
+ * Title for a history item, e.g. "Allergy: Penicillin" or
+ * "Family history: Heart disease (Mother)"
+ */
+export function historyTitle(details: Pick<MedicalHistoryDetails, "kind" | "name" | "relation">): string {
+  const relation = details.kind === "family_history" && details.relation ? ` (${details.relation})` : "";
+  return `${HISTORY_KIND_LABELS[details.kind]}: ${details.name}${relation}`.slice(0, 100);
+}
+
+/**
+ * One-line description, e.g. "Penicillin · Hives · Severe" or "Asthma · Ongoing"
+ */
+export function describeHistory(details: MedicalHistoryDetails): string {
+  return [
+    details.name,
+    details.status ? CONDITION_STATUS_LABELS[details.status] : null,
+    details.reaction,
+    details.severity ? ALLERGY_SEVERITY_LABELS[details.severity] : null,
+    details.relation,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
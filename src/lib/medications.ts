@@ -0,0 +1,26 @@
+import { MEDICATION_ROUTE_LABELS, isMedicationRoute } from "@/lib/event-registry";
+
+/**
+ * Medication helpers
+ *
+ * GUARDRAIL: No PHI in logs - these functions never log values
+ */
+
+/**
+ * One-line description, e.g. "Lisinopril 10 mg · By mouth · Once daily"
+ */
+export function describeMedication(fields: {
+  name?: string | null;
+  strength?: string | null;
+  route?: string | null;
+  frequency?: string | null;
+}): string {
+  const route = isMedicationRoute(fields.route) ? MEDICATION_ROUTE_LABELS[fields.route] : fields.route;
+  return [
+    [fields.name, fields.strength].filter(Boolean).join(" "),
+    route,
+    fields.frequency,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,215 @@
+import { supabase } from "@/integrations/supabase/client";
+import { safeLog } from "@/lib/safe-logger";
+import { recordTimelineEvent, requireUserId, type RecordTimelineEventInput } from "@/lib/write-helpers";
+import { deleteRecord, getRecordsByUser, putRecord } from "@/lib/offline-store";
+
+/**
+ * Offline Queue
+ *
+ * Timeline event submissions that could not reach the server are kept in
+ * the IndexedDB outbox and replayed, oldest first, when the connection
+ * returns. Each submission gets an idempotency key when it is first made,
+ * and every retry reuses it, so a request that did reach the server
+ * before the connection dropped is never written twice.
+ *
+ * A submission the server rejects (anything other than a network or
+ * session error) is kept but marked rejected, so it is not retried in a
+ * loop and the user can see and discard it.
+ *
+ * Document uploads and photo attachments are not queued: the file upload
+ * must succeed first.
+ *
+ * GUARDRAIL: Event-first data model - replays go through the same
+ * record_timeline_event path as live submissions
+ * GUARDRAIL: No PHI in logs - only counts, IDs and error types
+ */
+
+export interface QueuedSubmission {
+  idempotencyKey: string;
+  userId: string;
+  input: RecordTimelineEventInput;
+  queuedAt: string;
+  attempts: number;
+  rejected: boolean;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  rejected: number;
+}
+
+export type SubmitResult = { status: "sent"; eventId: string } | { status: "queued" };
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to outbox changes (queued, sent, rejected, discarded).
+ * @returns unsubscribe function
+ */
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyOutboxChanged() {
+  listeners.forEach((listener) => listener());
+}
+
+function errorInfo(error: unknown): { code: string; message: string } {
+  if (error && typeof error === "object") {
+    const { code, message } = error as { code?: unknown; message?: unknown };
+    return { code: typeof code === "string" ? code : "", message: typeof message === "string" ? message : "" };
+  }
+  return { code: "", message: "" };
+}
+
+/**
+ * True when the request never got a response (offline, DNS, dropped
+ * connection). fetch() rejects with a TypeError; supabase-js passes the
+ * message through with an empty error code.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const { code, message } = errorInfo(error);
+  return code === "" && /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+/** Errors that may succeed later without any change to the submission */
+function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+  const { code, message } = errorInfo(error);
+  return code === "28000" || code === "PGRST301" || /jwt/i.test(message);
+}
+
+async function enqueue(userId: string, idempotencyKey: string, input: RecordTimelineEventInput): Promise<void> {
+  await putRecord<QueuedSubmission>("outbox", {
+    idempotencyKey,
+    userId,
+    input: { ...input, idempotencyKey },
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    rejected: false,
+  });
+
+  safeLog.info("Submission queued for sync", {
+    action: "outbox_enqueued",
+    eventType: input.eventType,
+  });
+  notifyOutboxChanged();
+}
+
+/**
+ * Record a timeline event, or queue it if the network is unavailable.
+ *
+ * @throws if the server rejects the event (validation, permissions), or
+ *   if it cannot be queued
+ */
+export async function submitTimelineEvent(input: RecordTimelineEventInput): Promise<SubmitResult> {
+  if (input.document || input.attachments?.length) {
+    throw new Error("Document uploads cannot be queued");
+  }
+
+  const userId = await requireUserId();
+  const idempotencyKey = input.idempotencyKey ?? crypto.randomUUID();
+
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    await enqueue(userId, idempotencyKey, input);
+    return { status: "queued" };
+  }
+
+  try {
+    const recorded = await recordTimelineEvent({ ...input, idempotencyKey });
+    return { status: "sent", eventId: recorded.eventId };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueue(userId, idempotencyKey, input);
+    return { status: "queued" };
+  }
+}
+
+async function currentUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+async function queuedSubmissions(userId: string): Promise<QueuedSubmission[]> {
+  const items = await getRecordsByUser<QueuedSubmission>("outbox", userId);
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function getOutboxStatus(): Promise<OutboxStatus> {
+  const userId = await currentUserId();
+  if (!userId) return { pending: 0, rejected: 0 };
+
+  const items = await queuedSubmissions(userId);
+  const rejected = items.filter((item) => item.rejected).length;
+  return { pending: items.length - rejected, rejected };
+}
+
+let replayInFlight: Promise<number> | null = null;
+
+/**
+ * Send queued submissions for the signed-in user, oldest first. Stops at
+ * the first network or session error and leaves the rest queued.
+ *
+ * @returns the number of submissions sent
+ */
+export function replayOutbox(): Promise<number> {
+  if (!replayInFlight) {
+    replayInFlight = replay().finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+async function replay(): Promise<number> {
+  const userId = await currentUserId();
+  if (!userId) return 0;
+
+  const items = (await queuedSubmissions(userId)).filter((item) => !item.rejected);
+  let sent = 0;
+
+  for (const item of items) {
+    try {
+      await recordTimelineEvent({ ...item.input, idempotencyKey: item.idempotencyKey });
+      await deleteRecord("outbox", item.idempotencyKey);
+      sent++;
+    } catch (error) {
+      if (isRetryableError(error)) {
+        await putRecord<QueuedSubmission>("outbox", { ...item, attempts: item.attempts + 1 });
+        break;
+      }
+      await putRecord<QueuedSubmission>("outbox", { ...item, attempts: item.attempts + 1, rejected: true });
+      safeLog.error("Queued submission rejected", {
+        action: "outbox_rejected",
+        eventType: item.input.eventType,
+        errorType: errorInfo(error).code || "unknown",
+      });
+    }
+  }
+
+  if (items.length > 0) {
+    safeLog.info("Outbox replayed", { action: "outbox_replayed", count: sent });
+    notifyOutboxChanged();
+  }
+  return sent;
+}
+
+/**
+ * Drop submissions the server rejected. They cannot be sent as they are.
+ */
+export async function discardRejectedSubmissions(): Promise<void> {
+  const userId = await currentUserId();
+  if (!userId) return;
+
+  const rejected = (await queuedSubmissions(userId)).filter((item) => item.rejected);
+  for (const item of rejected) {
+    await deleteRecord("outbox", item.idempotencyKey);
+  }
+
+  safeLog.info("Rejected submissions discarded", { action: "outbox_discarded", count: rejected.length });
+  notifyOutboxChanged();
+}
@@ -0,0 +1,92 @@
+/**
+ * Offline Store
+ *
+ * Small IndexedDB wrapper for data that must survive a dropped connection
+ * or a closed tab:
+ * - `drafts`: form drafts, saved as the user types
+ * - `outbox`: submissions waiting to be sent (see offline-queue.ts)
+ *
+ * Records are scoped by user ID so a shared device never replays or shows
+ * another account's drafts. They are removed as soon as they are sent or
+ * discarded.
+ *
+ * GUARDRAIL: No PHI in logs - only store names and error types
+ */
+
+import { safeLog } from "@/lib/safe-logger";
+
+const DB_NAME = "mybody-offline";
+const DB_VERSION = 1;
+
+export type OfflineStoreName = "drafts" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("drafts")) {
+          db.createObjectStore("drafts", { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains("outbox")) {
+          const outbox = db.createObjectStore("outbox", { keyPath: "idempotencyKey" });
+          outbox.createIndex("userId", "userId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open offline store"));
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = operation(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => {
+          safeLog.error("Offline store operation failed", {
+            action: "offline_store_error",
+            resourceType: storeName,
+            errorType: tx.error?.name ?? "unknown",
+          });
+          reject(tx.error ?? new Error("Offline store operation failed"));
+        };
+      })
+  );
+}
+
+export function getRecord<T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, "readonly", (store) => store.get(key));
+}
+
+export function putRecord<T>(storeName: OfflineStoreName, record: T): Promise<void> {
+  return run<IDBValidKey>(storeName, "readwrite", (store) => store.put(record)).then(() => undefined);
+}
+
+export function deleteRecord(storeName: OfflineStoreName, key: string): Promise<void> {
+  return run<undefined>(storeName, "readwrite", (store) => store.delete(key));
+}
+
+export function getRecordsByUser<T>(storeName: "outbox", userId: string): Promise<T[]> {
+  return run<T[]>(storeName, "readonly", (store) => store.index("userId").getAll(userId));
+}
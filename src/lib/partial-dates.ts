@@ -0,0 +1,203 @@
+import { formatInTimeZone, zonedTimeToUtc } from "@/lib/time-zone";
+
+/**
+ * Approximate and partial event dates
+ *
+ * An event's date has a precision: a year ("sometime in 2009"), a month,
+ * a day or an exact time. event_time is the start of that period in the
+ * zone it was entered in; event_time_end, when set, is the last instant
+ * of a range ("summer 1998" is June to August 1998 at month precision).
+ *
+ * Partial dates are formatted in the zone they were entered in, so "2009"
+ * stays 2009 when viewed from a zone where 1 January 2009 00:00 was still
+ * 2008.
+ */
+
+export const DATE_PRECISIONS = ["year", "month", "day", "exact"] as const;
+export type DatePrecision = (typeof DATE_PRECISIONS)[number];
+
+export const DATE_PRECISION_LABELS: Record<DatePrecision, string> = {
+  year: "Year",
+  month: "Month",
+  day: "Day",
+  exact: "Exact time",
+};
+
+export function isDatePrecision(value: unknown): value is DatePrecision {
+  return typeof value === "string" && (DATE_PRECISIONS as readonly string[]).includes(value);
+}
+
+/** Date fields of an event row; older rows and callers may lack the newer ones */
+export interface EventDate {
+  event_time: string;
+  event_time_precision?: string | null;
+  event_time_end?: string | null;
+  event_timezone?: string | null;
+}
+
+/** Input value shape per precision: "2009", "2009-06", "2009-06-03", "2009-06-03T08:00" */
+export const PARTIAL_DATE_PATTERNS: Record<DatePrecision, RegExp> = {
+  year: /^\d{4}$/,
+  month: /^\d{4}-(0[1-9]|1[0-2])$/,
+  day: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  exact: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d$/,
+};
+
+const VALUE_PATTERNS: Record<DatePrecision, string> = {
+  year: "yyyy",
+  month: "yyyy-MM",
+  day: "yyyy-MM-dd",
+  exact: "yyyy-MM-dd'T'HH:mm",
+};
+
+const DISPLAY_PATTERNS: Record<DatePrecision, string> = {
+  year: "yyyy",
+  month: "MMM yyyy",
+  day: "MMM d, yyyy",
+  exact: "MMM d, yyyy",
+};
+
+/** Input value naming the period an instant falls in, e.g. "2009-06" for month precision */
+export function toPartialDateValue(value: Date | string, precision: DatePrecision, timeZone: string): string {
+  return formatInTimeZone(value, VALUE_PATTERNS[precision], timeZone);
+}
+
+/** First and last instant of the period a partial date value names */
+export function partialDatePeriod(value: string, precision: DatePrecision, timeZone: string): { start: Date; end: Date } {
+  if (precision === "exact") {
+    const instant = zonedTimeToUtc(value, timeZone);
+    return { start: instant, end: instant };
+  }
+
+  const [year, month = 1, day = 1] = value.split("-").map(Number);
+  const startUtc = new Date(Date.UTC(year, month - 1, day));
+  const nextUtc = new Date(startUtc);
+  if (precision === "year") nextUtc.setUTCFullYear(year + 1);
+  if (precision === "month") nextUtc.setUTCMonth(month);
+  if (precision === "day") nextUtc.setUTCDate(day + 1);
+
+  const toWallClock = (date: Date) => date.toISOString().slice(0, 10);
+  return {
+    start: zonedTimeToUtc(toWallClock(startUtc), timeZone),
+    end: new Date(zonedTimeToUtc(toWallClock(nextUtc), timeZone).getTime() - 1),
+  };
+}
+
+/**
+ * event_time and event_time_end for a partial date, or a range of two
+ * partial dates at the same precision
+ */
+export function toEventTimeRange(
+  start: string,
+  end: string | null,
+  precision: DatePrecision,
+  timeZone: string
+): { eventTime: string; eventTimeEnd: string | null } {
+  const startPeriod = partialDatePeriod(start, precision, timeZone);
+  return {
+    eventTime: startPeriod.start.toISOString(),
+    eventTimeEnd: end ? partialDatePeriod(end, precision, timeZone).end.toISOString() : null,
+  };
+}
+
+export function eventDatePrecision(event: EventDate): DatePrecision {
+  return isDatePrecision(event.event_time_precision) ? event.event_time_precision : "exact";
+}
+
+/** Zone to show an event's date in: partial dates stay in the zone they were entered in */
+function eventDateTimeZone(event: EventDate, displayTimeZone: string): string {
+  return eventDatePrecision(event) === "exact" ? displayTimeZone : event.event_timezone ?? displayTimeZone;
+}
+
+/** Last instant an event may have happened at */
+export function eventPeriodEnd(event: EventDate, displayTimeZone: string): Date {
+  if (event.event_time_end) return new Date(event.event_time_end);
+  const precision = eventDatePrecision(event);
+  if (precision === "exact") return new Date(event.event_time);
+
+  const timeZone = eventDateTimeZone(event, displayTimeZone);
+  const value = toPartialDateValue(event.event_time, precision, timeZone);
+  return partialDatePeriod(value, precision, timeZone).end;
+}
+
+/** An instant shown only as precisely as it is known, e.g. "Jun 1998" */
+export function formatPartialDate(
+  value: Date | string,
+  precision: DatePrecision,
+  timeZone: string,
+  exactPattern = "MMM d, yyyy"
+): string {
+  return formatInTimeZone(value, precision === "exact" ? exactPattern : DISPLAY_PATTERNS[precision], timeZone);
+}
+
+/**
+ * An event's date as precise as it is known: "2009", "Jun 1998 – Aug 1998",
+ * "Mar 3, 2024". Exact times use `exactPattern`, in the display zone.
+ */
+export function formatEventDate(event: EventDate, displayTimeZone: string, exactPattern = "MMM d, yyyy"): string {
+  const precision = eventDatePrecision(event);
+  const timeZone = eventDateTimeZone(event, displayTimeZone);
+
+  const start = formatPartialDate(event.event_time, precision, timeZone, exactPattern);
+  if (!event.event_time_end) return start;
+
+  const end = formatPartialDate(event.event_time_end, precision, timeZone, exactPattern);
+  return end === start ? start : `${start} – ${end}`;
+}
+
+/**
+ * Earliest and latest instant a set of events covers, with the precision
+ * and zone to show each bound in. Approximate dates count to the end of
+ * their period, so "2009" and "Mar 2012" cover 1 Jan 2009 to 31 Mar 2012.
+ */
+export function eventsDateRange(events: EventDate[], displayTimeZone: string) {
+  if (events.length === 0) return null;
+
+  const bounds = events.map((event) => ({
+    event,
+    start: new Date(event.event_time),
+    end: eventPeriodEnd(event, displayTimeZone),
+  }));
+  const first = bounds.reduce((a, b) => (b.start < a.start ? b : a));
+  const last = bounds.reduce((a, b) => (b.end > a.end ? b : a));
+
+  return {
+    start: first.start,
+    end: last.end,
+    startLabel: formatPartialDate(first.start, eventDatePrecision(first.event), eventDateTimeZone(first.event, displayTimeZone)),
+    endLabel: formatPartialDate(last.end, eventDatePrecision(last.event), eventDateTimeZone(last.event, displayTimeZone)),
+  };
+}
+
+export function isApproximateDate(event: EventDate): boolean {
+  return eventDatePrecision(event) !== "exact" || Boolean(event.event_time_end);
+}
+
+/**
+ * Carry an input value over to another precision: "2009" becomes
+ * "2009-01-01" at day precision, "2009-06-03T08:00" becomes "2009-06" at
+ * month precision.
+ */
+export function convertPartialDateValue(value: string, precision: DatePrecision): string {
+  const [date = "", time = "00:00"] = value.split("T");
+  const [year = "", month = "01", day = "01"] = date.split("-");
+  switch (precision) {
+    case "year":
+      return year;
+    case "month":
+      return `${year}-${month}`;
+    case "day":
+      return `${year}-${month}-${day}`;
+    case "exact":
+      return `${year}-${month}-${day}T${time}`;
+  }
+}
+
+/** Validation message for a partial date input, or null */
+export function partialDateError(value: string, precision: DatePrecision): string | null {
+  if (!value) return "Enter a date";
+  if (!PARTIAL_DATE_PATTERNS[precision].test(value)) {
+    return precision === "year" ? "Enter a four-digit year" : "Enter a valid date";
+  }
+  return null;
+}
@@ -0,0 +1,25 @@
+/**
+ * Symptom helpers
+ *
+ * Symptom entries are grouped by name, ignoring case and surrounding
+ * whitespace, so "Headache" and "headache " share one history.
+ *
+ * GUARDRAIL: No PHI in logs - these functions never log values
+ */
+
+export function symptomKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Format a duration stored in minutes, e.g. 90 -> "1 h 30 min", 2880 -> "2 d".
+ */
+export function formatDurationMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const mins = minutes % 60;
+
+  return [days && `${days} d`, hours && `${hours} h`, mins && `${mins} min`].filter(Boolean).join(" ");
+}
@@ -0,0 +1,125 @@
+import { format } from "date-fns";
+
+/**
+ * Time zones
+ *
+ * Event times are stored as instants. Form inputs hold wall-clock time
+ * ("yyyy-MM-ddTHH:mm") in the user's display zone, and displayed times are
+ * formatted in that zone, so an entry made at 8 am shows as 8 am whatever
+ * zone the browser happens to be in. Each event also keeps the zone it
+ * was entered in and its UTC offset at that time.
+ *
+ * Built on Intl only; date-fns formats the wall-clock fields.
+ */
+
+const FALLBACK_TIME_ZONE = "UTC";
+
+/** IANA zone of this device */
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** All zones the browser knows, or just the device zone and UTC on older browsers */
+export function supportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? [];
+  return Array.from(new Set([deviceTimeZone(), FALLBACK_TIME_ZONE, ...zones])).sort();
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock fields of an instant in a zone, as a UTC timestamp */
+function wallClockAsUtc(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of zonedFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** UTC offset of a zone at an instant, in minutes (e.g. 120 for UTC+02:00) */
+export function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc(instant, timeZone) - wholeSeconds) / 60000);
+}
+
+/** "UTC+02:00" */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Instant for a wall-clock time in a zone. Accepts "yyyy-MM-dd" (start of
+ * day) or "yyyy-MM-ddTHH:mm". A time skipped by a DST change resolves to
+ * the offset before the change.
+ */
+export function zonedTimeToUtc(wallClock: string, timeZone: string): Date {
+  const [datePart, timePart = "00:00"] = wallClock.split("T");
+  const [year, month, day] = datePart.split("-").map(Number);
+  const [hour, minute] = timePart.split(":").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes settle on the right offset around DST changes
+  let instant = asUtc - timeZoneOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  instant = asUtc - timeZoneOffsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant);
+}
+
+/**
+ * Format an instant as wall-clock time in a zone, with a date-fns pattern.
+ * Zone tokens in the pattern (x, z, O) would show the device zone; use
+ * formatUtcOffset() instead.
+ */
+export function formatInTimeZone(value: Date | string, pattern: string, timeZone: string): string {
+  const instant = typeof value === "string" ? new Date(value) : value;
+  // A device-local Date whose fields equal the zone's wall clock
+  const wallClock = new Date(wallClockAsUtc(instant, timeZone));
+  const shifted = new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds()
+  );
+  return format(shifted, pattern);
+}
+
+/** Value for a datetime-local input showing an instant in a zone */
+export function toDateTimeInputValue(value: Date | string, timeZone: string): string {
+  return formatInTimeZone(value, "yyyy-MM-dd'T'HH:mm", timeZone);
+}
+
+/** Value for a date input showing an instant's day in a zone */
+export function toDateInputValue(value: Date | string, timeZone: string): string {
+  return formatInTimeZone(value, "yyyy-MM-dd", timeZone);
+}
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { formatDurationMinutes } from "@/lib/symptoms";
+import type { TrackerEntryDetails } from "@/lib/event-registry";
+
+/**
+ * Custom tracker definitions
+ *
+ * A tracker is a list of typed fields defined by the user. Its entries are
+ * `tracker_entry` events whose `values` are keyed by field key; the
+ * `validate_timeline_event_details` trigger checks them against the
+ * definition, so fields are frozen once a tracker is created.
+ *
+ * GUARDRAIL: No PHI in logs - these functions never log values
+ */
+
+export const TRACKER_FIELD_TYPES = ["number", "scale", "boolean", "choice", "duration"] as const;
+export type TrackerFieldType = (typeof TRACKER_FIELD_TYPES)[number];
+
+export const TRACKER_FIELD_TYPE_LABELS: Record<TrackerFieldType, string> = {
+  number: "Number",
+  scale: "Scale",
+  boolean: "Yes / No",
+  choice: "Choice",
+  duration: "Duration",
+};
+
+export function isTrackerFieldType(value: string): value is TrackerFieldType {
+  return (TRACKER_FIELD_TYPES as readonly string[]).includes(value);
+}
+
+export const MAX_TRACKER_FIELDS = 20;
+export const MAX_CHOICE_OPTIONS = 20;
+
+const fieldBase = {
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/),
+  label: z.string().trim().min(1).max(60),
+  required: z.boolean(),
+};
+
+export const trackerFieldSchema = z
+  .discriminatedUnion("type", [
+    z
+      .object({
+        ...fieldBase,
+        type: z.literal("number"),
+        unit: z.string().max(20).nullable(),
+        min: z.number().finite().nullable(),
+        max: z.number().finite().nullable(),
+      })
+      .strict(),
+    z.object({ ...fieldBase, type: z.literal("scale"), min: z.number().int(), max: z.number().int() }).strict(),
+    z.object({ ...fieldBase, type: z.literal("boolean") }).strict(),
+    z
+      .object({
+        ...fieldBase,
+        type: z.literal("choice"),
+        options: z.array(z.string().trim().min(1).max(50)).min(2).max(MAX_CHOICE_OPTIONS),
+      })
+      .strict(),
+    /** Whole minutes */
+    z.object({ ...fieldBase, type: z.literal("duration") }).strict(),
+  ])
+  .superRefine((field, ctx) => {
+    if (field.type === "number" && field.min !== null && field.max !== null && field.min > field.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["max"], message: "Max must not be below min" });
+    }
+    if (field.type === "scale" && field.min >= field.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["max"], message: "Max must be above min" });
+    }
+    if (field.type === "choice" && new Set(field.options).size !== field.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Options must be unique" });
+    }
+  });
+
+export const trackerFieldsSchema = z
+  .array(trackerFieldSchema)
+  .min(1)
+  .max(MAX_TRACKER_FIELDS)
+  .refine((fields) => new Set(fields.map((f) => f.key)).size === fields.length, { message: "Field keys must be unique" });
+
+export type TrackerField = z.infer<typeof trackerFieldSchema>;
+export type TrackerValue = TrackerEntryDetails["values"][string];
+
+/**
+ * Parse a stored definition; null if it does not match the schema.
+ */
+export function parseTrackerFields(value: unknown): TrackerField[] | null {
+  const result = trackerFieldsSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Derive a unique field key from its label, e.g. "Hours slept" -> "hours_slept".
+ */
+export function fieldKeyFromLabel(label: string, taken: string[]): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^[^a-z]+|_+$/g, "")
+      .slice(0, 36) || "field";
+
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+/**
+ * Fields whose values can be charted over time
+ */
+export function isNumericField(field: TrackerField): boolean {
+  return field.type === "number" || field.type === "scale" || field.type === "duration";
+}
+
+/**
+ * Entry form validation for one field, matching the trigger's checks.
+ * Every input is a string ("" when left empty); booleans use "yes" / "no".
+ */
+export function trackerValueSchema(field: TrackerField): z.ZodTypeAny {
+  return z.string().superRefine((value, ctx) => {
+    if (value.trim() === "") {
+      if (field.required) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Required" });
+      return;
+    }
+
+    switch (field.type) {
+      case "boolean":
+        if (value !== "yes" && value !== "no") ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose yes or no" });
+        return;
+      case "choice":
+        if (!field.options.includes(value)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose an option" });
+        return;
+    }
+
+    const n = Number(value);
+    if (!Number.isFinite(n)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a number" });
+    } else if ((field.type === "scale" || field.type === "duration") && !Number.isInteger(n)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a whole number" });
+    } else if (field.type === "duration" && n < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must not be negative" });
+    } else if (field.type !== "duration" && field.min !== null && n < field.min) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Must be at least ${field.min}` });
+    } else if (field.type !== "duration" && field.max !== null && n > field.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Must be at most ${field.max}` });
+    }
+  });
+}
+
+/**
+ * Entry form inputs as stored values: empty inputs become null, booleans
+ * true / false and numeric fields numbers.
+ */
+export function toTrackerValues(fields: TrackerField[], raw: Record<string, string>): Record<string, TrackerValue> {
+  return Object.fromEntries(
+    fields.map((field): [string, TrackerValue] => {
+      const value = (raw[field.key] ?? "").trim();
+      if (value === "") return [field.key, null];
+      if (field.type === "boolean") return [field.key, value === "yes"];
+      if (field.type === "choice") return [field.key, value];
+      return [field.key, Number(value)];
+    })
+  );
+}
+
+/**
+ * Format one value for display, e.g. "7.5 h", "3 / 5", "Yes".
+ */
+export function formatTrackerValue(field: TrackerField, value: TrackerValue | undefined): string | null {
+  if (value === null || value === undefined) return null;
+
+  switch (field.type) {
+    case "boolean":
+      return value === true ? "Yes" : "No";
+    case "scale":
+      return `${value} / ${field.max}`;
+    case "duration":
+      return typeof value === "number" ? formatDurationMinutes(value) : String(value);
+    case "number":
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * One-line summary of an entry, used as the timeline event summary.
+ */
+export function summarizeTrackerValues(fields: TrackerField[], values: TrackerEntryDetails["values"]): string {
+  return fields
+    .map((field) => {
+      const formatted = formatTrackerValue(field, values[field.key]);
+      return formatted === null ? null : `${field.label}: ${formatted}`;
+    })
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export interface TrackerStreaks {
+  /** Consecutive days with an entry, ending today (or yesterday) */
+  current: number;
+  longest: number;
+}
+
+/**
+ * Streaks of consecutive calendar days (local time) with at least one entry.
+ * A streak that ended yesterday still counts as current, so it is not
+ * broken before today's entry has been made.
+ */
+export function trackerStreaks(entryTimes: string[], now: Date = new Date()): TrackerStreaks {
+  const days = [...new Set(entryTimes.map((time) => format(new Date(time), "yyyy-MM-dd")))]
+    .map((day) => startOfDay(new Date(`${day}T00:00:00`)))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && differenceInCalendarDays(days[i], days[i - 1]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const last = days[days.length - 1];
+  const current = last && differenceInCalendarDays(now, last) <= 1 ? run : 0;
+
+  return { current, longest };
+}
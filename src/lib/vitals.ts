@@ -0,0 +1,135 @@
+import { VITAL_UNITS, type VitalMeasure, type VitalUnit } from "@/lib/event-registry";
+
+/**
+ * Vital sign units and conversions
+ *
+ * Readings are stored in the UCUM unit they were entered in. Metric or
+ * imperial display converts on the fly with exact factors, so the stored
+ * value is never rounded or rewritten. Target ranges are stored in the
+ * metric unit of each measure.
+ *
+ * GUARDRAIL: No PHI in logs - these functions never log values
+ */
+
+export const UNIT_SYSTEMS = ["metric", "imperial"] as const;
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+export const VITAL_MEASURE_LABELS: Record<VitalMeasure, string> = {
+  blood_pressure: "Blood pressure",
+  heart_rate: "Heart rate",
+  weight: "Weight",
+  body_temperature: "Temperature",
+  oxygen_saturation: "Oxygen saturation (SpO₂)",
+  blood_glucose: "Blood glucose",
+};
+
+export const VITAL_UNIT_LABELS: Record<VitalUnit, string> = {
+  "mm[Hg]": "mmHg",
+  "/min": "bpm",
+  kg: "kg",
+  "[lb_av]": "lb",
+  Cel: "°C",
+  "[degF]": "°F",
+  "%": "%",
+  "mmol/L": "mmol/L",
+  "mg/dL": "mg/dL",
+};
+
+const UNIT_DECIMALS: Record<VitalUnit, number> = {
+  "mm[Hg]": 0,
+  "/min": 0,
+  kg: 1,
+  "[lb_av]": 1,
+  Cel: 1,
+  "[degF]": 1,
+  "%": 0,
+  "mmol/L": 1,
+  "mg/dL": 0,
+};
+
+/** Display unit per measure and unit system */
+const SYSTEM_UNITS: Record<VitalMeasure, Record<UnitSystem, VitalUnit>> = {
+  blood_pressure: { metric: "mm[Hg]", imperial: "mm[Hg]" },
+  heart_rate: { metric: "/min", imperial: "/min" },
+  weight: { metric: "kg", imperial: "[lb_av]" },
+  body_temperature: { metric: "Cel", imperial: "[degF]" },
+  oxygen_saturation: { metric: "%", imperial: "%" },
+  blood_glucose: { metric: "mmol/L", imperial: "mg/dL" },
+};
+
+// Exact by definition (international avoirdupois pound)
+const KG_PER_LB = 0.45359237;
+// mg/dL per mmol/L for glucose (molar mass 180.156 g/mol)
+const GLUCOSE_MG_DL_PER_MMOL_L = 18.0156;
+
+export function unitFor(measure: VitalMeasure, system: UnitSystem): VitalUnit {
+  return SYSTEM_UNITS[measure][system];
+}
+
+/** Unit target ranges are stored in */
+export function canonicalUnit(measure: VitalMeasure): VitalUnit {
+  return SYSTEM_UNITS[measure].metric;
+}
+
+export function isVitalUnit(measure: VitalMeasure, unit: string): unit is VitalUnit {
+  return (VITAL_UNITS[measure] as readonly string[]).includes(unit);
+}
+
+/**
+ * Convert a value between two units of the same measure.
+ * @throws Error if the units are not interconvertible
+ */
+export function convertVitalValue(value: number, from: VitalUnit, to: VitalUnit): number {
+  if (from === to) return value;
+
+  switch (`${from}->${to}`) {
+    case "kg->[lb_av]":
+      return value / KG_PER_LB;
+    case "[lb_av]->kg":
+      return value * KG_PER_LB;
+    case "Cel->[degF]":
+      return (value * 9) / 5 + 32;
+    case "[degF]->Cel":
+      return ((value - 32) * 5) / 9;
+    case "mmol/L->mg/dL":
+      return value * GLUCOSE_MG_DL_PER_MMOL_L;
+    case "mg/dL->mmol/L":
+      return value / GLUCOSE_MG_DL_PER_MMOL_L;
+    default:
+      throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+}
+
+/**
+ * Format a value for display in its unit, e.g. 72.5 kg -> "72.5".
+ * Display only: never write the result back.
+ */
+export function formatVitalValue(value: number, unit: VitalUnit): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: UNIT_DECIMALS[unit] });
+}
+
+export function unitStep(unit: VitalUnit): number {
+  return UNIT_DECIMALS[unit] === 0 ? 1 : 0.1;
+}
+
+export interface VitalSeries {
+  /** Key in user_preferences.vital_targets */
+  key: string;
+  label: string;
+  /** Which reading field the series plots */
+  field: "value" | "diastolic";
+}
+
+/**
+ * Plotted series for a measure. Blood pressure has two (systolic and
+ * diastolic), each with its own target range.
+ */
+export function vitalSeries(measure: VitalMeasure): VitalSeries[] {
+  if (measure === "blood_pressure") {
+    return [
+      { key: "blood_pressure", label: "Systolic", field: "value" },
+      { key: "blood_pressure_diastolic", label: "Diastolic", field: "diastolic" },
+    ];
+  }
+  return [{ key: measure, label: VITAL_MEASURE_LABELS[measure], field: "value" }];
+}
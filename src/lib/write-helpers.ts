@@ -1,10 +1,26 @@
+import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
 import { safeLog } from "@/lib/safe-logger";
+import type { AuditAction } from "@/lib/audit-helpers";
+import type { EventLinkType } from "@/lib/event-links";
+import { normalizeTag, type EventTagAction } from "@/lib/event-tags";
+import { trackerFieldsSchema, type TrackerField } from "@/lib/trackers";
+import { deviceTimeZone } from "@/lib/time-zone";
+import type { DatePrecision } from "@/lib/partial-dates";
+import {
+  validateEventDetails,
+  EventDetailsValidationError,
+  type EventType,
+  type EventDetailsByType,
+} from "@/lib/event-registry";
 
 /**
  * Write Helpers
  * 
  * Shared utilities for creating timeline events with proper provenance and consent.
+ * All event writes go through a single database function so provenance,
+ * the event and its audit record are created in one transaction.
  * 
  * GUARDRAIL: No PHI in logs
  * - Only log IDs, timestamps, and action types
@@ -26,149 +42,508 @@ export async function requireUserId(): Promise<string> {
   return session.session.user.id;
 }
 
+export type DataSourceType = Database["public"]["Enums"]["data_source_type"];
+export type ProvenanceMethodValue = Database["public"]["Enums"]["provenance_method"];
+
 /**
- * Get or create a data source for the user.
- * 
- * @param userId - The authenticated user's ID
- * @param type - "manual" for journal entries, "upload" for document uploads
- * @param name - Human-readable source name (e.g., "User Journal", "User Upload")
- * @returns The data source ID
+ * Document artifact metadata written alongside a document event.
+ * The file itself must already be in storage at `storagePath`.
+ */
+export interface DocumentArtifactInput {
+  title: string;
+  docType: string;
+  occurredAt: string;
+  storagePath: string;
+  contentType: string;
+  fileSize: number;
+  originalFilename: string;
+  /** Artifact this file replaces, for a new version of a document */
+  previousArtifactId?: string;
+  /** Key and IV the file was encrypted with in the browser, if any */
+  encryption?: { keyId: string; iv: string } | null;
+}
+
+/**
+ * A photo attached to a journal entry. The file must already be in
+ * storage at `storagePath`.
  */
-export async function getOrCreateDataSource(
-  userId: string,
-  type: "manual" | "upload",
-  name: string
-): Promise<string> {
-  // Check for existing data source
-  const { data: existing } = await supabase
-    .from("data_sources")
-    .select("id")
-    .eq("user_id", userId)
-    .eq("type", type)
-    .eq("name", name)
-    .maybeSingle();
-
-  if (existing) {
-    return existing.id;
+export interface AttachmentInput {
+  title: string;
+  storagePath: string;
+  contentType: string;
+  fileSize: number;
+  originalFilename: string;
+  /** Key and IV the photo was encrypted with in the browser, if any */
+  encryption?: { keyId: string; iv: string } | null;
+}
+
+/**
+ * Event type paired with its registry details shape.
+ * `document_artifact_id` is assigned server-side for document uploads
+ * and new versions.
+ */
+type EventPayload = {
+  [K in EventType]: {
+    eventType: K;
+    details: K extends "document_uploaded" | "document_version_added"
+      ? Omit<EventDetailsByType[K], "document_artifact_id">
+      : EventDetailsByType[K];
+  };
+}[EventType];
+
+export type RecordTimelineEventInput = EventPayload & {
+  /** Data source to attach provenance to (created on first use) */
+  source: { type: DataSourceType; name: string };
+  /** Provenance method and non-PHI metadata */
+  provenance: { method: ProvenanceMethodValue; metadata?: Record<string, Json> };
+  eventTime: string;
+  /** IANA zone the time was entered in; defaults to the device zone */
+  eventTimeZone?: string;
+  /** How precisely the date is known; eventTime is the start of that period */
+  eventTimePrecision?: DatePrecision;
+  /** Last instant of a date range */
+  eventTimeEnd?: string | null;
+  title?: string | null;
+  summary: string;
+  auditAction: AuditAction;
+  /** Optional document artifact; its ID is added to details as document_artifact_id */
+  document?: DocumentArtifactInput;
+  /** Photos attached to a journal entry, written in the same transaction */
+  attachments?: AttachmentInput[];
+  /**
+   * Client-generated key for submissions that may be retried (offline
+   * replay). A key the server has already seen returns the existing event.
+   */
+  idempotencyKey?: string;
+};
+
+export interface RecordedTimelineEvent {
+  eventId: string;
+  provenanceId: string;
+  documentArtifactId: string | null;
+}
+
+/**
+ * Record a timeline event atomically.
+ *
+ * Calls the `record_timeline_event` database function, which gets or creates
+ * the data source and consent snapshot, then writes provenance, the optional
+ * document artifact, the timeline event and its audit event in one
+ * transaction. Either everything is written or nothing is.
+ *
+ * Details are validated against the event registry first, so malformed
+ * details fail here instead of rendering as "Untitled" later. A new
+ * version must name the version it replaces by a valid artifact ID.
+ *
+ * @throws EventDetailsValidationError if details do not match the registry
+ */
+export async function recordTimelineEvent(
+  input: RecordTimelineEventInput
+): Promise<RecordedTimelineEvent> {
+  const { document } = input;
+
+  try {
+    validateEventDetails(input.eventType, input.details, document ? ["document_artifact_id"] : []);
+    const previousArtifactId = document?.previousArtifactId;
+    if (previousArtifactId !== undefined && !z.string().uuid().safeParse(previousArtifactId).success) {
+      throw new EventDetailsValidationError(input.eventType, ["previous_artifact_id"]);
+    }
+  } catch (err) {
+    if (err instanceof EventDetailsValidationError) {
+      safeLog.error("Timeline event details failed validation", {
+        action: "record_timeline_event_invalid",
+        eventType: input.eventType,
+        count: err.fields.length,
+      });
+    }
+    throw err;
+  }
+
+  const { data, error } = await supabase.rpc("record_timeline_event", {
+    p_source_type: input.source.type,
+    p_source_name: input.source.name,
+    p_provenance_method: input.provenance.method,
+    p_provenance_metadata: input.provenance.metadata ?? {},
+    p_event_type: input.eventType,
+    p_event_time: input.eventTime,
+    p_event_timezone: input.eventTimeZone ?? deviceTimeZone(),
+    p_event_time_precision: input.eventTimePrecision ?? "exact",
+    p_event_time_end: input.eventTimeEnd ?? undefined,
+    p_title: input.title ?? undefined,
+    p_summary: input.summary,
+    p_details: input.details,
+    p_audit_action: input.auditAction,
+    p_idempotency_key: input.idempotencyKey,
+    p_document: document
+      ? {
+          title: document.title,
+          doc_type: document.docType,
+          occurred_at: document.occurredAt,
+          storage_path: document.storagePath,
+          content_type: document.contentType,
+          file_size: document.fileSize,
+          original_filename: document.originalFilename,
+          previous_artifact_id: document.previousArtifactId,
+          encryption_key_id: document.encryption?.keyId,
+          encryption_iv: document.encryption?.iv,
+        }
+      : undefined,
+    p_attachments: input.attachments?.length
+      ? input.attachments.map((attachment) => ({
+          title: attachment.title,
+          storage_path: attachment.storagePath,
+          content_type: attachment.contentType,
+          file_size: attachment.fileSize,
+          original_filename: attachment.originalFilename,
+          encryption_key_id: attachment.encryption?.keyId,
+          encryption_iv: attachment.encryption?.iv,
+        }))
+      : undefined,
+  });
+
+  const row = data?.[0];
+
+  if (error || !row) {
+    safeLog.error("Failed to record timeline event", {
+      action: "record_timeline_event_error",
+      eventType: input.eventType,
+      errorType: error?.code ?? "no_result",
+    });
+    throw error ?? new Error("record_timeline_event returned no result");
   }
 
-  // Create new data source
-  const { data: newSource, error } = await supabase
-    .from("data_sources")
-    .insert({
-      user_id: userId,
-      type,
-      name,
-      status: "active",
-    })
-    .select("id")
-    .single();
+  safeLog.info("Recorded timeline event", {
+    action: "record_timeline_event_success",
+    id: row.event_id,
+    eventType: input.eventType,
+    resourceType: "timeline_event",
+  });
+
+  return {
+    eventId: row.event_id,
+    provenanceId: row.provenance_id,
+    documentArtifactId: row.document_artifact_id ?? null,
+  };
+}
+
+export interface LinkEventsInput {
+  sourceEventId: string;
+  targetEventId: string;
+  linkType: EventLinkType;
+}
+
+/**
+ * Link two events ("source <linkType> target").
+ * The link and its audit record are created in one transaction.
+ *
+ * @returns the new event_links row ID
+ */
+export async function linkEvents(input: LinkEventsInput): Promise<string> {
+  const { data, error } = await supabase.rpc("link_events", {
+    p_source_event_id: input.sourceEventId,
+    p_target_event_id: input.targetEventId,
+    p_link_type: input.linkType,
+  });
+
+  if (error || !data) {
+    safeLog.error("Failed to link events", {
+      action: "link_events_error",
+      errorType: error?.code ?? "no_result",
+    });
+    throw error ?? new Error("link_events returned no result");
+  }
+
+  safeLog.info("Linked events", {
+    action: "link_events_success",
+    id: data,
+    resourceType: "event_link",
+  });
+
+  return data;
+}
+
+export interface TagEventInput {
+  eventId: string;
+  tag: string;
+  action: EventTagAction;
+}
+
+/**
+ * Add or remove a tag on an event.
+ * Appends a tag action and its audit record in one transaction; a no-op
+ * (tag already in the requested state) returns null.
+ */
+export async function tagEvent(input: TagEventInput): Promise<string | null> {
+  const { data, error } = await supabase.rpc("tag_event", {
+    p_event_id: input.eventId,
+    p_tag: normalizeTag(input.tag),
+    p_action: input.action,
+  });
 
   if (error) {
-    safeLog.error("Failed to create data source", {
-      action: "create_data_source_error",
+    safeLog.error("Failed to tag event", {
+      action: "tag_event_error",
+      id: input.eventId,
       errorType: error.code,
     });
     throw error;
   }
 
-  safeLog.info("Created data source", {
-    action: "create_data_source_success",
-    id: newSource.id,
-    resourceType: "data_source",
+  safeLog.info("Tagged event", {
+    action: input.action === "added" ? "tag_event_added" : "tag_event_removed",
+    id: input.eventId,
   });
 
-  return newSource.id;
+  return data ?? null;
+}
+
+export interface CreateTrackerInput {
+  name: string;
+  description: string | null;
+  fields: TrackerField[];
 }
 
 /**
- * Get or create a default consent snapshot for the user.
- * 
- * Creates a consent agreement if none exists, then creates or retrieves
- * the latest consent snapshot.
- * 
- * @param userId - The authenticated user's ID
- * @returns The consent snapshot ID
+ * Create a tracker definition. Its fields cannot be changed afterwards.
+ * The tracker and its audit event are written in one transaction.
+ *
+ * @returns the new tracker ID
  */
-export async function getOrCreateDefaultConsentSnapshot(userId: string): Promise<string> {
-  // Check for existing consent agreement
-  const { data: existingAgreement } = await supabase
-    .from("consent_agreements")
-    .select("id")
-    .eq("user_id", userId)
-    .maybeSingle();
-
-  let agreementId: string;
-
-  if (existingAgreement) {
-    agreementId = existingAgreement.id;
-  } else {
-    // Create new consent agreement
-    const { data: newAgreement, error: agreementError } = await supabase
-      .from("consent_agreements")
-      .insert({
-        user_id: userId,
-        scope: "health_data_storage",
-      })
-      .select("id")
-      .single();
-
-    if (agreementError) {
-      safeLog.error("Failed to create consent agreement", {
-        action: "create_consent_agreement_error",
-        errorType: agreementError.code,
-      });
-      throw agreementError;
-    }
+export async function createTracker(input: CreateTrackerInput): Promise<string> {
+  const parsed = trackerFieldsSchema.safeParse(input.fields);
+  if (!parsed.success) {
+    throw new Error("Invalid tracker fields");
+  }
+
+  const { data, error } = await supabase.rpc("create_tracker", {
+    p_name: input.name.trim(),
+    p_description: input.description?.trim() || undefined,
+    p_fields: parsed.data,
+  });
 
-    safeLog.info("Created consent agreement", {
-      action: "create_consent_agreement_success",
-      id: newAgreement.id,
-      resourceType: "consent_agreement",
+  if (error || !data) {
+    safeLog.error("Failed to create tracker", {
+      action: "create_tracker_error",
+      errorType: error?.code ?? "no_result",
     });
+    throw error ?? new Error("create_tracker returned no result");
+  }
+
+  safeLog.info("Created tracker", { action: "create_tracker_success", id: data, resourceType: "tracker" });
+
+  return data;
+}
 
-    agreementId = newAgreement.id;
+/**
+ * Archive a tracker: it is hidden from the list and takes no new entries.
+ * Past entries stay on the timeline. The change and its audit event are
+ * written in one transaction.
+ */
+export async function archiveTracker(trackerId: string): Promise<void> {
+  const { error } = await supabase.rpc("archive_tracker", { p_tracker_id: trackerId });
+
+  if (error) {
+    safeLog.error("Failed to archive tracker", {
+      action: "archive_tracker_error",
+      id: trackerId,
+      errorType: error.code,
+    });
+    throw error;
   }
 
-  // Check for existing snapshot
-  const { data: existingSnapshot } = await supabase
-    .from("consent_snapshots")
-    .select("id")
-    .eq("consent_agreement_id", agreementId)
-    .order("created_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (existingSnapshot) {
-    return existingSnapshot.id;
+  safeLog.info("Archived tracker", { action: "archive_tracker_success", id: trackerId });
+}
+
+export interface CreateVisitSummaryInput {
+  title: string;
+  summary: string;
+  label: string | null;
+  /** The events the summary covers */
+  eventIds: string[];
+  /** Open questions to attach with `question_for` links */
+  questionIds: string[];
+  dateRange: { start: string; end: string };
+}
+
+/**
+ * Record a visit_summary event and attach the chosen questions to it.
+ *
+ * @returns the new visit summary event ID
+ */
+export async function createVisitSummary(input: CreateVisitSummaryInput): Promise<string> {
+  // Visit summary, provenance and audit are written in one transaction
+  const recorded = await recordTimelineEvent({
+    source: { type: "manual", name: "User Curated" },
+    provenance: { method: "manual_entry" },
+    eventType: "visit_summary",
+    eventTime: new Date().toISOString(),
+    title: input.title,
+    summary: input.summary,
+    details: {
+      referenced_event_ids: input.eventIds,
+      date_range_start: input.dateRange.start,
+      date_range_end: input.dateRange.end,
+      label: input.label || null,
+    },
+    auditAction: "visit_summary_created",
+  });
+
+  await attachQuestionsToVisit(recorded.eventId, input.questionIds);
+  return recorded.eventId;
+}
+
+/**
+ * Attach questions to a visit summary ("question <question_for> visit").
+ * Questions already attached to it are skipped.
+ */
+export async function attachQuestionsToVisit(visitSummaryEventId: string, questionIds: string[]): Promise<void> {
+  for (const questionId of questionIds) {
+    try {
+      await linkEvents({ sourceEventId: questionId, targetEventId: visitSummaryEventId, linkType: "question_for" });
+    } catch (error) {
+      if ((error as { code?: string } | null)?.code !== "23505") throw error;
+    }
   }
+}
 
-  // Create new snapshot
-  const { data: newSnapshot, error: snapError } = await supabase
-    .from("consent_snapshots")
-    .insert({
-      consent_agreement_id: agreementId,
-      permissions: {
-        store_health_data: true,
-        create_timeline_events: true,
-      },
-    })
-    .select("id")
-    .single();
-
-  if (snapError) {
-    safeLog.error("Failed to create consent snapshot", {
-      action: "create_consent_snapshot_error",
-      errorType: snapError.code,
+export interface AnswerQuestionInput {
+  questionEventId: string;
+  /** Shown in the answer's title */
+  questionTitle: string;
+  answer: string;
+  answeredBy: string | null;
+  answeredAt: string;
+  /** IANA zone answeredAt was entered in */
+  answeredTimeZone?: string;
+}
+
+/**
+ * Record the answer to a question and link it back to the question.
+ *
+ * The answer event alone marks the question answered. If the `answer_to`
+ * link fails, the answer is kept and the link can be added from the event
+ * page.
+ *
+ * @returns the new question_answered event ID
+ */
+export async function answerQuestion(input: AnswerQuestionInput): Promise<string> {
+  const answer = input.answer.trim();
+  const recorded = await recordTimelineEvent({
+    source: { type: "manual", name: "User Journal" },
+    provenance: { method: "manual_entry", metadata: { client: "web" } },
+    eventType: "question_answered",
+    eventTime: input.answeredAt,
+    eventTimeZone: input.answeredTimeZone,
+    title: `Answer: ${input.questionTitle}`.slice(0, 100),
+    summary: answer.slice(0, 140) + (answer.length > 140 ? "..." : ""),
+    details: {
+      question_event_id: input.questionEventId,
+      answer,
+      answered_by: input.answeredBy?.trim() || null,
+    },
+    auditAction: "question_answered",
+  });
+
+  try {
+    await linkEvents({ sourceEventId: recorded.eventId, targetEventId: input.questionEventId, linkType: "answer_to" });
+  } catch {
+    // Logged by linkEvents; the answer itself is recorded
+  }
+
+  return recorded.eventId;
+}
+
+/** One item of a medical history import */
+export type HistoryBatchItem = Extract<EventPayload, { eventType: "medical_history" | "medication_event" }> & {
+  eventTime: string;
+  /** IANA zone the date was entered in; defaults to the device zone */
+  eventTimeZone?: string;
+  eventTimePrecision?: DatePrecision;
+  eventTimeEnd?: string | null;
+  title: string;
+  summary: string;
+};
+
+/**
+ * Record a medical history import in one transaction.
+ *
+ * Every item gets its own provenance (method `bulk_import`) tagged with
+ * the batch ID, so the whole import can be undone with undoHistoryBatch().
+ * Retrying a batch ID that was already written returns the existing events.
+ *
+ * @returns the new event IDs, in item order
+ * @throws EventDetailsValidationError if any item's details do not match the registry
+ */
+export async function recordHistoryBatch(batchId: string, items: HistoryBatchItem[]): Promise<string[]> {
+  try {
+    items.forEach((item) => validateEventDetails(item.eventType, item.details));
+  } catch (err) {
+    if (err instanceof EventDetailsValidationError) {
+      safeLog.error("History import details failed validation", {
+        action: "record_history_batch_invalid",
+        count: err.fields.length,
+      });
+    }
+    throw err;
+  }
+
+  const { data, error } = await supabase.rpc("record_timeline_event_batch", {
+    p_batch_id: batchId,
+    p_events: items.map((item) => ({
+      event_type: item.eventType,
+      event_time: item.eventTime,
+      event_timezone: item.eventTimeZone ?? deviceTimeZone(),
+      event_time_precision: item.eventTimePrecision ?? "exact",
+      event_time_end: item.eventTimeEnd ?? null,
+      title: item.title,
+      summary: item.summary,
+      details: item.details,
+    })),
+  });
+
+  if (error || !data) {
+    safeLog.error("Failed to record history import", {
+      action: "record_history_batch_error",
+      id: batchId,
+      errorType: error?.code ?? "no_result",
+    });
+    throw error ?? new Error("record_timeline_event_batch returned no result");
+  }
+
+  safeLog.info("Recorded history import", {
+    action: "record_history_batch_success",
+    id: batchId,
+    count: data.length,
+    resourceType: "import_batch",
+  });
+
+  return data.map((row) => row.event_id);
+}
+
+/**
+ * Undo a medical history import by retracting every event of the batch
+ * that is still current. The events stay in the record, marked retracted.
+ *
+ * @returns the number of events retracted
+ */
+export async function undoHistoryBatch(batchId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("retract_import_batch", { p_batch_id: batchId });
+
+  if (error) {
+    safeLog.error("Failed to undo history import", {
+      action: "undo_history_batch_error",
+      id: batchId,
+      errorType: error.code,
     });
-    throw snapError;
+    throw error;
   }
 
-  safeLog.info("Created consent snapshot", {
-    action: "create_consent_snapshot_success",
-    id: newSnapshot.id,
-    resourceType: "consent_snapshot",
+  safeLog.info("Undid history import", {
+    action: "undo_history_batch_success",
+    id: batchId,
+    count: data ?? 0,
+    resourceType: "import_batch",
   });
 
-  return newSnapshot.id;
+  return data ?? 0;
 }
@@ -5,6 +5,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
 import { format } from "date-fns";
 import { TestUsersPanel } from "@/components/admin/TestUsersPanel";
+import { IntegrityPanel } from "@/components/admin/IntegrityPanel";
 
 /**
  * Admin / Debug Page
@@ -103,6 +104,11 @@ const Admin = () => {
         </div>
       )}
 
+      {/* Hash chain verification */}
+      <div className="mb-6">
+        <IntegrityPanel />
+      </div>
+
       {isLoading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -1,9 +1,10 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Upload } from "lucide-react";
 import { DocumentList } from "@/components/documents/DocumentList";
 import { DocumentUploadForm } from "@/components/documents/DocumentUploadForm";
+import { settleDocumentImports } from "@/lib/document-import";
 
 /**
  * Documents Page
@@ -19,11 +20,19 @@ import { DocumentUploadForm } from "@/components/documents/DocumentUploadForm";
  * 
  * GUARDRAIL: User isolation
  * - Users can only access their own documents
+ *
+ * Opening the page cleans up after uploads that were cut short, so no
+ * stored file is left without its document.
  */
 const Documents = () => {
   const [isUploadMode, setIsUploadMode] = useState(false);
   const queryClient = useQueryClient();
 
+  useEffect(() => {
+    // Logged by settleDocumentImports; retried on the next visit
+    settleDocumentImports().catch(() => undefined);
+  }, []);
+
   const handleUploadSuccess = () => {
     setIsUploadMode(false);
     queryClient.invalidateQueries({ queryKey: ["document-artifacts"] });
@@ -53,7 +62,7 @@ const Documents = () => {
       </div>
 
       {isUploadMode ? (
-        <div className="max-w-md mx-auto">
+        <div className="max-w-2xl mx-auto">
           <DocumentUploadForm
             onSuccess={handleUploadSuccess}
             onCancel={() => setIsUploadMode(false)}
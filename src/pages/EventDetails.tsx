@@ -1,8 +1,7 @@
 import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Clock, BookOpen, FileText, Download, Edit, Loader2, AlertTriangle, Cloud } from "lucide-react";
-import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Clock, BookOpen, FileText, Edit, Loader2, AlertTriangle, Cloud, Ban, Eye, EyeOff, Link2, Activity, Pill, HeartPulse, ListChecks, MessageCircleReply, Stethoscope, ScanText, FileStack, FilePlus2, HelpCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
 import { 
@@ -16,18 +15,63 @@ import {
   getExternalSource,
   getResourceCategory,
   getProviderName,
+  getRetractsEventId,
+  getReasonCode,
+  getSymptom,
+  getMedicationEvent,
+  getImportedMedication,
+  getVitalSign,
+  getTrackerEntry,
+  getQuestionAnswer,
+  getMedicalHistory,
+  getExtractedText,
+  getDocumentVersion,
 } from "@/lib/event-details";
+import { downloadDocument } from "@/lib/documents";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import { describeMedication } from "@/lib/medications";
+import { VITAL_MEASURE_LABELS, VITAL_UNIT_LABELS, isVitalUnit } from "@/lib/vitals";
+import { formatDurationMinutes } from "@/lib/symptoms";
+import { formatInTimeZone, formatUtcOffset } from "@/lib/time-zone";
+import { formatEventDate, isApproximateDate } from "@/lib/partial-dates";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { AmendmentModal } from "@/components/events/AmendmentModal";
 import { AmendmentsList } from "@/components/events/AmendmentsList";
+import { RetractionModal } from "@/components/events/RetractionModal";
+import { LinkEventModal } from "@/components/events/LinkEventModal";
+import { RelatedEvents } from "@/components/events/RelatedEvents";
+import { TagEditor } from "@/components/events/TagEditor";
+import { EventTagChips } from "@/components/events/EventTagChips";
+import { TrackerEntryDetails } from "@/components/trackers/TrackerEntryDetails";
+import { ExtractedTextPanel } from "@/components/documents/ExtractedTextPanel";
+import { DocumentVersionHistory } from "@/components/documents/DocumentVersionHistory";
+import { DocumentViewer } from "@/components/documents/DocumentViewer";
+import { UploadVersionModal } from "@/components/documents/UploadVersionModal";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import { useEventAttachments } from "@/hooks/use-event-attachments";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  isRetractionReason,
+  RETRACTION_REASON_LABELS,
+  SYMPTOM_ONSET_LABELS,
+  MEDICATION_ACTION_LABELS,
+  HISTORY_KIND_LABELS,
+  CONDITION_STATUS_LABELS,
+  ALLERGY_SEVERITY_LABELS,
+  EXTRACTION_METHOD_LABELS,
+} from "@/lib/event-registry";
 
 /**
  * Event Details Page
  * 
- * Displays full details of a timeline event with amendment capability.
- * Shows "current view" if amendments exist.
+ * Displays full details of a timeline event with amendment capability
+ * and its links to related events and tags. Documents also list their
+ * file versions, each downloadable, and accept new versions.
+ * Shows the server-computed "current view" (timeline_events_current)
+ * when amendments exist. Retracted events stay viewable here, with their
+ * content hidden until the user asks to see it.
  * 
  * GUARDRAIL: No PHI in logs - only log IDs and action types
  * GUARDRAIL: User isolation via RLS
@@ -38,12 +82,24 @@ interface TimelineEvent {
   user_id: string;
   event_type: string;
   event_time: string;
+  /** year, month, day or exact; event_time is the start of that period */
+  event_time_precision: string;
+  event_time_end: string | null;
+  /** Zone the time was entered in; null on older events */
+  event_timezone: string | null;
+  event_utc_offset_minutes: number | null;
   title: string | null;
   summary: string;
   details: Record<string, unknown> | null;
   created_at: string;
   provenance_id: string;
   consent_snapshot_id: string;
+  is_amended: boolean;
+  latest_amendment_id: string | null;
+  is_retracted: boolean;
+  retraction_id: string | null;
+  retraction_reason: string | null;
+  tags: string[] | null;
 }
 
 interface DocumentArtifact {
@@ -54,6 +110,9 @@ interface DocumentArtifact {
   file_size: number | null;
   original_filename: string | null;
   storage_path: string;
+  version: number;
+  /** First version's artifact; null for an original upload */
+  root_artifact_id: string | null;
 }
 
 const EVENT_TYPE_CONFIG: Record<string, { 
@@ -81,6 +140,46 @@ const EVENT_TYPE_CONFIG: Record<string, {
     icon: Cloud, 
     color: "bg-blue-500/10 text-blue-700 dark:text-blue-300" 
   },
+  event_retracted: { 
+    label: "Retraction", 
+    icon: Ban, 
+    color: "bg-destructive/10 text-destructive" 
+  },
+  medication_event: { 
+    label: "Medication", 
+    icon: Pill, 
+    color: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300" 
+  },
+  vital_sign: { 
+    label: "Vital Sign", 
+    icon: HeartPulse, 
+    color: "bg-rose-500/10 text-rose-700 dark:text-rose-300" 
+  },
+  tracker_entry: { 
+    label: "Tracker", 
+    icon: ListChecks, 
+    color: "bg-violet-500/10 text-violet-700 dark:text-violet-300" 
+  },
+  question_answered: { 
+    label: "Answer", 
+    icon: MessageCircleReply, 
+    color: "bg-sky-500/10 text-sky-700 dark:text-sky-300" 
+  },
+  medical_history: { 
+    label: "History", 
+    icon: Stethoscope, 
+    color: "bg-amber-500/10 text-amber-700 dark:text-amber-300" 
+  },
+  document_text_extracted: { 
+    label: "Extracted Text", 
+    icon: ScanText, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
+  document_version_added: { 
+    label: "New Version", 
+    icon: FileStack, 
+    color: "bg-accent/10 text-accent-foreground" 
+  },
 };
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -103,8 +202,15 @@ const DOC_TYPE_LABELS: Record<string, string> = {
 const EventDetails = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { timeZone, formatTime } = useTimeZone();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isAmendModalOpen, setIsAmendModalOpen] = useState(false);
+  const [isRetractModalOpen, setIsRetractModalOpen] = useState(false);
+  const [isLinkModalOpen, setIsLinkModalOpen] = useState(false);
+  const [isVersionModalOpen, setIsVersionModalOpen] = useState(false);
+  const [viewingArtifactId, setViewingArtifactId] = useState<string | null>(null);
+  const [showRetractedContent, setShowRetractedContent] = useState(false);
 
   // Fetch the event
   const { data: event, isLoading: eventLoading, error: eventError, refetch: refetchEvent } = useQuery({
@@ -115,7 +221,7 @@ const EventDetails = () => {
       safeLog.info("Fetching event details", { action: "event_details_fetch", id });
 
       const { data, error } = await supabase
-        .from("timeline_events")
+        .from("timeline_events_current")
         .select("*")
         .eq("id", id)
         .single();
@@ -130,6 +236,11 @@ const EventDetails = () => {
     enabled: !!id,
   });
 
+  // Photos attached to a journal entry
+  const { data: attachmentsByEvent } = useEventAttachments(
+    event?.event_type === "journal_entry" ? [event.id] : []
+  );
+
   // Fetch document artifact if this is a document event
   const documentArtifactId = event?.details ? getDocumentArtifactId(event.details) : null;
   const { data: artifact } = useQuery({
@@ -139,7 +250,7 @@ const EventDetails = () => {
 
       const { data, error } = await supabase
         .from("document_artifacts")
-        .select("id, title, doc_type, content_type, file_size, original_filename, storage_path")
+        .select("id, title, doc_type, content_type, file_size, original_filename, storage_path, version, root_artifact_id")
         .eq("id", documentArtifactId)
         .maybeSingle();
 
@@ -153,7 +264,7 @@ const EventDetails = () => {
     enabled: !!documentArtifactId,
   });
 
-  // Fetch amendments for this event (ordered by event_time desc to get latest first)
+  // Fetch amendments that reference this event (indexed on amends_event_id, latest first)
   const { data: amendments, refetch: refetchAmendments } = useQuery({
     queryKey: ["event-amendments", id],
     queryFn: async () => {
@@ -163,26 +274,20 @@ const EventDetails = () => {
         .from("timeline_events")
         .select("id, event_type, event_time, title, summary, details, created_at")
         .eq("event_type", "event_amended")
-        .order("event_time", { ascending: false });
+        .filter("details->>amends_event_id", "eq", id)
+        .order("created_at", { ascending: false });
 
       if (error) {
         safeLog.error("Failed to fetch amendments", { action: "amendments_fetch_error", errorType: error.code });
         return [];
       }
 
-      // Filter to amendments that reference this event
-      return (data || []).filter(
-        (e) => getAmendsEventId(e.details) === id
-      );
+      return data ?? [];
     },
     enabled: !!id,
   });
 
-  // Get the latest amendment (first in the list since ordered desc)
-  const latestAmendment = amendments && amendments.length > 0 ? amendments[0] : null;
-
-  const handleViewDocument = async () => {
-    const artifactId = documentArtifactId;
+  const handleViewDocument = (artifactId: string | null) => {
     if (!artifactId) {
       toast({
         variant: "destructive",
@@ -191,53 +296,12 @@ const EventDetails = () => {
       });
       return;
     }
+    setViewingArtifactId(artifactId);
+  };
 
+  const handleDownloadDocument = async (artifactId: string) => {
     try {
-      // Get current session for auth header
-      const { data: session } = await supabase.auth.getSession();
-      if (!session.session) {
-        toast({
-          variant: "destructive",
-          title: "Not authenticated",
-          description: "Please sign in to download documents.",
-        });
-        return;
-      }
-
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const downloadUrl = `${supabaseUrl}/functions/v1/documents-download?artifact_id=${encodeURIComponent(artifactId)}`;
-      
-      // Use fetch to download with auth header, then trigger browser download
-      const response = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${session.session.access_token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status}`);
-      }
-
-      // Get filename from Content-Disposition header if available
-      const contentDisposition = response.headers.get("Content-Disposition");
-      let filename = "document";
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (match) {
-          filename = match[1];
-        }
-      }
-
-      // Create blob and trigger download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      await downloadDocument(artifactId);
 
       safeLog.info("Document downloaded", {
         action: "document_download_success",
@@ -250,8 +314,11 @@ const EventDetails = () => {
       });
       toast({
         variant: "destructive",
-        title: "Unable to view document",
-        description: "Please try again.",
+        title: "Unable to download document",
+        description:
+          error instanceof DocumentsLockedError
+            ? "This document is encrypted. Unlock your documents in Settings first."
+            : "Please try again.",
       });
     }
   };
@@ -266,6 +333,37 @@ const EventDetails = () => {
     });
   };
 
+  const handleVersionSuccess = () => {
+    setIsVersionModalOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["document-versions"] });
+    queryClient.invalidateQueries({ queryKey: ["document-artifacts"] });
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    toast({
+      title: "New version uploaded",
+      description: "Earlier versions are kept under File Versions.",
+    });
+  };
+
+  const handleLinkSuccess = () => {
+    setIsLinkModalOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["event-links"] });
+    toast({
+      title: "Events linked",
+      description: "The link appears under Related Events on both events.",
+    });
+  };
+
+  const handleRetractionSuccess = () => {
+    setIsRetractModalOpen(false);
+    setShowRetractedContent(false);
+    refetchEvent();
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    toast({
+      title: "Event retracted",
+      description: "This event is now hidden from your timeline.",
+    });
+  };
+
   if (eventLoading) {
     return (
       <div className="page-container animate-fade-in">
@@ -306,31 +404,49 @@ const EventDetails = () => {
 
   const isJournalEntry = event.event_type === "journal_entry";
   const isDocumentEvent = event.event_type === "document_uploaded";
+  const isVersionEvent = event.event_type === "document_version_added";
   const isAmendment = event.event_type === "event_amended";
   const isExternalEvent = event.event_type === "external_event";
-  const canAmend = isJournalEntry || isDocumentEvent;
-  const hasAmendments = amendments && amendments.length > 0;
+  const isRetraction = event.event_type === "event_retracted";
+  const isRetracted = event.is_retracted;
+  const canAmend = (isJournalEntry || isDocumentEvent) && !isRetracted;
+  const canAddVersion = isDocumentEvent && !!documentArtifactId && !isRetracted;
+  const canRetract = !isRetraction && !isRetracted;
+  const canLink = !isRetraction && !isRetracted;
+  const canTag = !isRetraction && !isRetracted;
+  const hasAmendments = event.is_amended;
+  const contentHidden = isRetracted && !showRetractedContent;
+  const retractionReason = isRetractionReason(event.retraction_reason)
+    ? RETRACTION_REASON_LABELS[event.retraction_reason]
+    : null;
 
-  // Extract values using safe helpers
+  // Extract values using safe helpers (details already reflect the latest amendment)
   const category = getOptionalCategory(details);
   const docType = getDocType(details);
   const text = getText(details);
+  const symptom = isJournalEntry && category === "symptom" ? getSymptom(details) : null;
+  const attachments = attachmentsByEvent?.get(event.id) ?? [];
+  const medicationEvent = event.event_type === "medication_event" ? getMedicationEvent(details) : null;
+  const importedMedication = isExternalEvent ? getImportedMedication(details) : null;
+  const vitalSign = event.event_type === "vital_sign" ? getVitalSign(details) : null;
+  const trackerEntry = event.event_type === "tracker_entry" ? getTrackerEntry(details) : null;
+  const questionAnswer = event.event_type === "question_answered" ? getQuestionAnswer(details) : null;
+  const medicalHistory = event.event_type === "medical_history" ? getMedicalHistory(details) : null;
+  const extractedText = event.event_type === "document_text_extracted" ? getExtractedText(details) : null;
+  const documentVersion = isVersionEvent ? getDocumentVersion(details) : null;
+  // Start of the document's version chain, for both uploads and their versions
+  const rootArtifactId = artifact ? artifact.root_artifact_id ?? artifact.id : null;
   const notes = getNotes(details);
   const amendsEventId = getAmendsEventId(details);
   const amendedEventType = getAmendedEventType(details);
+  const retractsEventId = getRetractsEventId(details);
+  const reasonCode = getReasonCode(details);
   
   // External event details
   const externalSource = getExternalSource(details);
   const resourceCategory = getResourceCategory(details);
   const providerName = getProviderName(details);
 
-  // Get current view values from latest amendment if available
-  const currentViewText = latestAmendment ? getText(latestAmendment.details) : text;
-  const currentViewCategory = latestAmendment ? getOptionalCategory(latestAmendment.details) : category;
-  const currentViewTitle = latestAmendment ? latestAmendment.title?.replace("Amended: ", "") : event.title;
-  const currentViewDocType = latestAmendment ? getDocType(latestAmendment.details) : docType;
-  const currentViewNotes = latestAmendment ? getNotes(latestAmendment.details) : notes;
-
   // Format file size
   const formatFileSize = (bytes: number | null) => {
     if (!bytes) return null;
@@ -361,8 +477,47 @@ const EventDetails = () => {
         </Alert>
       )}
 
+      {/* Retraction banner */}
+      {isRetracted && (
+        <div className="mb-4 rounded-lg border border-destructive bg-destructive/10 p-4">
+          <div className="flex items-start gap-3">
+            <Ban className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <h3 className="font-medium text-destructive">This event has been retracted</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {retractionReason ? `Reason: ${retractionReason}. ` : ""}
+                It is hidden from your timeline, visit summaries and shares.
+              </p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRetractedContent((shown) => !shown)}
+                >
+                  {showRetractedContent ? (
+                    <EyeOff className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Eye className="h-4 w-4 mr-2" />
+                  )}
+                  {showRetractedContent ? "Hide Retracted Content" : "Show Retracted Content"}
+                </Button>
+                {event.retraction_id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/event/${event.retraction_id}`)}
+                  >
+                    View Retraction
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Amendment banner for original events */}
-      {hasAmendments && !isAmendment && (
+      {hasAmendments && !isAmendment && !isRetracted && (
         <div className="mb-4 rounded-lg border border-warning bg-warning/10 p-4">
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-warning-foreground flex-shrink-0 mt-0.5" />
@@ -375,7 +530,7 @@ const EventDetails = () => {
                 variant="outline"
                 size="sm"
                 className="mt-2"
-                onClick={() => latestAmendment && navigate(`/event/${latestAmendment.id}`)}
+                onClick={() => event.latest_amendment_id && navigate(`/event/${event.latest_amendment_id}`)}
               >
                 View Latest Amendment
               </Button>
@@ -397,14 +552,14 @@ const EventDetails = () => {
                 {config.label}
               </span>
               {/* Category or doc type badge */}
-              {isJournalEntry && currentViewCategory && (
+              {isJournalEntry && category && (
                 <span className="ml-2 inline-block rounded-full bg-secondary px-2 py-0.5 text-xs text-muted-foreground">
-                  {CATEGORY_LABELS[currentViewCategory] || currentViewCategory}
+                  {CATEGORY_LABELS[category] || category}
                 </span>
               )}
-              {isDocumentEvent && currentViewDocType && (
+              {isDocumentEvent && docType && (
                 <span className="ml-2 inline-block rounded-full bg-secondary px-2 py-0.5 text-xs text-muted-foreground">
-                  {DOC_TYPE_LABELS[currentViewDocType] || currentViewDocType}
+                  {DOC_TYPE_LABELS[docType] || docType}
                 </span>
               )}
               {/* External event badges */}
@@ -424,131 +579,461 @@ const EventDetails = () => {
               )}
             </div>
           </div>
-          <time className="text-sm text-muted-foreground">
-            {format(new Date(event.event_time), "MMMM d, yyyy 'at' h:mm a")}
-          </time>
+          <div className="text-right">
+            <time className="text-sm text-muted-foreground">
+              {formatEventDate(event, timeZone, "MMMM d, yyyy 'at' h:mm a")}
+            </time>
+            {isApproximateDate(event) && (
+              <p className="text-xs text-muted-foreground">
+                {event.event_time_end ? "Period" : "Approximate date"}
+              </p>
+            )}
+            {/* Original wall-clock time when entered in another zone */}
+            {!isApproximateDate(event) && event.event_timezone && event.event_utc_offset_minutes !== null && event.event_timezone !== timeZone && (
+              <p className="text-xs text-muted-foreground">
+                {formatInTimeZone(event.event_time, "h:mm a", event.event_timezone)}{" "}
+                {formatUtcOffset(event.event_utc_offset_minutes)} ({event.event_timezone})
+              </p>
+            )}
+          </div>
         </div>
 
-        {/* Title - show current view if amended */}
-        <h1 className="text-xl font-semibold text-foreground mb-2">
-          {currentViewTitle || "Untitled"}
-        </h1>
-
-        {/* Summary */}
-        <p className="text-muted-foreground mb-4">
-          {event.summary}
-        </p>
-
-        {/* Full content for journal entries - show current view */}
-        {isJournalEntry && currentViewText && (
-          <div className="bg-muted/50 rounded-lg p-4 mb-4">
-            <h3 className="text-sm font-medium text-muted-foreground mb-2">
-              {hasAmendments ? "Entry Text (Current Version)" : "Entry Text"}
-            </h3>
-            <p className="text-foreground whitespace-pre-wrap leading-relaxed">
-              {currentViewText}
+        {contentHidden ? (
+          <p className="text-muted-foreground italic mb-4">
+            Content hidden because this event was retracted.
+          </p>
+        ) : (
+          <>
+            {/* Title - show current view if amended */}
+            <h1 className="text-xl font-semibold text-foreground mb-2">
+              {event.title || "Untitled"}
+            </h1>
+
+            {/* Summary */}
+            <p className="text-muted-foreground mb-4">
+              {event.summary}
             </p>
-          </div>
-        )}
 
-        {/* Document details - show current view */}
-        {isDocumentEvent && artifact && (
-          <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
-            <h3 className="text-sm font-medium text-muted-foreground mb-2">
-              {hasAmendments ? "Document Details (Current Version)" : "Document Details"}
-            </h3>
-            <div className="grid grid-cols-2 gap-2 text-sm">
-              <span className="text-muted-foreground">Type:</span>
-              <span className="text-foreground">
-                {DOC_TYPE_LABELS[currentViewDocType || ""] || currentViewDocType || artifact.doc_type || "Unknown"}
-              </span>
+            {/* Full content for journal entries - show current view */}
+            {isJournalEntry && text && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                  {hasAmendments ? "Entry Text (Current Version)" : "Entry Text"}
+                </h3>
+                <p className="text-foreground whitespace-pre-wrap leading-relaxed">
+                  {text}
+                </p>
+              </div>
+            )}
+
+            {/* Photos attached to the entry */}
+            {isJournalEntry && attachments.length > 0 && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                  Photos ({attachments.length})
+                </h3>
+                <AttachmentGallery attachments={attachments} />
+              </div>
+            )}
+
+            {/* Structured symptom fields */}
+            {symptom && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Symptom Details</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate(`/symptoms?name=${encodeURIComponent(symptom.name)}`)}
+                  >
+                    <Activity className="h-3 w-3 mr-1" />
+                    View History
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Symptom:</span>
+                  <span className="text-foreground">{symptom.name}</span>
+
+                  <span className="text-muted-foreground">Severity:</span>
+                  <span className="text-foreground">{symptom.severity} / 10</span>
+
+                  {symptom.location && (
+                    <>
+                      <span className="text-muted-foreground">Location:</span>
+                      <span className="text-foreground">{symptom.location}</span>
+                    </>
+                  )}
+
+                  {symptom.onset && (
+                    <>
+                      <span className="text-muted-foreground">Onset:</span>
+                      <span className="text-foreground">{SYMPTOM_ONSET_LABELS[symptom.onset]}</span>
+                    </>
+                  )}
+
+                  {symptom.duration_minutes !== null && (
+                    <>
+                      <span className="text-muted-foreground">Duration:</span>
+                      <span className="text-foreground">{formatDurationMinutes(symptom.duration_minutes)}</span>
+                    </>
+                  )}
+
+                  {symptom.triggers.length > 0 && (
+                    <>
+                      <span className="text-muted-foreground">Triggers:</span>
+                      <span className="text-foreground">{symptom.triggers.join(", ")}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Document details - show current view */}
+            {isDocumentEvent && artifact && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                  {hasAmendments ? "Document Details (Current Version)" : "Document Details"}
+                </h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Type:</span>
+                  <span className="text-foreground">
+                    {DOC_TYPE_LABELS[docType || ""] || docType || artifact.doc_type || "Unknown"}
+                  </span>
               
-              <span className="text-muted-foreground">Format:</span>
-              <span className="text-foreground">{artifact.content_type}</span>
+                  <span className="text-muted-foreground">Format:</span>
+                  <span className="text-foreground">{artifact.content_type}</span>
               
-              {artifact.file_size && (
-                <>
-                  <span className="text-muted-foreground">Size:</span>
-                  <span className="text-foreground">{formatFileSize(artifact.file_size)}</span>
-                </>
-              )}
-            </div>
-            <Button onClick={handleViewDocument} className="mt-3">
-              <Download className="h-4 w-4 mr-2" />
-              Open Document
-            </Button>
-          </div>
-        )}
+                  {artifact.file_size && (
+                    <>
+                      <span className="text-muted-foreground">Size:</span>
+                      <span className="text-foreground">{formatFileSize(artifact.file_size)}</span>
+                    </>
+                  )}
+                </div>
+                <Button onClick={() => handleViewDocument(documentArtifactId)} className="mt-3">
+                  <Eye className="h-4 w-4 mr-2" />
+                  View Document
+                </Button>
+              </div>
+            )}
 
-        {/* External event source details */}
-        {isExternalEvent && (
-          <div className="bg-blue-50 dark:bg-blue-950/30 rounded-lg p-4 mb-4">
-            <h3 className="text-sm font-medium text-blue-700 dark:text-blue-300 mb-2">External Record Details</h3>
-            <div className="grid grid-cols-2 gap-2 text-sm">
-              <span className="text-muted-foreground">Source:</span>
-              <span className="text-foreground capitalize">{externalSource || "External"}</span>
+            {/* New file version of a document */}
+            {documentVersion && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Version {documentVersion.version}</h3>
+                  <Button variant="ghost" size="sm" onClick={() => navigate(`/event/${documentVersion.document_event_id}`)}>
+                    <FileText className="h-3 w-3 mr-1" />
+                    View Document
+                  </Button>
+                </div>
+                {artifact && (
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <span className="text-muted-foreground">Format:</span>
+                    <span className="text-foreground">{artifact.content_type}</span>
+
+                    {artifact.file_size && (
+                      <>
+                        <span className="text-muted-foreground">Size:</span>
+                        <span className="text-foreground">{formatFileSize(artifact.file_size)}</span>
+                      </>
+                    )}
+                  </div>
+                )}
+                {documentVersion.note && (
+                  <p className="text-foreground whitespace-pre-wrap">{documentVersion.note}</p>
+                )}
+                <Button onClick={() => handleViewDocument(documentArtifactId)} className="mt-3">
+                  <Eye className="h-4 w-4 mr-2" />
+                  View This Version
+                </Button>
+              </div>
+            )}
+
+            {/* Text extracted from the document */}
+            {(isDocumentEvent || isVersionEvent) && documentArtifactId && (
+              <ExtractedTextPanel documentArtifactId={documentArtifactId} />
+            )}
+
+            {/* Derived text of an uploaded document */}
+            {extractedText && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">
+                    Extracted Text ({EXTRACTION_METHOD_LABELS[extractedText.extraction_method]})
+                  </h3>
+                  <Button variant="ghost" size="sm" onClick={() => navigate(`/event/${extractedText.source_event_id}`)}>
+                    <FileText className="h-3 w-3 mr-1" />
+                    View Document
+                  </Button>
+                </div>
+                <p className="text-foreground whitespace-pre-wrap leading-relaxed">{extractedText.text}</p>
+                {extractedText.truncated && (
+                  <p className="text-xs text-muted-foreground">Only the beginning of the text was kept.</p>
+                )}
+              </div>
+            )}
+
+            {/* External event source details */}
+            {isExternalEvent && (
+              <div className="bg-blue-50 dark:bg-blue-950/30 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-blue-700 dark:text-blue-300 mb-2">External Record Details</h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Source:</span>
+                  <span className="text-foreground capitalize">{externalSource || "External"}</span>
               
-              {providerName && (
-                <>
-                  <span className="text-muted-foreground">Provider:</span>
-                  <span className="text-foreground">{providerName}</span>
-                </>
-              )}
+                  {providerName && (
+                    <>
+                      <span className="text-muted-foreground">Provider:</span>
+                      <span className="text-foreground">{providerName}</span>
+                    </>
+                  )}
               
-              {resourceCategory && (
-                <>
-                  <span className="text-muted-foreground">Category:</span>
-                  <span className="text-foreground capitalize">
-                    {resourceCategory.replace(/_/g, " ")}
+                  {resourceCategory && (
+                    <>
+                      <span className="text-muted-foreground">Category:</span>
+                      <span className="text-foreground capitalize">
+                        {resourceCategory.replace(/_/g, " ")}
+                      </span>
+                    </>
+                  )}
+
+                  {importedMedication && (
+                    <>
+                      <span className="text-muted-foreground">Medication:</span>
+                      <span className="text-foreground">{describeMedication(importedMedication)}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Medication log details */}
+            {medicationEvent && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Medication Details</h3>
+                  <Button variant="ghost" size="sm" onClick={() => navigate("/medications")}>
+                    <Pill className="h-3 w-3 mr-1" />
+                    View Medications
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Action:</span>
+                  <span className="text-foreground">{MEDICATION_ACTION_LABELS[medicationEvent.action]}</span>
+
+                  <span className="text-muted-foreground">Medication:</span>
+                  <span className="text-foreground">{describeMedication(medicationEvent)}</span>
+
+                  {medicationEvent.note && (
+                    <>
+                      <span className="text-muted-foreground">Note:</span>
+                      <span className="text-foreground whitespace-pre-wrap">{medicationEvent.note}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Vital sign reading, as recorded */}
+            {vitalSign && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Vital Sign Details</h3>
+                  <Button variant="ghost" size="sm" onClick={() => navigate("/vitals")}>
+                    <HeartPulse className="h-3 w-3 mr-1" />
+                    View Trend
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Measure:</span>
+                  <span className="text-foreground">{VITAL_MEASURE_LABELS[vitalSign.measure]}</span>
+
+                  <span className="text-muted-foreground">Reading:</span>
+                  <span className="text-foreground">
+                    {vitalSign.value}
+                    {vitalSign.diastolic !== null && `/${vitalSign.diastolic}`}{" "}
+                    {isVitalUnit(vitalSign.measure, vitalSign.unit) ? VITAL_UNIT_LABELS[vitalSign.unit] : vitalSign.unit}
                   </span>
-                </>
-              )}
-            </div>
-          </div>
-        )}
 
-        {/* Notes if available - show current view */}
-        {(currentViewNotes || notes) && (
-          <div className="bg-muted/50 rounded-lg p-4 mb-4">
-            <h3 className="text-sm font-medium text-muted-foreground mb-2">Notes</h3>
-            <p className="text-foreground">{currentViewNotes || notes}</p>
-          </div>
+                  {vitalSign.note && (
+                    <>
+                      <span className="text-muted-foreground">Note:</span>
+                      <span className="text-foreground whitespace-pre-wrap">{vitalSign.note}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Tracker entry values */}
+            {trackerEntry && <TrackerEntryDetails entry={trackerEntry} />}
+
+            {/* Answer to a question */}
+            {questionAnswer && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Answer Details</h3>
+                  <Button variant="ghost" size="sm" onClick={() => navigate(`/event/${questionAnswer.question_event_id}`)}>
+                    <HelpCircle className="h-3 w-3 mr-1" />
+                    View Question
+                  </Button>
+                </div>
+                <p className="text-foreground whitespace-pre-wrap">{questionAnswer.answer}</p>
+                {questionAnswer.answered_by && (
+                  <p className="text-sm text-muted-foreground">Answered by {questionAnswer.answered_by}</p>
+                )}
+              </div>
+            )}
+
+            {/* Past medical history item */}
+            {medicalHistory && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">Medical History Details</h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span className="text-muted-foreground">Type:</span>
+                  <span className="text-foreground">{HISTORY_KIND_LABELS[medicalHistory.kind]}</span>
+
+                  <span className="text-muted-foreground">Name:</span>
+                  <span className="text-foreground">{medicalHistory.name}</span>
+
+                  {medicalHistory.status && (
+                    <>
+                      <span className="text-muted-foreground">Status:</span>
+                      <span className="text-foreground">{CONDITION_STATUS_LABELS[medicalHistory.status]}</span>
+                    </>
+                  )}
+
+                  {medicalHistory.reaction && (
+                    <>
+                      <span className="text-muted-foreground">Reaction:</span>
+                      <span className="text-foreground">{medicalHistory.reaction}</span>
+                    </>
+                  )}
+
+                  {medicalHistory.severity && (
+                    <>
+                      <span className="text-muted-foreground">Severity:</span>
+                      <span className="text-foreground">{ALLERGY_SEVERITY_LABELS[medicalHistory.severity]}</span>
+                    </>
+                  )}
+
+                  {medicalHistory.relation && (
+                    <>
+                      <span className="text-muted-foreground">Relative:</span>
+                      <span className="text-foreground">{medicalHistory.relation}</span>
+                    </>
+                  )}
+
+                  {medicalHistory.note && (
+                    <>
+                      <span className="text-muted-foreground">Note:</span>
+                      <span className="text-foreground whitespace-pre-wrap">{medicalHistory.note}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Notes if available - current view */}
+            {notes && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Notes</h3>
+                <p className="text-foreground">{notes}</p>
+              </div>
+            )}
+
+            {/* Amendment reference */}
+            {isAmendment && amendsEventId && (
+              <div className="bg-warning/10 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-warning-foreground mb-2">This is an amendment</h3>
+                <p className="text-sm text-muted-foreground mb-2">
+                  This event amends a previous {(amendedEventType || "event").replace(/_/g, " ")}.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(`/event/${amendsEventId}`)}
+                >
+                  View Original Event
+                </Button>
+              </div>
+            )}
+
+            {/* Amendment text content */}
+            {isAmendment && text && (
+              <div className="bg-muted/50 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Amended Content</h3>
+                <p className="text-foreground whitespace-pre-wrap leading-relaxed">
+                  {text}
+                </p>
+              </div>
+            )}
+          </>
         )}
 
-        {/* Amendment reference */}
-        {isAmendment && amendsEventId && (
-          <div className="bg-warning/10 rounded-lg p-4 mb-4">
-            <h3 className="text-sm font-medium text-warning-foreground mb-2">This is an amendment</h3>
+        {/* Retraction reference */}
+        {isRetraction && retractsEventId && (
+          <div className="bg-destructive/10 rounded-lg p-4 mb-4">
+            <h3 className="text-sm font-medium text-destructive mb-2">This is a retraction</h3>
             <p className="text-sm text-muted-foreground mb-2">
-              This event amends a previous {(amendedEventType || "event").replace(/_/g, " ")}.
+              {isRetractionReason(reasonCode)
+                ? `Reason: ${RETRACTION_REASON_LABELS[reasonCode]}.`
+                : "This event retracts a previous event."}
             </p>
             <Button
               variant="outline"
               size="sm"
-              onClick={() => navigate(`/event/${amendsEventId}`)}
+              onClick={() => navigate(`/event/${retractsEventId}`)}
             >
-              View Original Event
+              View Retracted Event
             </Button>
           </div>
         )}
 
-        {/* Amendment text content */}
-        {isAmendment && text && (
-          <div className="bg-muted/50 rounded-lg p-4 mb-4">
-            <h3 className="text-sm font-medium text-muted-foreground mb-2">Amended Content</h3>
-            <p className="text-foreground whitespace-pre-wrap leading-relaxed">
-              {text}
-            </p>
+        {/* Tags - editable unless retracted */}
+        {(canTag || (event.tags && event.tags.length > 0)) && (
+          <div className="pt-4 border-t border-border">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Tags</h3>
+            {canTag ? (
+              <TagEditor eventId={event.id} tags={event.tags ?? []} onChange={() => refetchEvent()} />
+            ) : (
+              <EventTagChips tags={event.tags} />
+            )}
           </div>
         )}
 
-        {/* Amend button */}
-        {canAmend && (
-          <div className="pt-4 border-t border-border">
-            <Button variant="outline" onClick={() => setIsAmendModalOpen(true)}>
-              <Edit className="h-4 w-4 mr-2" />
-              {isJournalEntry ? "Amend Entry" : "Amend Document Details"}
-            </Button>
+        {/* Amend / version / link / retract buttons */}
+        {(canAmend || canAddVersion || canLink || canRetract) && (
+          <div className="flex flex-wrap gap-2 pt-4 border-t border-border">
+            {canAmend && (
+              <Button variant="outline" onClick={() => setIsAmendModalOpen(true)}>
+                <Edit className="h-4 w-4 mr-2" />
+                {isJournalEntry ? "Amend Entry" : "Amend Document Details"}
+              </Button>
+            )}
+            {canAddVersion && (
+              <Button variant="outline" onClick={() => setIsVersionModalOpen(true)}>
+                <FilePlus2 className="h-4 w-4 mr-2" />
+                Upload New Version
+              </Button>
+            )}
+            {canLink && (
+              <Button variant="outline" onClick={() => setIsLinkModalOpen(true)}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Link to…
+              </Button>
+            )}
+            {canRetract && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => setIsRetractModalOpen(true)}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Retract
+              </Button>
+            )}
           </div>
         )}
 
@@ -570,14 +1055,33 @@ const EventDetails = () => {
             </div>
             <div>
               <span className="font-medium">Created:</span>{" "}
-              {format(new Date(event.created_at), "MMM d, yyyy h:mm a")}
+              {formatTime(event.created_at, "MMM d, yyyy h:mm a")}
             </div>
+            {event.event_timezone && event.event_utc_offset_minutes !== null && (
+              <div>
+                <span className="font-medium">Time Zone:</span>{" "}
+                {`${event.event_timezone} (${formatUtcOffset(event.event_utc_offset_minutes)})`}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Linked events, both directions */}
+      <RelatedEvents eventId={event.id} onViewEvent={(relatedId) => navigate(`/event/${relatedId}`)} />
+
+      {/* File versions of a document, each downloadable */}
+      {(isDocumentEvent || isVersionEvent) && rootArtifactId && (
+        <DocumentVersionHistory
+          rootArtifactId={rootArtifactId}
+          currentArtifactId={documentArtifactId}
+          onDownload={handleDownloadDocument}
+          onViewEvent={(versionEventId) => navigate(`/event/${versionEventId}`)}
+        />
+      )}
+
       {/* Version history section */}
-      {hasAmendments && (
+      {amendments && amendments.length > 0 && (
         <AmendmentsList 
           amendments={amendments} 
           onViewAmendment={(amendId) => navigate(`/event/${amendId}`)} 
@@ -592,6 +1096,37 @@ const EventDetails = () => {
         event={event}
         eventType={event.event_type}
       />
+
+      {/* Upload Version Modal */}
+      {canAddVersion && documentArtifactId && (
+        <UploadVersionModal
+          isOpen={isVersionModalOpen}
+          onClose={() => setIsVersionModalOpen(false)}
+          onSuccess={handleVersionSuccess}
+          event={event}
+          rootArtifactId={documentArtifactId}
+          docType={docType || artifact?.doc_type || "other"}
+        />
+      )}
+
+      {/* Document Viewer */}
+      <DocumentViewer artifactId={viewingArtifactId} onClose={() => setViewingArtifactId(null)} />
+
+      {/* Link Modal */}
+      <LinkEventModal
+        isOpen={isLinkModalOpen}
+        onClose={() => setIsLinkModalOpen(false)}
+        onSuccess={handleLinkSuccess}
+        eventId={event.id}
+      />
+
+      {/* Retraction Modal */}
+      <RetractionModal
+        isOpen={isRetractModalOpen}
+        onClose={() => setIsRetractModalOpen(false)}
+        onSuccess={handleRetractionSuccess}
+        event={event}
+      />
     </div>
   );
 };
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, ArrowRight, CheckCircle2, ClipboardList, Loader2, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { HistoryItemForm, type HistoryStepKind } from "@/components/history/HistoryItemForm";
+import { recordHistoryBatch, undoHistoryBatch, type HistoryBatchItem } from "@/lib/write-helpers";
+import { formatEventDate } from "@/lib/partial-dates";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * History Wizard Page
+ *
+ * Guided entry of past medical history: conditions, surgeries, allergies,
+ * medications, immunizations and family history. Items are collected per
+ * step, reviewed, then written as one batch in a single transaction with
+ * `bulk_import` provenance. The batch can be undone from the last step,
+ * which retracts its events.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Undo records event_retracted tombstones; nothing is deleted
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const ITEM_STEPS: { kind: HistoryStepKind; title: string; description: string }[] = [
+  { kind: "condition", title: "Conditions", description: "Long-term or past conditions, such as asthma or diabetes." },
+  { kind: "surgery", title: "Surgeries", description: "Operations and procedures you have had." },
+  { kind: "allergy", title: "Allergies", description: "Medicines, foods or anything else you react to." },
+  { kind: "medication", title: "Medications", description: "Medications you take now." },
+  { kind: "immunization", title: "Immunizations", description: "Vaccines you remember having." },
+  { kind: "family_history", title: "Family history", description: "Conditions that run in your family." },
+];
+
+const REVIEW_STEP = ITEM_STEPS.length;
+
+interface WizardItem {
+  key: string;
+  kind: HistoryStepKind;
+  item: HistoryBatchItem;
+}
+
+const HistoryWizard = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { timeZone } = useTimeZone();
+  // One batch ID per wizard run, so a retried save is not written twice
+  const [batchId] = useState(() => crypto.randomUUID());
+  const [step, setStep] = useState(0);
+  const [items, setItems] = useState<WizardItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+  const [isUndoOpen, setIsUndoOpen] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [isUndone, setIsUndone] = useState(false);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    queryClient.invalidateQueries({ queryKey: ["medication-list"] });
+  };
+
+  const addItem = (kind: HistoryStepKind, item: HistoryBatchItem) => {
+    setItems((prev) => [...prev, { key: crypto.randomUUID(), kind, item }]);
+  };
+
+  const removeItem = (key: string) => {
+    setItems((prev) => prev.filter((entry) => entry.key !== key));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const eventIds = await recordHistoryBatch(batchId, items.map((entry) => entry.item));
+      setSavedCount(eventIds.length);
+      refresh();
+    } catch {
+      // Logged by recordHistoryBatch
+      toast({ variant: "destructive", title: "Failed to save", description: "Nothing was saved. Please try again." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await undoHistoryBatch(batchId);
+      setIsUndone(true);
+      setIsUndoOpen(false);
+      refresh();
+      toast({ title: "Import undone", description: "The imported items were retracted." });
+    } catch {
+      // Logged by undoHistoryBatch
+      toast({ variant: "destructive", title: "Failed to undo", description: "Please try again." });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const renderItemList = (entries: WizardItem[]) => (
+    <ul className="divide-y divide-border rounded-lg border border-border bg-card">
+      {entries.map(({ key, item }) => (
+        <li key={key} className="flex items-start justify-between gap-3 p-3">
+          <div className="min-w-0">
+            <p className="font-medium text-foreground">{item.title}</p>
+            <p className="text-sm text-muted-foreground">
+              {item.summary}
+              {" · "}
+              {formatEventDate(
+                {
+                  event_time: item.eventTime,
+                  event_time_precision: item.eventTimePrecision,
+                  event_time_end: item.eventTimeEnd,
+                  event_timezone: item.eventTimeZone,
+                },
+                timeZone
+              )}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => removeItem(key)} aria-label="Remove">
+            <X className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderContent = () => {
+    if (savedCount !== null) {
+      return (
+        <div className="empty-state">
+          <CheckCircle2 className="empty-state-icon text-primary" />
+          <h3 className="empty-state-title">{isUndone ? "Import undone" : "History saved"}</h3>
+          <p className="empty-state-description">
+            {isUndone
+              ? "The imported items were retracted. They stay in your record, marked as an incorrect import."
+              : `${savedCount} ${savedCount === 1 ? "item was" : "items were"} added to your timeline.`}
+          </p>
+          <div className="mt-6 flex flex-wrap justify-center gap-3">
+            <Button onClick={() => navigate("/timeline")}>View Timeline</Button>
+            {!isUndone && (
+              <Button variant="outline" onClick={() => setIsUndoOpen(true)}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo import
+              </Button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    if (step === REVIEW_STEP) {
+      return (
+        <div className="space-y-6">
+          {items.length === 0 ? (
+            <div className="empty-state">
+              <ClipboardList className="empty-state-icon" />
+              <h3 className="empty-state-title">Nothing to save yet</h3>
+              <p className="empty-state-description">Go back and add the parts of your history you know.</p>
+            </div>
+          ) : (
+            ITEM_STEPS.map(({ kind, title }) => {
+              const entries = items.filter((entry) => entry.kind === kind);
+              if (entries.length === 0) return null;
+              return (
+                <section key={kind} className="space-y-2">
+                  <h2 className="font-medium text-foreground">{title}</h2>
+                  {renderItemList(entries)}
+                </section>
+              );
+            })
+          )}
+          <p className="text-sm text-muted-foreground">
+            Items without a date are placed on today's date. You can undo the whole import after saving.
+          </p>
+          <div className="flex justify-between gap-3">
+            <Button variant="outline" onClick={() => setStep(step - 1)} disabled={isSaving}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || items.length === 0}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save {items.length} {items.length === 1 ? "item" : "items"}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    const { kind, title, description } = ITEM_STEPS[step];
+    const stepItems = items.filter((entry) => entry.kind === kind);
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-lg font-medium text-foreground">{title}</h2>
+          <p className="text-sm text-muted-foreground">{description} Skip this step if none apply.</p>
+        </div>
+        {/* Keyed so each step starts with an empty form */}
+        <HistoryItemForm key={kind} kind={kind} onAdd={(item) => addItem(kind, item)} />
+        {stepItems.length > 0 && renderItemList(stepItems)}
+        <div className="flex justify-between gap-3">
+          <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={() => setStep(step + 1)}>
+            {step === REVIEW_STEP - 1 ? "Review" : stepItems.length > 0 ? "Next" : "Skip"}
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header">
+        <h1 className="page-title">Your Medical History</h1>
+        <p className="page-description">
+          {savedCount === null
+            ? `Step ${step + 1} of ${REVIEW_STEP + 1}: ${step === REVIEW_STEP ? "Review" : ITEM_STEPS[step].title}`
+            : "All done"}
+        </p>
+      </div>
+
+      {savedCount === null && <Progress value={((step + 1) / (REVIEW_STEP + 1)) * 100} className="mb-6 h-2" />}
+
+      {renderContent()}
+
+      <AlertDialog open={isUndoOpen} onOpenChange={setIsUndoOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every item from this import will be retracted as an incorrect import. Retracted items stay in
+              your record but no longer show as current.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUndoing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleUndo();
+              }}
+              disabled={isUndoing}
+            >
+              {isUndoing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Undo import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default HistoryWizard;
@@ -9,7 +9,8 @@ import {
   Clock, 
   Database, 
   Shield,
-  Activity
+  Activity,
+  ClipboardList
 } from "lucide-react";
 
 /**
@@ -53,6 +54,12 @@ const Home = () => {
       route: "/documents",
       variant: "outline" as const,
     },
+    {
+      label: "Add Your Medical History",
+      icon: ClipboardList,
+      route: "/history/new",
+      variant: "outline" as const,
+    },
     {
       label: "View Timeline",
       icon: Clock,
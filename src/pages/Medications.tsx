@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Cloud, Eye, Loader2, Pencil, Pill, Plus, Square, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MedicationEventModal } from "@/components/medications/MedicationEventModal";
+import { useMedicationList, type MedicationListItem } from "@/hooks/use-medications";
+import { describeMedication } from "@/lib/medications";
+import {
+  isMedicationAction,
+  isMedicationRoute,
+  MEDICATION_ACTION_LABELS,
+  type MedicationAction,
+  type MedicationFields,
+} from "@/lib/event-registry";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Medications Page
+ *
+ * Current medications, derived from the medication event stream (manual
+ * log entries and imported records) by the medication_list view. Each
+ * item shows where its latest state came from.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Starting, changing, stopping and taking a dose each append an event
+ * - The list itself is never stored or edited
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const PROVENANCE_LABELS: Record<string, string> = {
+  manual_entry: "Entered by you",
+  portal_import: "Imported",
+  upload: "Uploaded",
+  manual_amendment: "Amended by you",
+};
+
+const toFields = (item: MedicationListItem): MedicationFields => ({
+  name: item.name ?? "",
+  strength: item.strength,
+  route: isMedicationRoute(item.route) ? item.route : null,
+  frequency: item.frequency,
+});
+
+const Medications = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: medications, isLoading, error } = useMedicationList();
+  const [dialog, setDialog] = useState<{ action: MedicationAction; medication: MedicationFields | null } | null>(null);
+
+  const active = (medications ?? []).filter((m) => m.is_active);
+  const stopped = (medications ?? []).filter((m) => !m.is_active);
+
+  const handleSuccess = () => {
+    const action = dialog?.action;
+    setDialog(null);
+    queryClient.invalidateQueries({ queryKey: ["medication-list"] });
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    toast({
+      title: "Saved to Timeline",
+      description: action ? `${MEDICATION_ACTION_LABELS[action]} recorded.` : undefined,
+    });
+  };
+
+  const renderItem = (item: MedicationListItem) => {
+    const isImported = item.source_type !== "manual";
+    const SourceIcon = isImported ? Cloud : User;
+
+    return (
+      <div key={item.medication_key} className="rounded-lg border border-border bg-card p-4 shadow-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <h3 className="font-medium text-foreground">{describeMedication(item)}</h3>
+            <p className="text-xs text-muted-foreground">
+              {item.is_active
+                ? item.started_at && `Started ${format(new Date(item.started_at), "MMM d, yyyy")}`
+                : item.last_changed_at && `Stopped ${format(new Date(item.last_changed_at), "MMM d, yyyy")}`}
+              {item.last_taken_at && ` · Last dose ${format(new Date(item.last_taken_at), "MMM d, h:mm a")}`}
+            </p>
+            {/* Provenance of the latest state */}
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <SourceIcon className="h-3 w-3" />
+              {PROVENANCE_LABELS[item.provenance_method ?? ""] ?? item.provenance_method}
+              {item.source_name && ` · ${item.source_name}`}
+              {isMedicationAction(item.last_action) && ` · ${MEDICATION_ACTION_LABELS[item.last_action]}`}
+            </p>
+          </div>
+          {item.latest_event_id && (
+            <Button variant="ghost" size="sm" asChild>
+              <Link to={`/event/${item.latest_event_id}`}>
+                <Eye className="h-3 w-3 mr-1" />
+                Record
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {item.is_active && (
+          <div className="mt-3 flex flex-wrap gap-2 border-t border-border pt-3">
+            <Button size="sm" variant="outline" onClick={() => setDialog({ action: "dose_taken", medication: toFields(item) })}>
+              <Check className="h-3 w-3 mr-1" />
+              Log Dose
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDialog({ action: "dose_changed", medication: toFields(item) })}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Change Dose
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-destructive"
+              onClick={() => setDialog({ action: "stopped", medication: toFields(item) })}
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Stop
+            </Button>
+          </div>
+        )}
+        {!item.is_active && (
+          <div className="mt-3 border-t border-border pt-3">
+            <Button size="sm" variant="outline" onClick={() => setDialog({ action: "started", medication: toFields(item) })}>
+              <Plus className="h-3 w-3 mr-1" />
+              Restart
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="empty-state">
+          <Pill className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Unable to load medications</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!medications || medications.length === 0) {
+      return (
+        <div className="empty-state">
+          <Pill className="empty-state-icon" />
+          <h3 className="empty-state-title">No medications yet</h3>
+          <p className="empty-state-description">
+            Add a medication you take, or import records from a connected source.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <section className="space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">Current ({active.length})</h2>
+          {active.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No medications are currently active.</p>
+          ) : (
+            active.map(renderItem)
+          )}
+        </section>
+
+        {stopped.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Stopped ({stopped.length})</h2>
+            {stopped.map(renderItem)}
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header flex items-start justify-between gap-4">
+        <div>
+          <h1 className="page-title">Medications</h1>
+          <p className="page-description">
+            Built from your medication log and imported records
+          </p>
+        </div>
+        <Button onClick={() => setDialog({ action: "started", medication: null })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+
+      {renderContent()}
+
+      <MedicationEventModal
+        isOpen={dialog !== null}
+        onClose={() => setDialog(null)}
+        onSuccess={handleSuccess}
+        action={dialog?.action ?? "started"}
+        medication={dialog?.medication}
+      />
+    </div>
+  );
+};
+
+export default Medications;
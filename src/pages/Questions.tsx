@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle2, ClipboardList, HelpCircle, Loader2, MessageCircleReply, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { badgeVariants } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AnswerQuestionModal } from "@/components/questions/AnswerQuestionModal";
+import { AttachToVisitDialog } from "@/components/questions/AttachToVisitDialog";
+import { VisitSummaryModal } from "@/components/timeline/VisitSummaryModal";
+import { isOpenQuestion, useQuestions, type Question } from "@/hooks/use-questions";
+import {
+  attachQuestionsToVisit,
+  createVisitSummary,
+  type CreateVisitSummaryInput,
+} from "@/lib/write-helpers";
+import { safeLog } from "@/lib/safe-logger";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Questions Page
+ *
+ * Checklist of questions for the doctor: journal entries in the question
+ * category. Open questions can be attached to a visit summary and are
+ * marked answered by recording an answer.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Questions are never modified; answers are question_answered events
+ *   and attachments are append-only `question_for` links
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const Questions = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: questions, isLoading, error } = useQuestions();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [answering, setAnswering] = useState<Question | null>(null);
+  const [isAttachOpen, setIsAttachOpen] = useState(false);
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+
+  const open = (questions ?? []).filter(isOpenQuestion);
+  const answered = (questions ?? []).filter((q) => !isOpenQuestion(q));
+  const selectedQuestions = open.filter((q) => selectedIds.has(q.id));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["questions"] });
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+  };
+
+  const toggleSelected = (questionId: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(questionId);
+      } else {
+        next.delete(questionId);
+      }
+      return next;
+    });
+  };
+
+  const handleAnswered = () => {
+    setAnswering(null);
+    refresh();
+    toast({ title: "Answer saved", description: "The question is marked answered." });
+  };
+
+  const handleAttach = async (visitSummaryId: string) => {
+    try {
+      await attachQuestionsToVisit(visitSummaryId, selectedQuestions.map((q) => q.id));
+      safeLog.info("Questions attached to visit", { action: "questions_attached", id: visitSummaryId, count: selectedQuestions.length });
+      setIsAttachOpen(false);
+      setSelectedIds(new Set());
+      refresh();
+      toast({ title: "Attached to visit" });
+    } catch (err) {
+      safeLog.error("Failed to attach questions", {
+        action: "questions_attach_error",
+        errorType: err instanceof Error ? err.name : "unknown",
+      });
+      toast({ variant: "destructive", title: "Failed to attach", description: "Please try again." });
+    }
+  };
+
+  const handleCreateSummary = async (data: CreateVisitSummaryInput) => {
+    try {
+      const eventId = await createVisitSummary(data);
+      safeLog.info("Visit summary created", { action: "visit_summary_created", id: eventId, count: data.eventIds.length });
+      setSelectedIds(new Set());
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["visit-summaries"] });
+      toast({ title: "Visit Summary Created", description: "Your summary has been added to the timeline." });
+    } catch (err) {
+      safeLog.error("Failed to create visit summary", {
+        action: "visit_summary_error",
+        errorType: err instanceof Error ? err.name : "unknown",
+      });
+      toast({ variant: "destructive", title: "Failed to create summary", description: "Please try again." });
+    }
+  };
+
+  const renderVisits = (question: Question) =>
+    question.visits.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {question.visits.map((visit) => (
+          <Link key={visit.id} to={`/event/${visit.id}`} className={badgeVariants({ variant: "secondary" })}>
+            <ClipboardList className="h-3 w-3 mr-1" />
+            {visit.title || "Visit summary"}
+          </Link>
+        ))}
+      </div>
+    );
+
+  const renderOpenQuestion = (question: Question) => (
+    <div key={question.id} className="flex items-start gap-3 rounded-lg border border-border bg-card p-4">
+      <Checkbox
+        checked={selectedIds.has(question.id)}
+        onCheckedChange={(checked) => toggleSelected(question.id, checked === true)}
+        aria-label="Select question"
+        className="mt-1"
+      />
+      <div className="flex-1 min-w-0 space-y-2">
+        <Link to={`/event/${question.id}`} className="block text-sm text-foreground hover:underline whitespace-pre-wrap">
+          {question.text}
+        </Link>
+        <p className="text-xs text-muted-foreground">Asked {format(new Date(question.event_time), "MMM d, yyyy")}</p>
+        {renderVisits(question)}
+      </div>
+      <Button variant="outline" size="sm" onClick={() => setAnswering(question)}>
+        <MessageCircleReply className="h-4 w-4 mr-1" />
+        Answer
+      </Button>
+    </div>
+  );
+
+  const renderAnsweredQuestion = (question: Question) => (
+    <div key={question.id} className="rounded-lg border border-border bg-card p-4 space-y-2">
+      <div className="flex items-start gap-2">
+        <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+        <Link to={`/event/${question.id}`} className="text-sm text-foreground hover:underline whitespace-pre-wrap">
+          {question.text}
+        </Link>
+      </div>
+      {question.answers.map((answer) => (
+        <Link
+          key={answer.id}
+          to={`/event/${answer.id}`}
+          className="block ml-6 rounded-md bg-muted/50 p-3 text-sm hover:bg-muted transition-colors"
+        >
+          <p className="text-foreground whitespace-pre-wrap">{answer.answer}</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {answer.answered_by ? `${answer.answered_by} · ` : ""}
+            {format(new Date(answer.event_time), "MMM d, yyyy")}
+          </p>
+        </Link>
+      ))}
+      <div className="ml-6">{renderVisits(question)}</div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="empty-state">
+          <HelpCircle className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Unable to load questions</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!questions || questions.length === 0) {
+      return (
+        <div className="empty-state">
+          <HelpCircle className="empty-state-icon" />
+          <h3 className="empty-state-title">No questions yet</h3>
+          <p className="empty-state-description">
+            Add a journal entry in the Question category whenever something comes up you want to ask your doctor.
+          </p>
+          <Button className="mt-6" onClick={() => navigate("/journal")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <section className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-sm font-medium text-muted-foreground">Open ({open.length})</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selectedQuestions.length === 0}
+              onClick={() => setIsAttachOpen(true)}
+            >
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Attach to Visit{selectedQuestions.length > 0 ? ` (${selectedQuestions.length})` : ""}
+            </Button>
+          </div>
+          {open.length > 0 ? (
+            open.map(renderOpenQuestion)
+          ) : (
+            <p className="text-sm text-muted-foreground">All your questions have been answered.</p>
+          )}
+        </section>
+
+        {answered.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Answered ({answered.length})</h2>
+            {answered.map(renderAnsweredQuestion)}
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header flex items-start justify-between gap-4">
+        <div>
+          <h1 className="page-title">Questions</h1>
+          <p className="page-description">Questions to ask at your next visit, and the answers you got</p>
+        </div>
+        <Button onClick={() => navigate("/journal")}>
+          <Plus className="h-4 w-4 mr-2" />
+          New
+        </Button>
+      </div>
+
+      {renderContent()}
+
+      {answering && (
+        <AnswerQuestionModal
+          isOpen
+          onClose={() => setAnswering(null)}
+          onSuccess={handleAnswered}
+          question={answering}
+        />
+      )}
+
+      <AttachToVisitDialog
+        isOpen={isAttachOpen}
+        onClose={() => setIsAttachOpen(false)}
+        questionCount={selectedQuestions.length}
+        onAttach={handleAttach}
+        onCreateNew={() => {
+          setIsAttachOpen(false);
+          setIsSummaryOpen(true);
+        }}
+      />
+
+      <VisitSummaryModal
+        isOpen={isSummaryOpen}
+        onClose={() => setIsSummaryOpen(false)}
+        selectedEvents={selectedQuestions.map((q) => ({ ...q, event_type: "journal_entry" }))}
+        onCreateSummary={handleCreateSummary}
+      />
+    </div>
+  );
+};
+
+export default Questions;
@@ -0,0 +1,147 @@
+import { Link, useSearchParams } from "react-router-dom";
+import { Search as SearchIcon, Loader2, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { SearchHighlight } from "@/components/search/SearchHighlight";
+import { useEventSearch } from "@/hooks/use-event-search";
+
+/**
+ * Search Page
+ *
+ * Full-text search across timeline events and document metadata.
+ * The query lives in the URL (?q=) so results can be revisited.
+ * Retracted events are never returned.
+ *
+ * GUARDRAIL: No PHI in logs - search terms are never logged
+ * GUARDRAIL: User isolation via RLS (search_timeline is SECURITY INVOKER)
+ */
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  journal_entry: "Journal Entry",
+  document_uploaded: "Document",
+  event_amended: "Amendment",
+  visit_summary: "Visit Summary",
+  external_event: "External Record",
+  medication_event: "Medication",
+  vital_sign: "Vital Sign",
+  tracker_entry: "Tracker",
+  question_answered: "Answer",
+  medical_history: "History",
+  document_text_extracted: "Extracted Text",
+  document_version_added: "New Version",
+};
+
+const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const { data: results, isLoading, isError, isQueryReady, isDebouncing } = useEventSearch(query);
+
+  const handleQueryChange = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  const renderResults = () => {
+    if (!isQueryReady) {
+      return (
+        <div className="empty-state">
+          <SearchIcon className="empty-state-icon" />
+          <h3 className="empty-state-title">Search your health record</h3>
+          <p className="empty-state-description">
+            Find journal entries, documents and imported records by any word they contain.
+          </p>
+        </div>
+      );
+    }
+
+    if (isLoading || isDebouncing) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="empty-state">
+          <SearchIcon className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Search failed</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!results || results.length === 0) {
+      return (
+        <div className="empty-state">
+          <SearchIcon className="empty-state-icon" />
+          <h3 className="empty-state-title">No matches</h3>
+          <p className="empty-state-description">
+            Try different or fewer words.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {results.map((result) => (
+          <Link
+            key={result.event_id}
+            to={`/event/${result.event_id}`}
+            className="block rounded-lg border border-border bg-card p-4 shadow-sm hover:border-primary/30 hover:shadow-md transition-all"
+          >
+            <div className="flex items-start justify-between gap-4 mb-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="inline-block rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-muted-foreground">
+                  {EVENT_TYPE_LABELS[result.event_type] || result.event_type}
+                </span>
+                {result.matched_document && (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-accent/10 px-2 py-0.5 text-xs text-accent-foreground">
+                    <FileText className="h-3 w-3" />
+                    Document match
+                  </span>
+                )}
+              </div>
+              <time className="text-xs text-muted-foreground whitespace-nowrap">
+                {format(new Date(result.event_time), "MMM d, yyyy")}
+              </time>
+            </div>
+            <h4 className="font-medium text-foreground">{result.title || "Untitled"}</h4>
+            <p className="mt-1 text-sm text-muted-foreground line-clamp-3">
+              <SearchHighlight text={result.headline} />
+            </p>
+          </Link>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header">
+        <h1 className="page-title">Search</h1>
+        <p className="page-description">
+          Search across your events and documents
+        </p>
+      </div>
+
+      <div className="relative mb-6">
+        <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          autoFocus
+          type="search"
+          placeholder="e.g. MRI knee"
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          className="pl-9"
+          maxLength={200}
+        />
+      </div>
+
+      {renderResults()}
+    </div>
+  );
+};
+
+export default Search;
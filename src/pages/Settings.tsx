@@ -1,18 +1,61 @@
-import { Settings as SettingsIcon } from "lucide-react";
+import { useMemo } from "react";
+import { Globe } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_USER_PREFERENCES,
+  useUpdateUserPreferences,
+  useUserPreferences,
+} from "@/hooks/use-user-preferences";
+import { useToast } from "@/hooks/use-toast";
+import { DocumentEncryptionSettings } from "@/components/encryption/DocumentEncryptionSettings";
+import { deviceTimeZone, formatUtcOffset, supportedTimeZones, timeZoneOffsetMinutes } from "@/lib/time-zone";
+
+// Radix Select items cannot have an empty value
+const DEVICE_TIME_ZONE = "device";
 
 /**
  * Settings Page
- * 
+ *
  * User account settings and preferences.
- * 
+ *
  * GUARDRAIL: User isolation
  * - Users can only modify their own settings
  * - No admin bypass, no cross-user access
- * 
+ *
  * GUARDRAIL: No PHI in logs
  * - Settings changes are logged with metadata only
  */
 const Settings = () => {
+  const { toast } = useToast();
+  const { data: preferences = DEFAULT_USER_PREFERENCES, isLoading } = useUserPreferences();
+  const updatePreferences = useUpdateUserPreferences();
+
+  const timeZones = useMemo(() => {
+    const now = new Date();
+    return supportedTimeZones().map((zone) => ({
+      zone,
+      label: `${zone.replace(/_/g, " ")} (${formatUtcOffset(timeZoneOffsetMinutes(now, zone))})`,
+    }));
+  }, []);
+
+  const handleTimeZoneChange = (value: string) => {
+    updatePreferences.mutate(
+      { ...preferences, timeZone: value === DEVICE_TIME_ZONE ? null : value },
+      {
+        onSuccess: () => toast({ title: "Time zone saved" }),
+        onError: () =>
+          toast({ variant: "destructive", title: "Failed to save", description: "Please try again." }),
+      }
+    );
+  };
+
   return (
     <div className="page-container animate-fade-in">
       <div className="page-header">
@@ -22,19 +65,42 @@ const Settings = () => {
         </p>
       </div>
 
-      {/* Empty state - no user logged in */}
-      <div className="empty-state">
-        <SettingsIcon className="empty-state-icon" />
-        <h3 className="empty-state-title">Settings unavailable</h3>
-        <p className="empty-state-description">
-          Sign in to access your account settings and preferences.
-        </p>
+      <section className="rounded-lg border border-border bg-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Globe className="h-4 w-4 text-muted-foreground" />
+          <h2 className="font-medium text-foreground">Time zone</h2>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="settings-time-zone" className="text-sm text-muted-foreground">
+            Times across the app are shown and entered in this zone. Each event also keeps the zone it was entered in.
+          </Label>
+          <Select
+            value={preferences.timeZone ?? DEVICE_TIME_ZONE}
+            onValueChange={handleTimeZoneChange}
+            disabled={isLoading || updatePreferences.isPending}
+          >
+            <SelectTrigger id="settings-time-zone" className="w-full sm:w-80">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEVICE_TIME_ZONE}>This device ({deviceTimeZone()})</SelectItem>
+              {timeZones.map(({ zone, label }) => (
+                <SelectItem key={zone} value={zone}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </section>
+
+      <div className="mt-4">
+        <DocumentEncryptionSettings />
       </div>
 
       {/* TODO: Implement settings
        * - Profile information (name, email - display only, edit via secure flow)
        * - Notification preferences
-       * - Display preferences
        * - Data export request (creates async job)
        * - Account deletion request (creates async job)
        */}
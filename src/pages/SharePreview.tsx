@@ -1,10 +1,11 @@
 import { useEffect, useMemo } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { ArrowLeft, Eye, Lock, Clock, BookOpen, FileText, ClipboardList, GitBranch } from "lucide-react";
-import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { createAuditEvent } from "@/lib/audit-helpers";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { eventsDateRange, formatEventDate } from "@/lib/partial-dates";
 import { 
   getOptionalCategory,
   getDocType,
@@ -14,9 +15,13 @@ interface TimelineEvent {
   id: string;
   event_type: string;
   event_time: string;
+  event_time_precision?: string | null;
+  event_time_end?: string | null;
+  event_timezone?: string | null;
   title: string | null;
   summary: string;
   details: Record<string, unknown> | null;
+  is_amended?: boolean;
 }
 
 interface SharePreviewState {
@@ -72,27 +77,20 @@ const DOC_TYPE_LABELS: Record<string, string> = {
  * 
  * Read-only view of selected events for share preparation.
  * No data is sent or exported from this page.
+ * Amended events show their corrected (current) content and are flagged.
  * 
  * GUARDRAIL: No external sharing - preparation only
  */
 const SharePreview = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { timeZone } = useTimeZone();
   const state = location.state as SharePreviewState | null;
 
   const selectedEvents = state?.selectedEvents ?? [];
 
-  // Calculate date range
-  const dateRange = useMemo(() => {
-    if (selectedEvents.length === 0) return null;
-    const sortedDates = selectedEvents
-      .map((e) => new Date(e.event_time).getTime())
-      .sort((a, b) => a - b);
-    return {
-      start: new Date(sortedDates[0]),
-      end: new Date(sortedDates[sortedDates.length - 1]),
-    };
-  }, [selectedEvents]);
+  // Date range; approximate dates count to the end of their period
+  const dateRange = useMemo(() => eventsDateRange(selectedEvents, timeZone), [selectedEvents, timeZone]);
 
   // Audit: share_preview_viewed
   useEffect(() => {
@@ -169,15 +167,10 @@ const SharePreview = () => {
         </div>
         {dateRange && (
           <div className="p-4 bg-card rounded-lg border border-border">
-            <p className="text-sm font-medium text-foreground">
-              {format(dateRange.start, "MMM d, yyyy")}
-            </p>
-            {dateRange.start.getTime() !== dateRange.end.getTime() && (
-              <p className="text-sm text-muted-foreground">
-                to {format(dateRange.end, "MMM d, yyyy")}
-              </p>
-            )}
-            {dateRange.start.getTime() === dateRange.end.getTime() && (
+            <p className="text-sm font-medium text-foreground">{dateRange.startLabel}</p>
+            {dateRange.startLabel !== dateRange.endLabel ? (
+              <p className="text-sm text-muted-foreground">to {dateRange.endLabel}</p>
+            ) : (
               <p className="text-sm text-muted-foreground">Single day</p>
             )}
           </div>
@@ -221,6 +214,12 @@ const SharePreview = () => {
                         {DOC_TYPE_LABELS[docType] || docType}
                       </Badge>
                     )}
+                    {event.is_amended && (
+                      <Badge variant="outline" className="gap-1 bg-warning/10 text-warning-foreground">
+                        <GitBranch className="h-3 w-3" />
+                        Amended
+                      </Badge>
+                    )}
                   </div>
                   <h4 className="font-medium text-foreground">
                     {event.title || "Untitled"}
@@ -230,7 +229,7 @@ const SharePreview = () => {
                   </p>
                 </div>
                 <time className="text-xs text-muted-foreground whitespace-nowrap shrink-0">
-                  {format(new Date(event.event_time), "MMM d, yyyy")}
+                  {formatEventDate(event, timeZone)}
                 </time>
               </div>
             </div>
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Activity, BookOpen, Images, Loader2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PhotoComparisonDialog } from "@/components/symptoms/PhotoComparisonDialog";
+import { AttachmentThumbnail } from "@/components/attachments/AttachmentThumbnail";
+import { useSymptomHistory } from "@/hooks/use-symptom-history";
+import { useEventAttachments } from "@/hooks/use-event-attachments";
+import { formatDurationMinutes, symptomKey } from "@/lib/symptoms";
+import { SYMPTOM_ONSET_LABELS } from "@/lib/event-registry";
+
+/**
+ * Symptom History Page
+ *
+ * Charts severity over time for one symptom, with the individual entries
+ * listed underneath, so the history can be brought to an appointment.
+ * The selected symptom lives in the URL (?name=). Photos attached to its
+ * entries can be compared side by side.
+ *
+ * GUARDRAIL: No PHI in logs - displays only, never logs content
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const chartConfig = {
+  severity: {
+    label: "Severity",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const Symptoms = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: series, isLoading, error } = useSymptomHistory();
+
+  const requestedKey = symptomKey(searchParams.get("name") ?? "");
+  const selected = series?.find((s) => s.key === requestedKey) ?? series?.[0] ?? null;
+
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const { data: attachmentsByEvent } = useEventAttachments((selected?.entries ?? []).map((e) => e.id));
+  const photoEntries = (selected?.entries ?? []).flatMap((entry) => {
+    const attachments = attachmentsByEvent?.get(entry.id) ?? [];
+    return attachments.length > 0 ? [{ entry, attachments }] : [];
+  });
+
+  const chartData = (selected?.entries ?? []).map((entry) => ({
+    time: new Date(entry.event_time).getTime(),
+    severity: entry.symptom.severity,
+  }));
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="empty-state">
+          <Activity className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Unable to load symptoms</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!series || series.length === 0 || !selected) {
+      return (
+        <div className="empty-state">
+          <Activity className="empty-state-icon" />
+          <h3 className="empty-state-title">No symptoms recorded</h3>
+          <p className="empty-state-description">
+            Add a journal entry in the Symptom category to start a history.
+          </p>
+          <Button asChild className="mt-6">
+            <Link to="/journal">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Add Journal Entry
+            </Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <Select
+          value={selected.key}
+          onValueChange={(key) => {
+            const next = series.find((s) => s.key === key);
+            if (next) setSearchParams({ name: next.name }, { replace: true });
+          }}
+        >
+          <SelectTrigger className="w-full sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {series.map((s) => (
+              <SelectItem key={s.key} value={s.key}>
+                {s.name} ({s.entries.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {photoEntries.length > 0 && (
+          <Button variant="outline" onClick={() => setIsCompareOpen(true)}>
+            <Images className="h-4 w-4 mr-2" />
+            Compare Photos ({photoEntries.length} {photoEntries.length === 1 ? "entry" : "entries"})
+          </Button>
+        )}
+
+        <div className="rounded-lg border border-border bg-card p-4">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3">Severity over time</h3>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ left: -20, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(value: number) => format(new Date(value), "MMM d")}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis domain={[0, 10]} ticks={[0, 2, 4, 6, 8, 10]} tickLine={false} axisLine={false} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const time = payload?.[0]?.payload?.time;
+                      return typeof time === "number" ? format(new Date(time), "MMM d, yyyy h:mm a") : null;
+                    }}
+                  />
+                }
+              />
+              <Line
+                dataKey="severity"
+                type="monotone"
+                stroke="var(--color-severity)"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        <div className="space-y-2">
+          {[...selected.entries].reverse().map((entry) => (
+            <Link
+              key={entry.id}
+              to={`/event/${entry.id}`}
+              className="block rounded-lg border border-border bg-card p-4 hover:border-primary/30 transition-colors"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-foreground">Severity {entry.symptom.severity} / 10</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      entry.symptom.location,
+                      entry.symptom.onset && `${SYMPTOM_ONSET_LABELS[entry.symptom.onset]} onset`,
+                      entry.symptom.duration_minutes !== null && formatDurationMinutes(entry.symptom.duration_minutes),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                  {entry.symptom.triggers.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Triggers: {entry.symptom.triggers.join(", ")}
+                    </p>
+                  )}
+                  {attachmentsByEvent?.get(entry.id) && (
+                    <div className="flex gap-2 pt-1">
+                      {attachmentsByEvent.get(entry.id)?.map((attachment) => (
+                        <AttachmentThumbnail key={attachment.id} attachment={attachment} className="h-12 w-12" />
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <time className="text-xs text-muted-foreground whitespace-nowrap">
+                  {format(new Date(entry.event_time), "MMM d, yyyy")}
+                </time>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header">
+        <h1 className="page-title">Symptom History</h1>
+        <p className="page-description">
+          How your symptoms have changed over time
+        </p>
+      </div>
+
+      {renderContent()}
+
+      {selected && (
+        <PhotoComparisonDialog
+          key={selected.key}
+          isOpen={isCompareOpen}
+          onClose={() => setIsCompareOpen(false)}
+          symptomName={selected.name}
+          photoEntries={photoEntries}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Symptoms;
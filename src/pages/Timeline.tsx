@@ -1,24 +1,32 @@
-import { useState, useMemo, useEffect, useCallback } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { Clock, Loader2, BookOpen, FileText, Cloud } from "lucide-react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { endOfDay } from "date-fns";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { safeLog } from "@/lib/safe-logger";
-import { getAmendsEventId } from "@/lib/event-details";
 import { createAuditEvent } from "@/lib/audit-helpers";
-import { 
-  requireUserId, 
-  getOrCreateDataSource, 
-  getOrCreateDefaultConsentSnapshot 
-} from "@/lib/write-helpers";
+import { createVisitSummary, type CreateVisitSummaryInput } from "@/lib/write-helpers";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { TimelineFilters, type FilterValue } from "@/components/timeline/TimelineFilters";
+import { TimelineFilters } from "@/components/timeline/TimelineFilters";
 import { TimelineEventCard } from "@/components/timeline/TimelineEventCard";
 import { ReviewModeToggle } from "@/components/timeline/ReviewModeToggle";
 import { ReviewModeActions } from "@/components/timeline/ReviewModeActions";
 import { SelectableEventCard } from "@/components/timeline/SelectableEventCard";
 import { VisitSummaryModal } from "@/components/timeline/VisitSummaryModal";
+import { DocumentViewer } from "@/components/documents/DocumentViewer";
+import { AsOfPicker } from "@/components/timeline/AsOfPicker";
+import { useUserTags } from "@/hooks/use-event-tags";
+import { useEventAttachments } from "@/hooks/use-event-attachments";
+import {
+  useTimelineEvents,
+  fetchEventsByTag,
+  DEFAULT_TIMELINE_FILTERS,
+  TAG_SELECTION_LIMIT,
+  type TimelineEvent,
+  type TimelineQueryFilters,
+} from "@/hooks/use-timeline-events";
 
 /**
  * Timeline Page
@@ -29,96 +37,85 @@ import { VisitSummaryModal } from "@/components/timeline/VisitSummaryModal";
  * GUARDRAIL: Event-first data model
  * - All health-related information is stored as immutable events
  * - Events are displayed chronologically, never modified
+ * - Pages come from the timeline_events_page() RPC, keyset-paged on
+ *   (event_time, id); the cursor and filters apply in the database and
+ *   pages load as the user scrolls
+ * - Amended events show their latest amendment, resolved per event by
+ *   timeline_events_page() (the original rows are untouched)
+ * - Retracted events are hidden; their tombstones stay on the timeline
+ *   but cannot be selected for visit summaries or shares
+ * - "As of" mode replays the timeline as it was known on a past date:
+ *   timeline_events_page(p_as_of) ignores events, amendments,
+ *   retractions and tag actions recorded after that day
+ * - Tags are derived from append-only tag actions; review mode can
+ *   select every event carrying a tag, including ones not yet loaded
+ * - Approximate dates ("2009", "Jun 1998 – Aug 1998") are shown only as
+ *   precisely as they are known and sort by the start of their period
  * 
  * GUARDRAIL: User isolation
  * - Users can only access their own timeline events (enforced by RLS)
  */
 
-interface TimelineEvent {
-  id: string;
-  event_type: string;
-  event_time: string;
-  title: string | null;
-  summary: string;
-  details: Record<string, unknown> | null;
-  created_at: string;
-  provenance_id: string;
-  consent_snapshot_id: string;
-}
-
 const Timeline = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const [filter, setFilter] = useState<FilterValue>("all");
+  const [filters, setFilters] = useState<Omit<TimelineQueryFilters, "asOf">>(DEFAULT_TIMELINE_FILTERS);
   const [isReviewMode, setIsReviewMode] = useState(false);
-  const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set());
+  const [selection, setSelection] = useState<Map<string, TimelineEvent>>(new Map());
   const [showSummaryModal, setShowSummaryModal] = useState(false);
+  const [asOfDate, setAsOfDate] = useState<Date | null>(null);
+  const [isSelectingTag, setIsSelectingTag] = useState(false);
+  const [viewingArtifactId, setViewingArtifactId] = useState<string | null>(null);
+  const { data: userTags } = useUserTags();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Cutoff is the end of the selected day; null means the current view
+  const asOf = asOfDate ? endOfDay(asOfDate).toISOString() : null;
+  const queryFilters = useMemo(() => ({ ...filters, asOf }), [filters, asOf]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTimelineEvents(queryFilters);
+
+  const filteredEvents = useMemo(() => data?.pages.flat() ?? [], [data]);
+
+  // Photo thumbnails for the loaded journal entries
+  const journalEventIds = useMemo(
+    () => filteredEvents.filter((e) => e.event_type === "journal_entry").map((e) => e.id),
+    [filteredEvents]
+  );
+  const { data: attachmentsByEvent } = useEventAttachments(journalEventIds);
 
-  const { data: events, isLoading, error } = useQuery({
-    queryKey: ["timeline-events"],
-    queryFn: async () => {
-      safeLog.info("Fetching timeline events", { action: "timeline_fetch" });
-      
-      const { data, error } = await supabase
-        .from("timeline_events")
-        .select("id, event_type, event_time, title, summary, details, created_at, provenance_id, consent_snapshot_id")
-        .order("event_time", { ascending: false });
-      
-      if (error) {
-        safeLog.error("Failed to fetch timeline events", { 
-          action: "timeline_fetch_error",
-          errorType: error.code 
-        });
-        throw error;
-      }
-      
-      safeLog.info("Timeline events fetched", { 
-        action: "timeline_fetch_success",
-        count: data?.length ?? 0 
-      });
-      
-      return data as TimelineEvent[];
-    },
-  });
-
-  // Build a set of event IDs that have amendments
-  const amendedEventIds = useMemo(() => {
-    if (!events) return new Set<string>();
-    
-    const ids = new Set<string>();
-    for (const event of events) {
-      if (event.event_type === "event_amended") {
-        const amendsId = getAmendsEventId(event.details);
-        if (amendsId) {
-          ids.add(amendsId);
-        }
-      }
-    }
-    return ids;
-  }, [events]);
+  const hasDetailFilters = Boolean(filters.category || filters.provider || filters.tag || filters.from || filters.to);
 
-  // Filter events client-side
-  const filteredEvents = useMemo(() => {
-    if (!events) return [];
-    
-    switch (filter) {
-      case "journal":
-        return events.filter((e) => e.event_type === "journal_entry");
-      case "documents":
-        return events.filter((e) => e.event_type === "document_uploaded");
-      case "external":
-        return events.filter((e) => e.event_type === "external_event");
-      default:
-        return events;
-    }
-  }, [events, filter]);
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Retraction tombstones are not clinical content, so they are not selectable
+  const reviewableEvents = useMemo(
+    () => filteredEvents.filter((e) => e.event_type !== "event_retracted"),
+    [filteredEvents]
+  );
 
-  // Get selected events as full objects
-  const selectedEvents = useMemo(() => {
-    if (!events) return [];
-    return events.filter((e) => selectedEventIds.has(e.id));
-  }, [events, selectedEventIds]);
+  // Selected events are kept as full objects so they survive filter changes
+  const selectedEvents = useMemo(() => Array.from(selection.values()), [selection]);
 
   // Audit: review_started when entering review mode
   useEffect(() => {
@@ -127,74 +124,62 @@ const Timeline = () => {
     }
   }, [isReviewMode]);
 
+  // The historical view is read-only: no summaries or shares from the past
+  useEffect(() => {
+    if (asOf) {
+      setIsReviewMode(false);
+    }
+  }, [asOf]);
+
   // Clear selection when exiting review mode
   useEffect(() => {
     if (!isReviewMode) {
-      setSelectedEventIds(new Set());
+      setSelection(new Map());
     }
   }, [isReviewMode]);
 
   const handleSelectionChange = useCallback((eventId: string, isSelected: boolean) => {
-    setSelectedEventIds((prev) => {
-      const next = new Set(prev);
-      if (isSelected) {
-        next.add(eventId);
+    setSelection((prev) => {
+      const next = new Map(prev);
+      const event = filteredEvents.find((e) => e.id === eventId);
+      if (isSelected && event) {
+        next.set(eventId, event);
       } else {
         next.delete(eventId);
       }
       return next;
     });
-  }, []);
-
-  const handleCreateSummary = async (data: {
-    title: string;
-    summary: string;
-    label: string;
-    eventIds: string[];
-    dateRange: { start: string; end: string };
-  }) => {
+  }, [filteredEvents]);
+
+  const handleSelectTag = async (tag: string) => {
+    setIsSelectingTag(true);
+    try {
+      const events = await fetchEventsByTag(tag);
+      setSelection((prev) => {
+        const next = new Map(prev);
+        events.forEach((event) => next.set(event.id, event));
+        return next;
+      });
+      if (events.length >= TAG_SELECTION_LIMIT) {
+        toast({
+          title: "Selection limited",
+          description: `Only the ${TAG_SELECTION_LIMIT} most recent tagged events were selected.`,
+        });
+      }
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Unable to select tagged events",
+        description: "Please try again.",
+      });
+    } finally {
+      setIsSelectingTag(false);
+    }
+  };
+
+  const handleCreateSummary = async (data: CreateVisitSummaryInput) => {
     try {
-      const userId = await requireUserId();
-      const dataSourceId = await getOrCreateDataSource(userId, "manual", "User Curated");
-      const consentSnapshotId = await getOrCreateDefaultConsentSnapshot(userId);
-
-      // Create provenance
-      const { data: provenance, error: provError } = await supabase
-        .from("provenance")
-        .insert({
-          data_source_id: dataSourceId,
-          method: "manual_entry",
-        })
-        .select("id")
-        .single();
-
-      if (provError) throw provError;
-
-      // Create visit_summary event
-      const { data: newEvent, error: eventError } = await supabase
-        .from("timeline_events")
-        .insert({
-          user_id: userId,
-          event_type: "visit_summary",
-          event_time: new Date().toISOString(),
-          title: data.title,
-          summary: data.summary,
-          provenance_id: provenance.id,
-          consent_snapshot_id: consentSnapshotId,
-          details: {
-            referenced_event_ids: data.eventIds,
-            date_range_start: data.dateRange.start,
-            date_range_end: data.dateRange.end,
-            label: data.label || null,
-          },
-        })
-        .select("id")
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Audit: visit_summary_created
-      await createAuditEvent("visit_summary_created", "timeline_event", newEvent.id);
+      const eventId = await createVisitSummary(data);
 
       toast({
         title: "Visit Summary Created",
@@ -203,12 +188,13 @@ const Timeline = () => {
 
       // Refresh timeline and exit review mode
       queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+      queryClient.invalidateQueries({ queryKey: ["questions"] });
       setIsReviewMode(false);
-      setSelectedEventIds(new Set());
+      setSelection(new Map());
 
       safeLog.info("Visit summary created", {
         action: "visit_summary_created",
-        id: newEvent.id,
+        id: eventId,
         count: data.eventIds.length,
       });
     } catch (err) {
@@ -228,69 +214,8 @@ const Timeline = () => {
     navigate("/share-preview", { state: { selectedEvents } });
   };
 
-  const handleViewDocument = async (documentArtifactId: string) => {
-    try {
-      // Get current session for auth header
-      const { data: session } = await supabase.auth.getSession();
-      if (!session.session) {
-        toast({
-          variant: "destructive",
-          title: "Not authenticated",
-          description: "Please sign in to download documents.",
-        });
-        return;
-      }
-
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const downloadUrl = `${supabaseUrl}/functions/v1/documents-download?artifact_id=${encodeURIComponent(documentArtifactId)}`;
-      
-      // Use fetch to download with auth header, then trigger browser download
-      const response = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${session.session.access_token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status}`);
-      }
-
-      // Get filename from Content-Disposition header if available
-      const contentDisposition = response.headers.get("Content-Disposition");
-      let filename = "document";
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (match) {
-          filename = match[1];
-        }
-      }
-
-      // Create blob and trigger download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-
-      safeLog.info("Document downloaded", {
-        action: "timeline_document_download_success",
-        id: documentArtifactId,
-      });
-    } catch (error) {
-      safeLog.error("Failed to download document from timeline", {
-        action: "timeline_document_download_error",
-        errorType: error instanceof Error ? error.name : "unknown",
-      });
-      toast({
-        variant: "destructive",
-        title: "Unable to download document",
-        description: "Please try again.",
-      });
-    }
+  const handleViewDocument = (documentArtifactId: string) => {
+    setViewingArtifactId(documentArtifactId);
   };
 
   if (isLoading) {
@@ -325,7 +250,26 @@ const Timeline = () => {
 
   // Determine empty state based on filter
   const renderEmptyState = () => {
-    if (filter === "journal") {
+    if (hasDetailFilters) {
+      return (
+        <div className="empty-state">
+          <Clock className="empty-state-icon" />
+          <h3 className="empty-state-title">No matching events</h3>
+          <p className="empty-state-description">
+            Try widening the date range or clearing filters.
+          </p>
+          <Button
+            variant="outline"
+            className="mt-6"
+            onClick={() => setFilters({ ...DEFAULT_TIMELINE_FILTERS, type: filters.type })}
+          >
+            Clear Filters
+          </Button>
+        </div>
+      );
+    }
+
+    if (filters.type === "journal") {
       return (
         <div className="empty-state">
           <BookOpen className="empty-state-icon" />
@@ -343,7 +287,7 @@ const Timeline = () => {
       );
     }
     
-    if (filter === "documents") {
+    if (filters.type === "documents") {
       return (
         <div className="empty-state">
           <FileText className="empty-state-icon" />
@@ -361,7 +305,7 @@ const Timeline = () => {
       );
     }
 
-    if (filter === "external") {
+    if (filters.type === "external") {
       return (
         <div className="empty-state">
           <Cloud className="empty-state-icon" />
@@ -414,46 +358,60 @@ const Timeline = () => {
         </p>
       </div>
 
+      {/* As-of (bitemporal) date picker */}
+      <AsOfPicker value={asOfDate} onChange={setAsOfDate} />
+
       {/* Review mode toggle */}
-      <ReviewModeToggle 
-        isReviewMode={isReviewMode} 
-        onToggle={setIsReviewMode} 
-      />
+      {!asOf && (
+        <ReviewModeToggle 
+          isReviewMode={isReviewMode} 
+          onToggle={setIsReviewMode} 
+        />
+      )}
 
       {/* Review mode actions */}
       {isReviewMode && (
         <ReviewModeActions
-          selectedCount={selectedEventIds.size}
+          selectedCount={selection.size}
           onCreateSummary={() => setShowSummaryModal(true)}
           onPreviewShare={handlePreviewShare}
+          tags={userTags}
+          onSelectTag={handleSelectTag}
+          isSelectingTag={isSelectingTag}
         />
       )}
 
       {/* Filter controls */}
-      <TimelineFilters value={filter} onChange={setFilter} />
+      <TimelineFilters value={filters} onChange={setFilters} />
 
       {filteredEvents.length === 0 ? (
         renderEmptyState()
       ) : (
         <div className="space-y-4">
-          {filteredEvents.map((event) =>
+          {(isReviewMode ? reviewableEvents : filteredEvents).map((event) =>
             isReviewMode ? (
               <SelectableEventCard
                 key={event.id}
                 event={event}
-                isSelected={selectedEventIds.has(event.id)}
+                isSelected={selection.has(event.id)}
                 onSelectionChange={handleSelectionChange}
-                hasAmendments={amendedEventIds.has(event.id)}
+                hasAmendments={event.is_amended}
               />
             ) : (
               <TimelineEventCard
                 key={event.id}
                 event={event}
                 onViewDocument={handleViewDocument}
-                hasAmendments={amendedEventIds.has(event.id)}
+                hasAmendments={event.is_amended}
+                attachments={attachmentsByEvent?.get(event.id)}
               />
             )
           )}
+
+          {/* Infinite scroll sentinel */}
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+          </div>
         </div>
       )}
 
@@ -464,6 +422,8 @@ const Timeline = () => {
         selectedEvents={selectedEvents}
         onCreateSummary={handleCreateSummary}
       />
+
+      <DocumentViewer artifactId={viewingArtifactId} onClose={() => setViewingArtifactId(null)} />
     </div>
   );
 };
@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Archive, ArrowLeft, Flame, ListChecks, Loader2, Plus } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TrackerEntryModal } from "@/components/trackers/TrackerEntryModal";
+import { useTrackerEntries, useTrackers, type TrackerEntry } from "@/hooks/use-trackers";
+import { archiveTracker } from "@/lib/write-helpers";
+import {
+  formatTrackerValue,
+  isNumericField,
+  summarizeTrackerValues,
+  trackerStreaks,
+  type TrackerField,
+} from "@/lib/trackers";
+import { safeLog } from "@/lib/safe-logger";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Tracker Dashboard
+ *
+ * Streaks, counts and a chart per field for one tracker, with its entries
+ * listed underneath.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Entries are immutable tracker_entry events; archiving only hides the
+ *   tracker and stops new entries
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "hsl(var(--primary))",
+  },
+  count: {
+    label: "Entries",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const TrackerDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: trackers, isLoading: trackersLoading, error: trackersError } = useTrackers();
+  const { data: entries, isLoading: entriesLoading, error: entriesError } = useTrackerEntries(id);
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  const tracker = trackers?.find((t) => t.id === id) ?? null;
+  const isLoading = trackersLoading || entriesLoading;
+  const error = trackersError || entriesError;
+
+  const handleEntrySuccess = () => {
+    setIsEntryOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["tracker-entries", id] });
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    toast({
+      title: "Saved to Timeline",
+      description: "Your entry has been recorded.",
+    });
+  };
+
+  const handleArchive = async () => {
+    if (!tracker) return;
+    setIsArchiving(true);
+    try {
+      await archiveTracker(tracker.id);
+      queryClient.invalidateQueries({ queryKey: ["trackers"] });
+      toast({ title: "Tracker archived" });
+    } catch (err) {
+      safeLog.error("Failed to archive tracker", {
+        action: "tracker_archive_error",
+        errorType: err instanceof Error ? err.name : "unknown",
+      });
+      toast({ variant: "destructive", title: "Failed to archive", description: "Please try again." });
+    } finally {
+      setIsArchiving(false);
+      setIsArchiveOpen(false);
+    }
+  };
+
+  const renderStats = (list: TrackerEntry[]) => {
+    const now = new Date();
+    const times = list.map((e) => e.event_time);
+    const streaks = trackerStreaks(times, now);
+    const since = (days: number) => list.filter((e) => new Date(e.event_time) >= subDays(now, days)).length;
+
+    const stats = [
+      { label: "Current streak", value: `${streaks.current} ${streaks.current === 1 ? "day" : "days"}` },
+      { label: "Longest streak", value: `${streaks.longest} ${streaks.longest === 1 ? "day" : "days"}` },
+      { label: "Last 7 days", value: since(7) },
+      { label: "Last 30 days", value: since(30) },
+      { label: "All entries", value: list.length },
+    ];
+
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-lg border border-border bg-card p-3">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-semibold text-foreground">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderFieldChart = (field: TrackerField, list: TrackerEntry[]) => {
+    if (isNumericField(field)) {
+      const data = list.flatMap((e) => {
+        const value = e.values[field.key];
+        return typeof value === "number" ? [{ time: new Date(e.event_time).getTime(), value }] : [];
+      });
+      if (data.length === 0) return null;
+
+      return (
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <LineChart data={data} margin={{ left: -12, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => format(new Date(value), "MMM d")}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              domain={field.type === "scale" ? [field.min, field.max] : ["auto", "auto"]}
+              allowDecimals={field.type === "number"}
+              tickLine={false}
+              axisLine={false}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const time = payload?.[0]?.payload?.time;
+                    return typeof time === "number" ? format(new Date(time), "MMM d, yyyy h:mm a") : null;
+                  }}
+                  formatter={(value) => (
+                    <span className="font-mono font-medium">{formatTrackerValue(field, Number(value))}</span>
+                  )}
+                />
+              }
+            />
+            <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ChartContainer>
+      );
+    }
+
+    // Yes/No and choice fields: how often each answer was given
+    const answers = field.type === "boolean" ? ["Yes", "No"] : field.type === "choice" ? field.options : [];
+    const data = answers.map((answer) => ({
+      answer,
+      count: list.filter((e) => formatTrackerValue(field, e.values[field.key]) === answer).length,
+    }));
+    if (data.every((d) => d.count === 0)) return null;
+
+    return (
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <BarChart data={data} margin={{ left: -12, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="answer" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error || !tracker) {
+      return (
+        <div className="empty-state">
+          <ListChecks className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">{error ? "Unable to load tracker" : "Tracker not found"}</h3>
+          <p className="empty-state-description">
+            {error ? "Please try again." : "It may belong to a different account."}
+          </p>
+        </div>
+      );
+    }
+
+    const list = entries ?? [];
+    const isArchived = tracker.archived_at !== null;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="page-title">{tracker.name}</h1>
+            {tracker.description && <p className="page-description">{tracker.description}</p>}
+            {tracker.archived_at && (
+              <p className="text-sm text-muted-foreground">
+                Archived {format(new Date(tracker.archived_at), "MMM d, yyyy")}
+              </p>
+            )}
+          </div>
+          {!isArchived && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsArchiveOpen(true)}>
+                <Archive className="h-4 w-4 mr-2" />
+                Archive
+              </Button>
+              <Button onClick={() => setIsEntryOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Entry
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {list.length === 0 ? (
+          <div className="empty-state">
+            <Flame className="empty-state-icon" />
+            <h3 className="empty-state-title">No entries yet</h3>
+            <p className="empty-state-description">Add your first entry to start a streak.</p>
+          </div>
+        ) : (
+          <>
+            {renderStats(list)}
+
+            {tracker.fields.map((field) => {
+              const chart = renderFieldChart(field, list);
+              return (
+                chart && (
+                  <div key={field.key} className="rounded-lg border border-border bg-card p-4">
+                    <h3 className="text-sm font-medium text-muted-foreground mb-3">{field.label}</h3>
+                    {chart}
+                  </div>
+                )
+              );
+            })}
+
+            <div className="space-y-2">
+              {[...list].reverse().map((entry) => (
+                <Link
+                  key={entry.id}
+                  to={`/event/${entry.id}`}
+                  className="block rounded-lg border border-border bg-card p-4 hover:border-primary/30 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm text-foreground">
+                        {summarizeTrackerValues(tracker.fields, entry.values) || "No values recorded"}
+                      </p>
+                      {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+                    </div>
+                    <time className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(new Date(entry.event_time), "MMM d, yyyy h:mm a")}
+                    </time>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+
+        {!isArchived && (
+          <TrackerEntryModal
+            isOpen={isEntryOpen}
+            onClose={() => setIsEntryOpen(false)}
+            onSuccess={handleEntrySuccess}
+            tracker={tracker}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="mb-6">
+        <Button variant="ghost" onClick={() => navigate("/trackers")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Trackers
+        </Button>
+      </div>
+
+      {renderContent()}
+
+      <AlertDialog open={isArchiveOpen} onOpenChange={setIsArchiveOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive this tracker?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will stop taking new entries. Past entries stay on your timeline.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isArchiving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleArchive} disabled={isArchiving}>
+              {isArchiving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Archive
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrackerDetails;
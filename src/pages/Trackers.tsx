@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronRight, ListChecks, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TrackerDefinitionModal } from "@/components/trackers/TrackerDefinitionModal";
+import { useTrackers, type Tracker } from "@/hooks/use-trackers";
+import { TRACKER_FIELD_TYPE_LABELS } from "@/lib/trackers";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Trackers Page
+ *
+ * Lists the user's custom trackers and creates new ones. Each tracker has
+ * its own dashboard at /trackers/:id.
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const Trackers = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: trackers, isLoading, error } = useTrackers();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const active = (trackers ?? []).filter((t) => t.archived_at === null);
+  const archived = (trackers ?? []).filter((t) => t.archived_at !== null);
+
+  const handleCreated = (trackerId: string) => {
+    setIsCreateOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["trackers"] });
+    toast({ title: "Tracker created" });
+    navigate(`/trackers/${trackerId}`);
+  };
+
+  const renderTracker = (tracker: Tracker) => (
+    <Link
+      key={tracker.id}
+      to={`/trackers/${tracker.id}`}
+      className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 shadow-sm hover:border-primary/30 transition-colors"
+    >
+      <div className="min-w-0 space-y-1">
+        <h3 className="font-medium text-foreground">{tracker.name}</h3>
+        {tracker.description && <p className="text-sm text-muted-foreground">{tracker.description}</p>}
+        <p className="text-xs text-muted-foreground">
+          {tracker.fields.map((f) => `${f.label} (${TRACKER_FIELD_TYPE_LABELS[f.type].toLowerCase()})`).join(" · ")}
+        </p>
+        {tracker.archived_at && (
+          <p className="text-xs text-muted-foreground">
+            Archived {format(new Date(tracker.archived_at), "MMM d, yyyy")}
+          </p>
+        )}
+      </div>
+      <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+    </Link>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="empty-state">
+          <ListChecks className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Unable to load trackers</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!trackers || trackers.length === 0) {
+      return (
+        <div className="empty-state">
+          <ListChecks className="empty-state-icon" />
+          <h3 className="empty-state-title">No trackers yet</h3>
+          <p className="empty-state-description">
+            Create a tracker for anything you want to follow, like migraine days, sleep hours or pain flares.
+          </p>
+          <Button className="mt-6" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Tracker
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <section className="space-y-3">{active.map(renderTracker)}</section>
+
+        {archived.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Archived ({archived.length})</h2>
+            {archived.map(renderTracker)}
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header flex items-start justify-between gap-4">
+        <div>
+          <h1 className="page-title">Trackers</h1>
+          <p className="page-description">Your own trackers, with entries saved to your timeline</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New
+        </Button>
+      </div>
+
+      {renderContent()}
+
+      <TrackerDefinitionModal
+        isOpen={isCreateOpen}
+        onClose={() => setIsCreateOpen(false)}
+        onSuccess={handleCreated}
+      />
+    </div>
+  );
+};
+
+export default Trackers;
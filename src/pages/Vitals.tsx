@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Eye, HeartPulse, Loader2, Plus, Target } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { VitalEntryModal } from "@/components/vitals/VitalEntryModal";
+import { VitalTrendChart } from "@/components/vitals/VitalTrendChart";
+import { TargetRangeDialog } from "@/components/vitals/TargetRangeDialog";
+import { useVitalReadings, type VitalReading } from "@/hooks/use-vitals";
+import {
+  DEFAULT_USER_PREFERENCES,
+  useUpdateUserPreferences,
+  useUserPreferences,
+  type VitalTarget,
+} from "@/hooks/use-user-preferences";
+import { VITAL_MEASURES, type VitalMeasure } from "@/lib/event-registry";
+import {
+  VITAL_MEASURE_LABELS,
+  VITAL_UNIT_LABELS,
+  convertVitalValue,
+  formatVitalValue,
+  isVitalUnit,
+  unitFor,
+  type UnitSystem,
+} from "@/lib/vitals";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Vitals Page
+ *
+ * Trend charts of vital sign readings, shown in the user's preferred
+ * unit system with optional target ranges shaded.
+ *
+ * GUARDRAIL: Event-first data model
+ * - Each reading is an immutable vital_sign event
+ * - Unit conversion happens at display time only
+ *
+ * GUARDRAIL: No PHI in logs
+ * GUARDRAIL: User isolation via RLS
+ */
+
+const Vitals = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: readings, isLoading, error } = useVitalReadings();
+  const { data: preferences = DEFAULT_USER_PREFERENCES } = useUserPreferences();
+  const updatePreferences = useUpdateUserPreferences();
+  const [entryMeasure, setEntryMeasure] = useState<VitalMeasure | null>(null);
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const [targetMeasure, setTargetMeasure] = useState<VitalMeasure | null>(null);
+
+  const unitSystem = preferences.unitSystem;
+
+  const openEntry = (measure: VitalMeasure | null) => {
+    setEntryMeasure(measure);
+    setIsEntryOpen(true);
+  };
+
+  const handleEntrySuccess = () => {
+    setIsEntryOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["vital-readings"] });
+    queryClient.invalidateQueries({ queryKey: ["timeline-events"] });
+    toast({
+      title: "Saved to Timeline",
+      description: "Your reading has been recorded.",
+    });
+  };
+
+  const handleUnitSystemChange = (value: string) => {
+    if (value !== "metric" && value !== "imperial") return;
+    updatePreferences.mutate(
+      { ...preferences, unitSystem: value },
+      {
+        onError: () =>
+          toast({ variant: "destructive", title: "Failed to save", description: "Please try again." }),
+      }
+    );
+  };
+
+  const handleTargetSave = (targets: Record<string, VitalTarget>) => {
+    updatePreferences.mutate(
+      { ...preferences, vitalTargets: { ...preferences.vitalTargets, ...targets } },
+      {
+        onSuccess: () => {
+          setTargetMeasure(null);
+          toast({ title: "Target saved" });
+        },
+        onError: () =>
+          toast({ variant: "destructive", title: "Failed to save", description: "Please try again." }),
+      }
+    );
+  };
+
+  const renderLatest = (measure: VitalMeasure, latest: VitalReading, system: UnitSystem) => {
+    const unit = unitFor(measure, system);
+    const from = latest.reading.unit;
+    if (!isVitalUnit(measure, from)) return null;
+
+    const value = formatVitalValue(convertVitalValue(latest.reading.value, from, unit), unit);
+    const diastolic =
+      latest.reading.diastolic !== null
+        ? `/${formatVitalValue(convertVitalValue(latest.reading.diastolic, from, unit), unit)}`
+        : "";
+
+    return (
+      <p className="text-2xl font-semibold text-foreground">
+        {value}
+        {diastolic} <span className="text-sm font-normal text-muted-foreground">{VITAL_UNIT_LABELS[unit]}</span>
+      </p>
+    );
+  };
+
+  const renderMeasure = (measure: VitalMeasure) => {
+    const measureReadings = (readings ?? []).filter((r) => r.reading.measure === measure);
+    if (measureReadings.length === 0) return null;
+
+    const latest = measureReadings[measureReadings.length - 1];
+    const unit = unitFor(measure, unitSystem);
+
+    return (
+      <section key={measure} className="rounded-lg border border-border bg-card p-4 shadow-sm space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="font-medium text-foreground">{VITAL_MEASURE_LABELS[measure]}</h2>
+            {renderLatest(measure, latest, unitSystem)}
+            <p className="text-xs text-muted-foreground">
+              Latest {format(new Date(latest.event_time), "MMM d, yyyy h:mm a")} · {measureReadings.length}{" "}
+              {measureReadings.length === 1 ? "reading" : "readings"}
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setTargetMeasure(measure)}>
+              <Target className="h-3 w-3 mr-1" />
+              Target
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openEntry(measure)}>
+              <Plus className="h-3 w-3 mr-1" />
+              Add
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link to={`/event/${latest.id}`}>
+                <Eye className="h-3 w-3 mr-1" />
+                Latest
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <VitalTrendChart
+          measure={measure}
+          readings={measureReadings}
+          unit={unit}
+          targets={preferences.vitalTargets}
+        />
+      </section>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="empty-state">
+          <HeartPulse className="empty-state-icon text-destructive" />
+          <h3 className="empty-state-title">Unable to load vitals</h3>
+          <p className="empty-state-description">Please try again.</p>
+        </div>
+      );
+    }
+
+    if (!readings || readings.length === 0) {
+      return (
+        <div className="empty-state">
+          <HeartPulse className="empty-state-icon" />
+          <h3 className="empty-state-title">No readings yet</h3>
+          <p className="empty-state-description">
+            Record blood pressure, heart rate, weight and more to see trends over time.
+          </p>
+        </div>
+      );
+    }
+
+    return <div className="space-y-4">{VITAL_MEASURES.map(renderMeasure)}</div>;
+  };
+
+  return (
+    <div className="page-container animate-fade-in">
+      <div className="page-header flex items-start justify-between gap-4">
+        <div>
+          <h1 className="page-title">Vitals</h1>
+          <p className="page-description">Readings over time, in your preferred units</p>
+        </div>
+        <Button onClick={() => openEntry(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Record
+        </Button>
+      </div>
+
+      <div className="mb-4 flex items-center gap-3">
+        <span className="text-sm text-muted-foreground">Units</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={unitSystem}
+          onValueChange={handleUnitSystemChange}
+          disabled={updatePreferences.isPending}
+        >
+          <ToggleGroupItem value="metric">Metric</ToggleGroupItem>
+          <ToggleGroupItem value="imperial">Imperial</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {renderContent()}
+
+      <VitalEntryModal
+        isOpen={isEntryOpen}
+        onClose={() => setIsEntryOpen(false)}
+        onSuccess={handleEntrySuccess}
+        unitSystem={unitSystem}
+        initialMeasure={entryMeasure ?? undefined}
+      />
+
+      {targetMeasure && (
+        <TargetRangeDialog
+          isOpen
+          onClose={() => setTargetMeasure(null)}
+          onSave={handleTargetSave}
+          isSaving={updatePreferences.isPending}
+          measure={targetMeasure}
+          unit={unitFor(targetMeasure, unitSystem)}
+          targets={preferences.vitalTargets}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Vitals;
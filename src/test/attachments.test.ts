@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { RecordTimelineEventInput } from "@/lib/write-helpers";
+
+const mocks = vi.hoisted(() => ({
+  remove: vi.fn(),
+  lookup: vi.fn(),
+  eq: vi.fn(),
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    storage: { from: () => ({ remove: mocks.remove }) },
+    from: () => ({
+      select: () => ({
+        eq: (column: string, value: string) => {
+          mocks.eq(column, value);
+          return { maybeSingle: mocks.lookup };
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/lib/documents", () => ({
+  uploadDocumentFile: vi.fn(),
+  fetchDocument: vi.fn(),
+}));
+
+vi.mock("@/lib/write-helpers", () => ({
+  requireUserId: async () => "11111111-1111-4111-8111-111111111111",
+  recordTimelineEvent: vi.fn(),
+}));
+
+import { uploadDocumentFile } from "@/lib/documents";
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import { EventDetailsValidationError } from "@/lib/event-registry";
+import { DocumentsLockedError } from "@/lib/document-encryption";
+import { attachmentFileError, recordTimelineEventWithAttachments, uploadAttachments } from "@/lib/attachments";
+
+const upload = vi.mocked(uploadDocumentFile);
+const record = vi.mocked(recordTimelineEvent);
+
+const RECORDED = { eventId: "event-1", provenanceId: "provenance-1", documentArtifactId: null };
+
+function entry(): RecordTimelineEventInput {
+  return {
+    source: { type: "manual", name: "User Journal" },
+    provenance: { method: "manual_entry" },
+    eventType: "journal_entry",
+    eventTime: "2024-06-03T12:00:00.000Z",
+    summary: "Rash on left arm",
+    details: { text: "Rash on left arm", category: "symptom" },
+    auditAction: "journal_created",
+  };
+}
+
+const photos = () => [
+  new File(["a"], "rash-monday.jpg", { type: "image/jpeg" }),
+  new File(["b"], "rash-tuesday.jpg", { type: "image/jpeg" }),
+];
+
+function removedPaths(): string[] {
+  return mocks.remove.mock.calls.flatMap(([paths]) => paths);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  let n = 0;
+  upload.mockImplementation(async (userId) => ({ storagePath: `${userId}/2024/06/photo-${++n}`, encryption: null }));
+  mocks.remove.mockResolvedValue({ error: null });
+  mocks.lookup.mockResolvedValue({ data: null, error: null });
+});
+
+describe("attachmentFileError", () => {
+  it("accepts photos under the size limit only", () => {
+    expect(attachmentFileError(new File(["x"], "a.png", { type: "image/png" }))).toBeNull();
+    expect(attachmentFileError(new File(["x"], "a.pdf", { type: "application/pdf" }))).toBe(
+      "Photos must be PNG, JPG, HEIC or WebP"
+    );
+    const large = new File(["x"], "a.jpg", { type: "image/jpeg" });
+    Object.defineProperty(large, "size", { value: 21 * 1024 * 1024 });
+    expect(attachmentFileError(large)).toBe("Photos must be under 20MB");
+  });
+});
+
+describe("uploadAttachments", () => {
+  it("records each photo's key and IV when encrypted", async () => {
+    upload.mockResolvedValueOnce({ storagePath: "u/2024/06/p1", encryption: { keyId: "key-1", iv: "iv-1" } });
+
+    const [attachment] = await uploadAttachments("u", [photos()[0]]);
+    expect(attachment).toMatchObject({ title: "rash-monday", storagePath: "u/2024/06/p1" });
+    expect(attachment.encryption).toEqual({ keyId: "key-1", iv: "iv-1" });
+  });
+
+  it("removes the photos already uploaded when one fails", async () => {
+    upload.mockResolvedValueOnce({ storagePath: "u/2024/06/p1", encryption: null });
+    upload.mockRejectedValueOnce(new DocumentsLockedError());
+
+    await expect(uploadAttachments("u", photos())).rejects.toBeInstanceOf(DocumentsLockedError);
+    expect(removedPaths()).toEqual(["u/2024/06/p1"]);
+  });
+});
+
+describe("recordTimelineEventWithAttachments", () => {
+  it("records the event with its photos", async () => {
+    record.mockResolvedValueOnce(RECORDED);
+
+    expect(await recordTimelineEventWithAttachments(entry(), photos())).toEqual(RECORDED);
+    expect(record.mock.calls[0][0].attachments).toHaveLength(2);
+    expect(mocks.remove).not.toHaveBeenCalled();
+  });
+
+  it("removes the photos when the server rejects the event", async () => {
+    const rejection = { code: "22023", message: "Invalid details for journal_entry" };
+    record.mockRejectedValueOnce(rejection);
+
+    await expect(recordTimelineEventWithAttachments(entry(), photos())).rejects.toBe(rejection);
+    expect(mocks.lookup).not.toHaveBeenCalled();
+    expect(removedPaths()).toHaveLength(2);
+  });
+
+  it("removes the photos when the details fail validation", async () => {
+    record.mockRejectedValueOnce(new EventDetailsValidationError("journal_entry", ["text"]));
+
+    await expect(recordTimelineEventWithAttachments(entry(), photos())).rejects.toBeInstanceOf(
+      EventDetailsValidationError
+    );
+    expect(removedPaths()).toHaveLength(2);
+  });
+
+  it("returns the event and keeps the photos when it was written despite a network error", async () => {
+    record.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    mocks.lookup.mockResolvedValueOnce({ data: { id: "event-1", provenance_id: "provenance-1" }, error: null });
+
+    expect(await recordTimelineEventWithAttachments(entry(), photos())).toEqual(RECORDED);
+    expect(mocks.remove).not.toHaveBeenCalled();
+  });
+
+  it("looks the event up by the key it was sent with", async () => {
+    record.mockRejectedValueOnce({ code: "", message: "Failed to fetch" });
+
+    await expect(recordTimelineEventWithAttachments({ ...entry(), idempotencyKey: "key-1" }, photos())).rejects.toEqual({
+      code: "",
+      message: "Failed to fetch",
+    });
+    expect(record.mock.calls[0][0].idempotencyKey).toBe("key-1");
+    expect(mocks.eq).toHaveBeenCalledWith("idempotency_key", "key-1");
+  });
+
+  it("removes the photos when a network error left no event behind", async () => {
+    const error = new TypeError("Failed to fetch");
+    record.mockRejectedValueOnce(error);
+
+    await expect(recordTimelineEventWithAttachments(entry(), photos())).rejects.toBe(error);
+    expect(removedPaths()).toHaveLength(2);
+  });
+
+  it("keeps the photos when it can't tell whether the event was written", async () => {
+    const error = new TypeError("Failed to fetch");
+    record.mockRejectedValueOnce(error);
+    mocks.lookup.mockResolvedValueOnce({ data: null, error: { code: "", message: "TypeError: Failed to fetch" } });
+
+    await expect(recordTimelineEventWithAttachments(entry(), photos())).rejects.toBe(error);
+    expect(mocks.remove).not.toHaveBeenCalled();
+  });
+});
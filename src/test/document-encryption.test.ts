@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import { Blob as NodeBlob } from "node:buffer";
+
+interface KeyRow {
+  id: string;
+  user_id: string;
+  status: "active" | "retired";
+  created_at: string;
+  [column: string]: unknown;
+}
+
+const state = vi.hoisted(() => ({ keys: [] as KeyRow[] }));
+
+/** Just enough of the user_encryption_keys table for the module under test */
+vi.mock("@/integrations/supabase/client", () => {
+  const newRow = (columns: Record<string, unknown>): KeyRow => ({
+    id: crypto.randomUUID(),
+    user_id: "11111111-1111-4111-8111-111111111111",
+    status: "active",
+    created_at: new Date(Date.now() + state.keys.length).toISOString(),
+    ...columns,
+  });
+
+  const table = () => {
+    const filters: [string, unknown][] = [];
+    let patch: Record<string, unknown> | null = null;
+    let inserted: KeyRow | null = null;
+    const rows = () => state.keys.filter((row) => filters.every(([column, value]) => row[column] === value));
+    const result = () => {
+      if (patch) rows().forEach((row) => Object.assign(row, patch));
+      return { data: inserted ?? rows(), error: null };
+    };
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      insert: (columns: Record<string, unknown>) => {
+        inserted = newRow(columns);
+        state.keys.push(inserted);
+        return builder;
+      },
+      update: (columns: Record<string, unknown>) => {
+        patch = columns;
+        return builder;
+      },
+      single: async () => ({ data: inserted, error: null }),
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve(result()),
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      from: () => table(),
+      rpc: async (_name: string, { p_new_key }: { p_new_key: Record<string, unknown> }) => {
+        state.keys.forEach((row) => (row.status = "retired"));
+        const row = newRow(p_new_key);
+        state.keys.push(row);
+        return { data: row.id, error: null };
+      },
+    },
+  };
+});
+
+vi.mock("@/lib/audit-helpers", () => ({ createAuditEvent: async () => undefined }));
+vi.mock("@/lib/write-helpers", () => ({ requireUserId: async () => "11111111-1111-4111-8111-111111111111" }));
+
+import {
+  DocumentsLockedError,
+  decryptDocumentBlob,
+  enableDocumentEncryption,
+  encryptDocumentFile,
+  isDocumentKeyUnlocked,
+  lockDocumentKeys,
+  recoverDocumentKeys,
+  rotateDocumentKey,
+  unlockDocumentKeys,
+} from "@/lib/document-encryption";
+
+const PASSPHRASE = "correct horse battery";
+const CONTENT = "%PDF-1.7 lab result";
+
+async function text(blob: Blob): Promise<string> {
+  return new TextDecoder().decode(await blob.arrayBuffer());
+}
+
+function activeKey(): KeyRow {
+  return state.keys.find((key) => key.status === "active") as KeyRow;
+}
+
+// jsdom's Blob cannot be read back; files in the browser can
+beforeAll(() => {
+  vi.stubGlobal("Blob", NodeBlob);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  state.keys = [];
+  lockDocumentKeys();
+});
+
+// Every wrap and unwrap runs the full PBKDF2 key derivation
+describe("document-encryption", { timeout: 60_000 }, () => {
+  it("leaves files as they are until encryption is turned on", async () => {
+    expect(await encryptDocumentFile(new Blob([CONTENT]))).toBeNull();
+  });
+
+  it("encrypts and decrypts files with the active key", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const encrypted = await encryptDocumentFile(new Blob([CONTENT]));
+
+    expect(encrypted?.keyId).toBe(activeKey().id);
+    expect(encrypted?.blob.type).toBe("application/octet-stream");
+    expect(await text(encrypted!.blob)).not.toContain("lab result");
+
+    const decrypted = await decryptDocumentBlob(encrypted!.blob, encrypted!.keyId, encrypted!.iv, "application/pdf");
+    expect(decrypted.type).toBe("application/pdf");
+    expect(await text(decrypted)).toBe(CONTENT);
+  });
+
+  it("uses a fresh IV for every file", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const first = await encryptDocumentFile(new Blob([CONTENT]));
+    const second = await encryptDocumentFile(new Blob([CONTENT]));
+    expect(first?.iv).not.toBe(second?.iv);
+  });
+
+  it("stores only wrapped keys", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const stored = JSON.stringify(state.keys);
+    expect(stored).not.toContain(PASSPHRASE);
+    expect(activeKey().wrapped_key).not.toBe(activeKey().recovery_wrapped_key);
+  });
+
+  it("unwraps the key with the passphrase and refuses a wrong one", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const encrypted = await encryptDocumentFile(new Blob([CONTENT]));
+    lockDocumentKeys();
+
+    await expect(encryptDocumentFile(new Blob([CONTENT]))).rejects.toBeInstanceOf(DocumentsLockedError);
+    await expect(
+      decryptDocumentBlob(encrypted!.blob, encrypted!.keyId, encrypted!.iv, "application/pdf")
+    ).rejects.toBeInstanceOf(DocumentsLockedError);
+
+    expect(await unlockDocumentKeys("wrong passphrase!")).toBe(false);
+    expect(isDocumentKeyUnlocked(encrypted!.keyId)).toBe(false);
+
+    expect(await unlockDocumentKeys(PASSPHRASE)).toBe(true);
+    const decrypted = await decryptDocumentBlob(encrypted!.blob, encrypted!.keyId, encrypted!.iv, "application/pdf");
+    expect(await text(decrypted)).toBe(CONTENT);
+  });
+
+  it("rejects ciphertext that was tampered with", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const encrypted = await encryptDocumentFile(new Blob([CONTENT]));
+    const bytes = new Uint8Array(await encrypted!.blob.arrayBuffer());
+    bytes[0] ^= 1;
+
+    await expect(
+      decryptDocumentBlob(new Blob([bytes]), encrypted!.keyId, encrypted!.iv, "application/pdf")
+    ).rejects.toThrow();
+  });
+
+  it("recovers with the recovery code, however it is typed, and sets a new passphrase", async () => {
+    const recoveryCode = await enableDocumentEncryption(PASSPHRASE);
+    expect(recoveryCode).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){4}[0-9A-HJKMNP-TV-Z]{4}$/);
+    lockDocumentKeys();
+
+    expect(await recoverDocumentKeys("0000-0000-0000-0000-0000", "new passphrase 123")).toBe(false);
+
+    const typed = recoveryCode.toLowerCase().replace(/-/g, " ").replace(/0/g, "o").replace(/1/g, "l");
+    expect(await recoverDocumentKeys(typed, "new passphrase 123")).toBe(true);
+
+    lockDocumentKeys();
+    expect(await unlockDocumentKeys(PASSPHRASE)).toBe(false);
+    expect(await unlockDocumentKeys("new passphrase 123")).toBe(true);
+  });
+
+  it("keeps files on a rotated-out key readable after rotation", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const before = await encryptDocumentFile(new Blob(["before rotation"]));
+
+    await rotateDocumentKey(PASSPHRASE);
+    const after = await encryptDocumentFile(new Blob(["after rotation"]));
+
+    expect(after?.keyId).toBe(activeKey().id);
+    expect(after?.keyId).not.toBe(before?.keyId);
+
+    lockDocumentKeys();
+    expect(await unlockDocumentKeys(PASSPHRASE)).toBe(true);
+    expect(await text(await decryptDocumentBlob(before!.blob, before!.keyId, before!.iv, "text/plain"))).toBe(
+      "before rotation"
+    );
+    expect(await text(await decryptDocumentBlob(after!.blob, after!.keyId, after!.iv, "text/plain"))).toBe(
+      "after rotation"
+    );
+  });
+
+  it("does not decrypt a file with another key", async () => {
+    await enableDocumentEncryption(PASSPHRASE);
+    const before = await encryptDocumentFile(new Blob([CONTENT]));
+    await rotateDocumentKey(PASSPHRASE);
+
+    await expect(decryptDocumentBlob(before!.blob, activeKey().id, before!.iv, "application/pdf")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { isProcessingClaimExpired } from "@/lib/document-processing";
+
+describe("isProcessingClaimExpired", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps a running job's claim for the lease", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-06-03T12:00:00.000Z"));
+
+    expect(isProcessingClaimExpired("2024-06-03T11:59:00.000Z")).toBe(false);
+    expect(isProcessingClaimExpired("2024-06-03T11:50:00.000Z")).toBe(false);
+  });
+
+  it("expires a claim older than the lease", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-06-03T12:00:00.000Z"));
+
+    expect(isProcessingClaimExpired("2024-06-03T11:49:59.000Z")).toBe(true);
+  });
+
+  it("treats running jobs claimed before leases existed as expired", () => {
+    expect(isProcessingClaimExpired(null)).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { documentStoragePath } from "@/lib/documents";
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("documentStoragePath", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("puts files in the user's folder by year and month", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 15));
+
+    expect(documentStoragePath(USER_ID)).toMatch(
+      new RegExp(`^${USER_ID}/2024/03/[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$`)
+    );
+  });
+
+  it("never contains a filename, so paths can be kept in job payloads", () => {
+    const path = documentStoragePath(USER_ID);
+    expect(path.split("/")).toHaveLength(4);
+    expect(path).not.toMatch(/\.[a-z]+$/i);
+  });
+
+  it("gives every file its own path", () => {
+    expect(documentStoragePath(USER_ID)).not.toBe(documentStoragePath(USER_ID));
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RecordTimelineEventInput } from "@/lib/write-helpers";
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+const state = vi.hoisted(() => ({
+  outbox: new Map<string, unknown>(),
+  // Events the server has written, by idempotency key
+  server: new Map<string, string>(),
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: "11111111-1111-4111-8111-111111111111" } } } }),
+    },
+  },
+}));
+
+vi.mock("@/lib/offline-store", () => ({
+  putRecord: async (_store: string, record: { idempotencyKey: string }) => {
+    state.outbox.set(record.idempotencyKey, structuredClone(record));
+  },
+  deleteRecord: async (_store: string, key: string) => {
+    state.outbox.delete(key);
+  },
+  getRecordsByUser: async (_store: string, userId: string) =>
+    [...state.outbox.values()].filter((record) => (record as { userId: string }).userId === userId),
+}));
+
+vi.mock("@/lib/write-helpers", () => ({
+  requireUserId: async () => "11111111-1111-4111-8111-111111111111",
+  recordTimelineEvent: vi.fn(),
+}));
+
+import { recordTimelineEvent } from "@/lib/write-helpers";
+import {
+  discardRejectedSubmissions,
+  getOutboxStatus,
+  isNetworkError,
+  replayOutbox,
+  submitTimelineEvent,
+  type QueuedSubmission,
+} from "@/lib/offline-queue";
+
+const record = vi.mocked(recordTimelineEvent);
+
+/** The server's side of record_timeline_event: a key it has seen returns the existing event */
+async function serverRecord(input: RecordTimelineEventInput) {
+  const key = input.idempotencyKey as string;
+  if (!state.server.has(key)) state.server.set(key, `event-${state.server.size + 1}`);
+  return { eventId: state.server.get(key) as string, provenanceId: "provenance", documentArtifactId: null };
+}
+
+const networkError = () => new TypeError("Failed to fetch");
+const rejection = () => ({ code: "22023", message: "Invalid details for journal_entry" });
+
+function entry(text = "Headache after lunch"): RecordTimelineEventInput {
+  return {
+    source: { type: "manual", name: "User Journal" },
+    provenance: { method: "manual_entry" },
+    eventType: "journal_entry",
+    eventTime: "2024-06-03T12:00:00.000Z",
+    summary: text,
+    details: { text, category: "symptom" },
+    auditAction: "journal_created",
+  };
+}
+
+function queued(key: string, queuedAt: string, overrides: Partial<QueuedSubmission> = {}): QueuedSubmission {
+  return {
+    idempotencyKey: key,
+    userId: USER_ID,
+    input: { ...entry(key), idempotencyKey: key },
+    queuedAt,
+    attempts: 0,
+    rejected: false,
+    ...overrides,
+  };
+}
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, "onLine", "get").mockReturnValue(online);
+}
+
+beforeEach(() => {
+  state.outbox.clear();
+  state.server.clear();
+  record.mockReset();
+  record.mockImplementation(serverRecord);
+  setOnline(true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("isNetworkError", () => {
+  it("treats requests that got no response as network errors", () => {
+    expect(isNetworkError(networkError())).toBe(true);
+    expect(isNetworkError({ code: "", message: "TypeError: Failed to fetch" })).toBe(true);
+    expect(isNetworkError({ code: "", message: "Load failed" })).toBe(true);
+  });
+
+  it("does not treat server responses as network errors", () => {
+    expect(isNetworkError(rejection())).toBe(false);
+    expect(isNetworkError({ code: "23505", message: "Failed to fetch" })).toBe(false);
+    expect(isNetworkError(new Error("Something else"))).toBe(false);
+  });
+
+  it("treats every error as a network error while offline", () => {
+    setOnline(false);
+    expect(isNetworkError(rejection())).toBe(true);
+  });
+});
+
+describe("submitTimelineEvent", () => {
+  it("sends directly when online, with an idempotency key", async () => {
+    const result = await submitTimelineEvent(entry());
+
+    expect(result).toEqual({ status: "sent", eventId: "event-1" });
+    expect(record.mock.calls[0][0].idempotencyKey).toEqual(expect.any(String));
+    expect(state.outbox.size).toBe(0);
+  });
+
+  it("queues without sending while offline", async () => {
+    setOnline(false);
+
+    expect(await submitTimelineEvent(entry())).toEqual({ status: "queued" });
+    expect(record).not.toHaveBeenCalled();
+    setOnline(true);
+    expect(await getOutboxStatus()).toEqual({ pending: 1, rejected: 0 });
+  });
+
+  it("rethrows server rejections without queueing", async () => {
+    record.mockRejectedValueOnce(rejection());
+
+    await expect(submitTimelineEvent(entry())).rejects.toEqual(rejection());
+    expect(state.outbox.size).toBe(0);
+  });
+
+  it("refuses submissions with files", async () => {
+    const withDocument = {
+      ...entry(),
+      document: { title: "Lab", docType: "lab_result", occurredAt: "2024-06-03", storagePath: "p" },
+    } as RecordTimelineEventInput;
+    await expect(submitTimelineEvent(withDocument)).rejects.toThrow("Document uploads cannot be queued");
+  });
+
+  it("writes an event once when the response to a delivered request is lost", async () => {
+    // The server writes the event, then the connection drops before the response arrives
+    record.mockImplementationOnce(async (input) => {
+      await serverRecord(input);
+      throw networkError();
+    });
+
+    expect(await submitTimelineEvent(entry())).toEqual({ status: "queued" });
+    const [item] = state.outbox.values() as IterableIterator<QueuedSubmission>;
+
+    expect(await replayOutbox()).toBe(1);
+    expect(record.mock.calls[1][0].idempotencyKey).toBe(item.idempotencyKey);
+    expect(state.server.size).toBe(1);
+    expect(state.outbox.size).toBe(0);
+  });
+});
+
+describe("replayOutbox", () => {
+  it("sends queued submissions oldest first with their original keys", async () => {
+    state.outbox.set("b", queued("b", "2024-06-03T12:00:02.000Z"));
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z"));
+
+    expect(await replayOutbox()).toBe(2);
+    expect(record.mock.calls.map(([input]) => input.idempotencyKey)).toEqual(["a", "b"]);
+    expect(state.outbox.size).toBe(0);
+  });
+
+  it("stops at the first network error and keeps the rest queued", async () => {
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z"));
+    state.outbox.set("b", queued("b", "2024-06-03T12:00:02.000Z"));
+    record.mockRejectedValueOnce(networkError());
+
+    expect(await replayOutbox()).toBe(0);
+    expect(record).toHaveBeenCalledTimes(1);
+    expect((state.outbox.get("a") as QueuedSubmission).attempts).toBe(1);
+    expect(await getOutboxStatus()).toEqual({ pending: 2, rejected: 0 });
+  });
+
+  it("retries submissions that failed on an expired session", async () => {
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z"));
+    record.mockRejectedValueOnce({ code: "PGRST301", message: "JWT expired" });
+
+    expect(await replayOutbox()).toBe(0);
+    expect(await getOutboxStatus()).toEqual({ pending: 1, rejected: 0 });
+    expect(await replayOutbox()).toBe(1);
+  });
+
+  it("marks rejected submissions, moves on, and never retries them", async () => {
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z"));
+    state.outbox.set("b", queued("b", "2024-06-03T12:00:02.000Z"));
+    record.mockRejectedValueOnce(rejection());
+
+    expect(await replayOutbox()).toBe(1);
+    expect(await getOutboxStatus()).toEqual({ pending: 0, rejected: 1 });
+
+    record.mockClear();
+    expect(await replayOutbox()).toBe(0);
+    expect(record).not.toHaveBeenCalled();
+
+    await discardRejectedSubmissions();
+    expect(state.outbox.size).toBe(0);
+  });
+
+  it("runs one replay at a time", async () => {
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z"));
+
+    const [first, second] = await Promise.all([replayOutbox(), replayOutbox()]);
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(record).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves other users' submissions alone", async () => {
+    state.outbox.set("a", queued("a", "2024-06-03T12:00:01.000Z", { userId: "22222222-2222-4222-8222-222222222222" }));
+
+    expect(await replayOutbox()).toBe(0);
+    expect(record).not.toHaveBeenCalled();
+    expect(state.outbox.size).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertPartialDateValue,
+  eventPeriodEnd,
+  eventsDateRange,
+  formatEventDate,
+  isApproximateDate,
+  partialDateError,
+  partialDatePeriod,
+  toEventTimeRange,
+  toPartialDateValue,
+} from "@/lib/partial-dates";
+
+describe("partial-dates", () => {
+  it("validates input values per precision", () => {
+    expect(partialDateError("", "year")).toBe("Enter a date");
+    expect(partialDateError("2009", "year")).toBeNull();
+    expect(partialDateError("09", "year")).toBe("Enter a four-digit year");
+    expect(partialDateError("2009-06", "month")).toBeNull();
+    expect(partialDateError("2009-13", "month")).toBe("Enter a valid date");
+    expect(partialDateError("2009-06-31", "day")).toBeNull();
+    expect(partialDateError("2009-06-32", "day")).toBe("Enter a valid date");
+    expect(partialDateError("2009-06-03T08:00", "exact")).toBeNull();
+    expect(partialDateError("2009-06-03T24:00", "exact")).toBe("Enter a valid date");
+    expect(partialDateError("2009-06-03", "exact")).toBe("Enter a valid date");
+  });
+
+  it("finds the first and last instant of a period in the zone it was entered in", () => {
+    const year = partialDatePeriod("2009", "year", "Europe/Berlin");
+    expect(year.start.toISOString()).toBe("2008-12-31T23:00:00.000Z");
+    expect(year.end.toISOString()).toBe("2009-12-31T22:59:59.999Z");
+
+    const february = partialDatePeriod("2024-02", "month", "UTC");
+    expect(february.start.toISOString()).toBe("2024-02-01T00:00:00.000Z");
+    expect(february.end.toISOString()).toBe("2024-02-29T23:59:59.999Z");
+
+    const december = partialDatePeriod("2023-12", "month", "UTC");
+    expect(december.end.toISOString()).toBe("2023-12-31T23:59:59.999Z");
+
+    const day = partialDatePeriod("2024-06-30", "day", "America/New_York");
+    expect(day.start.toISOString()).toBe("2024-06-30T04:00:00.000Z");
+    expect(day.end.toISOString()).toBe("2024-07-01T03:59:59.999Z");
+
+    const exact = partialDatePeriod("2024-06-30T08:00", "exact", "UTC");
+    expect(exact.start).toEqual(exact.end);
+  });
+
+  it("covers a day that is shorter because of DST", () => {
+    const day = partialDatePeriod("2024-03-31", "day", "Europe/Berlin");
+    expect(day.end.getTime() - day.start.getTime() + 1).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it("builds event_time and event_time_end for a range", () => {
+    expect(toEventTimeRange("1998-06", "1998-08", "month", "UTC")).toEqual({
+      eventTime: "1998-06-01T00:00:00.000Z",
+      eventTimeEnd: "1998-08-31T23:59:59.999Z",
+    });
+    expect(toEventTimeRange("2009", null, "year", "UTC")).toEqual({
+      eventTime: "2009-01-01T00:00:00.000Z",
+      eventTimeEnd: null,
+    });
+  });
+
+  it("names the period an instant falls in", () => {
+    expect(toPartialDateValue("2009-01-01T00:30:00Z", "year", "UTC")).toBe("2009");
+    expect(toPartialDateValue("2009-01-01T00:30:00Z", "year", "America/New_York")).toBe("2008");
+    expect(toPartialDateValue("2009-06-03T08:00:00Z", "exact", "UTC")).toBe("2009-06-03T08:00");
+  });
+
+  it("carries values over to another precision", () => {
+    expect(convertPartialDateValue("2009", "day")).toBe("2009-01-01");
+    expect(convertPartialDateValue("2009", "exact")).toBe("2009-01-01T00:00");
+    expect(convertPartialDateValue("2009-06-03T08:00", "month")).toBe("2009-06");
+    expect(convertPartialDateValue("2009-06-03T08:00", "year")).toBe("2009");
+  });
+
+  it("shows partial dates in the zone they were entered in", () => {
+    const event = {
+      event_time: "2008-12-31T23:00:00.000Z",
+      event_time_precision: "year",
+      event_timezone: "Europe/Berlin",
+    };
+    expect(formatEventDate(event, "America/New_York")).toBe("2009");
+    expect(eventPeriodEnd(event, "America/New_York").toISOString()).toBe("2009-12-31T22:59:59.999Z");
+  });
+
+  it("shows exact times in the display zone", () => {
+    const event = { event_time: "2024-03-03T23:30:00.000Z", event_timezone: "UTC" };
+    expect(formatEventDate(event, "Europe/Berlin")).toBe("Mar 4, 2024");
+    expect(formatEventDate(event, "Europe/Berlin", "HH:mm")).toBe("00:30");
+    expect(isApproximateDate(event)).toBe(false);
+  });
+
+  it("formats ranges and collapses ranges within one period", () => {
+    const range = {
+      event_time: "1998-06-01T00:00:00.000Z",
+      event_time_end: "1998-08-31T23:59:59.999Z",
+      event_time_precision: "month",
+      event_timezone: "UTC",
+    };
+    expect(formatEventDate(range, "UTC")).toBe("Jun 1998 – Aug 1998");
+    expect(isApproximateDate(range)).toBe(true);
+
+    const sameMonth = { ...range, event_time_end: "1998-06-30T23:59:59.999Z" };
+    expect(formatEventDate(sameMonth, "UTC")).toBe("Jun 1998");
+  });
+
+  it("treats unknown precisions as exact", () => {
+    const event = { event_time: "2024-03-03T12:00:00.000Z", event_time_precision: "decade" };
+    expect(isApproximateDate(event)).toBe(false);
+    expect(eventPeriodEnd(event, "UTC").toISOString()).toBe("2024-03-03T12:00:00.000Z");
+  });
+
+  it("counts approximate dates to the end of their period in a date range", () => {
+    const range = eventsDateRange(
+      [
+        { event_time: "2009-01-01T00:00:00.000Z", event_time_precision: "year", event_timezone: "UTC" },
+        { event_time: "2012-03-01T00:00:00.000Z", event_time_precision: "month", event_timezone: "UTC" },
+        { event_time: "2012-03-15T10:00:00.000Z" },
+      ],
+      "UTC"
+    );
+    expect(range?.start.toISOString()).toBe("2009-01-01T00:00:00.000Z");
+    expect(range?.end.toISOString()).toBe("2012-03-31T23:59:59.999Z");
+    expect(range?.startLabel).toBe("2009");
+    expect(range?.endLabel).toBe("Mar 2012");
+    expect(eventsDateRange([], "UTC")).toBeNull();
+  });
+});
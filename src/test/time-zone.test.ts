@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatInTimeZone,
+  formatUtcOffset,
+  isValidTimeZone,
+  timeZoneOffsetMinutes,
+  toDateInputValue,
+  toDateTimeInputValue,
+  zonedTimeToUtc,
+} from "@/lib/time-zone";
+
+describe("time-zone", () => {
+  it("reads a zone's UTC offset at an instant, including DST", () => {
+    expect(timeZoneOffsetMinutes(new Date("2024-01-15T12:00:00Z"), "Europe/Berlin")).toBe(60);
+    expect(timeZoneOffsetMinutes(new Date("2024-07-15T12:00:00Z"), "Europe/Berlin")).toBe(120);
+    expect(timeZoneOffsetMinutes(new Date("2024-07-15T12:00:00Z"), "America/New_York")).toBe(-240);
+    expect(timeZoneOffsetMinutes(new Date("2024-07-15T12:00:00Z"), "Asia/Kolkata")).toBe(330);
+    expect(timeZoneOffsetMinutes(new Date("2024-07-15T12:00:00.999Z"), "UTC")).toBe(0);
+  });
+
+  it("formats offsets with sign and minutes", () => {
+    expect(formatUtcOffset(120)).toBe("UTC+02:00");
+    expect(formatUtcOffset(0)).toBe("UTC+00:00");
+    expect(formatUtcOffset(-210)).toBe("UTC-03:30");
+    expect(formatUtcOffset(345)).toBe("UTC+05:45");
+  });
+
+  it("converts wall-clock time in a zone to an instant", () => {
+    expect(zonedTimeToUtc("2024-03-01T08:00", "Europe/Berlin").toISOString()).toBe("2024-03-01T07:00:00.000Z");
+    expect(zonedTimeToUtc("2024-07-01T08:00", "America/Los_Angeles").toISOString()).toBe("2024-07-01T15:00:00.000Z");
+    expect(zonedTimeToUtc("2024-07-01", "Asia/Tokyo").toISOString()).toBe("2024-06-30T15:00:00.000Z");
+  });
+
+  it("resolves wall-clock times around DST changes", () => {
+    // 02:30 does not exist on 31 March 2024 in Berlin; the offset before the change applies
+    expect(zonedTimeToUtc("2024-03-31T02:30", "Europe/Berlin").toISOString()).toBe("2024-03-31T01:30:00.000Z");
+    expect(zonedTimeToUtc("2024-03-31T03:30", "Europe/Berlin").toISOString()).toBe("2024-03-31T01:30:00.000Z");
+    expect(zonedTimeToUtc("2024-11-03T12:00", "America/New_York").toISOString()).toBe("2024-11-03T17:00:00.000Z");
+  });
+
+  it("round-trips input values through the display zone", () => {
+    const zones = ["UTC", "Europe/Berlin", "America/New_York", "Asia/Kolkata", "Pacific/Auckland"];
+    for (const zone of zones) {
+      const instant = zonedTimeToUtc("2024-06-03T08:15", zone);
+      expect(toDateTimeInputValue(instant, zone)).toBe("2024-06-03T08:15");
+      expect(toDateInputValue(instant, zone)).toBe("2024-06-03");
+    }
+  });
+
+  it("formats an instant in the given zone, not the device zone", () => {
+    const instant = "2024-01-01T23:30:00Z";
+    expect(formatInTimeZone(instant, "yyyy-MM-dd HH:mm", "UTC")).toBe("2024-01-01 23:30");
+    expect(formatInTimeZone(instant, "yyyy-MM-dd HH:mm", "Europe/Berlin")).toBe("2024-01-02 00:30");
+    expect(formatInTimeZone(instant, "yyyy-MM-dd HH:mm", "America/Chicago")).toBe("2024-01-01 17:30");
+  });
+
+  it("tells valid zones from invalid ones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  fieldKeyFromLabel,
+  formatTrackerValue,
+  parseTrackerFields,
+  summarizeTrackerValues,
+  toTrackerValues,
+  trackerStreaks,
+  trackerValueSchema,
+  type TrackerField,
+} from "@/lib/trackers";
+import { EventDetailsValidationError, validateEventDetails } from "@/lib/event-registry";
+
+const sleep: TrackerField = { key: "sleep", label: "Sleep", required: true, type: "number", unit: "h", min: 0, max: 24 };
+const pain: TrackerField = { key: "pain", label: "Pain", required: false, type: "scale", min: 0, max: 10 };
+const walked: TrackerField = { key: "walked", label: "Walked", required: false, type: "boolean" };
+const mood: TrackerField = { key: "mood", label: "Mood", required: false, type: "choice", options: ["low", "ok", "good"] };
+const nap: TrackerField = { key: "nap", label: "Nap", required: false, type: "duration" };
+
+function valueError(field: TrackerField, value: string): string | null {
+  const result = trackerValueSchema(field).safeParse(value);
+  return result.success ? null : result.error.issues[0].message;
+}
+
+describe("tracker values", () => {
+  it("requires required fields and allows others to be left empty", () => {
+    expect(valueError(sleep, "")).toBe("Required");
+    expect(valueError(sleep, "  ")).toBe("Required");
+    expect(valueError(pain, "")).toBeNull();
+  });
+
+  it("checks numbers against the field's range", () => {
+    expect(valueError(sleep, "7.5")).toBeNull();
+    expect(valueError(sleep, "abc")).toBe("Enter a number");
+    expect(valueError(sleep, "Infinity")).toBe("Enter a number");
+    expect(valueError(sleep, "-1")).toBe("Must be at least 0");
+    expect(valueError(sleep, "25")).toBe("Must be at most 24");
+    expect(valueError({ ...sleep, min: null, max: null }, "-1000")).toBeNull();
+  });
+
+  it("requires whole numbers on scales and durations", () => {
+    expect(valueError(pain, "10")).toBeNull();
+    expect(valueError(pain, "4.5")).toBe("Enter a whole number");
+    expect(valueError(pain, "11")).toBe("Must be at most 10");
+    expect(valueError(nap, "30")).toBeNull();
+    expect(valueError(nap, "30.5")).toBe("Enter a whole number");
+    expect(valueError(nap, "-5")).toBe("Must not be negative");
+  });
+
+  it("accepts only yes / no and the field's options", () => {
+    expect(valueError(walked, "yes")).toBeNull();
+    expect(valueError(walked, "true")).toBe("Choose yes or no");
+    expect(valueError(mood, "ok")).toBeNull();
+    expect(valueError(mood, "great")).toBe("Choose an option");
+  });
+
+  it("converts inputs to stored values", () => {
+    expect(
+      toTrackerValues([sleep, pain, walked, mood, nap], { sleep: " 7.5 ", pain: "", walked: "no", mood: "good" })
+    ).toEqual({ sleep: 7.5, pain: null, walked: false, mood: "good", nap: null });
+  });
+
+  it("accepts stored values of any field type in the registry", () => {
+    const details = {
+      tracker_id: "6f1c1e0a-2b3c-4d5e-8f90-1a2b3c4d5e6f",
+      values: { sleep: 7.5, walked: true, mood: "ok", pain: null },
+      note: null,
+    };
+    expect(() => validateEventDetails("tracker_entry", details)).not.toThrow();
+    expect(() => validateEventDetails("tracker_entry", { ...details, values: { sleep: [7] } })).toThrow(
+      EventDetailsValidationError
+    );
+    expect(() => validateEventDetails("tracker_entry", { ...details, values: { mood: "x".repeat(51) } })).toThrow(
+      EventDetailsValidationError
+    );
+  });
+
+  it("formats values and summaries", () => {
+    expect(formatTrackerValue(sleep, 7.5)).toBe("7.5 h");
+    expect(formatTrackerValue(pain, 3)).toBe("3 / 10");
+    expect(formatTrackerValue(walked, false)).toBe("No");
+    expect(formatTrackerValue(nap, 90)).toBe("1 h 30 min");
+    expect(formatTrackerValue(mood, null)).toBeNull();
+    expect(summarizeTrackerValues([sleep, pain, walked], { sleep: 8, pain: null, walked: true })).toBe(
+      "Sleep: 8 h · Walked: Yes"
+    );
+  });
+});
+
+describe("tracker definitions", () => {
+  it("parses valid definitions and rejects invalid ones", () => {
+    expect(parseTrackerFields([sleep, pain, walked, mood, nap])).toHaveLength(5);
+    expect(parseTrackerFields([])).toBeNull();
+    expect(parseTrackerFields([sleep, { ...pain, key: "sleep" }])).toBeNull();
+    expect(parseTrackerFields([{ ...sleep, min: 10, max: 5 }])).toBeNull();
+    expect(parseTrackerFields([{ ...pain, min: 5, max: 5 }])).toBeNull();
+    expect(parseTrackerFields([{ ...mood, options: ["a", "a"] }])).toBeNull();
+    expect(parseTrackerFields([{ ...sleep, key: "Sleep" }])).toBeNull();
+  });
+
+  it("derives unique keys from labels", () => {
+    expect(fieldKeyFromLabel("Hours slept", [])).toBe("hours_slept");
+    expect(fieldKeyFromLabel("Hours slept", ["hours_slept"])).toBe("hours_slept_2");
+    expect(fieldKeyFromLabel("3 pills!", [])).toBe("pills");
+    expect(fieldKeyFromLabel("???", [])).toBe("field");
+  });
+
+  it("counts streaks of calendar days", () => {
+    const now = new Date(2024, 5, 10, 9, 0);
+    const day = (d: number) => new Date(2024, 5, d, 20, 0).toISOString();
+    expect(trackerStreaks([day(7), day(8), day(9), day(9)], now)).toEqual({ current: 3, longest: 3 });
+    expect(trackerStreaks([day(1), day(2), day(3), day(10)], now)).toEqual({ current: 1, longest: 3 });
+    expect(trackerStreaks([day(1), day(2)], now)).toEqual({ current: 0, longest: 2 });
+    expect(trackerStreaks([], now)).toEqual({ current: 0, longest: 0 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { canonicalUnit, convertVitalValue, formatVitalValue, isVitalUnit, unitFor, unitStep } from "@/lib/vitals";
+import { EventDetailsValidationError, validateEventDetails } from "@/lib/event-registry";
+
+describe("vitals", () => {
+  it("converts weight, temperature and glucose with exact factors", () => {
+    expect(convertVitalValue(1, "[lb_av]", "kg")).toBe(0.45359237);
+    expect(convertVitalValue(100, "kg", "[lb_av]")).toBeCloseTo(220.462262, 6);
+    expect(convertVitalValue(37, "Cel", "[degF]")).toBeCloseTo(98.6, 10);
+    expect(convertVitalValue(212, "[degF]", "Cel")).toBe(100);
+    expect(convertVitalValue(-40, "Cel", "[degF]")).toBe(-40);
+    expect(convertVitalValue(5.5, "mmol/L", "mg/dL")).toBeCloseTo(99.0858, 10);
+    expect(convertVitalValue(180.156, "mg/dL", "mmol/L")).toBeCloseTo(10, 10);
+  });
+
+  it("round-trips values without drift", () => {
+    for (const [from, to] of [
+      ["kg", "[lb_av]"],
+      ["Cel", "[degF]"],
+      ["mmol/L", "mg/dL"],
+    ] as const) {
+      expect(convertVitalValue(convertVitalValue(72.3, from, to), to, from)).toBeCloseTo(72.3, 12);
+    }
+  });
+
+  it("returns the value as is for the same unit", () => {
+    expect(convertVitalValue(120, "mm[Hg]", "mm[Hg]")).toBe(120);
+  });
+
+  it("refuses to convert between different measures", () => {
+    expect(() => convertVitalValue(70, "kg", "Cel")).toThrow("Cannot convert kg to Cel");
+    expect(() => convertVitalValue(70, "/min", "%")).toThrow();
+  });
+
+  it("picks display and canonical units per measure", () => {
+    expect(unitFor("weight", "imperial")).toBe("[lb_av]");
+    expect(unitFor("blood_glucose", "imperial")).toBe("mg/dL");
+    expect(unitFor("blood_pressure", "imperial")).toBe("mm[Hg]");
+    expect(canonicalUnit("body_temperature")).toBe("Cel");
+    expect(canonicalUnit("weight")).toBe("kg");
+  });
+
+  it("accepts only the measure's own units", () => {
+    expect(isVitalUnit("weight", "[lb_av]")).toBe(true);
+    expect(isVitalUnit("weight", "lb")).toBe(false);
+    expect(isVitalUnit("heart_rate", "kg")).toBe(false);
+  });
+
+  it("rounds for display only to the unit's decimals", () => {
+    expect(formatVitalValue(72.46, "kg")).toBe("72.5");
+    expect(formatVitalValue(98.06, "mg/dL")).toBe("98");
+    expect(unitStep("kg")).toBe(0.1);
+    expect(unitStep("mm[Hg]")).toBe(1);
+  });
+
+  it("validates readings against their measure's units", () => {
+    const reading = { measure: "weight", value: 72.5, unit: "kg", diastolic: null, note: null };
+    expect(() => validateEventDetails("vital_sign", reading)).not.toThrow();
+    expect(() => validateEventDetails("vital_sign", { ...reading, unit: "Cel" })).toThrow(EventDetailsValidationError);
+    expect(() => validateEventDetails("vital_sign", { ...reading, value: 0 })).toThrow(EventDetailsValidationError);
+  });
+
+  it("requires diastolic for blood pressure and only there", () => {
+    const bp = { measure: "blood_pressure", value: 120, unit: "mm[Hg]", diastolic: 80, note: null };
+    expect(() => validateEventDetails("vital_sign", bp)).not.toThrow();
+    expect(() => validateEventDetails("vital_sign", { ...bp, diastolic: null })).toThrow(/diastolic/);
+    expect(() =>
+      validateEventDetails("vital_sign", { measure: "heart_rate", value: 60, unit: "/min", diastolic: 40, note: null })
+    ).toThrow(/diastolic/);
+  });
+});
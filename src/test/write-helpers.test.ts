@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { RecordTimelineEventInput } from "@/lib/write-helpers";
+import type { TrackerField } from "@/lib/trackers";
+
+const mocks = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { rpc: mocks.rpc },
+}));
+
+import { createTracker, recordTimelineEvent } from "@/lib/write-helpers";
+import { EventDetailsValidationError } from "@/lib/event-registry";
+
+const PREVIOUS_ID = "22222222-2222-4222-8222-222222222222";
+
+function newVersion(previousArtifactId: string): RecordTimelineEventInput {
+  return {
+    source: { type: "upload", name: "User Upload" },
+    provenance: { method: "upload" },
+    eventType: "document_version_added",
+    eventTime: "2024-06-03T12:00:00.000Z",
+    eventTimeZone: "UTC",
+    title: "Blood panel",
+    summary: "Uploaded version 2",
+    details: {
+      document_event_id: "33333333-3333-4333-8333-333333333333",
+      previous_artifact_id: PREVIOUS_ID,
+      version: 2,
+      note: null,
+    },
+    auditAction: "document_version_added",
+    document: {
+      title: "Blood panel",
+      docType: "lab_result",
+      occurredAt: "2024-06-01T00:00:00.000Z",
+      storagePath: "11111111-1111-4111-8111-111111111111/2024/06/file",
+      contentType: "application/pdf",
+      fileSize: 1024,
+      originalFilename: "blood-panel.pdf",
+      previousArtifactId,
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.rpc.mockResolvedValue({
+    data: [{ event_id: "event-1", provenance_id: "provenance-1", document_artifact_id: "artifact-2" }],
+    error: null,
+  });
+});
+
+describe("recordTimelineEvent", () => {
+  it("passes the version a new document version replaces", async () => {
+    await recordTimelineEvent(newVersion(PREVIOUS_ID));
+    expect(mocks.rpc.mock.calls[0][1].p_document.previous_artifact_id).toBe(PREVIOUS_ID);
+  });
+
+  it("rejects a previous version ID that is not a UUID before writing anything", async () => {
+    const error = await recordTimelineEvent(newVersion("not-a-uuid")).catch((err) => err);
+
+    expect(error).toBeInstanceOf(EventDetailsValidationError);
+    expect(error.fields).toEqual(["previous_artifact_id"]);
+    expect(mocks.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe("createTracker", () => {
+  it("writes the tracker and its audit event in one call", async () => {
+    mocks.rpc.mockResolvedValueOnce({ data: "tracker-1", error: null });
+    const fields: TrackerField[] = [{ key: "sleep", label: "Sleep", required: true, type: "number", unit: "h", min: 0, max: 24 }];
+
+    expect(await createTracker({ name: "  Sleep ", description: " ", fields })).toBe("tracker-1");
+    expect(mocks.rpc).toHaveBeenCalledTimes(1);
+    expect(mocks.rpc).toHaveBeenCalledWith("create_tracker", {
+      p_name: "Sleep",
+      p_description: undefined,
+      p_fields: fields,
+    });
+  });
+});
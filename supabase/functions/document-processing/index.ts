@@ -0,0 +1,199 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "npm:unpdf@0.12.1";
+import Tesseract from "npm:tesseract.js@5.1.1";
+
+/**
+ * Document Processing Edge Function
+ *
+ * Runs the caller's pending 'document_processing' jobs (queued by the
+ * database for every PDF or image upload): extracts the PDF text layer,
+ * or runs OCR on images, and records the text through
+ * complete_document_processing(), which writes a document_text_extracted
+ * event with 'document_ocr' provenance and marks the job complete.
+ *
+ * OCR runs inside this function; documents are never sent to an outside
+ * service. Scanned PDFs without a text layer complete with no text.
+ *
+ * A claimed job holds a lease (claimed_at). If this function is stopped
+ * mid-job, the job stays 'running' until the lease expires and is then
+ * claimed again by the next call.
+ *
+ * GUARDRAIL: User isolation
+ * - Jobs and artifacts are read with the caller's JWT, so RLS applies
+ *
+ * GUARDRAIL: No PHI in logs
+ * - Only logs job and artifact IDs, never filenames or extracted text
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Bounds the work one request does; remaining jobs run on the next call
+const MAX_JOBS_PER_REQUEST = 5;
+
+// Edge Functions are stopped after at most 400 s, so an older claim is dead
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+interface DocumentProcessingPayload {
+  document_artifact_id: string;
+  source_event_id: string;
+  content_type: string;
+}
+
+interface Extraction {
+  text: string;
+  method: "pdf_text" | "ocr";
+  pageCount: number | null;
+}
+
+async function extract(file: Blob, contentType: string): Promise<Extraction> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (contentType === "application/pdf") {
+    const pdf = await getDocumentProxy(bytes);
+    const { totalPages, text } = await extractText(pdf, { mergePages: true });
+    return { text, method: "pdf_text", pageCount: totalPages };
+  }
+
+  const { data } = await Tesseract.recognize(bytes, "eng");
+  return { text: data.text, method: "ocr", pageCount: null };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.log("[document-processing] No authorization header");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Optional: only process the job for this artifact
+    const { document_artifact_id } = await req.json().catch(() => ({}));
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.log("[document-processing] Auth error");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Pending jobs, and running jobs whose claim has expired (or predates leases)
+    const leaseExpiredBefore = new Date(Date.now() - CLAIM_LEASE_MS).toISOString();
+    const claimable =
+      `status.eq.pending,and(status.eq.running,claimed_at.lt.${leaseExpiredBefore}),` +
+      "and(status.eq.running,claimed_at.is.null)";
+
+    let pendingQuery = supabase
+      .from("jobs")
+      .select("id")
+      .eq("user_id", user.id)
+      .eq("job_type", "document_processing")
+      .or(claimable)
+      .order("created_at", { ascending: true })
+      .limit(MAX_JOBS_PER_REQUEST);
+    if (document_artifact_id) {
+      pendingQuery = pendingQuery.eq("idempotency_key", `document_processing:${document_artifact_id}`);
+    }
+
+    const { data: pending, error: pendingError } = await pendingQuery;
+    if (pendingError) {
+      console.log(`[document-processing] Failed to list jobs: ${pendingError.code}`);
+      throw new Error("Failed to list jobs");
+    }
+
+    // Storage is read with the service role; the artifact lookup above it is RLS-checked
+    const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    let processed = 0;
+    let failed = 0;
+
+    for (const { id: jobId } of pending ?? []) {
+      // Claim the job; a concurrent request that claimed it first wins
+      const claimedAt = new Date().toISOString();
+      const { data: claimed } = await supabase
+        .from("jobs")
+        .update({ status: "running", claimed_at: claimedAt })
+        .eq("id", jobId)
+        .or(claimable)
+        .select("id, payload")
+        .maybeSingle();
+      if (!claimed) continue;
+
+      const payload = claimed.payload as DocumentProcessingPayload;
+
+      try {
+        const { data: artifact, error: artifactError } = await supabase
+          .from("document_artifacts")
+          .select("storage_path, content_type")
+          .eq("id", payload.document_artifact_id)
+          .eq("user_id", user.id)
+          .single();
+        if (artifactError || !artifact) throw new Error("Artifact not found");
+        // Storage is read with the service role: only files in the user's folder
+        const pathSegments = artifact.storage_path.split("/");
+        if (pathSegments[0] !== user.id || pathSegments.includes("..")) throw new Error("Artifact not found");
+
+        const { data: file, error: downloadError } = await adminClient.storage
+          .from("documents")
+          .download(artifact.storage_path);
+        if (downloadError || !file) throw new Error("Download failed");
+
+        const extraction = await extract(file, artifact.content_type);
+
+        const { error: completeError } = await supabase.rpc("complete_document_processing", {
+          p_job_id: jobId,
+          // Postgres text cannot hold NUL characters
+          p_text: extraction.text.replaceAll("\u0000", ""),
+          p_extraction_method: extraction.method,
+          p_page_count: extraction.pageCount,
+        });
+        if (completeError) throw new Error(`Complete failed: ${completeError.code}`);
+
+        processed += 1;
+        console.log(`[document-processing] Job complete: job=${jobId} method=${extraction.method}`);
+      } catch (error) {
+        failed += 1;
+        console.log(
+          `[document-processing] Job failed: job=${jobId} artifact=${payload.document_artifact_id} ` +
+            `error=${error instanceof Error ? error.message : "unknown"}`
+        );
+        // Only while the claim is still ours; a later claim may be running it
+        await supabase
+          .from("jobs")
+          .update({ status: "failed" })
+          .eq("id", jobId)
+          .eq("status", "running")
+          .eq("claimed_at", claimedAt);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed, failed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[document-processing] Error:", error instanceof Error ? error.message : "Unknown error");
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
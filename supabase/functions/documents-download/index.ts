@@ -4,9 +4,25 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
  * Documents Download Edge Function
  * 
  * Proxies document downloads to avoid browser/extension blocking of signed URLs.
+ * Encrypted files are returned as stored; the key ID, IV and original
+ * content type go in X- headers so the browser can decrypt them.
+ *
+ * Query params:
+ * - artifact_id (required)
+ * - disposition=inline for the in-app viewer (default: attachment)
+ *
+ * Single-range "Range: bytes=..." requests are passed through to storage
+ * and answered with 206, so the PDF viewer can load large files page by
+ * page. Other Range forms are ignored and the whole file is returned.
+ *
+ * GUARDRAIL: Audit
+ * - Every request that can return the file's first byte records
+ *   document_viewed or document_downloaded, with or without a Range
+ *   header; only a view's follow-up ranges past byte 0 are not audited
  * 
  * GUARDRAIL: User isolation
  * - Validates JWT and ensures user owns the document artifact
+ * - Only serves files stored in the user's own folder
  * 
  * GUARDRAIL: No PHI in logs
  * - Only logs artifact_id and user_id, never filenames or content
@@ -14,9 +30,17 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, range",
+  "Access-Control-Expose-Headers":
+    "Accept-Ranges, Content-Length, Content-Range, Content-Disposition, X-Encryption-Key-Id, X-Encryption-IV, X-Document-Content-Type",
 };
 
+// One byte range: "bytes=0-1023", "bytes=1024-" or "bytes=-500"
+const SINGLE_RANGE = /^bytes=(\d+-\d*|-\d+)$/;
+
+// Signed URLs are only used server-side, for the storage request below
+const SIGNED_URL_TTL_SECONDS = 60;
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -59,6 +83,9 @@ Deno.serve(async (req) => {
     // Get artifact_id from query params
     const url = new URL(req.url);
     const artifactId = url.searchParams.get("artifact_id");
+    const inline = url.searchParams.get("disposition") === "inline";
+    const rangeHeader = req.headers.get("Range");
+    const range = rangeHeader && SINGLE_RANGE.test(rangeHeader) ? rangeHeader : null;
     
     if (!artifactId) {
       console.log("[documents-download] Missing artifact_id");
@@ -73,7 +100,7 @@ Deno.serve(async (req) => {
     // Query document artifact - RLS will filter to user's own documents
     const { data: artifact, error: artifactError } = await supabase
       .from("document_artifacts")
-      .select("storage_path, content_type, original_filename")
+      .select("storage_path, content_type, original_filename, encryption_key_id, encryption_iv")
       .eq("id", artifactId)
       .eq("user_id", userId)
       .maybeSingle();
@@ -94,16 +121,63 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Download file from storage using service role for direct access
+    // Storage is read with the service role below, so the path itself must
+    // be in the user's folder, whatever the artifact row says
+    const pathSegments = artifact.storage_path.split("/");
+    if (pathSegments[0] !== userId || pathSegments.includes("..")) {
+      console.log(`[documents-download] Path outside user folder: artifact=${artifactId}`);
+      return new Response(
+        JSON.stringify({ error: "Document not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Audit every request that can return the start of the file: a
+    // plain request, "bytes=0-..." (which may well be the whole file) or a
+    // suffix range (which covers it all when longer than the file). Only
+    // ranges starting past byte 0, a view's follow-up reads, go unaudited.
+    const rangeStart = range?.slice("bytes=".length).split("-")[0];
+    const audited = !range || rangeStart === "" || Number(rangeStart) === 0;
+    if (audited) {
+      const { error: auditError } = await supabase.from("audit_events").insert({
+        user_id: userId,
+        action: inline ? "document_viewed" : "document_downloaded",
+        entity_type: "document_artifact",
+        entity_id: artifactId,
+      });
+
+      if (auditError) {
+        console.log(`[documents-download] Audit error: ${auditError.code}`);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch document" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Stream the file from storage using service role for direct access
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { data: fileData, error: downloadError } = await adminClient.storage
+    const { data: signed, error: signError } = await adminClient.storage
       .from("documents")
-      .download(artifact.storage_path);
+      .createSignedUrl(artifact.storage_path, SIGNED_URL_TTL_SECONDS);
+
+    const fileResponse = signed
+      ? await fetch(signed.signedUrl, { headers: range ? { Range: range } : {} })
+      : null;
+
+    if (fileResponse?.status === 416) {
+      await fileResponse.body?.cancel();
+      return new Response(null, {
+        status: 416,
+        headers: { ...corsHeaders, "Content-Range": fileResponse.headers.get("Content-Range") ?? "bytes */*" },
+      });
+    }
 
-    if (downloadError || !fileData) {
-      console.log(`[documents-download] Storage error: ${downloadError?.message}`);
+    if (signError || !fileResponse?.ok || !fileResponse.body) {
+      console.log(`[documents-download] Storage error: ${signError?.message ?? fileResponse?.status}`);
+      await fileResponse?.body?.cancel();
       return new Response(
         JSON.stringify({ error: "Failed to download document" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -115,14 +189,35 @@ Deno.serve(async (req) => {
       ? artifact.original_filename.replace(/[^\w\-. ]/g, "_")
       : "document";
 
-    console.log(`[documents-download] Success: artifact=${artifactId}`);
+    const partial = fileResponse.status === 206;
+    console.log(`[documents-download] Success: artifact=${artifactId}${partial ? " (range)" : ""}`);
+
+    const encryptionHeaders: Record<string, string> = artifact.encryption_key_id && artifact.encryption_iv
+      ? {
+          "X-Encryption-Key-Id": artifact.encryption_key_id,
+          "X-Encryption-IV": artifact.encryption_iv,
+          "X-Document-Content-Type": artifact.content_type || "application/octet-stream",
+        }
+      : {};
+
+    const rangeHeaders: Record<string, string> = {};
+    const contentLength = fileResponse.headers.get("Content-Length");
+    const contentRange = fileResponse.headers.get("Content-Range");
+    if (contentLength) rangeHeaders["Content-Length"] = contentLength;
+    if (partial && contentRange) rangeHeaders["Content-Range"] = contentRange;
 
     // Return file with appropriate headers
-    return new Response(fileData, {
+    return new Response(fileResponse.body, {
+      status: partial ? 206 : 200,
       headers: {
         ...corsHeaders,
-        "Content-Type": artifact.content_type || "application/octet-stream",
-        "Content-Disposition": `attachment; filename="${safeFilename}"`,
+        ...encryptionHeaders,
+        ...rangeHeaders,
+        "Accept-Ranges": "bytes",
+        "Content-Type": artifact.encryption_key_id
+          ? "application/octet-stream"
+          : artifact.content_type || "application/octet-stream",
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${safeFilename}"`,
         "Cache-Control": "private, max-age=300",
       },
     });
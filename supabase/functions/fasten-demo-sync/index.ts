@@ -18,12 +18,21 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface DemoMedication {
+  name: string;
+  strength: string | null;
+  route: string | null;
+  frequency: string | null;
+}
+
 interface DemoExternalEvent {
   category: string;
   title: string;
   summary: string;
   providerName: string;
   occurredAt: string;
+  /** Structured medication for medication records (feeds the medication list) */
+  medication?: DemoMedication;
 }
 
 // Curated demo data representing external health records
@@ -54,6 +63,12 @@ const DEMO_EVENTS: DemoExternalEvent[] = [
     title: "Medication Prescription - Lisinopril",
     summary: "Prescription for blood pressure management. 10mg daily dosage.",
     providerName: "City Medical Center",
+    medication: {
+      name: "Lisinopril",
+      strength: "10 mg",
+      route: "oral",
+      frequency: "Once daily",
+    },
     occurredAt: new Date(Date.now() - 25 * 24 * 60 * 60 * 1000).toISOString(), // 25 days ago
   },
   {
@@ -216,6 +231,7 @@ Deno.serve(async (req) => {
         resource_category: event.category,
         provider_name: event.providerName,
         is_demo: true,
+        ...(event.medication ? { medication: event.medication } : {}),
       },
     }));
 
@@ -0,0 +1,145 @@
+-- Atomic "record event" write path
+--
+-- Replaces the multi-step client inserts (data source, consent snapshot,
+-- provenance, timeline event, audit event) with a single function call so a
+-- failure partway through can no longer leave orphan provenance rows or
+-- events without an audit trail.
+--
+-- SECURITY INVOKER: runs as the caller, so every insert is still checked by
+-- the existing RLS policies (user isolation is unchanged).
+
+CREATE OR REPLACE FUNCTION public.record_timeline_event(
+    p_source_type data_source_type,
+    p_source_name TEXT,
+    p_provenance_method provenance_method,
+    p_event_type TEXT,
+    p_event_time TIMESTAMPTZ,
+    p_summary TEXT,
+    p_audit_action TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT '{}'::jsonb,
+    p_provenance_metadata JSONB DEFAULT '{}'::jsonb,
+    p_document JSONB DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, provenance_id UUID, document_artifact_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_data_source_id UUID;
+    v_agreement_id UUID;
+    v_snapshot_id UUID;
+    v_provenance_id UUID;
+    v_artifact_id UUID;
+    v_event_id UUID;
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    -- 1. Data source (get or create)
+    SELECT ds.id INTO v_data_source_id
+    FROM data_sources ds
+    WHERE ds.user_id = v_user_id
+      AND ds.type = p_source_type
+      AND ds.name = p_source_name
+    ORDER BY ds.created_at
+    LIMIT 1;
+
+    IF v_data_source_id IS NULL THEN
+        INSERT INTO data_sources (user_id, type, name, status)
+        VALUES (v_user_id, p_source_type, p_source_name, 'active')
+        RETURNING id INTO v_data_source_id;
+    END IF;
+
+    -- 2. Consent snapshot (latest snapshot of the default storage agreement)
+    SELECT ca.id INTO v_agreement_id
+    FROM consent_agreements ca
+    WHERE ca.user_id = v_user_id
+      AND ca.scope = 'health_data_storage'
+    ORDER BY ca.created_at
+    LIMIT 1;
+
+    IF v_agreement_id IS NULL THEN
+        INSERT INTO consent_agreements (user_id, scope)
+        VALUES (v_user_id, 'health_data_storage')
+        RETURNING id INTO v_agreement_id;
+    END IF;
+
+    SELECT cs.id INTO v_snapshot_id
+    FROM consent_snapshots cs
+    WHERE cs.consent_agreement_id = v_agreement_id
+    ORDER BY cs.created_at DESC
+    LIMIT 1;
+
+    IF v_snapshot_id IS NULL THEN
+        INSERT INTO consent_snapshots (consent_agreement_id, permissions)
+        VALUES (
+            v_agreement_id,
+            jsonb_build_object('store_health_data', true, 'create_timeline_events', true)
+        )
+        RETURNING id INTO v_snapshot_id;
+    END IF;
+
+    -- 3. Provenance
+    INSERT INTO provenance (data_source_id, method, captured_at, metadata)
+    VALUES (v_data_source_id, p_provenance_method, now(), COALESCE(p_provenance_metadata, '{}'::jsonb))
+    RETURNING id INTO v_provenance_id;
+
+    -- 4. Document artifact (uploads only)
+    IF p_document IS NOT NULL THEN
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            p_document->>'title',
+            p_document->>'doc_type',
+            (p_document->>'occurred_at')::timestamptz,
+            p_document->>'storage_path',
+            p_document->>'content_type',
+            (p_document->>'file_size')::bigint,
+            p_document->>'original_filename'
+        )
+        RETURNING id INTO v_artifact_id;
+
+        v_details := v_details || jsonb_build_object('document_artifact_id', v_artifact_id);
+    END IF;
+
+    -- 5. Timeline event
+    INSERT INTO timeline_events (
+        user_id, provenance_id, consent_snapshot_id,
+        event_type, event_time, title, summary, details
+    )
+    VALUES (
+        v_user_id, v_provenance_id, v_snapshot_id,
+        p_event_type, p_event_time, p_title, p_summary, v_details
+    )
+    RETURNING id INTO v_event_id;
+
+    -- 6. Audit event (IDs only, no PHI)
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        p_audit_action,
+        CASE WHEN v_artifact_id IS NULL THEN 'timeline_event' ELSE 'document_artifact' END,
+        COALESCE(v_artifact_id, v_event_id)
+    );
+
+    RETURN QUERY SELECT v_event_id, v_provenance_id, v_artifact_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB
+) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB
+) TO authenticated;
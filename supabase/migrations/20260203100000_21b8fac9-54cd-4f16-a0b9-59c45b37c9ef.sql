@@ -0,0 +1,128 @@
+-- Server-side validation of timeline_events.details
+--
+-- Mirrors the client registry in src/lib/event-registry.ts. Malformed
+-- details now fail on insert instead of rendering as "Untitled" later.
+-- Error messages name the event type and field only (no PHI).
+
+-- Helper: require a details field to have the given JSON type
+CREATE OR REPLACE FUNCTION public.assert_details_field(
+    p_event_type TEXT,
+    p_details JSONB,
+    p_key TEXT,
+    p_json_type TEXT,
+    p_nullable BOOLEAN DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_type TEXT := jsonb_typeof(p_details->p_key);
+BEGIN
+    IF v_type = p_json_type THEN
+        RETURN;
+    END IF;
+
+    IF p_nullable AND (v_type IS NULL OR v_type = 'null') THEN
+        RETURN;
+    END IF;
+
+    RAISE EXCEPTION 'Invalid details for %: field "%" must be %', p_event_type, p_key, p_json_type
+        USING ERRCODE = '22023';
+END;
+$$;
+
+-- Helper: require a string details field to be one of the allowed values
+CREATE OR REPLACE FUNCTION public.assert_details_enum(
+    p_event_type TEXT,
+    p_details JSONB,
+    p_key TEXT,
+    p_allowed TEXT[],
+    p_nullable BOOLEAN DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.assert_details_field(p_event_type, p_details, p_key, 'string', p_nullable);
+
+    IF jsonb_typeof(p_details->p_key) = 'string' AND NOT (p_details->>p_key = ANY (p_allowed)) THEN
+        RAISE EXCEPTION 'Invalid details for %: field "%" has an unknown value', p_event_type, p_key
+            USING ERRCODE = '22023';
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_timeline_event_details
+    BEFORE INSERT ON public.timeline_events
+    FOR EACH ROW EXECUTE FUNCTION public.validate_timeline_event_details();
@@ -0,0 +1,97 @@
+-- Server-computed "current view" of amended events
+--
+-- Amendments are separate immutable events that reference the event they
+-- correct via details->>'amends_event_id'. This view resolves amendment
+-- chains (including amendments of amendments) back to the original event
+-- and returns every event with the content of its latest amendment merged
+-- in. Amendment events themselves are passed through unchanged.
+--
+-- security_invoker: the view runs with the caller's RLS (user isolation).
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_amends_event_id
+    ON public.timeline_events ((details->>'amends_event_id'))
+    WHERE event_type = 'event_amended';
+
+CREATE OR REPLACE VIEW public.timeline_events_current
+WITH (security_invoker = true) AS
+WITH RECURSIVE amendment_chain AS (
+    -- Each amendment and the event it directly amends
+    SELECT
+        a.id AS amendment_id,
+        CASE WHEN a.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (a.details->>'amends_event_id')::uuid END AS target_id,
+        1 AS depth
+    FROM public.timeline_events a
+    WHERE a.event_type = 'event_amended'
+
+    UNION ALL
+
+    -- Walk up through amendments of amendments
+    SELECT
+        c.amendment_id,
+        CASE WHEN t.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (t.details->>'amends_event_id')::uuid END,
+        c.depth + 1
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type = 'event_amended'
+      AND c.depth < 32
+),
+amendment_roots AS (
+    -- Keep the link that reaches a non-amendment (original) event
+    SELECT c.amendment_id, c.target_id AS root_id
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type <> 'event_amended'
+),
+latest_amendment AS (
+    SELECT DISTINCT ON (r.root_id)
+        r.root_id,
+        a.id,
+        a.title,
+        a.summary,
+        a.details,
+        COUNT(*) OVER (PARTITION BY r.root_id) AS amendment_count
+    FROM amendment_roots r
+    JOIN public.timeline_events a ON a.id = r.amendment_id
+    ORDER BY r.root_id, a.created_at DESC, a.id DESC
+)
+SELECT
+    e.id,
+    e.user_id,
+    e.provenance_id,
+    e.consent_snapshot_id,
+    e.event_type,
+    e.event_time,
+    e.created_at,
+    CASE
+        WHEN l.id IS NULL THEN e.title
+        ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+    END AS title,
+    CASE
+        WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+        ELSE e.summary
+    END AS summary,
+    CASE
+        WHEN l.id IS NULL THEN e.details
+        WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'text', l.details->'text',
+                'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+            )
+        ELSE
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                'notes', l.details->'notes'
+            )
+    END AS details,
+    (l.id IS NOT NULL) AS is_amended,
+    l.id AS latest_amendment_id,
+    COALESCE(l.amendment_count, 0)::int AS amendment_count,
+    e.title AS original_title,
+    e.summary AS original_summary,
+    e.details AS original_details
+FROM public.timeline_events e
+LEFT JOIN latest_amendment l ON l.root_id = e.id;
+
+GRANT SELECT ON public.timeline_events_current TO authenticated;
@@ -0,0 +1,2 @@
+-- Add 'manual_retraction' to provenance_method enum
+ALTER TYPE public.provenance_method ADD VALUE IF NOT EXISTS 'manual_retraction';
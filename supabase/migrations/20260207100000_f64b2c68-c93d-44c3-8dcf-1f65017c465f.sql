@@ -0,0 +1,217 @@
+-- Event retraction (tombstone) event type
+--
+-- timeline_events has no UPDATE/DELETE policy, so mistakes are removed by
+-- appending an `event_retracted` event that references the retracted event
+-- and records a reason code. Nothing is deleted: the retracted row stays in
+-- the table and is flagged by the current view so the UI can hide it from
+-- the timeline, visit summaries and shares while keeping it auditable.
+
+-- 1. Validate retraction details (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 2. Current view: flag retracted events (and amendments of retracted
+--    events) and ignore retracted amendments when merging content
+CREATE OR REPLACE VIEW public.timeline_events_current
+WITH (security_invoker = true) AS
+WITH RECURSIVE amendment_chain AS (
+    -- Each amendment and the event it directly amends
+    SELECT
+        a.id AS amendment_id,
+        CASE WHEN a.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (a.details->>'amends_event_id')::uuid END AS target_id,
+        1 AS depth
+    FROM public.timeline_events a
+    WHERE a.event_type = 'event_amended'
+
+    UNION ALL
+
+    -- Walk up through amendments of amendments
+    SELECT
+        c.amendment_id,
+        CASE WHEN t.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (t.details->>'amends_event_id')::uuid END,
+        c.depth + 1
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type = 'event_amended'
+      AND c.depth < 32
+),
+amendment_roots AS (
+    -- Keep the link that reaches a non-amendment (original) event
+    SELECT c.amendment_id, c.target_id AS root_id
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type <> 'event_amended'
+),
+retraction AS (
+    -- Earliest retraction of each event
+    SELECT DISTINCT ON (target_id)
+        target_id,
+        id AS retraction_id,
+        reason_code
+    FROM (
+        SELECT
+            CASE WHEN r.details->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                 THEN (r.details->>'retracts_event_id')::uuid END AS target_id,
+            r.id,
+            r.details->>'reason_code' AS reason_code,
+            r.created_at
+        FROM public.timeline_events r
+        WHERE r.event_type = 'event_retracted'
+    ) r
+    WHERE target_id IS NOT NULL
+    ORDER BY target_id, created_at, id
+),
+latest_amendment AS (
+    SELECT DISTINCT ON (r.root_id)
+        r.root_id,
+        a.id,
+        a.title,
+        a.summary,
+        a.details,
+        COUNT(*) OVER (PARTITION BY r.root_id) AS amendment_count
+    FROM amendment_roots r
+    JOIN public.timeline_events a ON a.id = r.amendment_id
+    -- A retracted amendment no longer contributes to the current view
+    WHERE NOT EXISTS (SELECT 1 FROM retraction x WHERE x.target_id = a.id)
+    ORDER BY r.root_id, a.created_at DESC, a.id DESC
+)
+SELECT
+    e.id,
+    e.user_id,
+    e.provenance_id,
+    e.consent_snapshot_id,
+    e.event_type,
+    e.event_time,
+    e.created_at,
+    CASE
+        WHEN l.id IS NULL THEN e.title
+        ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+    END AS title,
+    CASE
+        WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+        ELSE e.summary
+    END AS summary,
+    CASE
+        WHEN l.id IS NULL THEN e.details
+        WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'text', l.details->'text',
+                'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+            )
+        ELSE
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                'notes', l.details->'notes'
+            )
+    END AS details,
+    (l.id IS NOT NULL) AS is_amended,
+    l.id AS latest_amendment_id,
+    COALESCE(l.amendment_count, 0)::int AS amendment_count,
+    e.title AS original_title,
+    e.summary AS original_summary,
+    e.details AS original_details,
+    (rx.retraction_id IS NOT NULL) AS is_retracted,
+    rx.retraction_id,
+    rx.reason_code AS retraction_reason
+FROM public.timeline_events e
+LEFT JOIN latest_amendment l ON l.root_id = e.id
+LEFT JOIN amendment_roots ar ON ar.amendment_id = e.id
+-- An event is retracted directly, or because the original it amends was retracted
+LEFT JOIN LATERAL (
+    SELECT x.retraction_id, x.reason_code
+    FROM retraction x
+    WHERE x.target_id = e.id OR x.target_id = ar.root_id
+    ORDER BY (x.target_id = e.id) DESC
+    LIMIT 1
+) rx ON true;
+
+GRANT SELECT ON public.timeline_events_current TO authenticated;
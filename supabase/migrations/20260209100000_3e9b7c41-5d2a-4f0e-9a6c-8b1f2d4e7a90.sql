@@ -0,0 +1,313 @@
+-- Tamper-evident hash chain over timeline_events and audit_events
+--
+-- Immutability is otherwise only enforced by the absence of UPDATE/DELETE
+-- policies, and the service role bypasses RLS. Every row now carries:
+--   chain_seq  position in the user's chain (1, 2, 3, ...)
+--   prev_hash  row_hash of the previous row in the chain (NULL for the first)
+--   row_hash   sha256(prev_hash || canonical content), hex encoded
+--
+-- Hashes are computed by BEFORE INSERT triggers, so client-supplied values
+-- are always overwritten. Each user has one chain per table. An advisory
+-- lock per (table, user) serialises concurrent inserts into the same chain.
+--
+-- verify_hash_chains() recomputes both chains for the caller and reports
+-- the first broken link. Results contain IDs and positions only (no PHI).
+
+ALTER TABLE public.timeline_events
+ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+ADD COLUMN IF NOT EXISTS row_hash TEXT;
+
+ALTER TABLE public.audit_events
+ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+ADD COLUMN IF NOT EXISTS row_hash TEXT;
+
+-- Helper: timestamps are hashed in UTC so the session TimeZone never matters
+CREATE OR REPLACE FUNCTION public.chain_timestamp(p_value TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT to_char(p_value AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"');
+$$;
+
+-- Helper: link a row's canonical content to the previous row's hash
+CREATE OR REPLACE FUNCTION public.chain_hash(p_prev_hash TEXT, p_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT encode(sha256(convert_to(COALESCE(p_prev_hash, '') || '|' || p_content, 'UTF8')), 'hex');
+$$;
+
+-- Canonical content of a timeline event (chain columns excluded)
+CREATE OR REPLACE FUNCTION public.timeline_event_canonical(p_event public.timeline_events)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'id', p_event.id,
+        'user_id', p_event.user_id,
+        'provenance_id', p_event.provenance_id,
+        'consent_snapshot_id', p_event.consent_snapshot_id,
+        'event_type', p_event.event_type,
+        'event_time', public.chain_timestamp(p_event.event_time),
+        'title', p_event.title,
+        'summary', p_event.summary,
+        'details', p_event.details,
+        'created_at', public.chain_timestamp(p_event.created_at)
+    )::text;
+$$;
+
+-- Canonical content of an audit event (chain columns excluded)
+CREATE OR REPLACE FUNCTION public.audit_event_canonical(p_event public.audit_events)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'id', p_event.id,
+        'user_id', p_event.user_id,
+        'action', p_event.action,
+        'entity_type', p_event.entity_type,
+        'entity_id', p_event.entity_id,
+        'created_at', public.chain_timestamp(p_event.created_at)
+    )::text;
+$$;
+
+-- Backfill existing rows in insertion order, one chain per user
+DO $$
+DECLARE
+    v_event public.timeline_events;
+    v_audit public.audit_events;
+    v_user_id UUID := NULL;
+    v_prev_hash TEXT;
+    v_seq BIGINT;
+BEGIN
+    FOR v_event IN
+        SELECT * FROM public.timeline_events ORDER BY user_id, created_at, id
+    LOOP
+        IF v_user_id IS DISTINCT FROM v_event.user_id THEN
+            v_user_id := v_event.user_id;
+            v_prev_hash := NULL;
+            v_seq := 0;
+        END IF;
+        v_seq := v_seq + 1;
+
+        UPDATE public.timeline_events
+        SET chain_seq = v_seq,
+            prev_hash = v_prev_hash,
+            row_hash = public.chain_hash(v_prev_hash, public.timeline_event_canonical(v_event))
+        WHERE id = v_event.id
+        RETURNING row_hash INTO v_prev_hash;
+    END LOOP;
+
+    v_user_id := NULL;
+    FOR v_audit IN
+        SELECT * FROM public.audit_events ORDER BY user_id, created_at, id
+    LOOP
+        IF v_user_id IS DISTINCT FROM v_audit.user_id THEN
+            v_user_id := v_audit.user_id;
+            v_prev_hash := NULL;
+            v_seq := 0;
+        END IF;
+        v_seq := v_seq + 1;
+
+        UPDATE public.audit_events
+        SET chain_seq = v_seq,
+            prev_hash = v_prev_hash,
+            row_hash = public.chain_hash(v_prev_hash, public.audit_event_canonical(v_audit))
+        WHERE id = v_audit.id
+        RETURNING row_hash INTO v_prev_hash;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE public.timeline_events
+ALTER COLUMN chain_seq SET NOT NULL,
+ALTER COLUMN row_hash SET NOT NULL;
+
+ALTER TABLE public.audit_events
+ALTER COLUMN chain_seq SET NOT NULL,
+ALTER COLUMN row_hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timeline_events_user_chain_seq
+    ON public.timeline_events (user_id, chain_seq);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_user_chain_seq
+    ON public.audit_events (user_id, chain_seq);
+
+-- Trigger: append a timeline event to its user's chain
+CREATE OR REPLACE FUNCTION public.chain_timeline_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_prev_seq BIGINT;
+    v_prev_hash TEXT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('timeline_events:' || NEW.user_id::text, 0));
+
+    SELECT t.chain_seq, t.row_hash
+    INTO v_prev_seq, v_prev_hash
+    FROM public.timeline_events t
+    WHERE t.user_id = NEW.user_id
+    ORDER BY t.chain_seq DESC
+    LIMIT 1;
+
+    NEW.chain_seq := COALESCE(v_prev_seq, 0) + 1;
+    NEW.prev_hash := v_prev_hash;
+    NEW.row_hash := public.chain_hash(v_prev_hash, public.timeline_event_canonical(NEW));
+
+    RETURN NEW;
+END;
+$$;
+
+-- Trigger: append an audit event to its user's chain
+CREATE OR REPLACE FUNCTION public.chain_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_prev_seq BIGINT;
+    v_prev_hash TEXT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('audit_events:' || NEW.user_id::text, 0));
+
+    SELECT a.chain_seq, a.row_hash
+    INTO v_prev_seq, v_prev_hash
+    FROM public.audit_events a
+    WHERE a.user_id = NEW.user_id
+    ORDER BY a.chain_seq DESC
+    LIMIT 1;
+
+    NEW.chain_seq := COALESCE(v_prev_seq, 0) + 1;
+    NEW.prev_hash := v_prev_hash;
+    NEW.row_hash := public.chain_hash(v_prev_hash, public.audit_event_canonical(NEW));
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chain_timeline_event ON public.timeline_events;
+CREATE TRIGGER chain_timeline_event
+    BEFORE INSERT ON public.timeline_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.chain_timeline_event();
+
+DROP TRIGGER IF EXISTS chain_audit_event ON public.audit_events;
+CREATE TRIGGER chain_audit_event
+    BEFORE INSERT ON public.audit_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.chain_audit_event();
+
+-- Verify the caller's chains, stopping at the first broken link.
+--
+-- failure_reason:
+--   missing_row       a chain position is absent (row deleted)
+--   broken_link       prev_hash does not match the previous row's hash
+--   content_mismatch  the row's content no longer matches its hash
+CREATE OR REPLACE FUNCTION public.verify_hash_chains()
+RETURNS TABLE (
+    chain_name TEXT,
+    rows_checked BIGINT,
+    is_valid BOOLEAN,
+    broken_row_id UUID,
+    broken_seq BIGINT,
+    failure_reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event public.timeline_events;
+    v_audit public.audit_events;
+    v_prev_hash TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    -- timeline_events
+    chain_name := 'timeline_events';
+    rows_checked := 0;
+    is_valid := true;
+    broken_row_id := NULL;
+    broken_seq := NULL;
+    failure_reason := NULL;
+    v_prev_hash := NULL;
+
+    FOR v_event IN
+        SELECT * FROM public.timeline_events t WHERE t.user_id = v_user_id ORDER BY t.chain_seq
+    LOOP
+        rows_checked := rows_checked + 1;
+
+        IF v_event.chain_seq <> rows_checked THEN
+            failure_reason := 'missing_row';
+        ELSIF v_event.prev_hash IS DISTINCT FROM v_prev_hash THEN
+            failure_reason := 'broken_link';
+        ELSIF v_event.row_hash <> public.chain_hash(v_event.prev_hash, public.timeline_event_canonical(v_event)) THEN
+            failure_reason := 'content_mismatch';
+        END IF;
+
+        IF failure_reason IS NOT NULL THEN
+            is_valid := false;
+            broken_row_id := v_event.id;
+            broken_seq := v_event.chain_seq;
+            EXIT;
+        END IF;
+
+        v_prev_hash := v_event.row_hash;
+    END LOOP;
+
+    RETURN NEXT;
+
+    -- audit_events
+    chain_name := 'audit_events';
+    rows_checked := 0;
+    is_valid := true;
+    broken_row_id := NULL;
+    broken_seq := NULL;
+    failure_reason := NULL;
+    v_prev_hash := NULL;
+
+    FOR v_audit IN
+        SELECT * FROM public.audit_events a WHERE a.user_id = v_user_id ORDER BY a.chain_seq
+    LOOP
+        rows_checked := rows_checked + 1;
+
+        IF v_audit.chain_seq <> rows_checked THEN
+            failure_reason := 'missing_row';
+        ELSIF v_audit.prev_hash IS DISTINCT FROM v_prev_hash THEN
+            failure_reason := 'broken_link';
+        ELSIF v_audit.row_hash <> public.chain_hash(v_audit.prev_hash, public.audit_event_canonical(v_audit)) THEN
+            failure_reason := 'content_mismatch';
+        END IF;
+
+        IF failure_reason IS NOT NULL THEN
+            is_valid := false;
+            broken_row_id := v_audit.id;
+            broken_seq := v_audit.chain_seq;
+            EXIT;
+        END IF;
+
+        v_prev_hash := v_audit.row_hash;
+    END LOOP;
+
+    RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_hash_chains() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_hash_chains() TO authenticated;
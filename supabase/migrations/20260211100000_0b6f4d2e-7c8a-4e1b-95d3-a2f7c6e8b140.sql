@@ -0,0 +1,166 @@
+-- Bitemporal "as known on" timeline
+--
+-- Events carry both event_time (when it happened) and created_at (when it
+-- was recorded). timeline_events_as_of(p_as_of) returns the current view as
+-- it existed at p_as_of: events, amendments and retractions recorded after
+-- that moment are ignored, so an event shows the content it had back then.
+-- A NULL p_as_of means "now" and is what timeline_events_current uses.
+--
+-- The function is plain SQL with no SET clause so the planner can inline it
+-- into the view and push filters down; every reference is schema-qualified.
+-- SECURITY INVOKER: the caller's RLS still applies (user isolation).
+
+CREATE OR REPLACE FUNCTION public.timeline_events_as_of(p_as_of TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    provenance_id UUID,
+    consent_snapshot_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    title TEXT,
+    summary TEXT,
+    details JSONB,
+    is_amended BOOLEAN,
+    latest_amendment_id UUID,
+    amendment_count INT,
+    original_title TEXT,
+    original_summary TEXT,
+    original_details JSONB,
+    is_retracted BOOLEAN,
+    retraction_id UUID,
+    retraction_reason TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+WITH RECURSIVE amendment_chain AS (
+    -- Each amendment and the event it directly amends
+    SELECT
+        a.id AS amendment_id,
+        CASE WHEN a.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (a.details->>'amends_event_id')::uuid END AS target_id,
+        1 AS depth
+    FROM public.timeline_events a
+    WHERE a.event_type = 'event_amended'
+      AND (p_as_of IS NULL OR a.created_at <= p_as_of)
+
+    UNION ALL
+
+    -- Walk up through amendments of amendments
+    SELECT
+        c.amendment_id,
+        CASE WHEN t.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (t.details->>'amends_event_id')::uuid END,
+        c.depth + 1
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type = 'event_amended'
+      AND c.depth < 32
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+amendment_roots AS (
+    -- Keep the link that reaches a non-amendment (original) event
+    SELECT c.amendment_id, c.target_id AS root_id
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type <> 'event_amended'
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+retraction AS (
+    -- Earliest retraction of each event
+    SELECT DISTINCT ON (target_id)
+        target_id,
+        id AS retraction_id,
+        reason_code
+    FROM (
+        SELECT
+            CASE WHEN r.details->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                 THEN (r.details->>'retracts_event_id')::uuid END AS target_id,
+            r.id,
+            r.details->>'reason_code' AS reason_code,
+            r.created_at
+        FROM public.timeline_events r
+        WHERE r.event_type = 'event_retracted'
+          AND (p_as_of IS NULL OR r.created_at <= p_as_of)
+    ) r
+    WHERE target_id IS NOT NULL
+    ORDER BY target_id, created_at, id
+),
+latest_amendment AS (
+    SELECT DISTINCT ON (r.root_id)
+        r.root_id,
+        a.id,
+        a.title,
+        a.summary,
+        a.details,
+        COUNT(*) OVER (PARTITION BY r.root_id) AS amendment_count
+    FROM amendment_roots r
+    JOIN public.timeline_events a ON a.id = r.amendment_id
+    -- A retracted amendment no longer contributes to the current view
+    WHERE NOT EXISTS (SELECT 1 FROM retraction x WHERE x.target_id = a.id)
+    ORDER BY r.root_id, a.created_at DESC, a.id DESC
+)
+SELECT
+    e.id,
+    e.user_id,
+    e.provenance_id,
+    e.consent_snapshot_id,
+    e.event_type,
+    e.event_time,
+    e.created_at,
+    CASE
+        WHEN l.id IS NULL THEN e.title
+        ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+    END AS title,
+    CASE
+        WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+        ELSE e.summary
+    END AS summary,
+    CASE
+        WHEN l.id IS NULL THEN e.details
+        WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'text', l.details->'text',
+                'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+            )
+        ELSE
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                'notes', l.details->'notes'
+            )
+    END AS details,
+    (l.id IS NOT NULL) AS is_amended,
+    l.id AS latest_amendment_id,
+    COALESCE(l.amendment_count, 0)::int AS amendment_count,
+    e.title AS original_title,
+    e.summary AS original_summary,
+    e.details AS original_details,
+    (rx.retraction_id IS NOT NULL) AS is_retracted,
+    rx.retraction_id,
+    rx.reason_code AS retraction_reason
+FROM public.timeline_events e
+LEFT JOIN latest_amendment l ON l.root_id = e.id
+LEFT JOIN amendment_roots ar ON ar.amendment_id = e.id
+-- An event is retracted directly, or because the original it amends was retracted
+LEFT JOIN LATERAL (
+    SELECT x.retraction_id, x.reason_code
+    FROM retraction x
+    WHERE x.target_id = e.id OR x.target_id = ar.root_id
+    ORDER BY (x.target_id = e.id) DESC
+    LIMIT 1
+) rx ON true
+WHERE (p_as_of IS NULL OR e.created_at <= p_as_of);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) TO authenticated;
+
+-- The current view is the as-of view with no cutoff
+CREATE OR REPLACE VIEW public.timeline_events_current
+WITH (security_invoker = true) AS
+SELECT * FROM public.timeline_events_as_of(NULL);
+
+GRANT SELECT ON public.timeline_events_current TO authenticated;
@@ -0,0 +1,12 @@
+-- Keyset pagination for the timeline
+--
+-- The Timeline pages through timeline_events_as_of ordered by
+-- (event_time DESC, id DESC) with filters applied server-side. These
+-- indexes let each page start at the cursor instead of scanning the
+-- user's whole history.
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_user_event_time
+    ON public.timeline_events (user_id, event_time DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_user_type_event_time
+    ON public.timeline_events (user_id, event_type, event_time DESC, id DESC);
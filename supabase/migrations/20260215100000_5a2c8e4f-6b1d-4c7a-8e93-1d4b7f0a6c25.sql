@@ -0,0 +1,111 @@
+-- Full-text search across timeline events and document metadata
+--
+-- Stored tsvector columns (generated, so they can never drift from the row):
+--   timeline_events.search_vector    title (A), summary (B), details strings (C)
+--   document_artifacts.search_vector title (A), doc_type and filename (B)
+--
+-- search_timeline() matches both, maps document hits to their
+-- document_uploaded event, skips retracted events and returns highlighted
+-- fragments from the current (amended) content. Matches are wrapped in
+-- U+27E6 / U+27E7 markers rather than HTML so the client never renders
+-- user content as markup.
+--
+-- The generated columns are not part of the hash chain's canonical content.
+
+ALTER TABLE public.timeline_events
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(summary, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, COALESCE(details, '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+ALTER TABLE public.document_artifacts
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, replace(COALESCE(doc_type, ''), '_', ' ')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(original_filename, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_search_vector
+    ON public.timeline_events USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_document_artifacts_search_vector
+    ON public.document_artifacts USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_timeline(
+    p_query TEXT,
+    p_limit INT DEFAULT 25
+)
+RETURNS TABLE (
+    event_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    title TEXT,
+    headline TEXT,
+    matched_document BOOLEAN,
+    rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_query tsquery;
+BEGIN
+    IF p_query IS NULL OR length(trim(p_query)) = 0 THEN
+        RETURN;
+    END IF;
+
+    IF length(p_query) > 200 THEN
+        RAISE EXCEPTION 'Search query is too long' USING ERRCODE = '22023';
+    END IF;
+
+    v_query := websearch_to_tsquery('english', p_query);
+
+    RETURN QUERY
+    WITH hits AS (
+        SELECT e.id AS hit_event_id, ts_rank(e.search_vector, v_query) AS hit_rank, false AS is_document
+        FROM public.timeline_events e
+        WHERE e.search_vector @@ v_query
+
+        UNION ALL
+
+        SELECT e.id, ts_rank(d.search_vector, v_query), true
+        FROM public.document_artifacts d
+        JOIN public.timeline_events e
+          ON e.event_type = 'document_uploaded'
+         AND e.details->>'document_artifact_id' = d.id::text
+        WHERE d.search_vector @@ v_query
+    ),
+    best AS (
+        SELECT hit_event_id, MAX(hit_rank) AS best_rank, bool_or(is_document) AS any_document
+        FROM hits
+        GROUP BY hit_event_id
+    )
+    SELECT
+        c.id,
+        c.event_type,
+        c.event_time,
+        c.title,
+        ts_headline(
+            'english',
+            concat_ws(' — ', c.title, c.summary, c.details->>'text', c.details->>'notes', d.title),
+            v_query,
+            'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        b.any_document,
+        b.best_rank
+    FROM best b
+    JOIN public.timeline_events_current c ON c.id = b.hit_event_id
+    LEFT JOIN public.document_artifacts d
+      ON d.id::text = c.details->>'document_artifact_id'
+    WHERE NOT c.is_retracted
+    ORDER BY b.best_rank DESC, c.event_time DESC, c.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_timeline(TEXT, INT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_timeline(TEXT, INT) TO authenticated;
@@ -0,0 +1,79 @@
+-- Explicit, typed links between related events
+--
+-- A link reads "source <link_type> target", e.g. a lab document is
+-- result_of a symptom journal entry. Links are append-only like events:
+-- there are no UPDATE or DELETE policies.
+--
+-- link_events() inserts the link and its audit event in one transaction.
+-- SECURITY INVOKER: RLS still applies, and both events must belong to the
+-- caller.
+
+CREATE TYPE public.event_link_type AS ENUM ('caused_by', 'follow_up_of', 'result_of', 'attachment_of');
+
+CREATE TABLE public.event_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source_event_id UUID NOT NULL REFERENCES public.timeline_events(id) ON DELETE RESTRICT,
+    target_event_id UUID NOT NULL REFERENCES public.timeline_events(id) ON DELETE RESTRICT,
+    link_type public.event_link_type NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT event_links_not_self CHECK (source_event_id <> target_event_id),
+    CONSTRAINT event_links_unique UNIQUE (source_event_id, target_event_id, link_type)
+);
+ALTER TABLE public.event_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own event_links"
+    ON public.event_links FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own event_links"
+    ON public.event_links FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.timeline_events s WHERE s.id = source_event_id AND s.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.timeline_events t WHERE t.id = target_event_id AND t.user_id = auth.uid())
+    );
+
+CREATE INDEX IF NOT EXISTS idx_event_links_source ON public.event_links (source_event_id);
+CREATE INDEX IF NOT EXISTS idx_event_links_target ON public.event_links (target_event_id);
+
+CREATE OR REPLACE FUNCTION public.link_events(
+    p_source_event_id UUID,
+    p_target_event_id UUID,
+    p_link_type public.event_link_type
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_link_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_source_event_id = p_target_event_id THEN
+        RAISE EXCEPTION 'An event cannot be linked to itself' USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM timeline_events WHERE id = p_source_event_id AND user_id = v_user_id)
+       OR NOT EXISTS (SELECT 1 FROM timeline_events WHERE id = p_target_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION 'Linked event not found' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO event_links (user_id, source_event_id, target_event_id, link_type)
+    VALUES (v_user_id, p_source_event_id, p_target_event_id, p_link_type)
+    RETURNING id INTO v_link_id;
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (v_user_id, 'event_linked', 'event_link', v_link_id);
+
+    RETURN v_link_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_events(UUID, UUID, public.event_link_type) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.link_events(UUID, UUID, public.event_link_type) TO authenticated;
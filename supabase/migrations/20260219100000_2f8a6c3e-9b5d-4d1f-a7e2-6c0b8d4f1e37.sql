@@ -0,0 +1,288 @@
+-- User tags on events
+--
+-- Tags follow the event-first guardrail: every add or remove is a new row
+-- in the append-only event_tag_actions table (no UPDATE or DELETE
+-- policies). The current tag set of an event is derived from the latest
+-- action per tag. Tags are normalised (trimmed, lower case, single spaces).
+--
+-- timeline_events_as_of() gains a tags column so the Timeline can filter
+-- by tag server-side and "as of" mode shows the tags known at the cutoff.
+-- The function's return type changes, so it and the current view are
+-- dropped and recreated.
+
+CREATE TYPE public.event_tag_action AS ENUM ('added', 'removed');
+
+CREATE TABLE public.event_tag_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.timeline_events(id) ON DELETE RESTRICT,
+    tag TEXT NOT NULL,
+    action public.event_tag_action NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT event_tag_actions_tag_format CHECK (
+        tag = lower(tag) AND tag = btrim(tag) AND length(tag) BETWEEN 1 AND 50
+    )
+);
+ALTER TABLE public.event_tag_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own event_tag_actions"
+    ON public.event_tag_actions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own event_tag_actions"
+    ON public.event_tag_actions FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.timeline_events e WHERE e.id = event_id AND e.user_id = auth.uid())
+    );
+
+CREATE INDEX IF NOT EXISTS idx_event_tag_actions_event_tag
+    ON public.event_tag_actions (event_id, tag, created_at DESC);
+
+-- Current tags per event (latest action per tag is 'added')
+CREATE OR REPLACE VIEW public.event_tags_current
+WITH (security_invoker = true) AS
+SELECT event_id, user_id, tag, created_at AS tagged_at
+FROM (
+    SELECT DISTINCT ON (a.event_id, a.tag)
+        a.event_id, a.user_id, a.tag, a.action, a.created_at
+    FROM public.event_tag_actions a
+    ORDER BY a.event_id, a.tag, a.created_at DESC, a.id DESC
+) latest
+WHERE action = 'added';
+
+GRANT SELECT ON public.event_tags_current TO authenticated;
+
+-- Add or remove a tag, with its audit event, in one transaction
+CREATE OR REPLACE FUNCTION public.tag_event(
+    p_event_id UUID,
+    p_tag TEXT,
+    p_action public.event_tag_action
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_tag TEXT := lower(btrim(regexp_replace(COALESCE(p_tag, ''), '\s+', ' ', 'g')));
+    v_current public.event_tag_action;
+    v_action_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF length(v_tag) NOT BETWEEN 1 AND 50 THEN
+        RAISE EXCEPTION 'Tag must be 1-50 characters' USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM timeline_events WHERE id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION 'Tagged event not found' USING ERRCODE = '22023';
+    END IF;
+
+    -- Serialise writes for this event so "latest action" stays well defined
+    PERFORM pg_advisory_xact_lock(hashtextextended('event_tags:' || p_event_id::text, 0));
+
+    SELECT a.action INTO v_current
+    FROM event_tag_actions a
+    WHERE a.event_id = p_event_id AND a.tag = v_tag
+    ORDER BY a.created_at DESC, a.id DESC
+    LIMIT 1;
+
+    -- No-op if the tag is already in the requested state
+    IF v_current IS NOT DISTINCT FROM p_action
+       OR (v_current IS NULL AND p_action = 'removed') THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO event_tag_actions (user_id, event_id, tag, action)
+    VALUES (v_user_id, p_event_id, v_tag, p_action)
+    RETURNING id INTO v_action_id;
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        CASE WHEN p_action = 'added' THEN 'event_tagged' ELSE 'event_untagged' END,
+        'timeline_event',
+        p_event_id
+    );
+
+    RETURN v_action_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tag_event(UUID, TEXT, public.event_tag_action) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.tag_event(UUID, TEXT, public.event_tag_action) TO authenticated;
+
+-- Recreate the as-of function and current view with tags
+DROP VIEW IF EXISTS public.timeline_events_current;
+DROP FUNCTION IF EXISTS public.timeline_events_as_of(TIMESTAMPTZ);
+
+CREATE FUNCTION public.timeline_events_as_of(p_as_of TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    provenance_id UUID,
+    consent_snapshot_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    title TEXT,
+    summary TEXT,
+    details JSONB,
+    is_amended BOOLEAN,
+    latest_amendment_id UUID,
+    amendment_count INT,
+    original_title TEXT,
+    original_summary TEXT,
+    original_details JSONB,
+    is_retracted BOOLEAN,
+    retraction_id UUID,
+    retraction_reason TEXT,
+    tags TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+WITH RECURSIVE amendment_chain AS (
+    -- Each amendment and the event it directly amends
+    SELECT
+        a.id AS amendment_id,
+        CASE WHEN a.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (a.details->>'amends_event_id')::uuid END AS target_id,
+        1 AS depth
+    FROM public.timeline_events a
+    WHERE a.event_type = 'event_amended'
+      AND (p_as_of IS NULL OR a.created_at <= p_as_of)
+
+    UNION ALL
+
+    -- Walk up through amendments of amendments
+    SELECT
+        c.amendment_id,
+        CASE WHEN t.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (t.details->>'amends_event_id')::uuid END,
+        c.depth + 1
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type = 'event_amended'
+      AND c.depth < 32
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+amendment_roots AS (
+    -- Keep the link that reaches a non-amendment (original) event
+    SELECT c.amendment_id, c.target_id AS root_id
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type <> 'event_amended'
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+retraction AS (
+    -- Earliest retraction of each event
+    SELECT DISTINCT ON (target_id)
+        target_id,
+        id AS retraction_id,
+        reason_code
+    FROM (
+        SELECT
+            CASE WHEN r.details->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                 THEN (r.details->>'retracts_event_id')::uuid END AS target_id,
+            r.id,
+            r.details->>'reason_code' AS reason_code,
+            r.created_at
+        FROM public.timeline_events r
+        WHERE r.event_type = 'event_retracted'
+          AND (p_as_of IS NULL OR r.created_at <= p_as_of)
+    ) r
+    WHERE target_id IS NOT NULL
+    ORDER BY target_id, created_at, id
+),
+latest_amendment AS (
+    SELECT DISTINCT ON (r.root_id)
+        r.root_id,
+        a.id,
+        a.title,
+        a.summary,
+        a.details,
+        COUNT(*) OVER (PARTITION BY r.root_id) AS amendment_count
+    FROM amendment_roots r
+    JOIN public.timeline_events a ON a.id = r.amendment_id
+    -- A retracted amendment no longer contributes to the current view
+    WHERE NOT EXISTS (SELECT 1 FROM retraction x WHERE x.target_id = a.id)
+    ORDER BY r.root_id, a.created_at DESC, a.id DESC
+)
+SELECT
+    e.id,
+    e.user_id,
+    e.provenance_id,
+    e.consent_snapshot_id,
+    e.event_type,
+    e.event_time,
+    e.created_at,
+    CASE
+        WHEN l.id IS NULL THEN e.title
+        ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+    END AS title,
+    CASE
+        WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+        ELSE e.summary
+    END AS summary,
+    CASE
+        WHEN l.id IS NULL THEN e.details
+        WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'text', l.details->'text',
+                'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+            )
+        ELSE
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                'notes', l.details->'notes'
+            )
+    END AS details,
+    (l.id IS NOT NULL) AS is_amended,
+    l.id AS latest_amendment_id,
+    COALESCE(l.amendment_count, 0)::int AS amendment_count,
+    e.title AS original_title,
+    e.summary AS original_summary,
+    e.details AS original_details,
+    (rx.retraction_id IS NOT NULL) AS is_retracted,
+    rx.retraction_id,
+    rx.reason_code AS retraction_reason,
+    -- Current tag set: tags whose latest action (as of the cutoff) is 'added'
+    COALESCE((
+        SELECT array_agg(t.tag ORDER BY t.tag)
+        FROM (
+            SELECT DISTINCT ON (ta.tag) ta.tag, ta.action
+            FROM public.event_tag_actions ta
+            WHERE ta.event_id = e.id
+              AND (p_as_of IS NULL OR ta.created_at <= p_as_of)
+            ORDER BY ta.tag, ta.created_at DESC, ta.id DESC
+        ) t
+        WHERE t.action = 'added'
+    ), '{}'::text[]) AS tags
+FROM public.timeline_events e
+LEFT JOIN latest_amendment l ON l.root_id = e.id
+LEFT JOIN amendment_roots ar ON ar.amendment_id = e.id
+-- An event is retracted directly, or because the original it amends was retracted
+LEFT JOIN LATERAL (
+    SELECT x.retraction_id, x.reason_code
+    FROM retraction x
+    WHERE x.target_id = e.id OR x.target_id = ar.root_id
+    ORDER BY (x.target_id = e.id) DESC
+    LIMIT 1
+) rx ON true
+WHERE (p_as_of IS NULL OR e.created_at <= p_as_of);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) TO authenticated;
+
+CREATE VIEW public.timeline_events_current
+WITH (security_invoker = true) AS
+SELECT * FROM public.timeline_events_as_of(NULL);
+
+GRANT SELECT ON public.timeline_events_current TO authenticated;
@@ -0,0 +1,133 @@
+-- Structured symptom journal entries
+--
+-- Journal entries in the "symptom" category may carry a `symptom` object:
+-- name, severity (integer 0-10), body location, onset (sudden/gradual),
+-- duration in minutes and a list of triggers. It mirrors
+-- symptomDetailsSchema in src/lib/event-registry.ts. Entries without it
+-- (free-text symptoms recorded before this change) remain valid.
+--
+-- Amendments only replace text and category in the current view, so the
+-- symptom fields of the original entry carry through unchanged.
+
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,246 @@
+-- Medication log and derived medication list
+--
+-- Medications were recorded three unconnected ways: a journal category, an
+-- imported external_event category and a document type. This adds a
+-- structured `medication_event` type (started, dose_changed, stopped,
+-- dose_taken) with name, strength, route and frequency, mirroring
+-- medicationEventDetailsSchema in src/lib/event-registry.ts. Imported
+-- medication records may carry the same fields in details.medication.
+--
+-- medication_list derives each medication's current state from that event
+-- stream: the latest non-dose event decides whether it is active. Nothing
+-- is stored; the list is always replayed from immutable events.
+
+-- 1. Shared check for medication name, strength, route and frequency
+CREATE OR REPLACE FUNCTION public.assert_medication_fields(
+    p_event_type TEXT,
+    p_fields JSONB,
+    p_routes TEXT[]
+)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM assert_details_field(p_event_type, p_fields, 'name', 'string');
+    PERFORM assert_details_field(p_event_type, p_fields, 'strength', 'string', true);
+    PERFORM assert_details_enum(p_event_type, p_fields, 'route', p_routes, true);
+    PERFORM assert_details_field(p_event_type, p_fields, 'frequency', 'string', true);
+
+    IF length(btrim(p_fields->>'name')) NOT BETWEEN 1 AND 100 THEN
+        RAISE EXCEPTION 'Invalid details for %: field "name" must be 1-100 characters', p_event_type
+            USING ERRCODE = '22023';
+    END IF;
+END;
+$$;
+
+-- 2. Validate medication events (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 3. Current state of each medication, derived from the event stream
+CREATE OR REPLACE VIEW public.medication_list
+WITH (security_invoker = true) AS
+WITH records AS (
+    SELECT
+        e.user_id,
+        e.id AS event_id,
+        e.event_type,
+        e.event_time,
+        e.created_at,
+        e.provenance_id,
+        -- An imported medication record means the medication was prescribed
+        CASE WHEN e.event_type = 'medication_event' THEN e.details->>'action' ELSE 'started' END AS action,
+        m.fields->>'name' AS name,
+        m.fields->>'strength' AS strength,
+        m.fields->>'route' AS route,
+        m.fields->>'frequency' AS frequency,
+        lower(btrim(regexp_replace(m.fields->>'name', '\s+', ' ', 'g'))) AS medication_key
+    FROM public.timeline_events_current e
+    CROSS JOIN LATERAL (
+        SELECT CASE WHEN e.event_type = 'medication_event' THEN e.details ELSE e.details->'medication' END AS fields
+    ) m
+    WHERE NOT e.is_retracted
+      AND (
+          e.event_type = 'medication_event'
+          OR (e.event_type = 'external_event'
+              AND e.details->>'resource_category' = 'medication'
+              AND jsonb_typeof(e.details->'medication') = 'object')
+      )
+),
+latest AS (
+    -- Latest start, change or stop decides the current state
+    SELECT DISTINCT ON (user_id, medication_key) *
+    FROM records
+    WHERE action <> 'dose_taken'
+    ORDER BY user_id, medication_key, event_time DESC, created_at DESC
+),
+stats AS (
+    SELECT
+        user_id,
+        medication_key,
+        max(event_time) FILTER (WHERE action = 'started') AS started_at,
+        max(event_time) FILTER (WHERE action = 'dose_taken') AS last_taken_at,
+        count(*) AS event_count
+    FROM records
+    GROUP BY user_id, medication_key
+)
+SELECT
+    l.user_id,
+    l.medication_key,
+    l.name,
+    l.strength,
+    l.route,
+    l.frequency,
+    l.action <> 'stopped' AS is_active,
+    l.action AS last_action,
+    l.event_time AS last_changed_at,
+    s.started_at,
+    s.last_taken_at,
+    s.event_count::INT AS event_count,
+    l.event_id AS latest_event_id,
+    l.event_type AS latest_event_type,
+    l.provenance_id,
+    p.method AS provenance_method,
+    ds.name AS source_name,
+    ds.type AS source_type
+FROM latest l
+JOIN stats s ON s.user_id = l.user_id AND s.medication_key = l.medication_key
+JOIN public.provenance p ON p.id = l.provenance_id
+JOIN public.data_sources ds ON ds.id = p.data_source_id;
+
+GRANT SELECT ON public.medication_list TO authenticated;
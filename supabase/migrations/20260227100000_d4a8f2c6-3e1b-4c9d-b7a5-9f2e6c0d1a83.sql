@@ -0,0 +1,380 @@
+-- User-defined trackers
+--
+-- A tracker is a user's own definition of something to track (migraine
+-- days, sleep hours, pain flares...) as a list of typed fields: number,
+-- scale, boolean, choice or duration (whole minutes). The definition
+-- mirrors trackerFieldsSchema in src/lib/trackers.ts.
+--
+-- Entries are `tracker_entry` timeline events whose details carry the
+-- tracker_id and a values object keyed by field key. The trigger checks
+-- the values against the definition, so a tracker's fields are frozen
+-- once created: renaming or archiving a tracker is allowed, changing its
+-- fields is not (that would reinterpret past entries). Trackers are never
+-- deleted; archiving hides them and stops new entries.
+
+-- 1. Trackers
+CREATE TABLE public.trackers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+    description TEXT CHECK (description IS NULL OR length(description) <= 500),
+    -- [{ "key", "label", "type", "required", ...type options }]
+    fields JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    archived_at TIMESTAMPTZ
+);
+ALTER TABLE public.trackers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trackers"
+    ON public.trackers FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own trackers"
+    ON public.trackers FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own trackers"
+    ON public.trackers FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- 2. Validate tracker definitions and freeze their fields
+CREATE OR REPLACE FUNCTION public.validate_tracker()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    t CONSTANT TEXT := 'tracker field';
+    f JSONB;
+    keys TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.fields IS DISTINCT FROM OLD.fields
+           OR NEW.user_id IS DISTINCT FROM OLD.user_id
+           OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+            RAISE EXCEPTION 'Tracker fields cannot be changed once created' USING ERRCODE = '22023';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF jsonb_typeof(NEW.fields) IS DISTINCT FROM 'array' OR jsonb_array_length(NEW.fields) NOT BETWEEN 1 AND 20 THEN
+        RAISE EXCEPTION 'A tracker must have 1-20 fields' USING ERRCODE = '22023';
+    END IF;
+
+    FOR f IN SELECT value FROM jsonb_array_elements(NEW.fields) LOOP
+        IF jsonb_typeof(f) <> 'object' THEN
+            RAISE EXCEPTION 'Invalid details for %: each field must be an object', t USING ERRCODE = '22023';
+        END IF;
+
+        PERFORM assert_details_field(t, f, 'key', 'string');
+        PERFORM assert_details_field(t, f, 'label', 'string');
+        PERFORM assert_details_enum(t, f, 'type', ARRAY['number', 'scale', 'boolean', 'choice', 'duration']);
+        PERFORM assert_details_field(t, f, 'required', 'boolean');
+
+        IF f->>'key' !~ '^[a-z][a-z0-9_]{0,39}$' THEN
+            RAISE EXCEPTION 'Invalid details for %: field "key" must be a lower-case identifier', t
+                USING ERRCODE = '22023';
+        END IF;
+        IF f->>'key' = ANY (keys) THEN
+            RAISE EXCEPTION 'Invalid details for %: field keys must be unique', t USING ERRCODE = '22023';
+        END IF;
+        keys := keys || (f->>'key');
+
+        IF length(btrim(f->>'label')) NOT BETWEEN 1 AND 60 THEN
+            RAISE EXCEPTION 'Invalid details for %: field "label" must be 1-60 characters', t
+                USING ERRCODE = '22023';
+        END IF;
+
+        CASE f->>'type'
+            WHEN 'number' THEN
+                PERFORM assert_details_field(t, f, 'unit', 'string', true);
+                PERFORM assert_details_field(t, f, 'min', 'number', true);
+                PERFORM assert_details_field(t, f, 'max', 'number', true);
+                IF (f->>'min')::numeric > (f->>'max')::numeric THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "min" must not exceed "max"', t
+                        USING ERRCODE = '22023';
+                END IF;
+            WHEN 'scale' THEN
+                PERFORM assert_details_field(t, f, 'min', 'number');
+                PERFORM assert_details_field(t, f, 'max', 'number');
+                IF (f->>'min')::numeric <> trunc((f->>'min')::numeric)
+                   OR (f->>'max')::numeric <> trunc((f->>'max')::numeric)
+                   OR (f->>'min')::numeric >= (f->>'max')::numeric THEN
+                    RAISE EXCEPTION 'Invalid details for %: a scale needs whole-number min < max', t
+                        USING ERRCODE = '22023';
+                END IF;
+            WHEN 'choice' THEN
+                PERFORM assert_details_field(t, f, 'options', 'array');
+                IF jsonb_array_length(f->'options') NOT BETWEEN 2 AND 20
+                   OR EXISTS (
+                       SELECT 1 FROM jsonb_array_elements(f->'options') o
+                       WHERE jsonb_typeof(o) <> 'string' OR length(btrim(o #>> '{}')) NOT BETWEEN 1 AND 50
+                   ) THEN
+                    RAISE EXCEPTION 'Invalid details for %: a choice needs 2-20 options of 1-50 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+            ELSE
+                NULL;
+        END CASE;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_tracker
+    BEFORE INSERT OR UPDATE ON public.trackers
+    FOR EACH ROW EXECUTE FUNCTION public.validate_tracker();
+
+-- 3. Check an entry's values against its tracker's fields
+CREATE OR REPLACE FUNCTION public.assert_tracker_values(
+    p_event_type TEXT,
+    p_fields JSONB,
+    p_values JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    f JSONB;
+    k TEXT;
+    v JSONB;
+    n NUMERIC;
+BEGIN
+    -- Only fields the tracker defines may be recorded
+    FOR k IN SELECT jsonb_object_keys(p_values) LOOP
+        IF NOT EXISTS (SELECT 1 FROM jsonb_array_elements(p_fields) e WHERE e.value->>'key' = k) THEN
+            RAISE EXCEPTION 'Invalid details for %: field "values.%" is not defined by the tracker', p_event_type, k
+                USING ERRCODE = '22023';
+        END IF;
+    END LOOP;
+
+    FOR f IN SELECT value FROM jsonb_array_elements(p_fields) LOOP
+        k := f->>'key';
+        v := p_values->k;
+
+        IF v IS NULL OR jsonb_typeof(v) = 'null' THEN
+            IF (f->>'required')::boolean THEN
+                RAISE EXCEPTION 'Invalid details for %: field "values.%" is required', p_event_type, k
+                    USING ERRCODE = '22023';
+            END IF;
+            CONTINUE;
+        END IF;
+
+        CASE f->>'type'
+            WHEN 'boolean' THEN
+                PERFORM assert_details_field(p_event_type, p_values, k, 'boolean');
+            WHEN 'choice' THEN
+                PERFORM assert_details_field(p_event_type, p_values, k, 'string');
+                IF NOT (f->'options') ? (v #>> '{}') THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "values.%" has an unknown value', p_event_type, k
+                        USING ERRCODE = '22023';
+                END IF;
+            ELSE
+                -- number, scale and duration (whole minutes)
+                PERFORM assert_details_field(p_event_type, p_values, k, 'number');
+                n := (v #>> '{}')::numeric;
+                IF f->>'type' IN ('scale', 'duration') AND n <> trunc(n) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "values.%" must be a whole number', p_event_type, k
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (f->>'type' = 'duration' AND n < 0)
+                   OR (jsonb_typeof(f->'min') = 'number' AND n < (f->>'min')::numeric)
+                   OR (jsonb_typeof(f->'max') = 'number' AND n > (f->>'max')::numeric) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "values.%" is out of range', p_event_type, k
+                        USING ERRCODE = '22023';
+                END IF;
+        END CASE;
+    END LOOP;
+END;
+$$;
+
+-- 4. Validate tracker entries (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+    vital_units CONSTANT JSONB := '{
+        "blood_pressure": ["mm[Hg]"],
+        "heart_rate": ["/min"],
+        "weight": ["kg", "[lb_av]"],
+        "body_temperature": ["Cel", "[degF]"],
+        "oxygen_saturation": ["%"],
+        "blood_glucose": ["mmol/L", "mg/dL"]
+    }'::jsonb;
+    tracker_fields JSONB;
+    tracker_archived_at TIMESTAMPTZ;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        WHEN 'vital_sign' THEN
+            PERFORM assert_details_enum(t, d, 'measure', ARRAY(SELECT jsonb_object_keys(vital_units)));
+            PERFORM assert_details_field(t, d, 'value', 'number');
+            PERFORM assert_details_field(t, d, 'unit', 'string');
+            PERFORM assert_details_field(t, d, 'diastolic', 'number', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            IF NOT (vital_units->(d->>'measure')) ? (d->>'unit') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "unit" is not valid for this measure', t
+                    USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'value')::numeric <= 0 OR COALESCE((d->>'diastolic')::numeric, 1) <= 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: values must be positive', t USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'measure' = 'blood_pressure') <> COALESCE(jsonb_typeof(d->'diastolic') = 'number', false) THEN
+                RAISE EXCEPTION 'Invalid details for %: field "diastolic" is required for blood pressure only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'tracker_entry' THEN
+            PERFORM assert_details_field(t, d, 'tracker_id', 'string');
+            PERFORM assert_details_field(t, d, 'values', 'object');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- Values are checked against the caller's own tracker definition
+            SELECT tr.fields, tr.archived_at INTO tracker_fields, tracker_archived_at
+            FROM trackers tr
+            WHERE tr.id = CASE
+                    WHEN d->>'tracker_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'tracker_id')::uuid
+                END
+              AND tr.user_id = NEW.user_id;
+
+            IF tracker_fields IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker not found', t USING ERRCODE = '22023';
+            ELSIF tracker_archived_at IS NOT NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker is archived', t USING ERRCODE = '22023';
+            END IF;
+            PERFORM assert_tracker_values(t, tracker_fields, d->'values');
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,234 @@
+-- Questions for the doctor
+--
+-- Open questions are journal entries in the `question` category. A
+-- `question_answered` event records the answer (and who gave it) and
+-- points back at the question through details.question_event_id, so a
+-- question is answered as soon as an answer event exists; the
+-- `answer_to` link written alongside it shows the pair under Related
+-- events. Questions are attached to a visit summary with a
+-- `question_for` link. Like all links, both are append-only.
+--
+-- ALTER TYPE ... ADD VALUE cannot be used in the transaction that adds
+-- it; nothing below uses the new link types directly.
+
+-- 1. Link types
+ALTER TYPE public.event_link_type ADD VALUE IF NOT EXISTS 'answer_to';
+ALTER TYPE public.event_link_type ADD VALUE IF NOT EXISTS 'question_for';
+
+-- 2. Validate answer events (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+    vital_units CONSTANT JSONB := '{
+        "blood_pressure": ["mm[Hg]"],
+        "heart_rate": ["/min"],
+        "weight": ["kg", "[lb_av]"],
+        "body_temperature": ["Cel", "[degF]"],
+        "oxygen_saturation": ["%"],
+        "blood_glucose": ["mmol/L", "mg/dL"]
+    }'::jsonb;
+    tracker_fields JSONB;
+    tracker_archived_at TIMESTAMPTZ;
+    question_category TEXT;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        WHEN 'vital_sign' THEN
+            PERFORM assert_details_enum(t, d, 'measure', ARRAY(SELECT jsonb_object_keys(vital_units)));
+            PERFORM assert_details_field(t, d, 'value', 'number');
+            PERFORM assert_details_field(t, d, 'unit', 'string');
+            PERFORM assert_details_field(t, d, 'diastolic', 'number', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            IF NOT (vital_units->(d->>'measure')) ? (d->>'unit') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "unit" is not valid for this measure', t
+                    USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'value')::numeric <= 0 OR COALESCE((d->>'diastolic')::numeric, 1) <= 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: values must be positive', t USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'measure' = 'blood_pressure') <> COALESCE(jsonb_typeof(d->'diastolic') = 'number', false) THEN
+                RAISE EXCEPTION 'Invalid details for %: field "diastolic" is required for blood pressure only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'tracker_entry' THEN
+            PERFORM assert_details_field(t, d, 'tracker_id', 'string');
+            PERFORM assert_details_field(t, d, 'values', 'object');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- Values are checked against the caller's own tracker definition
+            SELECT tr.fields, tr.archived_at INTO tracker_fields, tracker_archived_at
+            FROM trackers tr
+            WHERE tr.id = CASE
+                    WHEN d->>'tracker_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'tracker_id')::uuid
+                END
+              AND tr.user_id = NEW.user_id;
+
+            IF tracker_fields IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker not found', t USING ERRCODE = '22023';
+            ELSIF tracker_archived_at IS NOT NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker is archived', t USING ERRCODE = '22023';
+            END IF;
+            PERFORM assert_tracker_values(t, tracker_fields, d->'values');
+
+        WHEN 'question_answered' THEN
+            PERFORM assert_details_field(t, d, 'question_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'answer', 'string');
+            PERFORM assert_details_field(t, d, 'answered_by', 'string', true);
+            IF length(d->>'answer') NOT BETWEEN 1 AND 5000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "answer" must be 1-5000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The question must be one of the caller's own journal entries,
+            -- currently (after amendments) in the question category
+            SELECT cur.details->>'category' INTO question_category
+            FROM timeline_events_current cur
+            WHERE cur.id = CASE
+                    WHEN d->>'question_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'question_event_id')::uuid
+                END
+              AND cur.user_id = NEW.user_id
+              AND cur.event_type = 'journal_entry'
+              AND NOT cur.is_retracted;
+
+            IF question_category IS DISTINCT FROM 'question' THEN
+                RAISE EXCEPTION 'Invalid details for %: question not found', t USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 3. Answers by question
+CREATE INDEX IF NOT EXISTS idx_timeline_events_question_answered
+    ON public.timeline_events (user_id, (details->>'question_event_id'))
+    WHERE event_type = 'question_answered';
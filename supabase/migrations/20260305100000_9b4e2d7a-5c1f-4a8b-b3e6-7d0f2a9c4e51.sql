@@ -0,0 +1,216 @@
+-- Photo attachments on journal entries
+--
+-- Photos of a rash, wound or swelling belong on the journal entry itself
+-- rather than in a separate document_uploaded event. They are stored like
+-- documents (documents bucket, document_artifacts row with doc_type
+-- 'photo') and point at their journal event through attached_to_event_id.
+-- The Documents list leaves them out.
+--
+-- record_timeline_event() takes the photos as p_attachments, so the entry
+-- and its photos are written in one transaction. Like all artifacts they
+-- are never updated or deleted.
+
+ALTER TABLE public.document_artifacts
+ADD COLUMN IF NOT EXISTS attached_to_event_id UUID REFERENCES public.timeline_events(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_document_artifacts_attached_to_event
+    ON public.document_artifacts (attached_to_event_id)
+    WHERE attached_to_event_id IS NOT NULL;
+
+-- The signature gains a parameter, so the old overload is dropped first
+DROP FUNCTION IF EXISTS public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID
+);
+
+CREATE OR REPLACE FUNCTION public.record_timeline_event(
+    p_source_type data_source_type,
+    p_source_name TEXT,
+    p_provenance_method provenance_method,
+    p_event_type TEXT,
+    p_event_time TIMESTAMPTZ,
+    p_summary TEXT,
+    p_audit_action TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT '{}'::jsonb,
+    p_provenance_metadata JSONB DEFAULT '{}'::jsonb,
+    p_document JSONB DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL,
+    p_attachments JSONB DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, provenance_id UUID, document_artifact_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_data_source_id UUID;
+    v_agreement_id UUID;
+    v_snapshot_id UUID;
+    v_provenance_id UUID;
+    v_artifact_id UUID;
+    v_event_id UUID;
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_attachment JSONB;
+    v_attachment_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_attachments IS NOT NULL THEN
+        IF p_event_type <> 'journal_entry' THEN
+            RAISE EXCEPTION 'Attachments are only supported on journal entries' USING ERRCODE = '22023';
+        ELSIF jsonb_typeof(p_attachments) <> 'array' OR jsonb_array_length(p_attachments) > 10 THEN
+            RAISE EXCEPTION 'Attachments must be an array of at most 10 photos' USING ERRCODE = '22023';
+        ELSIF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_attachments) a
+            WHERE jsonb_typeof(a) <> 'object' OR COALESCE(a->>'content_type', '') NOT LIKE 'image/%'
+        ) THEN
+            RAISE EXCEPTION 'Attachments must be images' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    -- 0. Replayed submission: return the event already written for this key.
+    -- The lock serialises concurrent replays of the same key.
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtextextended('record_timeline_event:' || v_user_id || ':' || p_idempotency_key, 0));
+
+        RETURN QUERY
+        SELECT te.id, te.provenance_id, (te.details->>'document_artifact_id')::uuid
+        FROM timeline_events te
+        WHERE te.user_id = v_user_id
+          AND te.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    -- 1. Data source (get or create)
+    SELECT ds.id INTO v_data_source_id
+    FROM data_sources ds
+    WHERE ds.user_id = v_user_id
+      AND ds.type = p_source_type
+      AND ds.name = p_source_name
+    ORDER BY ds.created_at
+    LIMIT 1;
+
+    IF v_data_source_id IS NULL THEN
+        INSERT INTO data_sources (user_id, type, name, status)
+        VALUES (v_user_id, p_source_type, p_source_name, 'active')
+        RETURNING id INTO v_data_source_id;
+    END IF;
+
+    -- 2. Consent snapshot (latest snapshot of the default storage agreement)
+    SELECT ca.id INTO v_agreement_id
+    FROM consent_agreements ca
+    WHERE ca.user_id = v_user_id
+      AND ca.scope = 'health_data_storage'
+    ORDER BY ca.created_at
+    LIMIT 1;
+
+    IF v_agreement_id IS NULL THEN
+        INSERT INTO consent_agreements (user_id, scope)
+        VALUES (v_user_id, 'health_data_storage')
+        RETURNING id INTO v_agreement_id;
+    END IF;
+
+    SELECT cs.id INTO v_snapshot_id
+    FROM consent_snapshots cs
+    WHERE cs.consent_agreement_id = v_agreement_id
+    ORDER BY cs.created_at DESC
+    LIMIT 1;
+
+    IF v_snapshot_id IS NULL THEN
+        INSERT INTO consent_snapshots (consent_agreement_id, permissions)
+        VALUES (
+            v_agreement_id,
+            jsonb_build_object('store_health_data', true, 'create_timeline_events', true)
+        )
+        RETURNING id INTO v_snapshot_id;
+    END IF;
+
+    -- 3. Provenance
+    INSERT INTO provenance (data_source_id, method, captured_at, metadata)
+    VALUES (v_data_source_id, p_provenance_method, now(), COALESCE(p_provenance_metadata, '{}'::jsonb))
+    RETURNING id INTO v_provenance_id;
+
+    -- 4. Document artifact (uploads only)
+    IF p_document IS NOT NULL THEN
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            p_document->>'title',
+            p_document->>'doc_type',
+            (p_document->>'occurred_at')::timestamptz,
+            p_document->>'storage_path',
+            p_document->>'content_type',
+            (p_document->>'file_size')::bigint,
+            p_document->>'original_filename'
+        )
+        RETURNING id INTO v_artifact_id;
+
+        v_details := v_details || jsonb_build_object('document_artifact_id', v_artifact_id);
+    END IF;
+
+    -- 5. Timeline event
+    INSERT INTO timeline_events (
+        user_id, provenance_id, consent_snapshot_id,
+        event_type, event_time, title, summary, details, idempotency_key
+    )
+    VALUES (
+        v_user_id, v_provenance_id, v_snapshot_id,
+        p_event_type, p_event_time, p_title, p_summary, v_details, p_idempotency_key
+    )
+    RETURNING id INTO v_event_id;
+
+    -- 5b. Photo attachments, sharing the event's provenance
+    FOR v_attachment IN SELECT * FROM jsonb_array_elements(COALESCE(p_attachments, '[]'::jsonb)) LOOP
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, attached_to_event_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            v_event_id,
+            v_attachment->>'title',
+            'photo',
+            p_event_time,
+            v_attachment->>'storage_path',
+            v_attachment->>'content_type',
+            (v_attachment->>'file_size')::bigint,
+            v_attachment->>'original_filename'
+        )
+        RETURNING id INTO v_attachment_id;
+
+        INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+        VALUES (v_user_id, 'attachment_added', 'document_artifact', v_attachment_id);
+    END LOOP;
+
+    -- 6. Audit event (IDs only, no PHI)
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        p_audit_action,
+        CASE WHEN v_artifact_id IS NULL THEN 'timeline_event' ELSE 'document_artifact' END,
+        COALESCE(v_artifact_id, v_event_id)
+    );
+
+    RETURN QUERY SELECT v_event_id, v_provenance_id, v_artifact_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, JSONB
+) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, JSONB
+) TO authenticated;
@@ -0,0 +1,498 @@
+-- Approximate and partial event dates
+--
+-- Historical events are often only known to the year ("appendectomy,
+-- sometime in 2009") or month, or as a span ("summer 1998"). Storing them
+-- as an exact timestamp claims precision nobody has. Events now carry an
+-- event_time_precision ('year', 'month', 'day' or 'exact'):
+--
+-- - event_time is the start of the period in the zone it was entered in
+--   (1 January for a year), so events still sort and filter by event_time
+-- - event_time_end, when set, is the last instant of a range; the
+--   precision applies to both ends
+--
+-- Existing events are exact. record_timeline_event() and
+-- timeline_events_as_of() gain the two fields; both are dropped and
+-- recreated.
+
+ALTER TABLE public.timeline_events
+ADD COLUMN IF NOT EXISTS event_time_precision TEXT NOT NULL DEFAULT 'exact',
+ADD COLUMN IF NOT EXISTS event_time_end TIMESTAMPTZ;
+
+ALTER TABLE public.timeline_events
+ADD CONSTRAINT timeline_events_time_precision_valid
+    CHECK (event_time_precision IN ('year', 'month', 'day', 'exact')),
+ADD CONSTRAINT timeline_events_time_range_order
+    CHECK (event_time_end IS NULL OR event_time_end >= event_time);
+
+-- The signature gains parameters, so the old overload is dropped first
+DROP FUNCTION IF EXISTS public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, JSONB, TEXT
+);
+
+CREATE OR REPLACE FUNCTION public.record_timeline_event(
+    p_source_type data_source_type,
+    p_source_name TEXT,
+    p_provenance_method provenance_method,
+    p_event_type TEXT,
+    p_event_time TIMESTAMPTZ,
+    p_summary TEXT,
+    p_audit_action TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT '{}'::jsonb,
+    p_provenance_metadata JSONB DEFAULT '{}'::jsonb,
+    p_document JSONB DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL,
+    p_attachments JSONB DEFAULT NULL,
+    p_event_timezone TEXT DEFAULT NULL,
+    p_event_time_precision TEXT DEFAULT 'exact',
+    p_event_time_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, provenance_id UUID, document_artifact_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_data_source_id UUID;
+    v_agreement_id UUID;
+    v_snapshot_id UUID;
+    v_provenance_id UUID;
+    v_artifact_id UUID;
+    v_event_id UUID;
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_attachment JSONB;
+    v_attachment_id UUID;
+    v_utc_offset_minutes SMALLINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_event_time_end IS NOT NULL AND p_event_time_end < p_event_time THEN
+        RAISE EXCEPTION 'Event time range ends before it starts' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_event_timezone IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_event_timezone) THEN
+            RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+        END IF;
+        -- Offset of the zone at the event's instant (DST-aware)
+        v_utc_offset_minutes := (
+            EXTRACT(EPOCH FROM (p_event_time AT TIME ZONE p_event_timezone) - (p_event_time AT TIME ZONE 'UTC')) / 60
+        )::smallint;
+    END IF;
+
+    IF p_attachments IS NOT NULL THEN
+        IF p_event_type <> 'journal_entry' THEN
+            RAISE EXCEPTION 'Attachments are only supported on journal entries' USING ERRCODE = '22023';
+        ELSIF jsonb_typeof(p_attachments) <> 'array' OR jsonb_array_length(p_attachments) > 10 THEN
+            RAISE EXCEPTION 'Attachments must be an array of at most 10 photos' USING ERRCODE = '22023';
+        ELSIF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_attachments) a
+            WHERE jsonb_typeof(a) <> 'object' OR COALESCE(a->>'content_type', '') NOT LIKE 'image/%'
+        ) THEN
+            RAISE EXCEPTION 'Attachments must be images' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    -- 0. Replayed submission: return the event already written for this key.
+    -- The lock serialises concurrent replays of the same key.
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtextextended('record_timeline_event:' || v_user_id || ':' || p_idempotency_key, 0));
+
+        RETURN QUERY
+        SELECT te.id, te.provenance_id, (te.details->>'document_artifact_id')::uuid
+        FROM timeline_events te
+        WHERE te.user_id = v_user_id
+          AND te.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    -- 1. Data source (get or create)
+    SELECT ds.id INTO v_data_source_id
+    FROM data_sources ds
+    WHERE ds.user_id = v_user_id
+      AND ds.type = p_source_type
+      AND ds.name = p_source_name
+    ORDER BY ds.created_at
+    LIMIT 1;
+
+    IF v_data_source_id IS NULL THEN
+        INSERT INTO data_sources (user_id, type, name, status)
+        VALUES (v_user_id, p_source_type, p_source_name, 'active')
+        RETURNING id INTO v_data_source_id;
+    END IF;
+
+    -- 2. Consent snapshot (latest snapshot of the default storage agreement)
+    SELECT ca.id INTO v_agreement_id
+    FROM consent_agreements ca
+    WHERE ca.user_id = v_user_id
+      AND ca.scope = 'health_data_storage'
+    ORDER BY ca.created_at
+    LIMIT 1;
+
+    IF v_agreement_id IS NULL THEN
+        INSERT INTO consent_agreements (user_id, scope)
+        VALUES (v_user_id, 'health_data_storage')
+        RETURNING id INTO v_agreement_id;
+    END IF;
+
+    SELECT cs.id INTO v_snapshot_id
+    FROM consent_snapshots cs
+    WHERE cs.consent_agreement_id = v_agreement_id
+    ORDER BY cs.created_at DESC
+    LIMIT 1;
+
+    IF v_snapshot_id IS NULL THEN
+        INSERT INTO consent_snapshots (consent_agreement_id, permissions)
+        VALUES (
+            v_agreement_id,
+            jsonb_build_object('store_health_data', true, 'create_timeline_events', true)
+        )
+        RETURNING id INTO v_snapshot_id;
+    END IF;
+
+    -- 3. Provenance
+    INSERT INTO provenance (data_source_id, method, captured_at, metadata)
+    VALUES (v_data_source_id, p_provenance_method, now(), COALESCE(p_provenance_metadata, '{}'::jsonb))
+    RETURNING id INTO v_provenance_id;
+
+    -- 4. Document artifact (uploads only)
+    IF p_document IS NOT NULL THEN
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            p_document->>'title',
+            p_document->>'doc_type',
+            (p_document->>'occurred_at')::timestamptz,
+            p_document->>'storage_path',
+            p_document->>'content_type',
+            (p_document->>'file_size')::bigint,
+            p_document->>'original_filename'
+        )
+        RETURNING id INTO v_artifact_id;
+
+        v_details := v_details || jsonb_build_object('document_artifact_id', v_artifact_id);
+    END IF;
+
+    -- 5. Timeline event
+    INSERT INTO timeline_events (
+        user_id, provenance_id, consent_snapshot_id,
+        event_type, event_time, event_timezone, event_utc_offset_minutes,
+        event_time_precision, event_time_end,
+        title, summary, details, idempotency_key
+    )
+    VALUES (
+        v_user_id, v_provenance_id, v_snapshot_id,
+        p_event_type, p_event_time, p_event_timezone, v_utc_offset_minutes,
+        COALESCE(p_event_time_precision, 'exact'), p_event_time_end,
+        p_title, p_summary, v_details, p_idempotency_key
+    )
+    RETURNING id INTO v_event_id;
+
+    -- 5b. Photo attachments, sharing the event's provenance
+    FOR v_attachment IN SELECT * FROM jsonb_array_elements(COALESCE(p_attachments, '[]'::jsonb)) LOOP
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, attached_to_event_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            v_event_id,
+            v_attachment->>'title',
+            'photo',
+            p_event_time,
+            v_attachment->>'storage_path',
+            v_attachment->>'content_type',
+            (v_attachment->>'file_size')::bigint,
+            v_attachment->>'original_filename'
+        )
+        RETURNING id INTO v_attachment_id;
+
+        INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+        VALUES (v_user_id, 'attachment_added', 'document_artifact', v_attachment_id);
+    END LOOP;
+
+    -- 6. Audit event (IDs only, no PHI)
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        p_audit_action,
+        CASE WHEN v_artifact_id IS NULL THEN 'timeline_event' ELSE 'document_artifact' END,
+        COALESCE(v_artifact_id, v_event_id)
+    );
+
+    RETURN QUERY SELECT v_event_id, v_provenance_id, v_artifact_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, JSONB, TEXT, TEXT, TIMESTAMPTZ
+) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.record_timeline_event(
+    data_source_type, TEXT, provenance_method, TEXT, TIMESTAMPTZ, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, JSONB, TEXT, TEXT, TIMESTAMPTZ
+) TO authenticated;
+
+-- Recreate the as-of function and current view with the date fields (medication_list reads
+-- the view, so it is dropped first and recreated unchanged below)
+DROP VIEW IF EXISTS public.medication_list;
+DROP VIEW IF EXISTS public.timeline_events_current;
+DROP FUNCTION IF EXISTS public.timeline_events_as_of(TIMESTAMPTZ);
+
+CREATE FUNCTION public.timeline_events_as_of(p_as_of TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    provenance_id UUID,
+    consent_snapshot_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    title TEXT,
+    summary TEXT,
+    details JSONB,
+    is_amended BOOLEAN,
+    latest_amendment_id UUID,
+    amendment_count INT,
+    original_title TEXT,
+    original_summary TEXT,
+    original_details JSONB,
+    is_retracted BOOLEAN,
+    retraction_id UUID,
+    retraction_reason TEXT,
+    tags TEXT[],
+    event_timezone TEXT,
+    event_utc_offset_minutes SMALLINT,
+    event_time_precision TEXT,
+    event_time_end TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+WITH RECURSIVE amendment_chain AS (
+    -- Each amendment and the event it directly amends
+    SELECT
+        a.id AS amendment_id,
+        CASE WHEN a.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (a.details->>'amends_event_id')::uuid END AS target_id,
+        1 AS depth
+    FROM public.timeline_events a
+    WHERE a.event_type = 'event_amended'
+      AND (p_as_of IS NULL OR a.created_at <= p_as_of)
+
+    UNION ALL
+
+    -- Walk up through amendments of amendments
+    SELECT
+        c.amendment_id,
+        CASE WHEN t.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+             THEN (t.details->>'amends_event_id')::uuid END,
+        c.depth + 1
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type = 'event_amended'
+      AND c.depth < 32
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+amendment_roots AS (
+    -- Keep the link that reaches a non-amendment (original) event
+    SELECT c.amendment_id, c.target_id AS root_id
+    FROM amendment_chain c
+    JOIN public.timeline_events t ON t.id = c.target_id
+    WHERE t.event_type <> 'event_amended'
+      AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+),
+retraction AS (
+    -- Earliest retraction of each event
+    SELECT DISTINCT ON (target_id)
+        target_id,
+        id AS retraction_id,
+        reason_code
+    FROM (
+        SELECT
+            CASE WHEN r.details->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                 THEN (r.details->>'retracts_event_id')::uuid END AS target_id,
+            r.id,
+            r.details->>'reason_code' AS reason_code,
+            r.created_at
+        FROM public.timeline_events r
+        WHERE r.event_type = 'event_retracted'
+          AND (p_as_of IS NULL OR r.created_at <= p_as_of)
+    ) r
+    WHERE target_id IS NOT NULL
+    ORDER BY target_id, created_at, id
+),
+latest_amendment AS (
+    SELECT DISTINCT ON (r.root_id)
+        r.root_id,
+        a.id,
+        a.title,
+        a.summary,
+        a.details,
+        COUNT(*) OVER (PARTITION BY r.root_id) AS amendment_count
+    FROM amendment_roots r
+    JOIN public.timeline_events a ON a.id = r.amendment_id
+    -- A retracted amendment no longer contributes to the current view
+    WHERE NOT EXISTS (SELECT 1 FROM retraction x WHERE x.target_id = a.id)
+    ORDER BY r.root_id, a.created_at DESC, a.id DESC
+)
+SELECT
+    e.id,
+    e.user_id,
+    e.provenance_id,
+    e.consent_snapshot_id,
+    e.event_type,
+    e.event_time,
+    e.created_at,
+    CASE
+        WHEN l.id IS NULL THEN e.title
+        ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+    END AS title,
+    CASE
+        WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+        ELSE e.summary
+    END AS summary,
+    CASE
+        WHEN l.id IS NULL THEN e.details
+        WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'text', l.details->'text',
+                'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+            )
+        ELSE
+            COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                'notes', l.details->'notes'
+            )
+    END AS details,
+    (l.id IS NOT NULL) AS is_amended,
+    l.id AS latest_amendment_id,
+    COALESCE(l.amendment_count, 0)::int AS amendment_count,
+    e.title AS original_title,
+    e.summary AS original_summary,
+    e.details AS original_details,
+    (rx.retraction_id IS NOT NULL) AS is_retracted,
+    rx.retraction_id,
+    rx.reason_code AS retraction_reason,
+    -- Current tag set: tags whose latest action (as of the cutoff) is 'added'
+    COALESCE((
+        SELECT array_agg(t.tag ORDER BY t.tag)
+        FROM (
+            SELECT DISTINCT ON (ta.tag) ta.tag, ta.action
+            FROM public.event_tag_actions ta
+            WHERE ta.event_id = e.id
+              AND (p_as_of IS NULL OR ta.created_at <= p_as_of)
+            ORDER BY ta.tag, ta.created_at DESC, ta.id DESC
+        ) t
+        WHERE t.action = 'added'
+    ), '{}'::text[]) AS tags,
+    e.event_timezone,
+    e.event_utc_offset_minutes,
+    e.event_time_precision,
+    e.event_time_end
+FROM public.timeline_events e
+LEFT JOIN latest_amendment l ON l.root_id = e.id
+LEFT JOIN amendment_roots ar ON ar.amendment_id = e.id
+-- An event is retracted directly, or because the original it amends was retracted
+LEFT JOIN LATERAL (
+    SELECT x.retraction_id, x.reason_code
+    FROM retraction x
+    WHERE x.target_id = e.id OR x.target_id = ar.root_id
+    ORDER BY (x.target_id = e.id) DESC
+    LIMIT 1
+) rx ON true
+WHERE (p_as_of IS NULL OR e.created_at <= p_as_of);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.timeline_events_as_of(TIMESTAMPTZ) TO authenticated;
+
+CREATE VIEW public.timeline_events_current
+WITH (security_invoker = true) AS
+SELECT * FROM public.timeline_events_as_of(NULL);
+
+GRANT SELECT ON public.timeline_events_current TO authenticated;
+
+CREATE VIEW public.medication_list
+WITH (security_invoker = true) AS
+WITH records AS (
+    SELECT
+        e.user_id,
+        e.id AS event_id,
+        e.event_type,
+        e.event_time,
+        e.created_at,
+        e.provenance_id,
+        -- An imported medication record means the medication was prescribed
+        CASE WHEN e.event_type = 'medication_event' THEN e.details->>'action' ELSE 'started' END AS action,
+        m.fields->>'name' AS name,
+        m.fields->>'strength' AS strength,
+        m.fields->>'route' AS route,
+        m.fields->>'frequency' AS frequency,
+        lower(btrim(regexp_replace(m.fields->>'name', '\s+', ' ', 'g'))) AS medication_key
+    FROM public.timeline_events_current e
+    CROSS JOIN LATERAL (
+        SELECT CASE WHEN e.event_type = 'medication_event' THEN e.details ELSE e.details->'medication' END AS fields
+    ) m
+    WHERE NOT e.is_retracted
+      AND (
+          e.event_type = 'medication_event'
+          OR (e.event_type = 'external_event'
+              AND e.details->>'resource_category' = 'medication'
+              AND jsonb_typeof(e.details->'medication') = 'object')
+      )
+),
+latest AS (
+    -- Latest start, change or stop decides the current state
+    SELECT DISTINCT ON (user_id, medication_key) *
+    FROM records
+    WHERE action <> 'dose_taken'
+    ORDER BY user_id, medication_key, event_time DESC, created_at DESC
+),
+stats AS (
+    SELECT
+        user_id,
+        medication_key,
+        max(event_time) FILTER (WHERE action = 'started') AS started_at,
+        max(event_time) FILTER (WHERE action = 'dose_taken') AS last_taken_at,
+        count(*) AS event_count
+    FROM records
+    GROUP BY user_id, medication_key
+)
+SELECT
+    l.user_id,
+    l.medication_key,
+    l.name,
+    l.strength,
+    l.route,
+    l.frequency,
+    l.action <> 'stopped' AS is_active,
+    l.action AS last_action,
+    l.event_time AS last_changed_at,
+    s.started_at,
+    s.last_taken_at,
+    s.event_count::INT AS event_count,
+    l.event_id AS latest_event_id,
+    l.event_type AS latest_event_type,
+    l.provenance_id,
+    p.method AS provenance_method,
+    ds.name AS source_name,
+    ds.type AS source_type
+FROM latest l
+JOIN stats s ON s.user_id = l.user_id AND s.medication_key = l.medication_key
+JOIN public.provenance p ON p.id = l.provenance_id
+JOIN public.data_sources ds ON ds.id = p.data_source_id;
+
+GRANT SELECT ON public.medication_list TO authenticated;
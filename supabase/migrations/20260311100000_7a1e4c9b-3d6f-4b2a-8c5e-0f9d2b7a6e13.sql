@@ -0,0 +1,402 @@
+-- Past medical history onboarding
+--
+-- New users start with an empty timeline. The history wizard collects
+-- conditions, surgeries, allergies, immunizations and family history (as
+-- medical_history events) and current medications (medication_event
+-- 'started') and writes them as one batch:
+--
+-- - record_timeline_event_batch() records every item through
+--   record_timeline_event() in a single transaction, each with its own
+--   provenance (method 'bulk_import', metadata.batch_id and batch_index).
+--   Replaying a batch ID returns the events already written.
+-- - retract_import_batch() undoes a batch by recording an
+--   event_retracted tombstone (reason import_error) for every event of
+--   the batch that is still current. Nothing is deleted.
+--
+-- ALTER TYPE ... ADD VALUE cannot be used in the transaction that adds
+-- it; the functions below only name the new value inside their bodies.
+
+-- 1. Provenance method
+ALTER TYPE public.provenance_method ADD VALUE IF NOT EXISTS 'bulk_import';
+
+-- 2. Validate medical_history events (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+    vital_units CONSTANT JSONB := '{
+        "blood_pressure": ["mm[Hg]"],
+        "heart_rate": ["/min"],
+        "weight": ["kg", "[lb_av]"],
+        "body_temperature": ["Cel", "[degF]"],
+        "oxygen_saturation": ["%"],
+        "blood_glucose": ["mmol/L", "mg/dL"]
+    }'::jsonb;
+    tracker_fields JSONB;
+    tracker_archived_at TIMESTAMPTZ;
+    question_category TEXT;
+    history_kinds CONSTANT TEXT[] := ARRAY['condition', 'surgery', 'allergy', 'immunization', 'family_history'];
+    history_kind TEXT;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        WHEN 'vital_sign' THEN
+            PERFORM assert_details_enum(t, d, 'measure', ARRAY(SELECT jsonb_object_keys(vital_units)));
+            PERFORM assert_details_field(t, d, 'value', 'number');
+            PERFORM assert_details_field(t, d, 'unit', 'string');
+            PERFORM assert_details_field(t, d, 'diastolic', 'number', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            IF NOT (vital_units->(d->>'measure')) ? (d->>'unit') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "unit" is not valid for this measure', t
+                    USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'value')::numeric <= 0 OR COALESCE((d->>'diastolic')::numeric, 1) <= 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: values must be positive', t USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'measure' = 'blood_pressure') <> COALESCE(jsonb_typeof(d->'diastolic') = 'number', false) THEN
+                RAISE EXCEPTION 'Invalid details for %: field "diastolic" is required for blood pressure only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'tracker_entry' THEN
+            PERFORM assert_details_field(t, d, 'tracker_id', 'string');
+            PERFORM assert_details_field(t, d, 'values', 'object');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- Values are checked against the caller's own tracker definition
+            SELECT tr.fields, tr.archived_at INTO tracker_fields, tracker_archived_at
+            FROM trackers tr
+            WHERE tr.id = CASE
+                    WHEN d->>'tracker_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'tracker_id')::uuid
+                END
+              AND tr.user_id = NEW.user_id;
+
+            IF tracker_fields IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker not found', t USING ERRCODE = '22023';
+            ELSIF tracker_archived_at IS NOT NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker is archived', t USING ERRCODE = '22023';
+            END IF;
+            PERFORM assert_tracker_values(t, tracker_fields, d->'values');
+
+        WHEN 'question_answered' THEN
+            PERFORM assert_details_field(t, d, 'question_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'answer', 'string');
+            PERFORM assert_details_field(t, d, 'answered_by', 'string', true);
+            IF length(d->>'answer') NOT BETWEEN 1 AND 5000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "answer" must be 1-5000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The question must be one of the caller's own journal entries,
+            -- currently (after amendments) in the question category
+            SELECT cur.details->>'category' INTO question_category
+            FROM timeline_events_current cur
+            WHERE cur.id = CASE
+                    WHEN d->>'question_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'question_event_id')::uuid
+                END
+              AND cur.user_id = NEW.user_id
+              AND cur.event_type = 'journal_entry'
+              AND NOT cur.is_retracted;
+
+            IF question_category IS DISTINCT FROM 'question' THEN
+                RAISE EXCEPTION 'Invalid details for %: question not found', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medical_history' THEN
+            PERFORM assert_details_enum(t, d, 'kind', history_kinds);
+            PERFORM assert_details_field(t, d, 'name', 'string');
+            PERFORM assert_details_enum(t, d, 'status', ARRAY['active', 'resolved'], true);
+            PERFORM assert_details_field(t, d, 'reaction', 'string', true);
+            PERFORM assert_details_enum(t, d, 'severity', ARRAY['mild', 'moderate', 'severe'], true);
+            PERFORM assert_details_field(t, d, 'relation', 'string', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+            IF length(d->>'name') NOT BETWEEN 1 AND 200 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "name" must be 1-200 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- Kind-specific fields only on their own kind
+            history_kind := d->>'kind';
+            IF history_kind <> 'condition' AND jsonb_typeof(d->'status') = 'string' THEN
+                RAISE EXCEPTION 'Invalid details for %: field "status" is only for conditions', t USING ERRCODE = '22023';
+            ELSIF history_kind <> 'allergy'
+                AND (jsonb_typeof(d->'reaction') = 'string' OR jsonb_typeof(d->'severity') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: fields "reaction" and "severity" are only for allergies', t
+                    USING ERRCODE = '22023';
+            ELSIF (history_kind = 'family_history') <> (jsonb_typeof(d->'relation') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "relation" is required for family history only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 3. Record a batch of history events in one transaction
+CREATE OR REPLACE FUNCTION public.record_timeline_event_batch(
+    p_batch_id UUID,
+    p_events JSONB
+)
+RETURNS TABLE (event_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_item JSONB;
+    v_index INT := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_batch_id IS NULL THEN
+        RAISE EXCEPTION 'Batch ID is required' USING ERRCODE = '22023';
+    ELSIF jsonb_typeof(p_events) IS DISTINCT FROM 'array' OR jsonb_array_length(p_events) NOT BETWEEN 1 AND 200 THEN
+        RAISE EXCEPTION 'A batch must have 1-200 events' USING ERRCODE = '22023';
+    ELSIF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_events) e
+        WHERE jsonb_typeof(e) <> 'object'
+           OR COALESCE(e->>'event_type', '') NOT IN ('medical_history', 'medication_event')
+    ) THEN
+        RAISE EXCEPTION 'Batches may only contain medical_history and medication_event events' USING ERRCODE = '22023';
+    END IF;
+
+    -- Replayed batch: return the events already written for it.
+    -- The lock serialises concurrent submissions of the same batch.
+    PERFORM pg_advisory_xact_lock(hashtextextended('record_timeline_event_batch:' || v_user_id || ':' || p_batch_id, 0));
+
+    RETURN QUERY
+    SELECT te.id
+    FROM timeline_events te
+    JOIN provenance p ON p.id = te.provenance_id
+    WHERE te.user_id = v_user_id
+      AND p.method = 'bulk_import'
+      AND p.metadata->>'batch_id' = p_batch_id::text
+    ORDER BY (p.metadata->>'batch_index')::int;
+
+    IF FOUND THEN
+        RETURN;
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+        RETURN QUERY
+        SELECT r.event_id
+        FROM record_timeline_event(
+            'manual'::data_source_type,
+            'Medical History',
+            'bulk_import'::provenance_method,
+            v_item->>'event_type',
+            (v_item->>'event_time')::timestamptz,
+            v_item->>'summary',
+            CASE WHEN v_item->>'event_type' = 'medication_event' THEN 'medication_logged' ELSE 'history_recorded' END,
+            v_item->>'title',
+            COALESCE(v_item->'details', '{}'::jsonb),
+            jsonb_build_object('client', 'web', 'batch_id', p_batch_id, 'batch_index', v_index),
+            NULL,
+            NULL,
+            NULL,
+            v_item->>'event_timezone',
+            COALESCE(v_item->>'event_time_precision', 'exact'),
+            (v_item->>'event_time_end')::timestamptz
+        ) r;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (v_user_id, 'history_imported', 'import_batch', p_batch_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_timeline_event_batch(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_timeline_event_batch(UUID, JSONB) TO authenticated;
+
+-- 4. Undo a batch by retracting its events
+CREATE OR REPLACE FUNCTION public.retract_import_batch(p_batch_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_target RECORD;
+    v_count INT := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended('retract_import_batch:' || v_user_id || ':' || p_batch_id, 0));
+
+    FOR v_target IN
+        SELECT cur.id, cur.event_type
+        FROM timeline_events_current cur
+        JOIN provenance p ON p.id = cur.provenance_id
+        WHERE cur.user_id = v_user_id
+          AND p.method = 'bulk_import'
+          AND p.metadata->>'batch_id' = p_batch_id::text
+          AND NOT cur.is_retracted
+    LOOP
+        PERFORM record_timeline_event(
+            'manual'::data_source_type,
+            'User Retraction',
+            'manual_retraction'::provenance_method,
+            'event_retracted',
+            now(),
+            'Incorrect import',
+            'event_retracted',
+            'Retracted event',
+            jsonb_build_object(
+                'retracts_event_id', v_target.id,
+                'retracted_event_type', v_target.event_type,
+                'reason_code', 'import_error',
+                'note', NULL
+            ),
+            jsonb_build_object('client', 'web', 'reason_code', 'import_error', 'batch_id', p_batch_id)
+        );
+        v_count := v_count + 1;
+    END LOOP;
+
+    IF v_count > 0 THEN
+        INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+        VALUES (v_user_id, 'history_import_undone', 'import_batch', p_batch_id);
+    END IF;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retract_import_batch(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retract_import_batch(UUID) TO authenticated;
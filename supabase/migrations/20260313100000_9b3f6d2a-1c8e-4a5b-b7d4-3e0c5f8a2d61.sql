@@ -0,0 +1,436 @@
+-- Document text extraction
+--
+-- Uploaded documents were opaque blobs. Every PDF or image upload now
+-- queues a 'document_processing' job; the document-processing edge
+-- function extracts the PDF text layer (or runs local OCR on images) and
+-- hands the text to complete_document_processing(), which records it as a
+-- document_text_extracted event with 'document_ocr' provenance. The event
+-- references the document_artifacts row and its document_uploaded event.
+--
+-- The text lives in the event's details, so the generated search_vector
+-- makes it searchable and search_timeline() highlights it like journal
+-- text. Nothing about the original document changes.
+--
+-- ALTER TYPE ... ADD VALUE cannot be used in the transaction that adds
+-- it; the functions below only name the new value inside their bodies.
+
+-- 1. Provenance method
+ALTER TYPE public.provenance_method ADD VALUE IF NOT EXISTS 'document_ocr';
+
+-- 2. Validate document_text_extracted events (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+    vital_units CONSTANT JSONB := '{
+        "blood_pressure": ["mm[Hg]"],
+        "heart_rate": ["/min"],
+        "weight": ["kg", "[lb_av]"],
+        "body_temperature": ["Cel", "[degF]"],
+        "oxygen_saturation": ["%"],
+        "blood_glucose": ["mmol/L", "mg/dL"]
+    }'::jsonb;
+    tracker_fields JSONB;
+    tracker_archived_at TIMESTAMPTZ;
+    question_category TEXT;
+    history_kinds CONSTANT TEXT[] := ARRAY['condition', 'surgery', 'allergy', 'immunization', 'family_history'];
+    history_kind TEXT;
+    source_artifact_id TEXT;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        WHEN 'vital_sign' THEN
+            PERFORM assert_details_enum(t, d, 'measure', ARRAY(SELECT jsonb_object_keys(vital_units)));
+            PERFORM assert_details_field(t, d, 'value', 'number');
+            PERFORM assert_details_field(t, d, 'unit', 'string');
+            PERFORM assert_details_field(t, d, 'diastolic', 'number', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            IF NOT (vital_units->(d->>'measure')) ? (d->>'unit') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "unit" is not valid for this measure', t
+                    USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'value')::numeric <= 0 OR COALESCE((d->>'diastolic')::numeric, 1) <= 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: values must be positive', t USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'measure' = 'blood_pressure') <> COALESCE(jsonb_typeof(d->'diastolic') = 'number', false) THEN
+                RAISE EXCEPTION 'Invalid details for %: field "diastolic" is required for blood pressure only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'tracker_entry' THEN
+            PERFORM assert_details_field(t, d, 'tracker_id', 'string');
+            PERFORM assert_details_field(t, d, 'values', 'object');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- Values are checked against the caller's own tracker definition
+            SELECT tr.fields, tr.archived_at INTO tracker_fields, tracker_archived_at
+            FROM trackers tr
+            WHERE tr.id = CASE
+                    WHEN d->>'tracker_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'tracker_id')::uuid
+                END
+              AND tr.user_id = NEW.user_id;
+
+            IF tracker_fields IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker not found', t USING ERRCODE = '22023';
+            ELSIF tracker_archived_at IS NOT NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker is archived', t USING ERRCODE = '22023';
+            END IF;
+            PERFORM assert_tracker_values(t, tracker_fields, d->'values');
+
+        WHEN 'question_answered' THEN
+            PERFORM assert_details_field(t, d, 'question_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'answer', 'string');
+            PERFORM assert_details_field(t, d, 'answered_by', 'string', true);
+            IF length(d->>'answer') NOT BETWEEN 1 AND 5000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "answer" must be 1-5000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The question must be one of the caller's own journal entries,
+            -- currently (after amendments) in the question category
+            SELECT cur.details->>'category' INTO question_category
+            FROM timeline_events_current cur
+            WHERE cur.id = CASE
+                    WHEN d->>'question_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'question_event_id')::uuid
+                END
+              AND cur.user_id = NEW.user_id
+              AND cur.event_type = 'journal_entry'
+              AND NOT cur.is_retracted;
+
+            IF question_category IS DISTINCT FROM 'question' THEN
+                RAISE EXCEPTION 'Invalid details for %: question not found', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medical_history' THEN
+            PERFORM assert_details_enum(t, d, 'kind', history_kinds);
+            PERFORM assert_details_field(t, d, 'name', 'string');
+            PERFORM assert_details_enum(t, d, 'status', ARRAY['active', 'resolved'], true);
+            PERFORM assert_details_field(t, d, 'reaction', 'string', true);
+            PERFORM assert_details_enum(t, d, 'severity', ARRAY['mild', 'moderate', 'severe'], true);
+            PERFORM assert_details_field(t, d, 'relation', 'string', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+            IF length(d->>'name') NOT BETWEEN 1 AND 200 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "name" must be 1-200 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- Kind-specific fields only on their own kind
+            history_kind := d->>'kind';
+            IF history_kind <> 'condition' AND jsonb_typeof(d->'status') = 'string' THEN
+                RAISE EXCEPTION 'Invalid details for %: field "status" is only for conditions', t USING ERRCODE = '22023';
+            ELSIF history_kind <> 'allergy'
+                AND (jsonb_typeof(d->'reaction') = 'string' OR jsonb_typeof(d->'severity') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: fields "reaction" and "severity" are only for allergies', t
+                    USING ERRCODE = '22023';
+            ELSIF (history_kind = 'family_history') <> (jsonb_typeof(d->'relation') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "relation" is required for family history only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'document_text_extracted' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_field(t, d, 'source_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'extraction_method', ARRAY['pdf_text', 'ocr']);
+            PERFORM assert_details_field(t, d, 'page_count', 'number', true);
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_field(t, d, 'truncated', 'boolean');
+            IF length(d->>'text') NOT BETWEEN 1 AND 100000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must be 1-100000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The source must be one of the caller's own document uploads, of this artifact
+            SELECT te.details->>'document_artifact_id' INTO source_artifact_id
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'source_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'source_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id
+              AND te.event_type = 'document_uploaded';
+
+            IF source_artifact_id IS DISTINCT FROM d->>'document_artifact_id' THEN
+                RAISE EXCEPTION 'Invalid details for %: source document not found', t USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 3. Queue text extraction for every PDF or image upload
+CREATE OR REPLACE FUNCTION public.enqueue_document_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_artifact document_artifacts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_artifact
+    FROM document_artifacts da
+    WHERE da.id::text = NEW.details->>'document_artifact_id'
+      AND da.user_id = NEW.user_id;
+
+    IF v_artifact.id IS NULL
+       OR NOT (v_artifact.content_type = 'application/pdf' OR v_artifact.content_type LIKE 'image/%') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO jobs (user_id, job_type, status, idempotency_key, payload)
+    VALUES (
+        NEW.user_id,
+        'document_processing',
+        'pending',
+        'document_processing:' || v_artifact.id,
+        jsonb_build_object(
+            'document_artifact_id', v_artifact.id,
+            'source_event_id', NEW.id,
+            'content_type', v_artifact.content_type
+        )
+    )
+    ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_document_processing
+    AFTER INSERT ON public.timeline_events
+    FOR EACH ROW
+    WHEN (NEW.event_type = 'document_uploaded')
+    EXECUTE FUNCTION public.enqueue_document_processing();
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_type_status
+    ON public.jobs (user_id, job_type, status);
+
+-- 4. Record a job's extracted text as a derived event and complete the job
+CREATE OR REPLACE FUNCTION public.complete_document_processing(
+    p_job_id UUID,
+    p_text TEXT,
+    p_extraction_method TEXT,
+    p_page_count INT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_job jobs%ROWTYPE;
+    v_source timeline_events%ROWTYPE;
+    v_artifact_title TEXT;
+    v_text TEXT := btrim(COALESCE(p_text, ''));
+    v_event_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    SELECT * INTO v_job
+    FROM jobs j
+    WHERE j.id = p_job_id
+      AND j.user_id = v_user_id
+      AND j.job_type = 'document_processing'
+    FOR UPDATE;
+
+    IF v_job.id IS NULL THEN
+        RAISE EXCEPTION 'Job not found' USING ERRCODE = '22023';
+    END IF;
+
+    -- Completed already (a retried call): return the event it recorded
+    IF v_job.status = 'complete' THEN
+        SELECT te.id INTO v_event_id
+        FROM timeline_events te
+        JOIN provenance p ON p.id = te.provenance_id
+        WHERE te.user_id = v_user_id
+          AND p.method = 'document_ocr'
+          AND p.metadata->>'job_id' = v_job.id::text;
+        RETURN v_event_id;
+    END IF;
+
+    SELECT * INTO v_source
+    FROM timeline_events te
+    WHERE te.id::text = v_job.payload->>'source_event_id'
+      AND te.user_id = v_user_id;
+
+    SELECT da.title INTO v_artifact_title
+    FROM document_artifacts da
+    WHERE da.id::text = v_job.payload->>'document_artifact_id'
+      AND da.user_id = v_user_id;
+
+    IF v_source.id IS NULL THEN
+        RAISE EXCEPTION 'Source document not found' USING ERRCODE = '22023';
+    END IF;
+
+    -- No text found (a blank scan, a photo without writing): nothing to record
+    IF length(v_text) > 0 THEN
+        SELECT r.event_id INTO v_event_id
+        FROM record_timeline_event(
+            'upload'::data_source_type,
+            'Document Text Extraction',
+            'document_ocr'::provenance_method,
+            'document_text_extracted',
+            v_source.event_time,
+            left(regexp_replace(v_text, '\s+', ' ', 'g'), 140),
+            'document_text_extracted',
+            left('Extracted text: ' || COALESCE(v_artifact_title, v_source.title, 'Document'), 100),
+            jsonb_build_object(
+                'document_artifact_id', v_job.payload->>'document_artifact_id',
+                'source_event_id', v_source.id,
+                'extraction_method', p_extraction_method,
+                'page_count', p_page_count,
+                'text', left(v_text, 100000),
+                'truncated', length(v_text) > 100000
+            ),
+            jsonb_build_object(
+                'client', 'document-processing',
+                'job_id', v_job.id,
+                'document_artifact_id', v_job.payload->>'document_artifact_id',
+                'extraction_method', p_extraction_method
+            ),
+            NULL,
+            NULL,
+            NULL,
+            v_source.event_timezone,
+            v_source.event_time_precision,
+            v_source.event_time_end
+        ) r;
+    END IF;
+
+    UPDATE jobs SET status = 'complete' WHERE id = v_job.id;
+
+    RETURN v_event_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_document_processing(UUID, TEXT, TEXT, INT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_document_processing(UUID, TEXT, TEXT, INT) TO authenticated;
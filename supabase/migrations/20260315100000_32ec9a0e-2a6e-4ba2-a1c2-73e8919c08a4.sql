@@ -0,0 +1,667 @@
+-- Document versions
+--
+-- A corrected lab report used to be a brand-new, unrelated upload. A
+-- document can now be given new versions: each is its own
+-- document_artifacts row pointing at the version it replaces
+-- (previous_artifact_id), with a version number and the first version's
+-- ID (root_artifact_id), both set by trigger. Versions form a single
+-- chain; a version can be replaced only once. Artifacts are still never
+-- updated or deleted.
+--
+-- A new version is written through record_timeline_event() (p_document
+-- gains an optional previous_artifact_id) as a document_version_added
+-- event pointing at the original document_uploaded event. New versions
+-- are queued for text extraction and found by search like uploads.
+
+-- 1. Version columns
+ALTER TABLE public.document_artifacts
+ADD COLUMN IF NOT EXISTS previous_artifact_id UUID REFERENCES public.document_artifacts(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS root_artifact_id UUID REFERENCES public.document_artifacts(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1;
+
+ALTER TABLE public.document_artifacts
+ADD CONSTRAINT document_artifacts_version_valid
+    CHECK ((previous_artifact_id IS NULL) = (version = 1) AND (previous_artifact_id IS NULL) = (root_artifact_id IS NULL));
+
+-- One successor per version keeps the history a single chain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_artifacts_previous_artifact
+    ON public.document_artifacts (previous_artifact_id)
+    WHERE previous_artifact_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_artifacts_root_artifact
+    ON public.document_artifacts (root_artifact_id)
+    WHERE root_artifact_id IS NOT NULL;
+
+-- 2. Number each new version from the one it replaces
+CREATE OR REPLACE FUNCTION public.set_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_previous document_artifacts%ROWTYPE;
+BEGIN
+    IF NEW.previous_artifact_id IS NULL THEN
+        NEW.version := 1;
+        NEW.root_artifact_id := NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_previous
+    FROM document_artifacts da
+    WHERE da.id = NEW.previous_artifact_id
+      AND da.user_id = NEW.user_id
+      AND da.attached_to_event_id IS NULL;
+
+    IF v_previous.id IS NULL THEN
+        RAISE EXCEPTION 'Previous version not found' USING ERRCODE = '22023';
+    ELSIF EXISTS (SELECT 1 FROM document_artifacts da WHERE da.previous_artifact_id = v_previous.id) THEN
+        RAISE EXCEPTION 'This version has already been replaced' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.version := v_previous.version + 1;
+    NEW.root_artifact_id := COALESCE(v_previous.root_artifact_id, v_previous.id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_document_version
+    BEFORE INSERT ON public.document_artifacts
+    FOR EACH ROW EXECUTE FUNCTION public.set_document_version();
+
+-- 3. Artifacts may name the version they replace (same signature, new body)
+CREATE OR REPLACE FUNCTION public.record_timeline_event(
+    p_source_type data_source_type,
+    p_source_name TEXT,
+    p_provenance_method provenance_method,
+    p_event_type TEXT,
+    p_event_time TIMESTAMPTZ,
+    p_summary TEXT,
+    p_audit_action TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT '{}'::jsonb,
+    p_provenance_metadata JSONB DEFAULT '{}'::jsonb,
+    p_document JSONB DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL,
+    p_attachments JSONB DEFAULT NULL,
+    p_event_timezone TEXT DEFAULT NULL,
+    p_event_time_precision TEXT DEFAULT 'exact',
+    p_event_time_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, provenance_id UUID, document_artifact_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_data_source_id UUID;
+    v_agreement_id UUID;
+    v_snapshot_id UUID;
+    v_provenance_id UUID;
+    v_artifact_id UUID;
+    v_event_id UUID;
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_attachment JSONB;
+    v_attachment_id UUID;
+    v_utc_offset_minutes SMALLINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_event_time_end IS NOT NULL AND p_event_time_end < p_event_time THEN
+        RAISE EXCEPTION 'Event time range ends before it starts' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_event_timezone IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_event_timezone) THEN
+            RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+        END IF;
+        -- Offset of the zone at the event's instant (DST-aware)
+        v_utc_offset_minutes := (
+            EXTRACT(EPOCH FROM (p_event_time AT TIME ZONE p_event_timezone) - (p_event_time AT TIME ZONE 'UTC')) / 60
+        )::smallint;
+    END IF;
+
+    IF p_attachments IS NOT NULL THEN
+        IF p_event_type <> 'journal_entry' THEN
+            RAISE EXCEPTION 'Attachments are only supported on journal entries' USING ERRCODE = '22023';
+        ELSIF jsonb_typeof(p_attachments) <> 'array' OR jsonb_array_length(p_attachments) > 10 THEN
+            RAISE EXCEPTION 'Attachments must be an array of at most 10 photos' USING ERRCODE = '22023';
+        ELSIF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_attachments) a
+            WHERE jsonb_typeof(a) <> 'object' OR COALESCE(a->>'content_type', '') NOT LIKE 'image/%'
+        ) THEN
+            RAISE EXCEPTION 'Attachments must be images' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    -- 0. Replayed submission: return the event already written for this key.
+    -- The lock serialises concurrent replays of the same key.
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtextextended('record_timeline_event:' || v_user_id || ':' || p_idempotency_key, 0));
+
+        RETURN QUERY
+        SELECT te.id, te.provenance_id, (te.details->>'document_artifact_id')::uuid
+        FROM timeline_events te
+        WHERE te.user_id = v_user_id
+          AND te.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    -- 1. Data source (get or create)
+    SELECT ds.id INTO v_data_source_id
+    FROM data_sources ds
+    WHERE ds.user_id = v_user_id
+      AND ds.type = p_source_type
+      AND ds.name = p_source_name
+    ORDER BY ds.created_at
+    LIMIT 1;
+
+    IF v_data_source_id IS NULL THEN
+        INSERT INTO data_sources (user_id, type, name, status)
+        VALUES (v_user_id, p_source_type, p_source_name, 'active')
+        RETURNING id INTO v_data_source_id;
+    END IF;
+
+    -- 2. Consent snapshot (latest snapshot of the default storage agreement)
+    SELECT ca.id INTO v_agreement_id
+    FROM consent_agreements ca
+    WHERE ca.user_id = v_user_id
+      AND ca.scope = 'health_data_storage'
+    ORDER BY ca.created_at
+    LIMIT 1;
+
+    IF v_agreement_id IS NULL THEN
+        INSERT INTO consent_agreements (user_id, scope)
+        VALUES (v_user_id, 'health_data_storage')
+        RETURNING id INTO v_agreement_id;
+    END IF;
+
+    SELECT cs.id INTO v_snapshot_id
+    FROM consent_snapshots cs
+    WHERE cs.consent_agreement_id = v_agreement_id
+    ORDER BY cs.created_at DESC
+    LIMIT 1;
+
+    IF v_snapshot_id IS NULL THEN
+        INSERT INTO consent_snapshots (consent_agreement_id, permissions)
+        VALUES (
+            v_agreement_id,
+            jsonb_build_object('store_health_data', true, 'create_timeline_events', true)
+        )
+        RETURNING id INTO v_snapshot_id;
+    END IF;
+
+    -- 3. Provenance
+    INSERT INTO provenance (data_source_id, method, captured_at, metadata)
+    VALUES (v_data_source_id, p_provenance_method, now(), COALESCE(p_provenance_metadata, '{}'::jsonb))
+    RETURNING id INTO v_provenance_id;
+
+    -- 4. Document artifact (uploads and new versions of them)
+    IF p_document IS NOT NULL THEN
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename, previous_artifact_id
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            p_document->>'title',
+            p_document->>'doc_type',
+            (p_document->>'occurred_at')::timestamptz,
+            p_document->>'storage_path',
+            p_document->>'content_type',
+            (p_document->>'file_size')::bigint,
+            p_document->>'original_filename',
+            (p_document->>'previous_artifact_id')::uuid
+        )
+        RETURNING id INTO v_artifact_id;
+
+        v_details := v_details || jsonb_build_object('document_artifact_id', v_artifact_id);
+    END IF;
+
+    -- 5. Timeline event
+    INSERT INTO timeline_events (
+        user_id, provenance_id, consent_snapshot_id,
+        event_type, event_time, event_timezone, event_utc_offset_minutes,
+        event_time_precision, event_time_end,
+        title, summary, details, idempotency_key
+    )
+    VALUES (
+        v_user_id, v_provenance_id, v_snapshot_id,
+        p_event_type, p_event_time, p_event_timezone, v_utc_offset_minutes,
+        COALESCE(p_event_time_precision, 'exact'), p_event_time_end,
+        p_title, p_summary, v_details, p_idempotency_key
+    )
+    RETURNING id INTO v_event_id;
+
+    -- 5b. Photo attachments, sharing the event's provenance
+    FOR v_attachment IN SELECT * FROM jsonb_array_elements(COALESCE(p_attachments, '[]'::jsonb)) LOOP
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, attached_to_event_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            v_event_id,
+            v_attachment->>'title',
+            'photo',
+            p_event_time,
+            v_attachment->>'storage_path',
+            v_attachment->>'content_type',
+            (v_attachment->>'file_size')::bigint,
+            v_attachment->>'original_filename'
+        )
+        RETURNING id INTO v_attachment_id;
+
+        INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+        VALUES (v_user_id, 'attachment_added', 'document_artifact', v_attachment_id);
+    END LOOP;
+
+    -- 6. Audit event (IDs only, no PHI)
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        p_audit_action,
+        CASE WHEN v_artifact_id IS NULL THEN 'timeline_event' ELSE 'document_artifact' END,
+        COALESCE(v_artifact_id, v_event_id)
+    );
+
+    RETURN QUERY SELECT v_event_id, v_provenance_id, v_artifact_id;
+END;
+$$;
+
+-- 4. Validate document_version_added events (replaces the registry trigger function)
+CREATE OR REPLACE FUNCTION public.validate_timeline_event_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    d JSONB := COALESCE(NEW.details, '{}'::jsonb);
+    t TEXT := NEW.event_type;
+    journal_categories CONSTANT TEXT[] := ARRAY['symptom', 'medication', 'mood', 'question', 'other'];
+    doc_types CONSTANT TEXT[] := ARRAY['lab', 'imaging', 'visit_summary', 'medication', 'insurance', 'other'];
+    retraction_reasons CONSTANT TEXT[] := ARRAY['entered_in_error', 'duplicate', 'wrong_person', 'import_error', 'other'];
+    target_type TEXT;
+    symptom JSONB;
+    medication_routes CONSTANT TEXT[] := ARRAY[
+        'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal',
+        'injection', 'eye', 'ear', 'rectal', 'other'
+    ];
+    vital_units CONSTANT JSONB := '{
+        "blood_pressure": ["mm[Hg]"],
+        "heart_rate": ["/min"],
+        "weight": ["kg", "[lb_av]"],
+        "body_temperature": ["Cel", "[degF]"],
+        "oxygen_saturation": ["%"],
+        "blood_glucose": ["mmol/L", "mg/dL"]
+    }'::jsonb;
+    tracker_fields JSONB;
+    tracker_archived_at TIMESTAMPTZ;
+    question_category TEXT;
+    history_kinds CONSTANT TEXT[] := ARRAY['condition', 'surgery', 'allergy', 'immunization', 'family_history'];
+    history_kind TEXT;
+    source_artifact_id TEXT;
+    version_artifact document_artifacts%ROWTYPE;
+    document_root_artifact_id TEXT;
+BEGIN
+    IF jsonb_typeof(d) <> 'object' THEN
+        RAISE EXCEPTION 'Invalid details for %: details must be an object', t USING ERRCODE = '22023';
+    END IF;
+
+    CASE t
+        WHEN 'journal_entry' THEN
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_enum(t, d, 'category', journal_categories);
+            IF length(d->>'text') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must not be empty', t USING ERRCODE = '22023';
+            END IF;
+
+            -- Optional structured symptom fields, only on symptom entries
+            IF d ? 'symptom' THEN
+                PERFORM assert_details_field(t, d, 'symptom', 'object');
+                IF d->>'category' <> 'symptom' THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom" requires the symptom category', t
+                        USING ERRCODE = '22023';
+                END IF;
+
+                symptom := d->'symptom';
+                PERFORM assert_details_field(t, symptom, 'name', 'string');
+                PERFORM assert_details_field(t, symptom, 'severity', 'number');
+                PERFORM assert_details_field(t, symptom, 'location', 'string', true);
+                PERFORM assert_details_enum(t, symptom, 'onset', ARRAY['sudden', 'gradual'], true);
+                PERFORM assert_details_field(t, symptom, 'duration_minutes', 'number', true);
+                PERFORM assert_details_field(t, symptom, 'triggers', 'array');
+
+                IF length(symptom->>'name') NOT BETWEEN 1 AND 100 THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.name" must be 1-100 characters', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF (symptom->>'severity')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.severity" must be an integer from 0 to 10', t
+                        USING ERRCODE = '22023';
+                END IF;
+                IF jsonb_typeof(symptom->'duration_minutes') = 'number'
+                   AND ((symptom->>'duration_minutes')::numeric < 0
+                        OR (symptom->>'duration_minutes')::numeric <> trunc((symptom->>'duration_minutes')::numeric)) THEN
+                    RAISE EXCEPTION 'Invalid details for %: field "symptom.duration_minutes" must be a whole number', t
+                        USING ERRCODE = '22023';
+                END IF;
+            END IF;
+
+        WHEN 'document_uploaded' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_enum(t, d, 'doc_type', doc_types);
+            PERFORM assert_details_field(t, d, 'notes', 'string', true);
+
+        WHEN 'event_amended' THEN
+            PERFORM assert_details_field(t, d, 'amends_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'amended_event_type', ARRAY['journal_entry', 'document_uploaded']);
+            IF d->>'amended_event_type' = 'journal_entry' THEN
+                PERFORM assert_details_field(t, d, 'text', 'string');
+                PERFORM assert_details_enum(t, d, 'category', journal_categories, true);
+                PERFORM assert_details_field(t, d, 'original_event_time', 'string');
+            ELSE
+                PERFORM assert_details_field(t, d, 'document_artifact_id', 'string', true);
+                PERFORM assert_details_field(t, d, 'title', 'string');
+                PERFORM assert_details_enum(t, d, 'doc_type', doc_types, true);
+                PERFORM assert_details_field(t, d, 'document_date', 'string');
+            END IF;
+
+        WHEN 'visit_summary' THEN
+            PERFORM assert_details_field(t, d, 'referenced_event_ids', 'array');
+            PERFORM assert_details_field(t, d, 'date_range_start', 'string');
+            PERFORM assert_details_field(t, d, 'date_range_end', 'string');
+            PERFORM assert_details_field(t, d, 'label', 'string', true);
+            IF jsonb_array_length(d->'referenced_event_ids') = 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "referenced_event_ids" must not be empty', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'external_event' THEN
+            PERFORM assert_details_field(t, d, 'source', 'string');
+            PERFORM assert_details_enum(t, d, 'resource_category',
+                ARRAY['encounter', 'lab_results', 'medication', 'document_reference']);
+            PERFORM assert_details_field(t, d, 'provider_name', 'string');
+            PERFORM assert_details_field(t, d, 'is_demo', 'boolean', true);
+            IF d ? 'medication' THEN
+                PERFORM assert_details_field(t, d, 'medication', 'object');
+                PERFORM assert_medication_fields(t, d->'medication', medication_routes);
+            END IF;
+
+        WHEN 'event_retracted' THEN
+            PERFORM assert_details_field(t, d, 'retracts_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'retracted_event_type', 'string');
+            PERFORM assert_details_enum(t, d, 'reason_code', retraction_reasons);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The target must be one of the caller's own events and not a retraction
+            SELECT te.event_type INTO target_type
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'retracts_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'retracts_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id;
+
+            IF target_type IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: retracted event not found', t USING ERRCODE = '22023';
+            ELSIF target_type = 'event_retracted' THEN
+                RAISE EXCEPTION 'Invalid details for %: a retraction cannot be retracted', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medication_event' THEN
+            PERFORM assert_details_enum(t, d, 'action', ARRAY['started', 'dose_changed', 'stopped', 'dose_taken']);
+            PERFORM assert_medication_fields(t, d, medication_routes);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+        WHEN 'vital_sign' THEN
+            PERFORM assert_details_enum(t, d, 'measure', ARRAY(SELECT jsonb_object_keys(vital_units)));
+            PERFORM assert_details_field(t, d, 'value', 'number');
+            PERFORM assert_details_field(t, d, 'unit', 'string');
+            PERFORM assert_details_field(t, d, 'diastolic', 'number', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            IF NOT (vital_units->(d->>'measure')) ? (d->>'unit') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "unit" is not valid for this measure', t
+                    USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'value')::numeric <= 0 OR COALESCE((d->>'diastolic')::numeric, 1) <= 0 THEN
+                RAISE EXCEPTION 'Invalid details for %: values must be positive', t USING ERRCODE = '22023';
+            END IF;
+            IF (d->>'measure' = 'blood_pressure') <> COALESCE(jsonb_typeof(d->'diastolic') = 'number', false) THEN
+                RAISE EXCEPTION 'Invalid details for %: field "diastolic" is required for blood pressure only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'tracker_entry' THEN
+            PERFORM assert_details_field(t, d, 'tracker_id', 'string');
+            PERFORM assert_details_field(t, d, 'values', 'object');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- Values are checked against the caller's own tracker definition
+            SELECT tr.fields, tr.archived_at INTO tracker_fields, tracker_archived_at
+            FROM trackers tr
+            WHERE tr.id = CASE
+                    WHEN d->>'tracker_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'tracker_id')::uuid
+                END
+              AND tr.user_id = NEW.user_id;
+
+            IF tracker_fields IS NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker not found', t USING ERRCODE = '22023';
+            ELSIF tracker_archived_at IS NOT NULL THEN
+                RAISE EXCEPTION 'Invalid details for %: tracker is archived', t USING ERRCODE = '22023';
+            END IF;
+            PERFORM assert_tracker_values(t, tracker_fields, d->'values');
+
+        WHEN 'question_answered' THEN
+            PERFORM assert_details_field(t, d, 'question_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'answer', 'string');
+            PERFORM assert_details_field(t, d, 'answered_by', 'string', true);
+            IF length(d->>'answer') NOT BETWEEN 1 AND 5000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "answer" must be 1-5000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The question must be one of the caller's own journal entries,
+            -- currently (after amendments) in the question category
+            SELECT cur.details->>'category' INTO question_category
+            FROM timeline_events_current cur
+            WHERE cur.id = CASE
+                    WHEN d->>'question_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'question_event_id')::uuid
+                END
+              AND cur.user_id = NEW.user_id
+              AND cur.event_type = 'journal_entry'
+              AND NOT cur.is_retracted;
+
+            IF question_category IS DISTINCT FROM 'question' THEN
+                RAISE EXCEPTION 'Invalid details for %: question not found', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'medical_history' THEN
+            PERFORM assert_details_enum(t, d, 'kind', history_kinds);
+            PERFORM assert_details_field(t, d, 'name', 'string');
+            PERFORM assert_details_enum(t, d, 'status', ARRAY['active', 'resolved'], true);
+            PERFORM assert_details_field(t, d, 'reaction', 'string', true);
+            PERFORM assert_details_enum(t, d, 'severity', ARRAY['mild', 'moderate', 'severe'], true);
+            PERFORM assert_details_field(t, d, 'relation', 'string', true);
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+            IF length(d->>'name') NOT BETWEEN 1 AND 200 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "name" must be 1-200 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- Kind-specific fields only on their own kind
+            history_kind := d->>'kind';
+            IF history_kind <> 'condition' AND jsonb_typeof(d->'status') = 'string' THEN
+                RAISE EXCEPTION 'Invalid details for %: field "status" is only for conditions', t USING ERRCODE = '22023';
+            ELSIF history_kind <> 'allergy'
+                AND (jsonb_typeof(d->'reaction') = 'string' OR jsonb_typeof(d->'severity') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: fields "reaction" and "severity" are only for allergies', t
+                    USING ERRCODE = '22023';
+            ELSIF (history_kind = 'family_history') <> (jsonb_typeof(d->'relation') = 'string') THEN
+                RAISE EXCEPTION 'Invalid details for %: field "relation" is required for family history only', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'document_text_extracted' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_field(t, d, 'source_event_id', 'string');
+            PERFORM assert_details_enum(t, d, 'extraction_method', ARRAY['pdf_text', 'ocr']);
+            PERFORM assert_details_field(t, d, 'page_count', 'number', true);
+            PERFORM assert_details_field(t, d, 'text', 'string');
+            PERFORM assert_details_field(t, d, 'truncated', 'boolean');
+            IF length(d->>'text') NOT BETWEEN 1 AND 100000 THEN
+                RAISE EXCEPTION 'Invalid details for %: field "text" must be 1-100000 characters', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+            -- The source must be one of the caller's own document uploads or versions, of this artifact
+            SELECT te.details->>'document_artifact_id' INTO source_artifact_id
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'source_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'source_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id
+              AND te.event_type IN ('document_uploaded', 'document_version_added');
+
+            IF source_artifact_id IS DISTINCT FROM d->>'document_artifact_id' THEN
+                RAISE EXCEPTION 'Invalid details for %: source document not found', t USING ERRCODE = '22023';
+            END IF;
+
+        WHEN 'document_version_added' THEN
+            PERFORM assert_details_field(t, d, 'document_artifact_id', 'string');
+            PERFORM assert_details_field(t, d, 'document_event_id', 'string');
+            PERFORM assert_details_field(t, d, 'previous_artifact_id', 'string');
+            PERFORM assert_details_field(t, d, 'version', 'number');
+            PERFORM assert_details_field(t, d, 'note', 'string', true);
+
+            -- The artifact must be the next version of the document's file
+            SELECT * INTO version_artifact
+            FROM document_artifacts da
+            WHERE da.id = CASE
+                    WHEN d->>'document_artifact_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'document_artifact_id')::uuid
+                END
+              AND da.user_id = NEW.user_id;
+
+            SELECT te.details->>'document_artifact_id' INTO document_root_artifact_id
+            FROM timeline_events te
+            WHERE te.id = CASE
+                    WHEN d->>'document_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                    THEN (d->>'document_event_id')::uuid
+                END
+              AND te.user_id = NEW.user_id
+              AND te.event_type = 'document_uploaded';
+
+            IF version_artifact.id IS NULL OR document_root_artifact_id IS NULL
+               OR version_artifact.root_artifact_id::text IS DISTINCT FROM document_root_artifact_id
+               OR version_artifact.previous_artifact_id::text IS DISTINCT FROM d->>'previous_artifact_id'
+               OR version_artifact.version <> (d->>'version')::numeric THEN
+                RAISE EXCEPTION 'Invalid details for %: not the next version of this document', t
+                    USING ERRCODE = '22023';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown event_type: %', t USING ERRCODE = '22023';
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 5. Queue text extraction for new versions too
+DROP TRIGGER IF EXISTS enqueue_document_processing ON public.timeline_events;
+
+CREATE TRIGGER enqueue_document_processing
+    AFTER INSERT ON public.timeline_events
+    FOR EACH ROW
+    WHEN (NEW.event_type IN ('document_uploaded', 'document_version_added'))
+    EXECUTE FUNCTION public.enqueue_document_processing();
+
+-- 6. Search matches version files and maps them to their version event
+CREATE OR REPLACE FUNCTION public.search_timeline(
+    p_query TEXT,
+    p_limit INT DEFAULT 25
+)
+RETURNS TABLE (
+    event_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    title TEXT,
+    headline TEXT,
+    matched_document BOOLEAN,
+    rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_query tsquery;
+BEGIN
+    IF p_query IS NULL OR length(trim(p_query)) = 0 THEN
+        RETURN;
+    END IF;
+
+    IF length(p_query) > 200 THEN
+        RAISE EXCEPTION 'Search query is too long' USING ERRCODE = '22023';
+    END IF;
+
+    v_query := websearch_to_tsquery('english', p_query);
+
+    RETURN QUERY
+    WITH hits AS (
+        SELECT e.id AS hit_event_id, ts_rank(e.search_vector, v_query) AS hit_rank, false AS is_document
+        FROM public.timeline_events e
+        WHERE e.search_vector @@ v_query
+
+        UNION ALL
+
+        SELECT e.id, ts_rank(d.search_vector, v_query), true
+        FROM public.document_artifacts d
+        JOIN public.timeline_events e
+          ON e.event_type IN ('document_uploaded', 'document_version_added')
+         AND e.details->>'document_artifact_id' = d.id::text
+        WHERE d.search_vector @@ v_query
+    ),
+    best AS (
+        SELECT hit_event_id, MAX(hit_rank) AS best_rank, bool_or(is_document) AS any_document
+        FROM hits
+        GROUP BY hit_event_id
+    )
+    SELECT
+        c.id,
+        c.event_type,
+        c.event_time,
+        c.title,
+        ts_headline(
+            'english',
+            concat_ws(' — ', c.title, c.summary, c.details->>'text', c.details->>'notes', d.title),
+            v_query,
+            'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        b.any_document,
+        b.best_rank
+    FROM best b
+    JOIN public.timeline_events_current c ON c.id = b.hit_event_id
+    LEFT JOIN public.document_artifacts d
+      ON d.id::text = c.details->>'document_artifact_id'
+    WHERE NOT c.is_retracted
+    ORDER BY b.best_rank DESC, c.event_time DESC, c.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100);
+END;
+$$;
@@ -0,0 +1,454 @@
+-- Client-side document encryption
+--
+-- Users can opt in to envelope encryption of their document files. Each
+-- key is a random AES-GCM data key generated in the browser and stored
+-- here only in wrapped form: once wrapped by a key derived (PBKDF2) from
+-- the user's passphrase, and once by a key derived from a one-time
+-- recovery code. The server never sees the passphrase, the recovery code
+-- or an unwrapped key.
+--
+-- Files are encrypted before upload; document_artifacts records the key
+-- and IV so the browser can decrypt after download. Titles, dates and
+-- types stay readable so the timeline and search keep working. Encrypted
+-- files are skipped by server-side text extraction.
+--
+-- Key rotation retires the active key, adds a new one and queues a
+-- 'key_rotation' job in one transaction. The browser then re-encrypts
+-- each file still on a retired key, the only change ever made to an
+-- artifact: its ciphertext location, key and IV (column privileges keep
+-- everything else immutable).
+
+-- 1. Wrapped data keys; at most one active key per user
+CREATE TABLE public.user_encryption_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+    -- Base64; wrapped with AES-GCM by a PBKDF2-SHA256 key from the passphrase
+    wrapped_key TEXT NOT NULL,
+    wrap_iv TEXT NOT NULL,
+    kdf_salt TEXT NOT NULL,
+    kdf_iterations INT NOT NULL CHECK (kdf_iterations >= 100000),
+    -- The same data key, wrapped by a key from the recovery code
+    recovery_wrapped_key TEXT NOT NULL,
+    recovery_iv TEXT NOT NULL,
+    recovery_salt TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    retired_at TIMESTAMPTZ,
+    CHECK ((status = 'retired') = (retired_at IS NOT NULL))
+);
+ALTER TABLE public.user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX idx_user_encryption_keys_active
+    ON public.user_encryption_keys (user_id)
+    WHERE status = 'active';
+
+CREATE POLICY "Users can view own encryption keys"
+    ON public.user_encryption_keys FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own encryption keys"
+    ON public.user_encryption_keys FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- Rewrapping (passphrase change, recovery) and retiring only; never deleted
+CREATE POLICY "Users can update own encryption keys"
+    ON public.user_encryption_keys FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.user_encryption_keys FROM authenticated;
+GRANT UPDATE (wrapped_key, wrap_iv, kdf_salt, kdf_iterations, status, retired_at)
+    ON public.user_encryption_keys TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_encryption_key_reactivation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.status = 'retired' AND NEW.status <> 'retired' THEN
+        RAISE EXCEPTION 'A retired key cannot be reactivated' USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_encryption_key_reactivation
+    BEFORE UPDATE ON public.user_encryption_keys
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_encryption_key_reactivation();
+
+-- 2. Encryption of each document file
+ALTER TABLE public.document_artifacts
+ADD COLUMN IF NOT EXISTS encryption_key_id UUID REFERENCES public.user_encryption_keys(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS encryption_iv TEXT;
+
+ALTER TABLE public.document_artifacts
+ADD CONSTRAINT document_artifacts_encryption_valid
+    CHECK ((encryption_key_id IS NULL) = (encryption_iv IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_document_artifacts_encryption_key
+    ON public.document_artifacts (encryption_key_id)
+    WHERE encryption_key_id IS NOT NULL;
+
+-- Re-encryption during key rotation; all other columns stay immutable
+CREATE POLICY "Users can re-encrypt own document_artifacts"
+    ON public.document_artifacts FOR UPDATE
+    USING (auth.uid() = user_id AND encryption_key_id IS NOT NULL)
+    WITH CHECK (auth.uid() = user_id AND encryption_key_id IS NOT NULL);
+
+REVOKE UPDATE ON public.document_artifacts FROM authenticated;
+GRANT UPDATE (storage_path, encryption_key_id, encryption_iv) ON public.document_artifacts TO authenticated;
+
+-- New ciphertext is always written with the user's active key
+CREATE OR REPLACE FUNCTION public.check_document_encryption_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.encryption_key_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM user_encryption_keys k
+        WHERE k.id = NEW.encryption_key_id
+          AND k.user_id = NEW.user_id
+          AND k.status = 'active'
+    ) THEN
+        RAISE EXCEPTION 'Encryption key is not the active key' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_document_encryption_key
+    BEFORE INSERT OR UPDATE OF encryption_key_id, encryption_iv ON public.document_artifacts
+    FOR EACH ROW EXECUTE FUNCTION public.check_document_encryption_key();
+
+-- 3. Rotate: retire the active key, add the new one and queue re-encryption
+CREATE OR REPLACE FUNCTION public.rotate_encryption_key(p_new_key JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_old_key_id UUID;
+    v_new_key_id UUID;
+    v_file_count INT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    UPDATE user_encryption_keys
+    SET status = 'retired', retired_at = now()
+    WHERE user_id = v_user_id AND status = 'active'
+    RETURNING id INTO v_old_key_id;
+
+    IF v_old_key_id IS NULL THEN
+        RAISE EXCEPTION 'No active encryption key' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO user_encryption_keys (
+        user_id, wrapped_key, wrap_iv, kdf_salt, kdf_iterations,
+        recovery_wrapped_key, recovery_iv, recovery_salt
+    )
+    VALUES (
+        v_user_id,
+        p_new_key->>'wrapped_key',
+        p_new_key->>'wrap_iv',
+        p_new_key->>'kdf_salt',
+        (p_new_key->>'kdf_iterations')::int,
+        p_new_key->>'recovery_wrapped_key',
+        p_new_key->>'recovery_iv',
+        p_new_key->>'recovery_salt'
+    )
+    RETURNING id INTO v_new_key_id;
+
+    -- Every encrypted file moves to the new key, including any left on
+    -- keys from an unfinished earlier rotation, which this job supersedes
+    SELECT count(*) INTO v_file_count
+    FROM document_artifacts
+    WHERE user_id = v_user_id AND encryption_key_id IS NOT NULL;
+
+    UPDATE jobs
+    SET status = 'complete'
+    WHERE user_id = v_user_id AND job_type = 'key_rotation' AND status <> 'complete';
+
+    INSERT INTO jobs (user_id, job_type, status, idempotency_key, payload)
+    VALUES (
+        v_user_id,
+        'key_rotation',
+        CASE WHEN v_file_count = 0 THEN 'complete' ELSE 'pending' END::job_status,
+        'key_rotation:' || v_new_key_id,
+        jsonb_build_object(
+            'from_key_id', v_old_key_id,
+            'to_key_id', v_new_key_id,
+            'total', v_file_count
+        )
+    );
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (v_user_id, 'encryption_key_rotated', 'encryption_key', v_new_key_id);
+
+    RETURN v_new_key_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_encryption_key(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_encryption_key(JSONB) TO authenticated;
+
+-- 4. Artifacts record their encryption key and IV (same signature, new body)
+CREATE OR REPLACE FUNCTION public.record_timeline_event(
+    p_source_type data_source_type,
+    p_source_name TEXT,
+    p_provenance_method provenance_method,
+    p_event_type TEXT,
+    p_event_time TIMESTAMPTZ,
+    p_summary TEXT,
+    p_audit_action TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT '{}'::jsonb,
+    p_provenance_metadata JSONB DEFAULT '{}'::jsonb,
+    p_document JSONB DEFAULT NULL,
+    p_idempotency_key UUID DEFAULT NULL,
+    p_attachments JSONB DEFAULT NULL,
+    p_event_timezone TEXT DEFAULT NULL,
+    p_event_time_precision TEXT DEFAULT 'exact',
+    p_event_time_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, provenance_id UUID, document_artifact_id UUID)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_data_source_id UUID;
+    v_agreement_id UUID;
+    v_snapshot_id UUID;
+    v_provenance_id UUID;
+    v_artifact_id UUID;
+    v_event_id UUID;
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_attachment JSONB;
+    v_attachment_id UUID;
+    v_utc_offset_minutes SMALLINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_event_time_end IS NOT NULL AND p_event_time_end < p_event_time THEN
+        RAISE EXCEPTION 'Event time range ends before it starts' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_event_timezone IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_event_timezone) THEN
+            RAISE EXCEPTION 'Unknown time zone' USING ERRCODE = '22023';
+        END IF;
+        -- Offset of the zone at the event's instant (DST-aware)
+        v_utc_offset_minutes := (
+            EXTRACT(EPOCH FROM (p_event_time AT TIME ZONE p_event_timezone) - (p_event_time AT TIME ZONE 'UTC')) / 60
+        )::smallint;
+    END IF;
+
+    IF p_attachments IS NOT NULL THEN
+        IF p_event_type <> 'journal_entry' THEN
+            RAISE EXCEPTION 'Attachments are only supported on journal entries' USING ERRCODE = '22023';
+        ELSIF jsonb_typeof(p_attachments) <> 'array' OR jsonb_array_length(p_attachments) > 10 THEN
+            RAISE EXCEPTION 'Attachments must be an array of at most 10 photos' USING ERRCODE = '22023';
+        ELSIF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_attachments) a
+            WHERE jsonb_typeof(a) <> 'object' OR COALESCE(a->>'content_type', '') NOT LIKE 'image/%'
+        ) THEN
+            RAISE EXCEPTION 'Attachments must be images' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    -- 0. Replayed submission: return the event already written for this key.
+    -- The lock serialises concurrent replays of the same key.
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtextextended('record_timeline_event:' || v_user_id || ':' || p_idempotency_key, 0));
+
+        RETURN QUERY
+        SELECT te.id, te.provenance_id, (te.details->>'document_artifact_id')::uuid
+        FROM timeline_events te
+        WHERE te.user_id = v_user_id
+          AND te.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    -- 1. Data source (get or create)
+    SELECT ds.id INTO v_data_source_id
+    FROM data_sources ds
+    WHERE ds.user_id = v_user_id
+      AND ds.type = p_source_type
+      AND ds.name = p_source_name
+    ORDER BY ds.created_at
+    LIMIT 1;
+
+    IF v_data_source_id IS NULL THEN
+        INSERT INTO data_sources (user_id, type, name, status)
+        VALUES (v_user_id, p_source_type, p_source_name, 'active')
+        RETURNING id INTO v_data_source_id;
+    END IF;
+
+    -- 2. Consent snapshot (latest snapshot of the default storage agreement)
+    SELECT ca.id INTO v_agreement_id
+    FROM consent_agreements ca
+    WHERE ca.user_id = v_user_id
+      AND ca.scope = 'health_data_storage'
+    ORDER BY ca.created_at
+    LIMIT 1;
+
+    IF v_agreement_id IS NULL THEN
+        INSERT INTO consent_agreements (user_id, scope)
+        VALUES (v_user_id, 'health_data_storage')
+        RETURNING id INTO v_agreement_id;
+    END IF;
+
+    SELECT cs.id INTO v_snapshot_id
+    FROM consent_snapshots cs
+    WHERE cs.consent_agreement_id = v_agreement_id
+    ORDER BY cs.created_at DESC
+    LIMIT 1;
+
+    IF v_snapshot_id IS NULL THEN
+        INSERT INTO consent_snapshots (consent_agreement_id, permissions)
+        VALUES (
+            v_agreement_id,
+            jsonb_build_object('store_health_data', true, 'create_timeline_events', true)
+        )
+        RETURNING id INTO v_snapshot_id;
+    END IF;
+
+    -- 3. Provenance
+    INSERT INTO provenance (data_source_id, method, captured_at, metadata)
+    VALUES (v_data_source_id, p_provenance_method, now(), COALESCE(p_provenance_metadata, '{}'::jsonb))
+    RETURNING id INTO v_provenance_id;
+
+    -- 4. Document artifact (uploads and new versions of them, optionally encrypted)
+    IF p_document IS NOT NULL THEN
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename, previous_artifact_id,
+            encryption_key_id, encryption_iv
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            p_document->>'title',
+            p_document->>'doc_type',
+            (p_document->>'occurred_at')::timestamptz,
+            p_document->>'storage_path',
+            p_document->>'content_type',
+            (p_document->>'file_size')::bigint,
+            p_document->>'original_filename',
+            (p_document->>'previous_artifact_id')::uuid,
+            (p_document->>'encryption_key_id')::uuid,
+            p_document->>'encryption_iv'
+        )
+        RETURNING id INTO v_artifact_id;
+
+        v_details := v_details || jsonb_build_object('document_artifact_id', v_artifact_id);
+    END IF;
+
+    -- 5. Timeline event
+    INSERT INTO timeline_events (
+        user_id, provenance_id, consent_snapshot_id,
+        event_type, event_time, event_timezone, event_utc_offset_minutes,
+        event_time_precision, event_time_end,
+        title, summary, details, idempotency_key
+    )
+    VALUES (
+        v_user_id, v_provenance_id, v_snapshot_id,
+        p_event_type, p_event_time, p_event_timezone, v_utc_offset_minutes,
+        COALESCE(p_event_time_precision, 'exact'), p_event_time_end,
+        p_title, p_summary, v_details, p_idempotency_key
+    )
+    RETURNING id INTO v_event_id;
+
+    -- 5b. Photo attachments, sharing the event's provenance
+    FOR v_attachment IN SELECT * FROM jsonb_array_elements(COALESCE(p_attachments, '[]'::jsonb)) LOOP
+        INSERT INTO document_artifacts (
+            user_id, provenance_id, attached_to_event_id, title, doc_type, occurred_at,
+            storage_path, content_type, file_size, original_filename
+        )
+        VALUES (
+            v_user_id,
+            v_provenance_id,
+            v_event_id,
+            v_attachment->>'title',
+            'photo',
+            p_event_time,
+            v_attachment->>'storage_path',
+            v_attachment->>'content_type',
+            (v_attachment->>'file_size')::bigint,
+            v_attachment->>'original_filename'
+        )
+        RETURNING id INTO v_attachment_id;
+
+        INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+        VALUES (v_user_id, 'attachment_added', 'document_artifact', v_attachment_id);
+    END LOOP;
+
+    -- 6. Audit event (IDs only, no PHI)
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (
+        v_user_id,
+        p_audit_action,
+        CASE WHEN v_artifact_id IS NULL THEN 'timeline_event' ELSE 'document_artifact' END,
+        COALESCE(v_artifact_id, v_event_id)
+    );
+
+    RETURN QUERY SELECT v_event_id, v_provenance_id, v_artifact_id;
+END;
+$$;
+
+-- 5. Skip text extraction for encrypted files
+CREATE OR REPLACE FUNCTION public.enqueue_document_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_artifact document_artifacts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_artifact
+    FROM document_artifacts da
+    WHERE da.id::text = NEW.details->>'document_artifact_id'
+      AND da.user_id = NEW.user_id;
+
+    -- Encrypted files can only be read in the browser
+    IF v_artifact.id IS NULL
+       OR v_artifact.encryption_key_id IS NOT NULL
+       OR NOT (v_artifact.content_type = 'application/pdf' OR v_artifact.content_type LIKE 'image/%') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO jobs (user_id, job_type, status, idempotency_key, payload)
+    VALUES (
+        NEW.user_id,
+        'document_processing',
+        'pending',
+        'document_processing:' || v_artifact.id,
+        jsonb_build_object(
+            'document_artifact_id', v_artifact.id,
+            'source_event_id', NEW.id,
+            'content_type', v_artifact.content_type
+        )
+    )
+    ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Re-encryption through an RPC instead of a direct UPDATE
+--
+-- The UPDATE grant on document_artifacts let a user write any
+-- storage_path on their own artifact, and the download proxy signs that
+-- path with the service role. A path into another user's folder would
+-- have been served. Clients now have no UPDATE on document_artifacts at
+-- all: key rotation moves a file with reencrypt_document_artifact(),
+-- which only accepts a path in the caller's own folder and the caller's
+-- active key.
+
+DROP POLICY IF EXISTS "Users can re-encrypt own document_artifacts" ON public.document_artifacts;
+REVOKE UPDATE ON public.document_artifacts FROM authenticated;
+
+-- Point an artifact at its re-encrypted copy. False if the artifact is no
+-- longer on p_from_key_id (moved by another run meanwhile).
+CREATE OR REPLACE FUNCTION public.reencrypt_document_artifact(
+    p_artifact_id UUID,
+    p_from_key_id UUID,
+    p_storage_path TEXT,
+    p_encryption_key_id UUID,
+    p_encryption_iv TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_prefix TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    v_prefix := v_user_id::text || '/';
+    IF p_storage_path IS NULL
+        OR left(p_storage_path, length(v_prefix)) <> v_prefix
+        OR p_storage_path ~ '(^|/)\.\.?(/|$)'
+    THEN
+        RAISE EXCEPTION 'Storage path must be in the user''s folder' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_encryption_iv IS NULL OR NOT EXISTS (
+        SELECT 1 FROM user_encryption_keys k
+        WHERE k.id = p_encryption_key_id
+          AND k.user_id = v_user_id
+          AND k.status = 'active'
+    ) THEN
+        RAISE EXCEPTION 'Encryption key is not the active key' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE document_artifacts
+    SET storage_path = p_storage_path,
+        encryption_key_id = p_encryption_key_id,
+        encryption_iv = p_encryption_iv
+    WHERE id = p_artifact_id
+      AND user_id = v_user_id
+      AND encryption_key_id = p_from_key_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reencrypt_document_artifact(UUID, UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reencrypt_document_artifact(UUID, UUID, TEXT, UUID, TEXT) TO authenticated;
@@ -0,0 +1,90 @@
+-- Versioned canonical form for the timeline_events hash chain
+--
+-- timeline_event_canonical() predates the event time zone and partial
+-- date columns, so event_timezone, event_utc_offset_minutes,
+-- event_time_precision and event_time_end could be changed without
+-- breaking the chain even though the timeline shows them. The canonical
+-- form now has versions:
+--   1  the original content; rows written before this migration keep it,
+--      as rehashing them would erase what the chain attests to
+--   2  adds the time zone, precision and range end columns; every new
+--      row is hashed with it
+-- Each row records its version in hash_version, and the canonical content
+-- of version 2 and later includes the version itself, so changing a row's
+-- hash_version is detected like any other change. verify_hash_chains()
+-- calls timeline_event_canonical(), which picks the row's version.
+
+ALTER TABLE public.timeline_events
+ADD COLUMN IF NOT EXISTS hash_version SMALLINT NOT NULL DEFAULT 1;
+
+ALTER TABLE public.timeline_events
+ALTER COLUMN hash_version SET DEFAULT 2;
+
+-- Canonical content of a timeline event in its hash version (chain columns excluded)
+CREATE OR REPLACE FUNCTION public.timeline_event_canonical(p_event public.timeline_events)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE p_event.hash_version
+        WHEN 1 THEN jsonb_build_object(
+            'id', p_event.id,
+            'user_id', p_event.user_id,
+            'provenance_id', p_event.provenance_id,
+            'consent_snapshot_id', p_event.consent_snapshot_id,
+            'event_type', p_event.event_type,
+            'event_time', public.chain_timestamp(p_event.event_time),
+            'title', p_event.title,
+            'summary', p_event.summary,
+            'details', p_event.details,
+            'created_at', public.chain_timestamp(p_event.created_at)
+        )::text
+        ELSE jsonb_build_object(
+            'hash_version', p_event.hash_version,
+            'id', p_event.id,
+            'user_id', p_event.user_id,
+            'provenance_id', p_event.provenance_id,
+            'consent_snapshot_id', p_event.consent_snapshot_id,
+            'event_type', p_event.event_type,
+            'event_time', public.chain_timestamp(p_event.event_time),
+            'event_timezone', p_event.event_timezone,
+            'event_utc_offset_minutes', p_event.event_utc_offset_minutes,
+            'event_time_precision', p_event.event_time_precision,
+            'event_time_end', public.chain_timestamp(p_event.event_time_end),
+            'title', p_event.title,
+            'summary', p_event.summary,
+            'details', p_event.details,
+            'created_at', public.chain_timestamp(p_event.created_at)
+        )::text
+    END;
+$$;
+
+-- Trigger: append a timeline event to its user's chain, always in the
+-- current hash version
+CREATE OR REPLACE FUNCTION public.chain_timeline_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_prev_seq BIGINT;
+    v_prev_hash TEXT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('timeline_events:' || NEW.user_id::text, 0));
+
+    SELECT t.chain_seq, t.row_hash
+    INTO v_prev_seq, v_prev_hash
+    FROM public.timeline_events t
+    WHERE t.user_id = NEW.user_id
+    ORDER BY t.chain_seq DESC
+    LIMIT 1;
+
+    NEW.hash_version := 2;
+    NEW.chain_seq := COALESCE(v_prev_seq, 0) + 1;
+    NEW.prev_hash := v_prev_hash;
+    NEW.row_hash := public.chain_hash(v_prev_hash, public.timeline_event_canonical(NEW));
+
+    RETURN NEW;
+END;
+$$;
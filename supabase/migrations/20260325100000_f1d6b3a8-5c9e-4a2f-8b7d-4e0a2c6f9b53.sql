@@ -0,0 +1,11 @@
+-- Lease on claimed jobs
+--
+-- The document-processing function claims a job by moving it to
+-- 'running'. If the function is stopped mid-job (time limit, crash) the
+-- job stayed 'running' and its document was never processed. A claim now
+-- records claimed_at, and a 'running' job whose claim is older than the
+-- function can run is claimed again by the next call. Jobs left running
+-- before this column existed have no claim time and are claimed again too.
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
@@ -0,0 +1,234 @@
+-- One timeline page at a time
+--
+-- The Timeline paged through timeline_events_as_of(), which resolves the
+-- amendment, retraction and tag state of the user's whole history before
+-- any filter or cursor applies, so every page cost as much as the full
+-- timeline. timeline_events_page() takes the cursor, page size and
+-- filters as parameters instead: it walks the user's events in
+-- (event_time DESC, id DESC) order on idx_timeline_events_user_event_time,
+-- resolves the state of each event on its own (through the indexes on
+-- amends_event_id and retracts_event_id) and stops once the page is full.
+--
+-- Rows match timeline_events_as_of() for the same cutoff. Retracted
+-- events are left out, as the Timeline never shows them.
+--
+-- The date filter keeps every event whose period overlaps p_from..p_to:
+-- a range until its event_time_end, and a year, month or day until the
+-- end of that period in the zone it was entered in (event_period_end()
+-- mirrors eventPeriodEnd in src/lib/partial-dates.ts).
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_retracts_event_id
+    ON public.timeline_events ((details->>'retracts_event_id'))
+    WHERE event_type = 'event_retracted';
+
+-- Last instant an event may have happened at
+CREATE OR REPLACE FUNCTION public.event_period_end(
+    p_event_time TIMESTAMPTZ,
+    p_precision TEXT,
+    p_timezone TEXT,
+    p_event_time_end TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+SELECT CASE
+    WHEN p_event_time_end IS NOT NULL THEN p_event_time_end
+    WHEN p_precision IN ('year', 'month', 'day') THEN
+        (date_trunc(p_precision, p_event_time AT TIME ZONE COALESCE(p_timezone, 'UTC'))
+            + ('1 ' || p_precision)::interval) AT TIME ZONE COALESCE(p_timezone, 'UTC')
+        - interval '1 millisecond'
+    ELSE p_event_time
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.timeline_events_page(
+    p_limit INT,
+    p_as_of TIMESTAMPTZ DEFAULT NULL,
+    -- Keyset cursor: the last row of the previous page
+    p_before_time TIMESTAMPTZ DEFAULT NULL,
+    p_before_id UUID DEFAULT NULL,
+    p_event_type TEXT DEFAULT NULL,
+    -- Journal category, after amendments
+    p_category TEXT DEFAULT NULL,
+    -- Case-insensitive match on an external event's provider name
+    p_provider TEXT DEFAULT NULL,
+    p_tag TEXT DEFAULT NULL,
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    provenance_id UUID,
+    consent_snapshot_id UUID,
+    event_type TEXT,
+    event_time TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    title TEXT,
+    summary TEXT,
+    details JSONB,
+    is_amended BOOLEAN,
+    latest_amendment_id UUID,
+    amendment_count INT,
+    original_title TEXT,
+    original_summary TEXT,
+    original_details JSONB,
+    is_retracted BOOLEAN,
+    retraction_id UUID,
+    retraction_reason TEXT,
+    tags TEXT[],
+    event_timezone TEXT,
+    event_utc_offset_minutes SMALLINT,
+    event_time_precision TEXT,
+    event_time_end TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+SELECT *
+FROM (
+    SELECT
+        e.id,
+        e.user_id,
+        e.provenance_id,
+        e.consent_snapshot_id,
+        e.event_type,
+        e.event_time,
+        e.created_at,
+        CASE
+            WHEN l.id IS NULL THEN e.title
+            ELSE COALESCE(l.details->>'title', regexp_replace(l.title, '^Amended: ', ''))
+        END AS title,
+        CASE
+            WHEN l.id IS NOT NULL AND l.details->>'amended_event_type' = 'journal_entry' THEN l.summary
+            ELSE e.summary
+        END AS summary,
+        CASE
+            WHEN l.id IS NULL THEN e.details
+            WHEN l.details->>'amended_event_type' = 'journal_entry' THEN
+                COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                    'text', l.details->'text',
+                    'category', COALESCE(NULLIF(l.details->'category', 'null'::jsonb), e.details->'category')
+                )
+            ELSE
+                COALESCE(e.details, '{}'::jsonb) || jsonb_build_object(
+                    'doc_type', COALESCE(NULLIF(l.details->'doc_type', 'null'::jsonb), e.details->'doc_type'),
+                    'notes', l.details->'notes'
+                )
+        END AS details,
+        (l.id IS NOT NULL) AS is_amended,
+        l.id AS latest_amendment_id,
+        COALESCE(l.amendment_count, 0)::int AS amendment_count,
+        e.title AS original_title,
+        e.summary AS original_summary,
+        e.details AS original_details,
+        (rx.retraction_id IS NOT NULL) AS is_retracted,
+        rx.retraction_id,
+        rx.reason_code AS retraction_reason,
+        tg.tags,
+        e.event_timezone,
+        e.event_utc_offset_minutes,
+        e.event_time_precision,
+        e.event_time_end
+    FROM public.timeline_events e
+    -- An amendment's original event: walk up through amendments of amendments
+    LEFT JOIN LATERAL (
+        WITH RECURSIVE up AS (
+            SELECT e.id, e.event_type, e.details, 0 AS depth
+            UNION ALL
+            SELECT t.id, t.event_type, t.details, u.depth + 1
+            FROM up u
+            JOIN public.timeline_events t
+              ON t.id = CASE WHEN u.details->>'amends_event_id' ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+                             THEN (u.details->>'amends_event_id')::uuid END
+            WHERE u.event_type = 'event_amended'
+              AND u.depth < 32
+              AND (p_as_of IS NULL OR t.created_at <= p_as_of)
+        )
+        SELECT up.id AS root_id
+        FROM up
+        WHERE up.depth > 0 AND up.event_type <> 'event_amended'
+        LIMIT 1
+    ) ar ON e.event_type = 'event_amended'
+    -- An original event's latest amendment that is not itself retracted
+    LEFT JOIN LATERAL (
+        WITH RECURSIVE down AS (
+            SELECT a.id, a.created_at, a.title, a.summary, a.details, 1 AS depth
+            FROM public.timeline_events a
+            WHERE a.event_type = 'event_amended'
+              AND a.details->>'amends_event_id' = e.id::text
+              AND (p_as_of IS NULL OR a.created_at <= p_as_of)
+            UNION ALL
+            SELECT a.id, a.created_at, a.title, a.summary, a.details, d.depth + 1
+            FROM down d
+            JOIN public.timeline_events a
+              ON a.event_type = 'event_amended'
+             AND a.details->>'amends_event_id' = d.id::text
+            WHERE d.depth < 32
+              AND (p_as_of IS NULL OR a.created_at <= p_as_of)
+        ),
+        live AS (
+            SELECT d.*
+            FROM down d
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.timeline_events r
+                WHERE r.event_type = 'event_retracted'
+                  AND r.details->>'retracts_event_id' = d.id::text
+                  AND (p_as_of IS NULL OR r.created_at <= p_as_of)
+            )
+        )
+        SELECT live.id, live.title, live.summary, live.details, (SELECT count(*) FROM live) AS amendment_count
+        FROM live
+        ORDER BY live.created_at DESC, live.id DESC
+        LIMIT 1
+    ) l ON e.event_type <> 'event_amended'
+    -- Retracted directly, or because the original it amends was retracted
+    LEFT JOIN LATERAL (
+        SELECT r.id AS retraction_id, r.details->>'reason_code' AS reason_code
+        FROM public.timeline_events r
+        WHERE r.event_type = 'event_retracted'
+          AND r.details->>'retracts_event_id' IN (e.id::text, ar.root_id::text)
+          AND (p_as_of IS NULL OR r.created_at <= p_as_of)
+        ORDER BY (r.details->>'retracts_event_id' = e.id::text) DESC, r.created_at, r.id
+        LIMIT 1
+    ) rx ON true
+    -- Current tag set: tags whose latest action (as of the cutoff) is 'added'
+    CROSS JOIN LATERAL (
+        SELECT COALESCE((
+            SELECT array_agg(t.tag ORDER BY t.tag)
+            FROM (
+                SELECT DISTINCT ON (ta.tag) ta.tag, ta.action
+                FROM public.event_tag_actions ta
+                WHERE ta.event_id = e.id
+                  AND (p_as_of IS NULL OR ta.created_at <= p_as_of)
+                ORDER BY ta.tag, ta.created_at DESC, ta.id DESC
+            ) t
+            WHERE t.action = 'added'
+        ), '{}'::text[]) AS tags
+    ) tg
+    WHERE e.user_id = auth.uid()
+      AND (p_as_of IS NULL OR e.created_at <= p_as_of)
+      AND (p_before_time IS NULL OR (e.event_time, e.id) < (p_before_time, p_before_id))
+      AND (p_event_type IS NULL OR e.event_type = p_event_type)
+      AND (p_from IS NULL
+           OR public.event_period_end(e.event_time, e.event_time_precision, e.event_timezone, e.event_time_end) >= p_from)
+      AND (p_to IS NULL OR e.event_time <= p_to)
+) page
+WHERE NOT page.is_retracted
+  AND (p_category IS NULL OR page.details->>'category' = p_category)
+  AND (p_provider IS NULL OR page.details->>'provider_name' ILIKE '%' || p_provider || '%')
+  AND (p_tag IS NULL OR p_tag = ANY (page.tags))
+ORDER BY page.event_time DESC, page.id DESC
+LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.timeline_events_page(
+    INT, TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ
+) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.timeline_events_page(
+    INT, TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ
+) TO authenticated;
@@ -0,0 +1,76 @@
+-- Tracker writes and their audit events in one transaction
+--
+-- Creating or archiving a tracker wrote the tracker row and then, in a
+-- second request, its audit event, so a failed or interrupted second
+-- request left a change without an audit record. create_tracker() and
+-- archive_tracker() now write both or neither. The validate_tracker
+-- trigger still checks definitions and keeps fields frozen.
+
+-- 1. Create a tracker definition
+CREATE OR REPLACE FUNCTION public.create_tracker(
+    p_name TEXT,
+    p_fields JSONB,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_tracker_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    INSERT INTO trackers (user_id, name, description, fields)
+    VALUES (v_user_id, p_name, p_description, p_fields)
+    RETURNING id INTO v_tracker_id;
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (v_user_id, 'tracker_created', 'tracker', v_tracker_id);
+
+    RETURN v_tracker_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_tracker(TEXT, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_tracker(TEXT, JSONB, TEXT) TO authenticated;
+
+-- 2. Archive a tracker (a no-op if it is already archived)
+CREATE OR REPLACE FUNCTION public.archive_tracker(p_tracker_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_archived_at TIMESTAMPTZ;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    SELECT archived_at INTO v_archived_at
+    FROM trackers
+    WHERE id = p_tracker_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Tracker not found' USING ERRCODE = '22023';
+    ELSIF v_archived_at IS NOT NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE trackers SET archived_at = now() WHERE id = p_tracker_id;
+
+    INSERT INTO audit_events (user_id, action, entity_type, entity_id)
+    VALUES (v_user_id, 'tracker_archived', 'tracker', p_tracker_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.archive_tracker(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.archive_tracker(UUID) TO authenticated;